@@ -7,6 +7,8 @@ import AutoCreateQuiz from "@/pages/AutoCreateQuiz";
 import AnswerQuiz from "@/pages/AnswerQuiz";
 import Results from "@/pages/Results";
 import Dashboard from "@/pages/Dashboard";
+import LiveHost from "@/pages/LiveHost";
+import LiveGame from "@/pages/LiveGame";
 import FindQuiz from "@/pages/FindQuiz";
 import ShareQuizPage from "@/pages/ShareQuizPage";
 import TestQuizLookup from "@/pages/TestQuizLookup";
@@ -46,7 +48,9 @@ function Router() {
       <Route path="/quiz/code/:accessCode" component={AnswerQuiz} />
       <Route path="/quiz/:creatorSlug" component={AnswerQuiz} />
       <Route path="/results/:quizId/:attemptId" component={Results} />
+      <Route path="/dashboard/:token/live" component={LiveHost} />
       <Route path="/dashboard/:token" component={Dashboard} />
+      <Route path="/live/:pin?" component={LiveGame} />
       <Route path="/share/:quizId" component={ShareQuizPage} />
       <Route path="/test-quiz-lookup" component={TestQuizLookup} />
       <Route path="/privacy" component={Privacy} />
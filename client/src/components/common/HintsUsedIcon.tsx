@@ -0,0 +1,23 @@
+import React from "react";
+import { Lightbulb } from "lucide-react";
+
+interface HintsUsedIconProps {
+  count: number;
+}
+
+/**
+ * Marks an attempt that revealed hints, with how many; nothing when it revealed none
+ */
+const HintsUsedIcon: React.FC<HintsUsedIconProps> = ({ count }) => {
+  if (count === 0) return null;
+  const label = `Used ${count} hint${count === 1 ? "" : "s"}`;
+
+  return (
+    <span className="inline-flex items-center ml-1 text-amber-600 align-middle" title={label} aria-label={label}>
+      <Lightbulb className="h-3.5 w-3.5" />
+      {count > 1 && <span className="text-xs">{count}</span>}
+    </span>
+  );
+};
+
+export default HintsUsedIcon;
@@ -1,48 +1,41 @@
-import React, { useEffect, useState, useMemo } from "react";
-import { QuizAttempt } from "@shared/schema";
-import { formatPercentage } from "@/lib/utils";
+import React, { useMemo } from "react";
+import { compareLeaderboardAttempts, LeaderboardAttempt, Lifeline } from "@shared/schema";
+import { formatDuration, formatPercentage, formatPoints } from "@/lib/utils";
+import { useLiveAttempts } from "@/hooks/use-live-attempts";
 import { Loader2 } from "lucide-react";
+import HintsUsedIcon from "./HintsUsedIcon";
+import LifelineIcons from "./LifelineIcons";
 
 interface LeaderboardProps {
-  attempts: QuizAttempt[];
+  quizId: number;
   currentUserName?: string;
   currentUserScore?: number;
   currentUserTotalQuestions?: number;
+  currentUserPoints?: number;
+  currentUserMaxPoints?: number;
+  currentUserTotalTimeMs?: number | null;
+  currentUserHintsUsed?: number;
+  currentUserLifelinesUsed?: Lifeline[];
 }
 
+/**
+ * The quiz's public leaderboard, updated live as players submit
+ */
 const Leaderboard: React.FC<LeaderboardProps> = ({ 
-  attempts, 
+  quizId, 
   currentUserName,
   currentUserScore = 0,
-  currentUserTotalQuestions = 1
+  currentUserTotalQuestions = 1,
+  currentUserPoints = currentUserScore,
+  currentUserMaxPoints = currentUserTotalQuestions,
+  currentUserTotalTimeMs = null,
+  currentUserHintsUsed = 0,
+  currentUserLifelinesUsed = []
 }) => {
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [refreshKey, setRefreshKey] = useState(0);
-
-  // Force refresh the leaderboard data when attempts or current user data changes
-  useEffect(() => {
-    console.log("Leaderboard received new data:", { 
-      attemptsCount: attempts?.length, 
-      attempt_ids: attempts?.map(a => a.id),
-      currentUserName,
-      currentUserScore
-    });
-    
-    // Show loading state briefly for visual feedback
-    setIsRefreshing(true);
-    const timer = setTimeout(() => {
-      setRefreshKey(prev => prev + 1); // Increment key to force re-render
-      setIsRefreshing(false);
-    }, 300);
-    
-    return () => clearTimeout(timer);
-  }, [
-    attempts, 
-    attempts?.length, 
-    currentUserName, 
-    currentUserScore, 
-    currentUserTotalQuestions
-  ]);
+  const { attempts, isLoading } = useLiveAttempts<LeaderboardAttempt>(
+    `/api/quizzes/${quizId}/live`,
+    `/api/quizzes/${quizId}/attempts`
+  );
   
   // Memoize the processed leaderboard data to avoid recalculations
   const sortedLeaderboardData = useMemo(() => {
@@ -51,11 +44,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
       ...attempt,
       // Ensure score can't exceed total questions
       score: Math.min(attempt.score, attempt.totalQuestions)
-    })).sort((a, b) => {
-      const scoreA = (a.score / (a.totalQuestions || 1)) * 100;
-      const scoreB = (b.score / (b.totalQuestions || 1)) * 100;
-      return scoreB - scoreA;
-    });
+    })).sort(compareLeaderboardAttempts);
 
     // Check if current user exists in the attempts data
     const userExists = currentUserName && sortedData.some(a => 
@@ -72,28 +61,42 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
         userName: currentUserName,
         score: Math.min(currentUserScore, currentUserTotalQuestions || 1),
         totalQuestions: currentUserTotalQuestions || 1,
-        answers: [],
+        points: currentUserPoints,
+        maxPoints: currentUserMaxPoints,
+        totalTimeMs: currentUserTotalTimeMs,
+        hintsUsed: currentUserHintsUsed,
+        lifelinesUsed: currentUserLifelinesUsed,
+        startedAt: null,
+        shuffle: null,
+        quizRevision: 0,
+        hiddenAt: null,
+        deletedAt: null,
         completedAt: new Date()
       };
       
       // Add to sorted array and resort
       sortedData.push(userAttempt);
-      sortedData = sortedData.sort((a, b) => {
-        const scoreA = (a.score / (a.totalQuestions || 1)) * 100;
-        const scoreB = (b.score / (b.totalQuestions || 1)) * 100;
-        return scoreB - scoreA;
-      });
+      sortedData = sortedData.sort(compareLeaderboardAttempts);
     }
     
     return sortedData;
-  }, [attempts, currentUserName, currentUserScore, currentUserTotalQuestions, refreshKey]);
+  }, [
+    attempts,
+    currentUserName,
+    currentUserScore,
+    currentUserTotalQuestions,
+    currentUserPoints,
+    currentUserMaxPoints,
+    currentUserTotalTimeMs,
+    currentUserHintsUsed,
+    currentUserLifelinesUsed
+  ]);
   
-  // If refreshing, show loading state
-  if (isRefreshing) {
+  if (isLoading) {
     return (
       <div className="overflow-hidden rounded-lg border border-gray-200 p-8 text-center">
         <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2 text-primary" />
-        <p className="text-muted-foreground text-sm">Refreshing leaderboard...</p>
+        <p className="text-muted-foreground text-sm">Loading leaderboard...</p>
       </div>
     );
   }
@@ -119,7 +122,10 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
               Name
             </th>
             <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-              Score
+              Points
+            </th>
+            <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Time
             </th>
           </tr>
         </thead>
@@ -141,12 +147,20 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
                   ) : (
                     attempt.userName || "Anonymous"
                   )}
+                  <HintsUsedIcon count={attempt.hintsUsed ?? 0} />
+                  <LifelineIcons lifelines={attempt.lifelinesUsed ?? []} />
                 </td>
                 <td className="px-4 py-3 whitespace-nowrap text-sm text-right font-medium">
                   <span className={isCurrentUser ? "text-orange-600" : "text-primary"}>
-                    {formatPercentage(attempt.score, attempt.totalQuestions || 1)}
+                    {formatPoints(attempt.points)}
+                  </span>
+                  <span className="block text-xs font-normal text-gray-500">
+                    {formatPercentage(attempt.score, attempt.totalQuestions || 1)} right
                   </span>
                 </td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-500">
+                  {attempt.totalTimeMs !== null ? formatDuration(attempt.totalTimeMs) : "–"}
+                </td>
               </tr>
             );
           })}
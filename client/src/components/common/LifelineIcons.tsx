@@ -0,0 +1,37 @@
+import React from "react";
+import { Lifeline } from "@shared/schema";
+import { Scissors, SkipForward } from "lucide-react";
+
+interface LifelineIconsProps {
+  lifelines: Lifeline[];
+}
+
+const lifelineLabels: Record<Lifeline, string> = {
+  "fifty-fifty": "Used the 50:50",
+  "skip": "Skipped a question"
+};
+
+/**
+ * Marks an attempt with the lifelines it used; nothing when it used none
+ */
+const LifelineIcons: React.FC<LifelineIconsProps> = ({ lifelines }) => {
+  return (
+    <>
+      {lifelines.map(lifeline => {
+        const Icon = lifeline === "skip" ? SkipForward : Scissors;
+        return (
+          <span
+            key={lifeline}
+            className="inline-flex items-center ml-1 text-sky-600 align-middle"
+            title={lifelineLabels[lifeline]}
+            aria-label={lifelineLabels[lifeline]}
+          >
+            <Icon className="h-3.5 w-3.5" />
+          </span>
+        );
+      })}
+    </>
+  );
+};
+
+export default LifelineIcons;
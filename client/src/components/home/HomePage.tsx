@@ -4,6 +4,7 @@ import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { trackEvent } from "@/lib/analytics";
+import { getPlayerToken, savePlayerToken } from "@/lib/playerToken";
 import AdPlaceholder from "@/components/common/AdPlaceholder";
 import PWAInstallBanner from "@/components/common/PWAInstallBanner";
 import Layout from "@/components/common/Layout";
@@ -22,7 +23,7 @@ const HomePage: React.FC = () => {
 
   // Check if there's a pending quiz to answer
   const [pendingQuiz, setPendingQuiz] = useState<{
-    type: 'code' | 'slug';
+    type: 'code' | 'slug' | 'live';
     value: string;
   } | null>(null);
   
@@ -31,6 +32,7 @@ const HomePage: React.FC = () => {
     // Check if there's a pending quiz code or slug in session storage
     const pendingQuizCode = sessionStorage.getItem("pendingQuizCode");
     const pendingQuizSlug = sessionStorage.getItem("pendingQuizSlug");
+    const pendingLivePin = sessionStorage.getItem("pendingLivePin");
     
     if (pendingQuizCode) {
       setPendingQuiz({ type: 'code', value: pendingQuizCode });
@@ -38,13 +40,18 @@ const HomePage: React.FC = () => {
     } else if (pendingQuizSlug) {
       setPendingQuiz({ type: 'slug', value: pendingQuizSlug });
       sessionStorage.removeItem("pendingQuizSlug");
+    } else if (pendingLivePin) {
+      setPendingQuiz({ type: 'live', value: pendingLivePin });
+      sessionStorage.removeItem("pendingLivePin");
     }
   }, []);
 
   const createUserMutation = useMutation({
     mutationFn: async (name: string) => {
-      const response = await apiRequest("POST", "/api/users", { username: name });
-      return response.json();
+      const response = await apiRequest("POST", "/api/users", { username: name, playerToken: getPlayerToken() });
+      const user = await response.json();
+      savePlayerToken(user.playerToken);
+      return user;
     },
   });
 
@@ -169,6 +176,8 @@ const HomePage: React.FC = () => {
       if (pendingQuiz) {
         if (pendingQuiz.type === 'code') {
           navigate(`/quiz/code/${pendingQuiz.value}`);
+        } else if (pendingQuiz.type === 'live') {
+          navigate(`/live/${pendingQuiz.value}`);
         } else {
           navigate(`/quiz/${pendingQuiz.value}`);
         }
@@ -314,7 +323,7 @@ const HomePage: React.FC = () => {
                   >
                     {pendingQuiz ? (
                       <>
-                        <ArrowRight className="h-4 w-4 mr-2" /> Answer This Quiz
+                        <ArrowRight className="h-4 w-4 mr-2" /> {pendingQuiz.type === 'live' ? 'Join This Game' : 'Answer This Quiz'}
                       </>
                     ) : (
                       <>
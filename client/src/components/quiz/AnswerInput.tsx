@@ -0,0 +1,138 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { PlayerQuestion, resolveNumericSettings, splitMatchingOptions } from "@shared/schema";
+import OrderingAnswer from "./OrderingAnswer";
+import MatchingAnswer from "./MatchingAnswer";
+import NumericAnswer from "./NumericAnswer";
+
+interface AnswerInputProps {
+  question: PlayerQuestion;
+  selectedOption: string; // Picked option, or the typed answer
+  setSelectedOption: (value: string) => void;
+  selectedOptions: string[]; // Multi-select questions
+  setSelectedOptions: (options: string[]) => void;
+  arrangement: string[]; // Ordering and matching questions
+  setArrangement: (arrangement: string[]) => void;
+  removedOptions?: string[]; // Taken away by a 50:50
+  locked?: boolean; // Shown, but no longer answerable
+  correctAnswers?: string[]; // Options to mark as correct once revealed
+  onSubmit: () => void;
+}
+
+/**
+ * Arrangement a question starts with: ordering items in the order the options were shuffled to,
+ * matching questions with every prompt empty
+ */
+export function initialArrangement(question: PlayerQuestion): string[] {
+  const options = question.options as string[];
+  if (question.type === "ordering") return [...options];
+  if (question.type === "matching") return splitMatchingOptions(options).prompts.map(() => "");
+  return [];
+}
+
+/**
+ * The way a player answers a question, for every question type
+ */
+const AnswerInput: React.FC<AnswerInputProps> = ({
+  question,
+  selectedOption,
+  setSelectedOption,
+  selectedOptions,
+  setSelectedOptions,
+  arrangement,
+  setArrangement,
+  removedOptions = [],
+  locked = false,
+  correctAnswers,
+  onSubmit
+}) => {
+  const isMultiSelect = question.type === "multi-select";
+  const isOrdering = question.type === "ordering";
+  const isMatching = question.type === "matching";
+  const matchingOptions = splitMatchingOptions(isMatching ? question.options as string[] : []);
+
+  const handleOptionSelect = (option: string) => {
+    if (isMultiSelect) {
+      setSelectedOptions(selectedOptions.includes(option)
+        ? selectedOptions.filter(selected => selected !== option)
+        : [...selectedOptions, option]);
+    } else {
+      setSelectedOption(option);
+    }
+  };
+
+  const isSelected = (option: string) =>
+    isMultiSelect ? selectedOptions.includes(option) : selectedOption === option;
+
+  const optionBorder = (option: string) => {
+    if (correctAnswers?.includes(option)) return "border-green-500 bg-green-50";
+    return isSelected(option) ? "border-primary" : "border-gray-200";
+  };
+
+  return (
+    <div className={locked ? "pointer-events-none" : undefined} aria-disabled={locked}>
+      {isMultiSelect && (
+        <p className="text-sm text-muted-foreground text-center mb-3">Select all that apply</p>
+      )}
+      
+      {/* Typed answer - matched on the server with the creator's typo tolerance */}
+      {question.type === "open-ended" && (
+        <Input
+          value={selectedOption}
+          onChange={(e) => setSelectedOption(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") onSubmit();
+          }}
+          placeholder="Type your answer"
+          maxLength={200}
+          readOnly={locked}
+          autoFocus
+        />
+      )}
+      
+      {question.type === "numeric" && (
+        <NumericAnswer
+          settings={resolveNumericSettings(question.numericSettings)}
+          value={selectedOption}
+          onChange={setSelectedOption}
+          onSubmit={onSubmit}
+        />
+      )}
+      
+      {isOrdering && (
+        <OrderingAnswer items={arrangement} onChange={setArrangement} />
+      )}
+      
+      {isMatching && (
+        <MatchingAnswer
+          prompts={matchingOptions.prompts}
+          choices={matchingOptions.choices}
+          matches={arrangement}
+          onChange={setArrangement}
+        />
+      )}
+      
+      {/* Answer options - round markers pick one, square markers pick several */}
+      {!isOrdering && !isMatching && (
+        <div className="space-y-3">
+          {(question.options as string[]).map((option, index) => removedOptions.includes(option) ? null : (
+            <label 
+              key={index}
+              className={`block p-3 bg-white border ${optionBorder(option)} rounded-lg hover:border-primary cursor-pointer transition-colors`}
+              onClick={() => handleOptionSelect(option)}
+            >
+              <div className="flex items-center">
+                <div className={`w-5 h-5 ${isMultiSelect ? 'rounded' : 'rounded-full'} ${
+                  isSelected(option) ? 'bg-primary' : 'border-2 border-gray-300'
+                } mr-3 flex-shrink-0`}></div>
+                <span>{option}</span>
+              </div>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnswerInput;
@@ -0,0 +1,77 @@
+import React from "react";
+import { Question, QuestionAnswer, QuizAttempt, arrangeQuestions, formatAnswer } from "@shared/schema";
+import { formatDuration } from "@/lib/utils";
+import { Check, X } from "lucide-react";
+
+interface AttemptAnswersProps {
+  attempt: QuizAttempt;
+  questions: Question[];
+}
+
+// Question types answered by picking from the listed options
+const PICKED_TYPES = ["multiple-choice", "true-false", "multi-select"];
+
+const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+/**
+ * One player's answers, with the questions and options in the order that player saw them
+ */
+const AttemptAnswers: React.FC<AttemptAnswersProps> = ({ attempt, questions }) => {
+  const answers = attempt.answers as QuestionAnswer[];
+
+  return (
+    <ol className="space-y-3 text-sm">
+      {arrangeQuestions(questions, attempt.shuffle).map((question, index) => {
+        const answer = answers.find(a => a.questionId === question.id);
+        const picked = answer ? [answer.userAnswer].flat().map(value => value.toLowerCase().trim()) : [];
+        const correctAnswers = (question.correctAnswers as string[]).map(value => value.toLowerCase().trim());
+
+        return (
+          <li key={question.id}>
+            <div className="flex items-center gap-2 font-medium text-gray-900">
+              {answer?.isCorrect
+                ? <Check className="h-4 w-4 text-green-600 flex-shrink-0" />
+                : <X className="h-4 w-4 text-red-500 flex-shrink-0" />}
+              <span>{index + 1}. {question.text}</span>
+            </div>
+
+            {PICKED_TYPES.includes(question.type) ? (
+              <ul className="ml-6 mt-1 space-y-0.5">
+                {(question.options as string[]).map((option, optionIndex) => {
+                  const value = option.toLowerCase().trim();
+                  return (
+                    <li
+                      key={option}
+                      className={`${picked.includes(value) ? "font-semibold" : ""} ${
+                        correctAnswers.includes(value) ? "text-green-700" : "text-gray-600"
+                      }`}
+                    >
+                      {optionLetter(optionIndex)}) {option}
+                      {picked.includes(value) && " ← picked"}
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <div className="ml-6 mt-1 text-gray-600">
+                {formatAnswer(question, answer?.userAnswer) || "No answer"}
+              </div>
+            )}
+
+            {(answer?.timeMs !== undefined || answer?.timedOut || answer?.hintUsed || answer?.fiftyFifty || answer?.skipped) && (
+              <div className="ml-6 text-xs text-gray-500">
+                {answer.timeMs !== undefined && formatDuration(answer.timeMs)}
+                {answer.timedOut && " · out of time"}
+                {answer.hintUsed && " · hint used"}
+                {answer.fiftyFifty && " · 50:50"}
+                {answer.skipped && " · skipped"}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default AttemptAnswers;
@@ -1,32 +1,172 @@
 import React from "react";
 import { useLocation } from "wouter";
-import { useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Question, QuizAttempt } from "@shared/schema";
-import { formatPercentage } from "@/lib/utils";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AttemptExportFormat, Question, Quiz, QuizAttempt, compareLeaderboardAttempts, formatAnswer } from "@shared/schema";
+import { formatDuration, formatPercentage, formatPoints } from "@/lib/utils";
+import { apiRequest } from "@/lib/queryClient";
+import { quizFileChoices } from "@/lib/quizFiles";
 import Layout from "../common/Layout";
-import { Share, RefreshCw } from "lucide-react";
+import { Share, RefreshCw, Radio, Download, Eye, EyeOff, Trash2, ChevronDown, ChevronUp } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import QuizEditor from "./QuizEditor";
+import NearMissReview from "./NearMissReview";
+import QuizAnalyticsView from "./QuizAnalyticsView";
+import AttemptAnswers from "./AttemptAnswers";
+import HintsUsedIcon from "../common/HintsUsedIcon";
+import LifelineIcons from "../common/LifelineIcons";
 
 interface DashboardProps {
+  quiz: Quiz;
   quizId: number;
+  dashboardToken: string;
   accessCode: string;
   questions: Question[];
   attempts: QuizAttempt[];
+  onAttemptsChange: () => Promise<void>;
+}
+
+// Files the results can be downloaded as
+const EXPORT_CHOICES: { format: AttemptExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "Excel (XLSX)" },
+  { format: "json", label: "JSON" }
+];
+
+interface DeletionResponse {
+  deleted: boolean;
+  undoUntil: string;
 }
 
 const Dashboard: React.FC<DashboardProps> = ({ 
+  quiz,
   quizId, 
+  dashboardToken,
   accessCode, 
   questions, 
-  attempts 
+  attempts,
+  onAttemptsChange
 }) => {
   const [, navigate] = useLocation();
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const [isRefreshing, setIsRefreshing] = React.useState(false);
   
+  // Set while a deleted quiz can still be restored
+  const [quizDeletedUntil, setQuizDeletedUntil] = React.useState<Date | null>(null);
+  const [now, setNow] = React.useState(Date.now());
+  const [expandedAttemptId, setExpandedAttemptId] = React.useState<number | null>(null);
+  
+  // The analytics add up the attempts, so they are out of date whenever the server pushes new ones
+  React.useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: [`/api/quizzes/dashboard/${dashboardToken}/analytics`] });
+  }, [attempts]);
+  
+  React.useEffect(() => {
+    if (!quizDeletedUntil) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [quizDeletedUntil]);
+  
+  const undoDuration = (undoUntil: string) => Math.max(new Date(undoUntil).getTime() - Date.now(), 0);
+  
+  const showError = (title: string) => (error: Error) => {
+    console.error(`${title}:`, error);
+    toast({ title, description: "Please try again.", variant: "destructive" });
+  };
+  
+  const attemptVisibilityMutation = useMutation({
+    mutationFn: async ({ attemptId, hidden }: { attemptId: number; hidden: boolean }) => {
+      await apiRequest("PATCH", `/api/quizzes/dashboard/${dashboardToken}/attempts/${attemptId}`, { hidden });
+    },
+    onSuccess: (_, { hidden }) => {
+      onAttemptsChange();
+      toast({
+        title: hidden ? "Attempt hidden" : "Attempt visible again",
+        description: hidden 
+          ? "It no longer appears on the public leaderboard." 
+          : "It appears on the public leaderboard again."
+      });
+    },
+    onError: showError("Could not update attempt")
+  });
+  
+  const restoreAttemptMutation = useMutation({
+    mutationFn: async (attemptId: number) => {
+      await apiRequest("POST", `/api/quizzes/dashboard/${dashboardToken}/attempts/${attemptId}/restore`);
+    },
+    onSuccess: () => {
+      onAttemptsChange();
+      toast({ title: "Attempt restored" });
+    },
+    onError: showError("Could not restore attempt")
+  });
+  
+  const deleteAttemptMutation = useMutation({
+    mutationFn: async (attemptId: number): Promise<DeletionResponse> => {
+      const res = await apiRequest("DELETE", `/api/quizzes/dashboard/${dashboardToken}/attempts/${attemptId}`);
+      return res.json();
+    },
+    onSuccess: (result, attemptId) => {
+      onAttemptsChange();
+      toast({
+        title: "Attempt deleted",
+        description: "You can undo this for a few seconds.",
+        duration: undoDuration(result.undoUntil),
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => restoreAttemptMutation.mutate(attemptId)}>
+            Undo
+          </ToastAction>
+        )
+      });
+    },
+    onError: showError("Could not delete attempt")
+  });
+  
+  const deleteQuizMutation = useMutation({
+    mutationFn: async (): Promise<DeletionResponse> => {
+      const res = await apiRequest("DELETE", `/api/quizzes/dashboard/${dashboardToken}`);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      setNow(Date.now());
+      setQuizDeletedUntil(new Date(result.undoUntil));
+    },
+    onError: showError("Could not delete quiz")
+  });
+  
+  const restoreQuizMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/quizzes/dashboard/${dashboardToken}/restore`);
+    },
+    onSuccess: () => {
+      setQuizDeletedUntil(null);
+      queryClient.invalidateQueries({ queryKey: [`/api/quizzes/dashboard/${dashboardToken}`] });
+      toast({ title: "Quiz restored", description: "Your quiz is available again." });
+    },
+    onError: showError("Could not restore quiz")
+  });
+  
   const handleRefresh = async () => {
     setIsRefreshing(true);
     try {
@@ -39,41 +179,13 @@ const Dashboard: React.FC<DashboardProps> = ({
         variant: "default"
       });
       
-      // Add cache busting to fetch call
-      const timestamp = Date.now();
+      await onAttemptsChange();
       
-      // Fetch fresh data directly
-      try {
-        const response = await fetch(`/api/quizzes/${quizId}/attempts?nocache=${timestamp}`, {
-          method: 'GET',
-          headers: {
-            'Cache-Control': 'no-cache, no-store, must-revalidate',
-            'Pragma': 'no-cache',
-            'Expires': '0'
-          }
-        });
-        
-        if (!response.ok) throw new Error('Failed to fetch attempts');
-        
-        // Parse the response
-        const data = await response.json();
-        const freshAttempts = data.data || data;
-        
-        console.log(`Manual refresh fetched ${freshAttempts.length} attempts`);
-        
-        // Update the data locally
-        queryClient.setQueryData([`/api/quizzes/${quizId}/attempts`], freshAttempts);
-        
-        toast({
-          title: "Dashboard refreshed",
-          description: `Latest data loaded: ${freshAttempts.length} attempts`,
-          variant: "default"
-        });
-        
-      } catch (error) {
-        console.error("Error refreshing data:", error);
-        throw error;  // Re-throw to be caught by outer handler
-      }
+      toast({
+        title: "Dashboard refreshed",
+        description: "The latest attempts are loaded.",
+        variant: "default"
+      });
       
     } catch (error) {
       console.error("Dashboard refresh error:", error);
@@ -101,48 +213,107 @@ const Dashboard: React.FC<DashboardProps> = ({
   const handleShare = () => {
     navigate(`/share/${quizId}`);
   };
+
+  const handleHostLive = () => {
+    navigate(`/dashboard/${dashboardToken}/live`);
+  };
   
   // Calculate question performance
   const questionPerformance = questions.map(question => {
     // Use type assertion to handle the answers property
     const allAnswersForQuestion = attempts.flatMap(attempt => {
-      const answers = attempt.answers as { questionId: number; isCorrect: boolean; userAnswer: any }[];
-      return answers.filter(a => a.questionId === question.id);
+      const answers = attempt.answers as { questionId: number; isCorrect: boolean; userAnswer: any; timeMs?: number; timedOut?: boolean; hintUsed?: boolean; skipped?: boolean }[];
+      // Skipped questions were never answered, so they say nothing about how hard the question is
+      return answers.filter(a => a.questionId === question.id && !a.skipped);
     });
+    const skippedCount = attempts.filter(attempt =>
+      (attempt.answers as { questionId: number; skipped?: boolean }[]).some(a => a.questionId === question.id && a.skipped)
+    ).length;
     
     const correctAnswersCount = allAnswersForQuestion.filter(a => a.isCorrect).length;
     const correctPercentage = allAnswersForQuestion.length > 0
       ? Math.round((correctAnswersCount / allAnswersForQuestion.length) * 100)
       : 0;
     
-    // Find most common answer
-    const answerCounts = new Map<string, number>();
+    // Find most common answer - graded answers already know whether they were right,
+    // which also covers answers made of several items such as orderings
+    const answerCounts = new Map<string, { count: number; isCorrect: boolean }>();
     allAnswersForQuestion.forEach(a => {
-      const answerStr = String(a.userAnswer);
-      answerCounts.set(answerStr, (answerCounts.get(answerStr) || 0) + 1);
+      const answerStr = formatAnswer(question, a.userAnswer);
+      const counted = answerCounts.get(answerStr);
+      answerCounts.set(answerStr, { count: (counted?.count || 0) + 1, isCorrect: a.isCorrect });
     });
     
     let mostCommonAnswer = "";
     let maxCount = 0;
+    let isCommonAnswerCorrect = false;
     
-    answerCounts.forEach((count, answer) => {
+    answerCounts.forEach(({ count, isCorrect }, answer) => {
       if (count > maxCount) {
         mostCommonAnswer = answer;
         maxCount = count;
+        isCommonAnswerCorrect = isCorrect;
       }
     });
     
-    const isCommonAnswerCorrect = 
-      (question.correctAnswers as string[]).includes(mostCommonAnswer);
+    // Answer times as the server measured them (attempts from before they were recorded have none)
+    const answerTimes = allAnswersForQuestion.flatMap(a => a.timeMs !== undefined ? [a.timeMs] : []);
+    const averageTimeMs = answerTimes.length > 0
+      ? answerTimes.reduce((sum, time) => sum + time, 0) / answerTimes.length
+      : null;
+    const timedOutCount = allAnswersForQuestion.filter(a => a.timedOut).length;
+    const hintedCount = allAnswersForQuestion.filter(a => a.hintUsed).length;
     
     return {
       question,
       correctPercentage,
       mostCommonAnswer,
-      isCommonAnswerCorrect
+      isCommonAnswerCorrect,
+      averageTimeMs,
+      timedOutCount,
+      hintedCount,
+      skippedCount
     };
   });
   
+  if (quizDeletedUntil) {
+    const secondsLeft = Math.max(Math.ceil((quizDeletedUntil.getTime() - now) / 1000), 0);
+    
+    return (
+      <Layout>
+        <Card>
+          <CardContent className="pt-6 text-center py-10">
+            <h2 className="text-xl font-bold font-poppins mb-2">Quiz deleted</h2>
+            {secondsLeft > 0 ? (
+              <>
+                <p className="text-muted-foreground mb-6">
+                  Your quiz, its questions, images and results will be permanently removed in {secondsLeft} seconds.
+                </p>
+                <Button 
+                  type="button" 
+                  className="btn-primary"
+                  onClick={() => restoreQuizMutation.mutate()}
+                  disabled={restoreQuizMutation.isPending}
+                >
+                  {restoreQuizMutation.isPending ? "Restoring..." : "Undo"}
+                </Button>
+              </>
+            ) : (
+              <>
+                <p className="text-muted-foreground mb-6">
+                  Your quiz and all of its results have been permanently removed.
+                </p>
+                <Button type="button" className="btn-primary" onClick={() => navigate("/")}>
+                  Back to Home
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </Layout>
+    );
+  }
+  
   return (
     <Layout>
       <Card>
@@ -154,7 +325,16 @@ const Dashboard: React.FC<DashboardProps> = ({
                 See how your friends are doing
               </p>
             </div>
-            <div className="mt-4 md:mt-0">
+            <div className="mt-4 md:mt-0 flex gap-2">
+              <Button 
+                type="button" 
+                variant="outline"
+                className="flex items-center"
+                onClick={handleHostLive}
+              >
+                <Radio className="mr-2 h-4 w-4" />
+                Host Live
+              </Button>
               <Button 
                 type="button" 
                 className="btn-primary flex items-center"
@@ -166,112 +346,288 @@ const Dashboard: React.FC<DashboardProps> = ({
             </div>
           </div>
           
-          {/* Quiz Stats */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-            <div className="bg-gray-50 p-4 rounded-lg">
-              <div className="text-muted-foreground text-sm mb-1">Total Attempts</div>
-              <div className="text-2xl font-bold">{totalAttempts}</div>
-            </div>
-            <div className="bg-gray-50 p-4 rounded-lg">
-              <div className="text-muted-foreground text-sm mb-1">Average Score</div>
-              <div className="text-2xl font-bold">{averageScore}%</div>
-            </div>
-            <div className="bg-gray-50 p-4 rounded-lg">
-              <div className="text-muted-foreground text-sm mb-1">Top Score</div>
-              <div className="text-2xl font-bold text-primary">{topScore}%</div>
-            </div>
-          </div>
+          <Tabs defaultValue="results">
+            <TabsList className="mb-4">
+              <TabsTrigger value="results">Results</TabsTrigger>
+              <TabsTrigger value="analytics">Analytics</TabsTrigger>
+              <TabsTrigger value="edit">Edit Quiz</TabsTrigger>
+            </TabsList>
+            
+            <TabsContent value="results">
+              {/* Quiz Stats */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <div className="text-muted-foreground text-sm mb-1">Total Attempts</div>
+                  <div className="text-2xl font-bold">{totalAttempts}</div>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <div className="text-muted-foreground text-sm mb-1">Average Score</div>
+                  <div className="text-2xl font-bold">{averageScore}%</div>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <div className="text-muted-foreground text-sm mb-1">Top Score</div>
+                  <div className="text-2xl font-bold text-primary">{topScore}%</div>
+                </div>
+              </div>
           
-          {/* Full Leaderboard */}
-          <div className="mb-6">
-            <div className="flex justify-between items-center mb-3">
-              <h3 className="font-poppins font-semibold text-lg">Leaderboard</h3>
-              <Button 
-                type="button" 
-                size="sm"
-                variant="outline" 
-                className="flex items-center h-8" 
-                onClick={handleRefresh}
-                disabled={isRefreshing}
-              >
-                <RefreshCw className={`mr-2 h-3.5 w-3.5 ${isRefreshing ? 'animate-spin' : ''}`} />
-                {isRefreshing ? 'Refreshing...' : 'Refresh Data'}
-              </Button>
-            </div>
-            <div className="overflow-hidden rounded-lg border border-gray-200">
-              <table className="min-w-full divide-y divide-gray-200">
-                <thead className="bg-gray-50">
-                  <tr>
-                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Rank
-                    </th>
-                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Name
-                    </th>
-                    <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Score
-                    </th>
-                    <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Date
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="bg-white divide-y divide-gray-200">
-                  {attempts.length > 0 ? (
-                    attempts
-                      .sort((a, b) => 
-                        (b.score / b.totalQuestions) - (a.score / a.totalQuestions)
-                      )
-                      .map((attempt, index) => (
-                        <tr key={attempt.id}>
-                          <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
-                            {index + 1}
-                          </td>
-                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
-                            {attempt.userName}
-                          </td>
-                          <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-primary font-medium">
-                            {formatPercentage(attempt.score, attempt.totalQuestions)}
-                          </td>
-                          <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-500">
-                            {new Date(attempt.completedAt).toLocaleDateString()}
+              {/* Full Leaderboard */}
+              <div className="mb-6">
+                <div className="flex justify-between items-center mb-3">
+                  <h3 className="font-poppins font-semibold text-lg">Leaderboard</h3>
+                  <div className="flex gap-2">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button type="button" size="sm" variant="outline" className="flex items-center h-8" disabled={totalAttempts === 0}>
+                          <Download className="mr-2 h-3.5 w-3.5" />
+                          Download
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {EXPORT_CHOICES.map(({ format, label }) => (
+                          <DropdownMenuItem key={format} asChild>
+                            <a href={`/api/quizzes/dashboard/${dashboardToken}/export?format=${format}`} download>
+                              {label}
+                            </a>
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Button 
+                      type="button" 
+                      size="sm"
+                      variant="outline" 
+                      className="flex items-center h-8" 
+                      onClick={handleRefresh}
+                      disabled={isRefreshing}
+                    >
+                      <RefreshCw className={`mr-2 h-3.5 w-3.5 ${isRefreshing ? 'animate-spin' : ''}`} />
+                      {isRefreshing ? 'Refreshing...' : 'Refresh Data'}
+                    </Button>
+                  </div>
+                </div>
+                <div className="overflow-hidden rounded-lg border border-gray-200">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Rank
+                        </th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Name
+                        </th>
+                        <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Points
+                        </th>
+                        <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Time
+                        </th>
+                        <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Date
+                        </th>
+                        <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          <span className="sr-only">Actions</span>
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {attempts.length > 0 ? (
+                        attempts
+                          // Hidden attempts go last and don't take a rank, just like on the public leaderboard
+                          .sort((a, b) => 
+                            (Number(!!a.hiddenAt) - Number(!!b.hiddenAt)) ||
+                            compareLeaderboardAttempts(a, b)
+                          )
+                          .map((attempt, index) => (
+                            <React.Fragment key={attempt.id}>
+                              <tr className={attempt.hiddenAt ? "opacity-60" : ""}>
+                                <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                                  {attempt.hiddenAt ? "–" : index + 1}
+                                </td>
+                                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
+                                  {attempt.userName}
+                                  <HintsUsedIcon count={attempt.hintsUsed} />
+                                  <LifelineIcons lifelines={attempt.lifelinesUsed} />
+                                  {attempt.hiddenAt && (
+                                    <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-gray-100 text-gray-500">
+                                      hidden
+                                    </span>
+                                  )}
+                                  {attempt.quizRevision < quiz.revision && (
+                                    <span 
+                                      className="ml-2 text-xs px-1.5 py-0.5 rounded bg-gray-100 text-gray-500"
+                                      title="Taken before the questions were last edited"
+                                    >
+                                      v{attempt.quizRevision}
+                                    </span>
+                                  )}
+                                </td>
+                                <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-primary font-medium">
+                                  {formatPoints(attempt.points)}
+                                  <span className="block text-xs font-normal text-gray-500">
+                                    {formatPercentage(attempt.score, attempt.totalQuestions)} right
+                                  </span>
+                                </td>
+                                <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-500">
+                                  {attempt.totalTimeMs !== null ? formatDuration(attempt.totalTimeMs) : "–"}
+                                </td>
+                                <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-500">
+                                  {new Date(attempt.completedAt).toLocaleDateString()}
+                                </td>
+                                <td className="px-2 py-3 whitespace-nowrap text-right">
+                                  <Button
+                                    type="button" variant="ghost" size="sm" className="h-7 px-2"
+                                    onClick={() => setExpandedAttemptId(expandedAttemptId === attempt.id ? null : attempt.id)}
+                                    title={expandedAttemptId === attempt.id ? "Hide answers" : "Show answers"}
+                                  >
+                                    {expandedAttemptId === attempt.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                                  </Button>
+                                  <Button
+                                    type="button" variant="ghost" size="sm" className="h-7 px-2"
+                                    onClick={() => attemptVisibilityMutation.mutate({ attemptId: attempt.id, hidden: !attempt.hiddenAt })}
+                                    disabled={attemptVisibilityMutation.isPending}
+                                    title={attempt.hiddenAt ? "Show on leaderboard" : "Hide from leaderboard"}
+                                  >
+                                    {attempt.hiddenAt ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                                  </Button>
+                                  <Button
+                                    type="button" variant="ghost" size="sm" className="h-7 px-2"
+                                    onClick={() => deleteAttemptMutation.mutate(attempt.id)}
+                                    disabled={deleteAttemptMutation.isPending}
+                                    title="Delete attempt"
+                                  >
+                                    <Trash2 className="h-4 w-4 text-red-500" />
+                                  </Button>
+                                </td>
+                              </tr>
+                              {expandedAttemptId === attempt.id && (
+                                <tr className="bg-gray-50">
+                                  <td colSpan={6} className="px-4 py-3">
+                                    <AttemptAnswers attempt={attempt} questions={questions} />
+                                  </td>
+                                </tr>
+                              )}
+                            </React.Fragment>
+                          ))
+                      ) : (
+                        <tr>
+                          <td colSpan={6} className="px-4 py-3 text-center text-sm text-gray-500">
+                            No attempts yet
                           </td>
                         </tr>
-                      ))
-                  ) : (
-                    <tr>
-                      <td colSpan={4} className="px-4 py-3 text-center text-sm text-gray-500">
-                        No attempts yet
-                      </td>
-                    </tr>
-                  )}
-                </tbody>
-              </table>
-            </div>
-          </div>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
           
-          {/* Question Performance */}
-          <div>
-            <h3 className="font-poppins font-semibold text-lg mb-3">Question Performance</h3>
-            <div className="space-y-4">
-              {questionPerformance.map(({ question, correctPercentage, mostCommonAnswer, isCommonAnswerCorrect }) => (
-                <div key={question.id} className="p-4 rounded-lg border border-gray-200">
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="font-medium">{question.text}</span>
-                    <span className={`text-sm px-2 py-1 ${
-                      correctPercentage >= 50 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                    } rounded`}>
-                      {correctPercentage}% correct
-                    </span>
-                  </div>
-                  <div className="text-sm text-gray-600">
-                    Most common answer: {mostCommonAnswer} 
-                    {mostCommonAnswer && !isCommonAnswerCorrect && " (incorrect)"}
-                  </div>
+              <NearMissReview dashboardToken={dashboardToken} onAttemptsChange={onAttemptsChange} />
+          
+              {/* Question Performance */}
+              <div>
+                <h3 className="font-poppins font-semibold text-lg mb-3">Question Performance</h3>
+                <div className="space-y-4">
+                  {questionPerformance.map(({ question, correctPercentage, mostCommonAnswer, isCommonAnswerCorrect, averageTimeMs, timedOutCount, hintedCount, skippedCount }) => (
+                    <div key={question.id} className="p-4 rounded-lg border border-gray-200">
+                      <div className="flex justify-between items-center mb-2">
+                        <span className="font-medium">{question.text}</span>
+                        <span className={`text-sm px-2 py-1 ${
+                          correctPercentage >= 50 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        } rounded`}>
+                          {correctPercentage}% correct
+                        </span>
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        Most common answer: {mostCommonAnswer} 
+                        {mostCommonAnswer && !isCommonAnswerCorrect && " (incorrect)"}
+                      </div>
+                      {averageTimeMs !== null && (
+                        <div className="text-sm text-gray-600">
+                          Average time: {formatDuration(averageTimeMs)}
+                          {timedOutCount > 0 && ` · ${timedOutCount} ran out of time`}
+                        </div>
+                      )}
+                      {hintedCount > 0 && (
+                        <div className="text-sm text-gray-600">
+                          Hint revealed by {hintedCount} {hintedCount === 1 ? "player" : "players"}
+                        </div>
+                      )}
+                      {skippedCount > 0 && (
+                        <div className="text-sm text-gray-600">
+                          Skipped by {skippedCount} {skippedCount === 1 ? "player" : "players"}
+                        </div>
+                      )}
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          </div>
+              </div>
+            </TabsContent>
+            
+            <TabsContent value="analytics">
+              <QuizAnalyticsView dashboardToken={dashboardToken} questions={questions} />
+            </TabsContent>
+            
+            <TabsContent value="edit">
+              <QuizEditor quiz={quiz} dashboardToken={dashboardToken} questions={questions} />
+              
+              {/* Quiz file download */}
+              <div className="mt-8 p-4 rounded-lg border border-gray-200">
+                <h3 className="font-poppins font-semibold text-lg mb-1">Export Questions</h3>
+                <p className="text-sm text-muted-foreground mb-3">
+                  Download the questions and answers to import them into another quiz, here or in Moodle.
+                </p>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button type="button" variant="outline" className="flex items-center" disabled={questions.length === 0}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Export Quiz
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    {quizFileChoices.map(({ format, label }) => (
+                      <DropdownMenuItem key={format} asChild>
+                        <a href={`/api/quizzes/dashboard/${dashboardToken}/quiz-file?format=${format}`} download>
+                          {label}
+                        </a>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+              
+              {/* Danger zone */}
+              <div className="mt-8 p-4 rounded-lg border border-red-200 bg-red-50">
+                <h3 className="font-poppins font-semibold text-lg text-red-700 mb-1">Delete Quiz</h3>
+                <p className="text-sm text-red-700 mb-3">
+                  Removes the quiz, its questions, images and all results. You'll have a few seconds to undo.
+                </p>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button type="button" variant="destructive" disabled={deleteQuizMutation.isPending}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete Quiz
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete this quiz?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The quiz link and this dashboard will stop working, and all {attempts.length} results will be removed.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => deleteQuizMutation.mutate()}
+                        className="bg-red-600 hover:bg-red-700"
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </TabsContent>
+          </Tabs>
         </CardContent>
       </Card>
     </Layout>
@@ -0,0 +1,37 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Scissors, SkipForward } from "lucide-react";
+
+interface LifelineButtonsProps {
+  canFiftyFifty: boolean;
+  canSkip: boolean;
+  isUsing: boolean;
+  onFiftyFifty: () => void;
+  onSkip: () => void;
+}
+
+/**
+ * The lifelines still available on the current question; each can be used once per attempt
+ */
+const LifelineButtons: React.FC<LifelineButtonsProps> = ({ canFiftyFifty, canSkip, isUsing, onFiftyFifty, onSkip }) => {
+  if (!canFiftyFifty && !canSkip) return null;
+
+  return (
+    <div className="mb-4 flex justify-center gap-2">
+      {canFiftyFifty && (
+        <Button type="button" variant="outline" size="sm" onClick={onFiftyFifty} disabled={isUsing}>
+          <Scissors className="h-4 w-4 mr-1" />
+          50:50
+        </Button>
+      )}
+      {canSkip && (
+        <Button type="button" variant="outline" size="sm" onClick={onSkip} disabled={isUsing}>
+          <SkipForward className="h-4 w-4 mr-1" />
+          Skip question
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default LifelineButtons;
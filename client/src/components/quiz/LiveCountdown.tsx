@@ -0,0 +1,31 @@
+import React from "react";
+import { Timer } from "lucide-react";
+import { formatDuration } from "@/lib/utils";
+
+interface LiveCountdownProps {
+  endsAt: number; // On the server's clock
+  clockOffset: number; // Server clock minus this browser's
+}
+
+/**
+ * Time left on the current question of a live game, in whole seconds rounded up
+ */
+const LiveCountdown: React.FC<LiveCountdownProps> = ({ endsAt, clockOffset }) => {
+  const [now, setNow] = React.useState(() => Date.now());
+
+  React.useEffect(() => {
+    const ticker = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(ticker);
+  }, []);
+
+  const timeLeft = Math.max(endsAt - clockOffset - now, 0);
+
+  return (
+    <span className={`flex items-center text-sm font-medium ${timeLeft <= 5000 ? "text-red-600" : "text-gray-700"}`}>
+      <Timer className="h-4 w-4 mr-1" />
+      {formatDuration(Math.ceil(timeLeft / 1000) * 1000)}
+    </span>
+  );
+};
+
+export default LiveCountdown;
@@ -0,0 +1,33 @@
+import React from "react";
+import { LiveStanding } from "@shared/schema";
+import { formatPoints } from "@/lib/utils";
+
+interface LiveStandingsProps {
+  standings: LiveStanding[];
+  highlightName?: string;
+}
+
+/**
+ * The leading players of a live game so far
+ */
+const LiveStandings: React.FC<LiveStandingsProps> = ({ standings, highlightName }) => {
+  if (standings.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center">No points scored yet</p>;
+  }
+
+  return (
+    <ol className="divide-y divide-gray-200 rounded-lg border border-gray-200">
+      {standings.map((standing, index) => (
+        <li
+          key={standing.name}
+          className={`flex justify-between px-4 py-2 text-sm ${standing.name === highlightName ? "bg-primary/10 font-semibold" : ""}`}
+        >
+          <span>{index + 1}. {standing.name}</span>
+          <span>{formatPoints(standing.points)}</span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default LiveStandings;
@@ -0,0 +1,123 @@
+import React, { useRef, useState } from "react";
+import { X } from "lucide-react";
+
+interface MatchingAnswerProps {
+  prompts: string[];
+  choices: string[];
+  matches: string[]; // Choice placed next to each prompt, "" while it is still empty
+  onChange: (matches: string[]) => void;
+}
+
+/**
+ * Match choices to prompts by dragging them onto a prompt (mouse or touch), or by tapping
+ * a choice and then the prompt it belongs to. Tapping a placed choice sends it back.
+ */
+const MatchingAnswer: React.FC<MatchingAnswerProps> = ({ prompts, choices, matches, onChange }) => {
+  const [picked, setPicked] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<string | null>(null);
+  const droppedRef = useRef(false); // A drop is followed by a click on the dragged choice, which must not pick it
+
+  const unplaced = choices.filter(choice => !matches.includes(choice));
+
+  const placeChoice = (choice: string, promptIndex: number) => {
+    onChange(matches.map((match, i) => {
+      if (i === promptIndex) return choice;
+      return match === choice ? "" : match;
+    }));
+  };
+
+  const clearMatch = (promptIndex: number) => {
+    onChange(matches.map((match, i) => i === promptIndex ? "" : match));
+  };
+
+  const handleSlotTap = (promptIndex: number) => {
+    if (picked !== null) {
+      placeChoice(picked, promptIndex);
+      setPicked(null);
+    } else if (matches[promptIndex]) {
+      clearMatch(promptIndex);
+    }
+  };
+
+  const handleChoiceTap = (choice: string) => {
+    if (droppedRef.current) {
+      droppedRef.current = false;
+      return;
+    }
+    setPicked(picked === choice ? null : choice);
+  };
+
+  // Pointer events cover touch as well as the mouse, unlike native drag and drop
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>, choice: string) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    droppedRef.current = false;
+    setDragging(choice);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (dragging === null) return;
+    const slot = document.elementFromPoint(e.clientX, e.clientY)?.closest("[data-match-slot]");
+    if (slot) {
+      placeChoice(dragging, Number(slot.getAttribute("data-match-slot")));
+      setPicked(null);
+      droppedRef.current = true;
+    }
+    setDragging(null);
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-muted-foreground text-center mb-3">
+        Drag each answer next to the item it matches, or tap an answer and then the item
+      </p>
+
+      <div className="space-y-2 mb-4">
+        {prompts.map((prompt, index) => (
+          <div
+            key={prompt}
+            data-match-slot={index}
+            className={`flex items-center gap-2 p-3 bg-white border rounded-lg cursor-pointer transition-colors ${
+              picked !== null ? 'border-primary border-dashed' : 'border-gray-200'
+            }`}
+            onClick={() => handleSlotTap(index)}
+          >
+            <span className="flex-1 font-medium">{prompt}</span>
+            <span className="text-gray-400">→</span>
+            {matches[index] ? (
+              <span className="flex items-center gap-1 px-2 py-1 rounded bg-primary/10 text-sm">
+                {matches[index]}
+                <X className="h-3 w-3" aria-label="Remove" />
+              </span>
+            ) : (
+              <span className="px-2 py-1 rounded border border-dashed border-gray-300 text-sm text-gray-400">
+                Drop here
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {unplaced.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {unplaced.map(choice => (
+            <button
+              key={choice}
+              type="button"
+              className={`px-3 py-2 rounded-full border text-sm touch-none select-none transition-colors ${
+                picked === choice || dragging === choice ? 'border-primary bg-primary text-primary-foreground' : 'border-gray-300 bg-white'
+              }`}
+              onPointerDown={(e) => handlePointerDown(e, choice)}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDragging(null)}
+              onClick={() => handleChoiceTap(choice)}
+            >
+              {choice}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MatchingAnswer;
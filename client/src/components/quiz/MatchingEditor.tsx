@@ -0,0 +1,90 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { X } from "lucide-react";
+import { MAX_ARRANGE_ITEMS } from "@shared/schema";
+import { MatchPair } from "@/lib/questionTypes";
+
+interface MatchingEditorProps {
+  pairs: MatchPair[];
+  setPairs: React.Dispatch<React.SetStateAction<MatchPair[]>>;
+}
+
+const inputClassName = "flex-1 min-w-0 h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
+
+const MatchingEditor: React.FC<MatchingEditorProps> = ({
+  pairs,
+  setPairs,
+}) => {
+  const handlePairChange = (index: number, field: keyof MatchPair, value: string) => {
+    setPairs(pairs.map((pair, i) => i === index ? { ...pair, [field]: value } : pair));
+  };
+
+  const handleAddPair = () => {
+    if (pairs.length < MAX_ARRANGE_ITEMS) {
+      setPairs([...pairs, { prompt: "", match: "" }]);
+    }
+  };
+
+  const handleRemovePair = (index: number) => {
+    if (pairs.length > 2) {
+      setPairs(pairs.filter((_, i) => i !== index));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="block text-sm font-medium mb-2">
+          Pairs (Players see the matches shuffled)
+        </Label>
+
+        <div className="space-y-3">
+          {pairs.map((pair, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                type="text"
+                className={inputClassName}
+                placeholder="e.g. Einstein"
+                value={pair.prompt}
+                onChange={(e) => handlePairChange(index, "prompt", e.target.value)}
+              />
+              <span className="text-gray-500 flex-shrink-0">→</span>
+              <input
+                type="text"
+                className={inputClassName}
+                placeholder="e.g. E = mc²"
+                value={pair.match}
+                onChange={(e) => handlePairChange(index, "match", e.target.value)}
+              />
+              {pairs.length > 2 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 flex-shrink-0"
+                  onClick={() => handleRemovePair(index)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {pairs.length < MAX_ARRANGE_ITEMS && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleAddPair}
+        >
+          Add Another Pair
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default MatchingEditor;
@@ -0,0 +1,112 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { X } from "lucide-react";
+
+interface MultiSelectEditorProps {
+  options: string[];
+  setOptions: React.Dispatch<React.SetStateAction<string[]>>;
+  correctOptions: number[];
+  setCorrectOptions: React.Dispatch<React.SetStateAction<number[]>>;
+}
+
+const MultiSelectEditor: React.FC<MultiSelectEditorProps> = ({
+  options,
+  setOptions,
+  correctOptions,
+  setCorrectOptions,
+}) => {
+  const handleOptionChange = (index: number, value: string) => {
+    const newOptions = [...options];
+    newOptions[index] = value;
+    setOptions(newOptions);
+  };
+
+  const toggleCorrect = (index: number, checked: boolean) => {
+    setCorrectOptions(prev => checked
+      ? [...prev.filter(i => i !== index), index]
+      : prev.filter(i => i !== index));
+  };
+
+  const handleAddOption = () => {
+    if (options.length < 8) {
+      setOptions([...options, ""]);
+    }
+  };
+
+  const handleRemoveOption = (index: number) => {
+    if (options.length > 2) {
+      setOptions(options.filter((_, i) => i !== index));
+
+      // Keep the correct marks on the same options after the removed one shifts them up
+      setCorrectOptions(prev => prev
+        .filter(i => i !== index)
+        .map(i => i > index ? i - 1 : i));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="block text-sm font-medium mb-2">
+          Options (Tick every correct answer)
+        </Label>
+
+        <div className="space-y-3">
+          {options.map((option, index) => {
+            const letter = String.fromCharCode(65 + index);
+            return (
+              <div key={index} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`multi-option-${index}`}
+                  checked={correctOptions.includes(index)}
+                  onCheckedChange={(checked) => toggleCorrect(index, checked === true)}
+                />
+                <Label
+                  htmlFor={`multi-option-${index}`}
+                  className="font-medium text-sm w-4 flex-shrink-0 text-gray-600"
+                >
+                  {letter})
+                </Label>
+                <div className="flex-1 flex items-center">
+                  <input
+                    type="text"
+                    className="flex-1 h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                    placeholder="Enter option text"
+                    value={option}
+                    onChange={(e) => handleOptionChange(index, e.target.value)}
+                  />
+                  {options.length > 2 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="ml-2 h-8 w-8 p-0"
+                      onClick={() => handleRemoveOption(index)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {options.length < 8 && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleAddOption}
+        >
+          Add Another Option
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default MultiSelectEditor;
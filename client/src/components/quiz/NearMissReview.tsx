@@ -0,0 +1,92 @@
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { NearMissAnswer } from "@shared/schema";
+
+interface NearMissReviewProps {
+  dashboardToken: string;
+  onAttemptsChange: () => void;
+}
+
+interface AcceptAnswerResponse {
+  rescoredAttempts: number;
+}
+
+/**
+ * Rejected typed answers that were close to an accepted one, so the creator can accept them after the fact
+ */
+const NearMissReview: React.FC<NearMissReviewProps> = ({ dashboardToken, onAttemptsChange }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const nearMissesKey = `/api/quizzes/dashboard/${dashboardToken}/near-misses`;
+
+  const { data: nearMisses = [] } = useQuery<NearMissAnswer[]>({
+    queryKey: [nearMissesKey]
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (nearMiss: NearMissAnswer): Promise<AcceptAnswerResponse> => {
+      const res = await apiRequest(
+        "POST",
+        `/api/quizzes/dashboard/${dashboardToken}/questions/${nearMiss.questionId}/accepted-answers`,
+        { answer: nearMiss.answer }
+      );
+      return res.json();
+    },
+    onSuccess: (result, nearMiss) => {
+      queryClient.invalidateQueries({ queryKey: [nearMissesKey] });
+      queryClient.invalidateQueries({ queryKey: [`/api/quizzes/dashboard/${dashboardToken}/questions`] });
+      onAttemptsChange();
+      toast({
+        title: `"${nearMiss.answer}" accepted`,
+        description: `${result.rescoredAttempts} attempt${result.rescoredAttempts === 1 ? "" : "s"} rescored.`
+      });
+    },
+    onError: (error: Error) => {
+      console.error("Could not accept answer:", error);
+      toast({ title: "Could not accept answer", description: "Please try again.", variant: "destructive" });
+    }
+  });
+
+  if (nearMisses.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-poppins font-semibold text-lg mb-1">Almost Right</h3>
+      <p className="text-sm text-muted-foreground mb-3">
+        Typed answers that were marked wrong but are close to an accepted answer. Accepting one rescores every attempt that gave it.
+      </p>
+      <div className="space-y-2">
+        {nearMisses.map(nearMiss => (
+          <div
+            key={`${nearMiss.questionId}-${nearMiss.answer}`}
+            className="flex items-center justify-between gap-4 p-3 border border-amber-200 bg-amber-50 rounded-lg"
+          >
+            <div className="min-w-0">
+              <div className="text-sm text-gray-600 truncate">{nearMiss.questionText}</div>
+              <div className="font-medium">
+                "{nearMiss.answer}"
+                <span className="ml-2 text-sm font-normal text-muted-foreground">
+                  {nearMiss.count} player{nearMiss.count === 1 ? "" : "s"}
+                </span>
+              </div>
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => acceptMutation.mutate(nearMiss)}
+              disabled={acceptMutation.isPending}
+            >
+              Accept
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default NearMissReview;
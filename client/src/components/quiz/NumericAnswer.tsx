@@ -0,0 +1,62 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { NumericSettings } from "@shared/schema";
+
+interface NumericAnswerProps {
+  settings: NumericSettings;
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+}
+
+// Whole-number steps for ranges wide enough, otherwise a hundredth of the range
+function sliderStep(min: number, max: number): number {
+  return Number.isInteger(min) && Number.isInteger(max) && max - min >= 20 ? 1 : (max - min) / 100;
+}
+
+/**
+ * Type a guess, or slide it when the creator set a range
+ */
+const NumericAnswer: React.FC<NumericAnswerProps> = ({ settings, value, onChange, onSubmit }) => {
+  const { unit, min, max } = settings;
+  const hasSlider = min !== undefined && max !== undefined;
+  const current = Number(value);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Input
+          type="number"
+          inputMode="decimal"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") onSubmit();
+          }}
+          placeholder="Your guess"
+          autoFocus
+        />
+        {unit && <span className="text-gray-600 flex-shrink-0">{unit}</span>}
+      </div>
+
+      {hasSlider && (
+        <div>
+          <Slider
+            min={min}
+            max={max}
+            step={sliderStep(min, max)}
+            value={[value !== "" && Number.isFinite(current) ? Math.min(Math.max(current, min), max) : (min + max) / 2]}
+            onValueChange={([slid]) => onChange(String(Math.round(slid * 100) / 100))}
+          />
+          <div className="flex justify-between text-xs text-muted-foreground mt-1">
+            <span>{min}</span>
+            <span>{max}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NumericAnswer;
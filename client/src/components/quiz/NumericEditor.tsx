@@ -0,0 +1,85 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NumericDraft } from "@/lib/questionTypes";
+
+interface NumericEditorProps {
+  numeric: NumericDraft;
+  setNumeric: React.Dispatch<React.SetStateAction<NumericDraft>>;
+}
+
+const NumericEditor: React.FC<NumericEditorProps> = ({
+  numeric,
+  setNumeric,
+}) => {
+  const update = (field: keyof NumericDraft, value: string) => {
+    setNumeric(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="block text-sm font-medium mb-1">Correct Answer</Label>
+          <Input
+            type="number"
+            inputMode="decimal"
+            placeholder="e.g. 12"
+            value={numeric.target}
+            onChange={(e) => update("target", e.target.value)}
+          />
+        </div>
+        <div>
+          <Label className="block text-sm font-medium mb-1">Unit (optional)</Label>
+          <Input
+            type="text"
+            placeholder="e.g. countries"
+            maxLength={20}
+            value={numeric.unit}
+            onChange={(e) => update("unit", e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label className="block text-sm font-medium mb-1">Counts as spot on within ±</Label>
+        <Input
+          type="number"
+          inputMode="decimal"
+          min={0}
+          value={numeric.tolerance}
+          onChange={(e) => update("tolerance", e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Guesses this close earn the full point. Further off, they earn less the further they are.
+        </p>
+      </div>
+
+      <div>
+        <Label className="block text-sm font-medium mb-1">Slider range (optional)</Label>
+        <div className="flex items-center space-x-2">
+          <Input
+            type="number"
+            inputMode="decimal"
+            placeholder="From"
+            value={numeric.min}
+            onChange={(e) => update("min", e.target.value)}
+          />
+          <span className="text-gray-500">to</span>
+          <Input
+            type="number"
+            inputMode="decimal"
+            placeholder="To"
+            value={numeric.max}
+            onChange={(e) => update("max", e.target.value)}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          Players get a slider over this range. They can always type their guess instead.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default NumericEditor;
@@ -5,15 +5,11 @@ import { Label } from "@/components/ui/label";
 interface OpenEndedEditorProps {
   acceptedAnswers: string;
   setAcceptedAnswers: React.Dispatch<React.SetStateAction<string>>;
-  hint: string;
-  setHint: React.Dispatch<React.SetStateAction<string>>;
 }
 
 const OpenEndedEditor: React.FC<OpenEndedEditorProps> = ({
   acceptedAnswers,
   setAcceptedAnswers,
-  hint,
-  setHint,
 }) => {
   return (
     <div id="open-ended-options">
@@ -28,19 +24,9 @@ const OpenEndedEditor: React.FC<OpenEndedEditorProps> = ({
           value={acceptedAnswers}
           onChange={(e) => setAcceptedAnswers(e.target.value)}
         />
-      </div>
-      
-      <div className="mb-4">
-        <Label className="block text-sm font-medium mb-1">
-          Hint (optional)
-        </Label>
-        <Input
-          type="text"
-          className="input-field"
-          placeholder="Give your friends a clue..."
-          value={hint}
-          onChange={(e) => setHint(e.target.value)}
-        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Capital letters, accents and punctuation don't matter. Small typos are forgiven according to your quiz settings.
+        </p>
       </div>
     </div>
   );
@@ -0,0 +1,108 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ArrowDown, ArrowUp, GripVertical } from "lucide-react";
+
+interface OrderingAnswerProps {
+  items: string[]; // In the player's current order
+  onChange: (items: string[]) => void;
+}
+
+/**
+ * Arrange items by dragging the handle (mouse or touch), by tapping one item and then the
+ * place it should go, or with the arrow buttons
+ */
+const OrderingAnswer: React.FC<OrderingAnswerProps> = ({ items, onChange }) => {
+  const [picked, setPicked] = useState<number | null>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  const moveItem = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= items.length) return;
+    const newItems = [...items];
+    const [item] = newItems.splice(from, 1);
+    newItems.splice(to, 0, item);
+    onChange(newItems);
+  };
+
+  const handleTap = (index: number) => {
+    if (picked === null) {
+      setPicked(index);
+    } else {
+      moveItem(picked, index);
+      setPicked(null);
+    }
+  };
+
+  // Pointer events cover touch as well as the mouse, unlike native drag and drop
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, index: number) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(index);
+    setPicked(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragging === null) return;
+    const row = document.elementFromPoint(e.clientX, e.clientY)?.closest("[data-order-index]");
+    if (!row) return;
+    const over = Number(row.getAttribute("data-order-index"));
+    if (over !== dragging) {
+      moveItem(dragging, over);
+      setDragging(over);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground text-center mb-3">
+        Drag the items into the right order, or tap an item and then the place it belongs
+      </p>
+      {items.map((item, index) => (
+        <div
+          key={item}
+          data-order-index={index}
+          className={`flex items-center p-2 bg-white border rounded-lg cursor-pointer transition-colors ${
+            dragging === index || picked === index ? 'border-primary bg-primary/5' : 'border-gray-200'
+          }`}
+          onClick={() => handleTap(index)}
+        >
+          <div
+            className="p-2 mr-1 text-gray-400 cursor-grab touch-none"
+            onPointerDown={(e) => handlePointerDown(e, index)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setDragging(null)}
+            onPointerCancel={() => setDragging(null)}
+            onClick={(e) => e.stopPropagation()}
+            aria-hidden="true"
+          >
+            <GripVertical className="h-4 w-4" />
+          </div>
+          <span className="font-medium text-sm w-6 text-gray-600">{index + 1}.</span>
+          <span className="flex-1">{item}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={(e) => { e.stopPropagation(); moveItem(index, index - 1); }}
+            disabled={index === 0}
+            aria-label="Move up"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={(e) => { e.stopPropagation(); moveItem(index, index + 1); }}
+            disabled={index === items.length - 1}
+            aria-label="Move down"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default OrderingAnswer;
@@ -0,0 +1,114 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ArrowDown, ArrowUp, X } from "lucide-react";
+import { MAX_ARRANGE_ITEMS } from "@shared/schema";
+
+interface OrderingEditorProps {
+  items: string[]; // In the right order
+  setItems: React.Dispatch<React.SetStateAction<string[]>>;
+}
+
+const OrderingEditor: React.FC<OrderingEditorProps> = ({
+  items,
+  setItems,
+}) => {
+  const handleItemChange = (index: number, value: string) => {
+    const newItems = [...items];
+    newItems[index] = value;
+    setItems(newItems);
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+    const newItems = [...items];
+    [newItems[index], newItems[target]] = [newItems[target], newItems[index]];
+    setItems(newItems);
+  };
+
+  const handleAddItem = () => {
+    if (items.length < MAX_ARRANGE_ITEMS) {
+      setItems([...items, ""]);
+    }
+  };
+
+  const handleRemoveItem = (index: number) => {
+    if (items.length > 2) {
+      setItems(items.filter((_, i) => i !== index));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="block text-sm font-medium mb-2">
+          Items (In the right order - players see them shuffled)
+        </Label>
+
+        <div className="space-y-3">
+          {items.map((item, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <span className="font-medium text-sm w-5 flex-shrink-0 text-gray-600">
+                {index + 1}.
+              </span>
+              <input
+                type="text"
+                className="flex-1 h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                placeholder="Enter item text"
+                value={item}
+                onChange={(e) => handleItemChange(index, e.target.value)}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => moveItem(index, -1)}
+                disabled={index === 0}
+                aria-label="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => moveItem(index, 1)}
+                disabled={index === items.length - 1}
+                aria-label="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              {items.length > 2 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => handleRemoveItem(index)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {items.length < MAX_ARRANGE_ITEMS && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleAddItem}
+        >
+          Add Another Item
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default OrderingEditor;
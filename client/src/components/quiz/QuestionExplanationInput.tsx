@@ -0,0 +1,31 @@
+import React from "react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface QuestionExplanationInputProps {
+  explanation: string;
+  setExplanation: (explanation: string) => void;
+}
+
+const QuestionExplanationInput: React.FC<QuestionExplanationInputProps> = ({ explanation, setExplanation }) => {
+  return (
+    <div>
+      <Label htmlFor="question-explanation" className="block text-sm font-medium mb-1">
+        Explanation (optional)
+      </Label>
+      <Textarea
+        id="question-explanation"
+        rows={2}
+        maxLength={1000}
+        placeholder="Why is this the right answer?"
+        value={explanation}
+        onChange={(e) => setExplanation(e.target.value)}
+      />
+      <p className="text-xs text-muted-foreground mt-1">
+        Players see this when they review their answers after submitting.
+      </p>
+    </div>
+  );
+};
+
+export default QuestionExplanationInput;
@@ -0,0 +1,40 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Lightbulb, Loader2 } from "lucide-react";
+
+interface QuestionHintProps {
+  hint: string | undefined; // Set once revealed
+  penaltyPercent: number;
+  isRevealing: boolean;
+  onReveal: () => void;
+}
+
+/**
+ * Offer a question's hint, saying what it costs, and show it once revealed
+ */
+const QuestionHint: React.FC<QuestionHintProps> = ({ hint, penaltyPercent, isRevealing, onReveal }) => {
+  if (hint !== undefined) {
+    return (
+      <div className="mb-4 flex items-start gap-2 rounded-lg bg-amber-50 border border-amber-200 p-3 text-sm text-amber-900">
+        <Lightbulb className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <span>{hint}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 text-center">
+      <Button type="button" variant="outline" size="sm" onClick={onReveal} disabled={isRevealing}>
+        {isRevealing
+          ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          : <Lightbulb className="h-4 w-4 mr-1" />}
+        Show hint
+        {penaltyPercent > 0 && (
+          <span className="ml-1 text-muted-foreground">(costs {penaltyPercent}% of this question's points)</span>
+        )}
+      </Button>
+    </div>
+  );
+};
+
+export default QuestionHint;
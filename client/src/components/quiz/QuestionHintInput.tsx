@@ -0,0 +1,30 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface QuestionHintInputProps {
+  hint: string;
+  setHint: (hint: string) => void;
+}
+
+const QuestionHintInput: React.FC<QuestionHintInputProps> = ({ hint, setHint }) => {
+  return (
+    <div>
+      <Label htmlFor="question-hint" className="block text-sm font-medium mb-1">
+        Hint (optional)
+      </Label>
+      <Input
+        id="question-hint"
+        maxLength={500}
+        placeholder="A clue that doesn't give the answer away"
+        value={hint}
+        onChange={(e) => setHint(e.target.value)}
+      />
+      <p className="text-xs text-muted-foreground mt-1">
+        Players can reveal it while answering, at the hint cost set in the quiz settings.
+      </p>
+    </div>
+  );
+};
+
+export default QuestionHintInput;
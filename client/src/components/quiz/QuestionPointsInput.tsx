@@ -0,0 +1,34 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MAX_QUESTION_POINTS } from "@shared/schema";
+
+interface QuestionPointsInputProps {
+  points: number;
+  setPoints: (points: number) => void;
+}
+
+const QuestionPointsInput: React.FC<QuestionPointsInputProps> = ({ points, setPoints }) => {
+  return (
+    <div className="flex items-center space-x-2">
+      <Label htmlFor="question-points" className="text-sm font-medium">
+        Points
+      </Label>
+      <Input
+        id="question-points"
+        type="number"
+        inputMode="numeric"
+        min={1}
+        max={MAX_QUESTION_POINTS}
+        className="w-20"
+        value={points}
+        onChange={(e) => {
+          const value = parseInt(e.target.value);
+          setPoints(isNaN(value) ? 1 : Math.min(Math.max(value, 1), MAX_QUESTION_POINTS));
+        }}
+      />
+    </div>
+  );
+};
+
+export default QuestionPointsInput;
@@ -0,0 +1,43 @@
+import React from "react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatTimeLimit } from "@/lib/utils";
+
+// Countdowns offered per question, in seconds
+const TIME_LIMIT_CHOICES = [10, 15, 20, 30, 45, 60, 90, 120, 300];
+
+interface QuestionTimeLimitSelectProps {
+  timeLimit: number | null;
+  setTimeLimit: (timeLimit: number | null) => void;
+}
+
+const QuestionTimeLimitSelect: React.FC<QuestionTimeLimitSelectProps> = ({ timeLimit, setTimeLimit }) => {
+  // A limit set some other way (e.g. through the API) stays selectable
+  const choices = timeLimit !== null && !TIME_LIMIT_CHOICES.includes(timeLimit)
+    ? [...TIME_LIMIT_CHOICES, timeLimit].sort((a, b) => a - b)
+    : TIME_LIMIT_CHOICES;
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Label htmlFor="question-time-limit" className="text-sm font-medium">
+        Time limit
+      </Label>
+      <Select
+        value={timeLimit === null ? "none" : String(timeLimit)}
+        onValueChange={(value) => setTimeLimit(value === "none" ? null : Number(value))}
+      >
+        <SelectTrigger id="question-time-limit" className="w-32">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">No limit</SelectItem>
+          {choices.map(seconds => (
+            <SelectItem key={seconds} value={String(seconds)}>{formatTimeLimit(seconds)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default QuestionTimeLimitSelect;
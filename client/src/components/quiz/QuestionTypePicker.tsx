@@ -0,0 +1,33 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { QuestionType } from "@shared/schema";
+import { questionTypeChoices } from "@/lib/questionTypes";
+
+interface QuestionTypePickerProps {
+  value: QuestionType;
+  onChange: (type: QuestionType) => void;
+}
+
+const QuestionTypePicker: React.FC<QuestionTypePickerProps> = ({ value, onChange }) => (
+  <div>
+    <Label className="block text-sm font-medium mb-2">
+      Question type
+    </Label>
+    <div className="flex flex-wrap gap-2">
+      {questionTypeChoices.map(choice => (
+        <Button
+          key={choice.value}
+          type="button"
+          size="sm"
+          variant={value === choice.value ? "default" : "outline"}
+          onClick={() => onChange(choice.value)}
+        >
+          {choice.label}
+        </Button>
+      ))}
+    </div>
+  </div>
+);
+
+export default QuestionTypePicker;
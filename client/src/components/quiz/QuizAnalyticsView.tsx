@@ -0,0 +1,189 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Question, QuestionAnalytics, QuizAnalytics, formatAnswer } from "@shared/schema";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { formatDuration } from "@/lib/utils";
+import { Check, Loader2 } from "lucide-react";
+
+interface QuizAnalyticsViewProps {
+  dashboardToken: string;
+  questions: Question[];
+}
+
+const chartConfig = {
+  correctPercent: { label: "Correct", color: "hsl(var(--primary))" },
+  count: { label: "Attempts", color: "hsl(var(--primary))" }
+} satisfies ChartConfig;
+
+const correctPercent = (question: QuestionAnalytics) =>
+  question.answered > 0 ? Math.round((question.correct / question.answered) * 100) : 0;
+
+/**
+ * How the quiz went across every attempt, aggregated by the server
+ */
+const QuizAnalyticsView: React.FC<QuizAnalyticsViewProps> = ({ dashboardToken, questions }) => {
+  const { data: analytics, isLoading, error } = useQuery<QuizAnalytics>({
+    queryKey: [`/api/quizzes/dashboard/${dashboardToken}/analytics`]
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-6">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !analytics) {
+    return <p className="text-center text-red-500 py-6">Couldn't load the analytics. Please try again.</p>;
+  }
+
+  if (analytics.attemptCount === 0) {
+    return <p className="text-center text-muted-foreground py-6">No attempts yet. Share your quiz to see how it goes!</p>;
+  }
+
+  const questionsById = new Map(questions.map(question => [question.id, question]));
+  const questionNumber = (questionId: number) => questions.findIndex(question => question.id === questionId) + 1;
+  const perQuestion = analytics.questions.map(question => ({
+    label: `Q${questionNumber(question.questionId)}`,
+    correctPercent: correctPercent(question)
+  }));
+  const histogram = analytics.scoreHistogram.map(bucket => ({
+    label: `${bucket.fromPercent}-${bucket.toPercent}%`,
+    count: bucket.count
+  }));
+
+  const questionList = (title: string, questionIds: number[]) => (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <div className="text-muted-foreground text-sm mb-2">{title}</div>
+      <ol className="space-y-1 text-sm">
+        {questionIds.map(questionId => {
+          const stats = analytics.questions.find(question => question.questionId === questionId)!;
+          return (
+            <li key={questionId} className="flex justify-between gap-2">
+              <span className="truncate">{questionNumber(questionId)}. {questionsById.get(questionId)?.text}</span>
+              <span className="font-medium flex-shrink-0">{correctPercent(stats)}%</span>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <div className="text-muted-foreground text-sm mb-1">Attempts</div>
+          <div className="text-2xl font-bold">{analytics.attemptCount}</div>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <div className="text-muted-foreground text-sm mb-1">Average Score</div>
+          <div className="text-2xl font-bold">{Math.round(analytics.averageScorePercent ?? 0)}%</div>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <div className="text-muted-foreground text-sm mb-1">Average Completion Time</div>
+          <div className="text-2xl font-bold">
+            {analytics.averageTimeMs !== null ? formatDuration(analytics.averageTimeMs) : "-"}
+          </div>
+        </div>
+      </div>
+
+      {analytics.hardestQuestionIds.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {questionList("Hardest Questions", analytics.hardestQuestionIds)}
+          {analytics.easiestQuestionIds.length > 0 && questionList("Easiest Questions", analytics.easiestQuestionIds)}
+        </div>
+      )}
+
+      <div>
+        <h3 className="font-poppins font-semibold text-lg mb-3">Correct Answers per Question</h3>
+        <ChartContainer config={chartConfig} className="h-64 w-full">
+          <BarChart data={perQuestion}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <YAxis domain={[0, 100]} unit="%" tickLine={false} axisLine={false} width={40} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="correctPercent" fill="var(--color-correctPercent)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h3 className="font-poppins font-semibold text-lg mb-3">Scores</h3>
+          <ChartContainer config={chartConfig} className="h-56 w-full">
+            <BarChart data={histogram}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={10} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+        <div>
+          <h3 className="font-poppins font-semibold text-lg mb-3">Attempts over Time</h3>
+          <ChartContainer config={chartConfig} className="h-56 w-full">
+            <AreaChart data={analytics.attemptsPerDay}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} fontSize={10} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Area dataKey="count" type="monotone" fill="var(--color-count)" fillOpacity={0.3} stroke="var(--color-count)" />
+            </AreaChart>
+          </ChartContainer>
+        </div>
+      </div>
+
+      {/* What players answered, correct answers in green */}
+      <div>
+        <h3 className="font-poppins font-semibold text-lg mb-3">Answers Given</h3>
+        <div className="space-y-5">
+          {analytics.questions.map(stats => {
+            const question = questionsById.get(stats.questionId);
+            if (!question) return null;
+            const mostAnswers = Math.max(1, ...stats.answers.map(entry => entry.count));
+
+            return (
+              <div key={stats.questionId}>
+                <div className="font-medium text-sm mb-1">
+                  {questionNumber(stats.questionId)}. {question.text}
+                </div>
+                <div className="text-xs text-muted-foreground mb-2">
+                  {stats.answered} answered · {correctPercent(stats)}% correct
+                  {stats.averageTimeMs !== null && ` · ${formatDuration(stats.averageTimeMs)} on average`}
+                  {stats.skipped > 0 && ` · ${stats.skipped} skipped`}
+                  {stats.timedOut > 0 && ` · ${stats.timedOut} out of time`}
+                  {stats.hintsUsed > 0 && ` · ${stats.hintsUsed} used the hint`}
+                </div>
+                <ul className="space-y-1.5">
+                  {stats.answers.map((entry, index) => (
+                    <li key={index} className="text-sm">
+                      <div className="flex justify-between mb-0.5">
+                        <span className={`flex items-center ${entry.correct ? "text-green-700 font-medium" : ""}`}>
+                          {entry.correct && <Check className="h-4 w-4 mr-1 flex-shrink-0" />}
+                          {formatAnswer(question, entry.answer)}
+                        </span>
+                        <span>{entry.count}</span>
+                      </div>
+                      <div className="h-2 rounded bg-gray-100">
+                        <div
+                          className={`h-2 rounded ${entry.correct ? "bg-green-500" : "bg-gray-400"}`}
+                          style={{ width: `${(entry.count / mostAnswers) * 100}%` }}
+                        />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizAnalyticsView;
@@ -1,181 +1,250 @@
 import React, { useState, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { Question, QuestionAnswer } from "@shared/schema";
-import { createAvatarPlaceholder, showAdInterstitial } from "@/lib/utils";
-import { verifyAnswer } from "@/lib/quizUtils";
-import { apiRequest } from "@/lib/queryClient";
+import { AttemptProgress, Lifeline, LifelineUse } from "@shared/schema";
+import { createAvatarPlaceholder, formatDuration, showAdInterstitial } from "@/lib/utils";
+import { apiRequest, serverRefusal } from "@/lib/queryClient";
 import AdPlaceholder from "../common/AdPlaceholder";
+import AnswerInput, { initialArrangement } from "./AnswerInput";
+import QuestionHint from "./QuestionHint";
+import LifelineButtons from "./LifelineButtons";
+import { Timer } from "lucide-react";
 
 interface QuizAnswerProps {
   quizId: number;
   quizCreator: string;
-  questions: Question[];
-  onComplete: (answers: QuestionAnswer[], score: number) => void;
+  sessionToken: string; // Answers, hints and lifelines are recorded against it
+  progress: AttemptProgress; // The question the server has the player on as the attempt (re)starts
+  clockOffset: number; // This browser's clock minus the server's
+  hintPenaltyPercent: number;
+  lifelines: Lifeline[]; // Offered by the quiz
+  usedLifelines: LifelineUse[]; // Already recorded on this attempt by the server
+  deadline: number | null; // When the whole quiz has to be submitted, on this browser's clock
+  onComplete: () => void; // Every answer is with the server already
 }
 
+// Why a question is handed in without waiting for the player to pick an answer
+type Advance = "question" | "quiz" | "skip";
+
 const QuizAnswer: React.FC<QuizAnswerProps> = ({ 
   quizId, 
   quizCreator, 
-  questions, 
+  sessionToken,
+  progress: initialProgress,
+  clockOffset,
+  hintPenaltyPercent,
+  lifelines,
+  usedLifelines,
+  deadline,
   onComplete 
 }) => {
   // Generate a unique storage key for this quiz session
   const storageKeyPrefix = `qzonme_quiz_${quizId}_`;
   
-  // Load from localStorage if available, otherwise start fresh
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(() => {
+  // The server keeps the answers and says which question comes next, so a reload picks up where the player was
+  const [progress, setProgress] = useState<AttemptProgress>(initialProgress);
+  const [isSendingAnswer, setIsSendingAnswer] = useState(false);
+  const [selectedOption, setSelectedOption] = useState<string>("");
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([]); // Multi-select questions
+  const [arrangement, setArrangement] = useState<string[]>([]); // Ordering and matching questions
+  const [adRefreshCounter, setAdRefreshCounter] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  // Hints revealed in this attempt, by question; the server has recorded each one already
+  const [revealedHints, setRevealedHints] = useState<Record<number, string>>(() => {
     try {
-      const saved = localStorage.getItem(`${storageKeyPrefix}currentIndex`);
-      return saved ? parseInt(saved, 10) : 0;
+      const saved = localStorage.getItem(`${storageKeyPrefix}hints`);
+      const parsed = saved ? JSON.parse(saved) : null;
+      return parsed?.sessionToken === sessionToken ? parsed.hints : {};
     } catch (e) {
-      return 0;
+      return {};
     }
   });
+  const [isRevealingHint, setIsRevealingHint] = useState(false);
+  // Lifelines used in this attempt, as the server granted them
+  const [lifelineUses, setLifelineUses] = useState<LifelineUse[]>(usedLifelines);
+  const [isUsingLifeline, setIsUsingLifeline] = useState(false);
+  const { toast } = useToast();
   
-  const [userAnswers, setUserAnswers] = useState<QuestionAnswer[]>(() => {
-    try {
-      const saved = localStorage.getItem(`${storageKeyPrefix}answers`);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        if (Array.isArray(parsed)) {
-          console.log("Restored saved answers from local storage:", parsed.length);
-          return parsed;
-        }
-      }
-    } catch (e) {
-      console.error("Error loading saved answers:", e);
-    }
-    return [];
-  });
+  const currentQuestion = progress.question;
+  const isLastQuestion = progress.questionNumber === progress.questionCount;
+  const isMultiSelect = currentQuestion?.type === "multi-select";
+  const isOpenEnded = currentQuestion?.type === "open-ended";
+  const isOrdering = currentQuestion?.type === "ordering";
+  const isMatching = currentQuestion?.type === "matching";
+  const isNumeric = currentQuestion?.type === "numeric";
+  // Typed and numeric answers are entered rather than picked
+  const isEntered = isOpenEnded || isNumeric;
   
-  const [selectedOption, setSelectedOption] = useState<string>("");
-  const [adRefreshCounter, setAdRefreshCounter] = useState(0);
-  const { toast } = useToast();
+  // Each question starts with a fresh arrangement
+  useEffect(() => {
+    if (!currentQuestion) return;
+    setArrangement(initialArrangement(currentQuestion));
+  }, [currentQuestion?.id]);
+  
+  // Countdowns - the question's runs from when the server first showed it
+  const questionLimitMs = currentQuestion?.timeLimitSeconds ? currentQuestion.timeLimitSeconds * 1000 : null;
+  const questionShownAt = progress.shownAt ? new Date(progress.shownAt).getTime() + clockOffset : null;
+  const isTimed = deadline !== null || questionLimitMs !== null;
+  const questionTimeLeft = questionLimitMs !== null && questionShownAt !== null
+    ? Math.max(questionShownAt + questionLimitMs - now, 0)
+    : null;
+  const quizTimeLeft = deadline !== null ? Math.max(deadline - now, 0) : null;
   
-  // Save to localStorage whenever answers or current index changes
   useEffect(() => {
-    try {
-      if (userAnswers.length > 0) {
-        localStorage.setItem(`${storageKeyPrefix}answers`, JSON.stringify(userAnswers));
-        localStorage.setItem(`${storageKeyPrefix}currentIndex`, currentQuestionIndex.toString());
-        console.log("Saved quiz progress to local storage:", {
-          currentQuestionIndex,
-          answersCount: userAnswers.length
-        });
-      }
-    } catch (e) {
-      console.error("Error saving quiz progress:", e);
-    }
-  }, [userAnswers, currentQuestionIndex, storageKeyPrefix]);
+    if (!isTimed) return;
+    const ticker = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(ticker);
+  }, [isTimed]);
   
-  const currentQuestion = questions[currentQuestionIndex];
-  const isLastQuestion = currentQuestionIndex === questions.length - 1;
+  // Whatever is picked or typed when time runs out is handed in as it is
+  useEffect(() => {
+    if (quizTimeLeft === 0) {
+      handleNext("quiz");
+    } else if (questionTimeLeft === 0) {
+      handleNext("question");
+    }
+  }, [quizTimeLeft === 0, questionTimeLeft === 0]);
   
   // Calculate progress percentage
-  const progressPercentage = ((currentQuestionIndex + 1) / questions.length) * 100;
-  
-  // Calculate progress dots (maximum 5 dots)
-  const progressDots = Array(Math.min(questions.length, 5))
-    .fill(null)
-    .map((_, i) => i <= currentQuestionIndex);
+  const progressPercentage = (progress.questionNumber / progress.questionCount) * 100;
   
-  const handleOptionSelect = (option: string) => {
-    setSelectedOption(option);
+  const handleRevealHint = async () => {
+    if (!currentQuestion) return;
+    const questionId = currentQuestion.id;
+    setIsRevealingHint(true);
+    try {
+      const res = await apiRequest("POST", `/api/quizzes/${quizId}/hint`, { questionId, sessionToken });
+      const { hint } = await res.json();
+      const updatedHints = { ...revealedHints, [questionId]: hint };
+      setRevealedHints(updatedHints);
+      localStorage.setItem(`${storageKeyPrefix}hints`, JSON.stringify({ sessionToken, hints: updatedHints }));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Couldn't load the hint. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRevealingHint(false);
+    }
   };
   
-  const verifyAnswerMutation = useMutation({
-    mutationFn: async (answer: string | string[]) => {
-      const result = await verifyAnswer(currentQuestion.id, answer);
-      return result;
+  const hasUsed = (lifeline: Lifeline) => lifelineUses.some(use => use.lifeline === lifeline);
+  const canFiftyFifty = lifelines.includes("fifty-fifty") && !hasUsed("fifty-fifty")
+    && currentQuestion?.type === "multiple-choice" && (currentQuestion.options as string[]).length >= 3;
+  const canSkip = lifelines.includes("skip") && !hasUsed("skip") && progress.questionCount > 1;
+  const removedOptions = lifelineUses.find(use =>
+    use.lifeline === "fifty-fifty" && use.questionId === currentQuestion?.id)?.removedOptions ?? [];
+  
+  const handleLifeline = async (lifeline: Lifeline) => {
+    if (!currentQuestion) return;
+    setIsUsingLifeline(true);
+    try {
+      const res = await apiRequest("POST", `/api/quizzes/${quizId}/lifeline`, {
+        lifeline,
+        questionId: currentQuestion.id,
+        sessionToken
+      });
+      const use: LifelineUse = await res.json();
+      setLifelineUses([...lifelineUses, use]);
+      
+      if (lifeline === "skip") {
+        handleNext("skip");
+      } else if (use.removedOptions?.includes(selectedOption)) {
+        setSelectedOption("");
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Couldn't use the lifeline. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsUsingLifeline(false);
     }
-  });
+  };
   
-  const handleNext = async () => {
-    // Check if an answer is selected
-    if (!selectedOption) {
+  const handleNext = async (advance?: Advance) => {
+    if (!currentQuestion || isSendingAnswer) return;
+    
+    if (!advance && isMatching && arrangement.some(match => !match)) {
+      toast({
+        title: "Please match every item",
+        description: "Place an answer next to each item to continue",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    // Check if an answer is selected - an ordering is always complete
+    if (!advance && !isOrdering && !isMatching && (isMultiSelect ? selectedOptions.length === 0 : !selectedOption.trim())) {
       toast({
-        title: "Please select an answer",
-        description: "You must select an option to continue",
+        title: isNumeric ? "Please enter a number" : isOpenEnded ? "Please type an answer" : "Please select an answer",
+        description: isEntered ? "You must enter an answer to continue" : "You must select an option to continue",
         variant: "destructive"
       });
       return;
     }
     
+    setIsSendingAnswer(true);
     try {
-      // Verify if the answer is correct
-      const isCorrect = await verifyAnswerMutation.mutateAsync(selectedOption);
-      
-      // Save the answer
-      const questionAnswer: QuestionAnswer = {
+      // The server records the answer and when it arrived; correctness is only known once the quiz is submitted
+      const res = await apiRequest("POST", `/api/quizzes/${quizId}/answer`, {
         questionId: currentQuestion.id,
-        userAnswer: selectedOption,
-        isCorrect
-      };
-      
-      const updatedAnswers = [...userAnswers, questionAnswer];
-      setUserAnswers(updatedAnswers);
+        userAnswer: advance === "skip" ? ""
+          : isOrdering || isMatching ? arrangement
+          : isMultiSelect ? selectedOptions : isEntered ? selectedOption.trim() : selectedOption,
+        sessionToken
+      });
+      const { progress: next }: { progress: AttemptProgress } = await res.json();
       
       // Reset inputs for next question
       setSelectedOption("");
+      setSelectedOptions([]);
       
       // Increment ad refresh counter to reload ads
       setAdRefreshCounter(prev => prev + 1);
       
       // Show interstitial ad every 5 questions
-      if ((currentQuestionIndex + 1) % 5 === 0) {
+      if (progress.questionNumber % 5 === 0) {
         showAdInterstitial();
       }
       
-      // If this was the last question, complete the quiz
-      if (isLastQuestion) {
-        // Calculate the score (correct answers count)
-        const correctAnswers = updatedAnswers.filter(a => a.isCorrect).length;
-        
-        // Ensure score cannot exceed total questions
-        const validScore = Math.min(correctAnswers, questions.length);
-        
-        console.log("Quiz completed - calculated score:", {
-          correctAnswers,
-          totalQuestions: questions.length,
-          finalScore: validScore
-        });
+      // If this was the last question, or the quiz is out of time, complete the quiz
+      if (!next.question || advance === "quiz") {
+        if (advance === "quiz") {
+          toast({ title: "Time's up!", description: "Your answers have been handed in" });
+        }
         
-        // Clear saved answers from localStorage when quiz is completed
-        localStorage.removeItem(`${storageKeyPrefix}answers`);
-        localStorage.removeItem(`${storageKeyPrefix}currentIndex`);
-        console.log("Cleared quiz progress from local storage after completion");
+        localStorage.removeItem(`${storageKeyPrefix}hints`);
         
-        onComplete(updatedAnswers, validScore);
+        // The score is calculated on the server when the quiz is submitted
+        onComplete();
       } else {
-        // Move to next question
-        setCurrentQuestionIndex(currentQuestionIndex + 1);
+        setProgress(next);
       }
     } catch (error) {
+      // Past the deadline nothing more is taken, so what was answered in time is handed in
+      const refusal = serverRefusal(error as Error);
+      if (refusal?.status === 410) {
+        toast({ title: "Time's up!", description: "Your answers have been handed in" });
+        localStorage.removeItem(`${storageKeyPrefix}hints`);
+        onComplete();
+        return;
+      }
       toast({
         title: "Error",
-        description: "Failed to submit answer. Please try again.",
+        description: refusal?.message ?? "Failed to save answer. Please try again.",
         variant: "destructive"
       });
+    } finally {
+      setIsSendingAnswer(false);
     }
   };
   
-  const handleBack = () => {
-    if (currentQuestionIndex > 0) {
-      // Remove the last answer
-      const updatedAnswers = [...userAnswers];
-      updatedAnswers.pop();
-      setUserAnswers(updatedAnswers);
-      
-      // Go back to previous question
-      setCurrentQuestionIndex(currentQuestionIndex - 1);
-    }
-  };
-  
-  if (questions.length === 0) {
+  if (progress.questionCount === 0) {
     return (
       <>
         <Card>
@@ -209,16 +278,17 @@ const QuizAnswer: React.FC<QuizAnswerProps> = ({
     );
   }
   
+  // Picked up again after the last answer went in, but before the quiz was submitted
   if (!currentQuestion) {
     return (
-      <>
-        <div className="flex justify-center items-center h-40">
-          <div className="text-center">
-            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
-            <p>Loading questions...</p>
-          </div>
-        </div>
-      </>
+      <Card>
+        <CardContent className="pt-6 text-center py-8">
+          <h3 className="text-xl font-semibold mb-4">You've answered every question</h3>
+          <Button className="btn-primary" onClick={onComplete}>
+            Submit
+          </Button>
+        </CardContent>
+      </Card>
     );
   }
   
@@ -243,7 +313,7 @@ const QuizAnswer: React.FC<QuizAnswerProps> = ({
           
           {/* Progress indicator with number */}
           <div className="mb-3 flex justify-between items-center text-sm text-muted-foreground">
-            <span>Question {currentQuestionIndex + 1} of {questions.length}</span>
+            <span>Question {progress.questionNumber} of {progress.questionCount}</span>
             <span>{Math.round(progressPercentage)}% complete</span>
           </div>
           
@@ -252,6 +322,23 @@ const QuizAnswer: React.FC<QuizAnswerProps> = ({
             <Progress value={progressPercentage} className="h-2" />
           </div>
           
+          {/* Countdowns, shown in whole seconds rounded up */}
+          {(questionTimeLeft !== null || quizTimeLeft !== null) && (
+            <div className="mb-6 flex justify-between items-center text-sm font-medium">
+              {questionTimeLeft !== null ? (
+                <span className={`flex items-center ${questionTimeLeft <= 5000 ? 'text-red-600' : 'text-gray-700'}`}>
+                  <Timer className="h-4 w-4 mr-1" />
+                  {formatDuration(Math.ceil(questionTimeLeft / 1000) * 1000)} for this question
+                </span>
+              ) : <span />}
+              {quizTimeLeft !== null && (
+                <span className={quizTimeLeft <= 30000 ? 'text-red-600' : 'text-gray-700'}>
+                  {formatDuration(Math.ceil(quizTimeLeft / 1000) * 1000)} left in the quiz
+                </span>
+              )}
+            </div>
+          )}
+          
           {/* Question container */}
           <div className="question-container">
             <div className="text-center mb-6">
@@ -289,41 +376,43 @@ const QuizAnswer: React.FC<QuizAnswerProps> = ({
               )}
             </div>
             
-            {/* Multiple choice options */}
-            <div className="space-y-3">
-              {(currentQuestion.options as string[]).map((option, index) => (
-                <label 
-                  key={index}
-                  className={`block p-3 bg-white border ${
-                    selectedOption === option ? 'border-primary' : 'border-gray-200'
-                  } rounded-lg hover:border-primary cursor-pointer transition-colors`}
-                  onClick={() => handleOptionSelect(option)}
-                >
-                  <div className="flex items-center">
-                    <div className={`w-5 h-5 rounded-full ${
-                      selectedOption === option ? 'bg-primary' : 'border-2 border-gray-300'
-                    } mr-3 flex-shrink-0`}></div>
-                    <span>{option}</span>
-                  </div>
-                </label>
-              ))}
-            </div>
+            {currentQuestion.hasHint && (
+              <QuestionHint
+                hint={revealedHints[currentQuestion.id]}
+                penaltyPercent={hintPenaltyPercent}
+                isRevealing={isRevealingHint}
+                onReveal={handleRevealHint}
+              />
+            )}
+            
+            <LifelineButtons
+              canFiftyFifty={canFiftyFifty}
+              canSkip={canSkip}
+              isUsing={isUsingLifeline}
+              onFiftyFifty={() => handleLifeline("fifty-fifty")}
+              onSkip={() => handleLifeline("skip")}
+            />
+            
+            <AnswerInput
+              question={currentQuestion}
+              selectedOption={selectedOption}
+              setSelectedOption={setSelectedOption}
+              selectedOptions={selectedOptions}
+              setSelectedOptions={setSelectedOptions}
+              arrangement={arrangement}
+              setArrangement={setArrangement}
+              removedOptions={removedOptions}
+              onSubmit={() => handleNext()}
+            />
           </div>
           
-          <div className="flex justify-between mt-6">
-            <Button 
-              type="button" 
-              className="btn-secondary" 
-              onClick={handleBack}
-              disabled={currentQuestionIndex === 0 || verifyAnswerMutation.isPending}
-            >
-              Back
-            </Button>
+          {/* Answers are final once given, so there's no going back */}
+          <div className="flex justify-end mt-6">
             <Button 
               type="button" 
               className="btn-primary" 
-              onClick={handleNext}
-              disabled={verifyAnswerMutation.isPending}
+              disabled={isSendingAnswer}
+              onClick={() => handleNext()}
             >
               {isLastQuestion ? "Submit" : "Next Question"}
             </Button>
@@ -4,20 +4,49 @@ import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { trackEvent } from "@/lib/analytics";
-import { generateAccessCode, generateUrlSlug, generateDashboardToken } from "@/lib/utils";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
-import { AlertCircle, Image, Loader2, X, Eye, Sparkles, CheckCircle } from "lucide-react";
+import { AlertCircle, Image, Loader2, X, Eye, Sparkles, CheckCircle, Upload } from "lucide-react";
 import MultipleChoiceEditor from "./MultipleChoiceEditorNew";
+import TrueFalseEditor from "./TrueFalseEditor";
+import MultiSelectEditor from "./MultiSelectEditor";
+import OpenEndedEditor from "./OpenEndedEditor";
+import OrderingEditor from "./OrderingEditor";
+import MatchingEditor from "./MatchingEditor";
+import NumericEditor from "./NumericEditor";
+import QuestionTypePicker from "./QuestionTypePicker";
+import QuestionPointsInput from "./QuestionPointsInput";
+import QuestionTimeLimitSelect from "./QuestionTimeLimitSelect";
+import QuestionHintInput from "./QuestionHintInput";
+import QuestionExplanationInput from "./QuestionExplanationInput";
 import QuestionList from "./QuestionList";
+import QuizSettingsPanel from "./QuizSettingsPanel";
+import QuizLifetimePicker from "./QuizLifetimePicker";
+import QuizImportDialog from "./QuizImportDialog";
 import AdPlaceholder from "../common/AdPlaceholder";
 // Remove Layout import to prevent duplicate headers/footers
-import { Question } from "@shared/schema";
-import { validateQuiz } from "@/lib/quizUtils";
+import { ImportedQuestion, Question, QuestionType, QuizSettings, quizSettingsSchema } from "@shared/schema";
+import { formatOpenEndedAnswers, validateQuiz } from "@/lib/quizUtils";
+import {
+  arrangementProblem,
+  buildAnswerFields,
+  correctOptionIndexes,
+  emptyMatchPairs,
+  emptyNumericDraft,
+  isQuestionType,
+  MatchPair,
+  matchPairsFromQuestion,
+  NumericDraft,
+  numericDraftFromQuestion,
+  numericProblem
+} from "@/lib/questionTypes";
+
+// Most questions a quiz can be published with
+const MAX_QUIZ_QUESTIONS = 100;
 
 const QuizCreation: React.FC = () => {
   // Creator name from homepage (stored in sessionStorage)
@@ -28,9 +57,18 @@ const QuizCreation: React.FC = () => {
   const { toast } = useToast();
   
   // Question state
+  const [questionType, setQuestionType] = useState<QuestionType>("multiple-choice");
   const [questionText, setQuestionText] = useState("");
   const [options, setOptions] = useState<string[]>(["", "", "", ""]);
-  const [correctOption, setCorrectOption] = useState<number>(0);
+  const [correctOption, setCorrectOption] = useState<number>(0); // Multiple choice and true/false
+  const [correctOptions, setCorrectOptions] = useState<number[]>([]); // Multi-select
+  const [acceptedAnswers, setAcceptedAnswers] = useState(""); // Open-ended, comma-separated
+  const [matchPairs, setMatchPairs] = useState<MatchPair[]>(emptyMatchPairs()); // Matching
+  const [numeric, setNumeric] = useState<NumericDraft>(emptyNumericDraft()); // Numeric
+  const [questionPoints, setQuestionPoints] = useState(1);
+  const [questionTimeLimit, setQuestionTimeLimit] = useState<number | null>(null);
+  const [questionHint, setQuestionHint] = useState("");
+  const [questionExplanation, setQuestionExplanation] = useState("");
   
   // Image handling for questions
   const [questionImage, setQuestionImage] = useState<File | null>(null);
@@ -59,6 +97,12 @@ const QuizCreation: React.FC = () => {
   
   // Track which question is being edited (for regular editing, not auto-review)
   const [editingQuestionIndex, setEditingQuestionIndex] = useState<number | null>(null);
+  
+  // Creator settings for the quiz (answer reveal policy etc.)
+  const [quizSettings, setQuizSettings] = useState<QuizSettings>(() => quizSettingsSchema.parse({}));
+  
+  // How many days the quiz stays available - null until the creator picks, so the server default applies
+  const [lifetimeDays, setLifetimeDays] = useState<number | null>(null);
 
     // Initialize auto-create mode and review flags from sessionStorage
   React.useEffect(() => {
@@ -163,6 +207,8 @@ const QuizCreation: React.FC = () => {
           console.log('🔍 QuizEditor: Question correctAnswers:', firstQuestion.correctAnswers);
           
           setQuestionText(firstQuestion.text);
+          setQuestionHint(firstQuestion.hint ?? "");
+          setQuestionExplanation(firstQuestion.explanation ?? "");
           setOptions([...(firstQuestion.options as string[])]);
           
           // Find and set the correct answer automatically
@@ -384,6 +430,8 @@ const QuizCreation: React.FC = () => {
   // Minimum required questions indicator
   const requiredQuestionsCount = 5;
   const questionsNeeded = Math.max(0, requiredQuestionsCount - questions.length);
+
+  const [isImportOpen, setIsImportOpen] = useState(false);
   
   // Image upload mutation
   const uploadImageMutation = useMutation({
@@ -439,92 +487,76 @@ const QuizCreation: React.FC = () => {
       // Get user ID from session
       const currentUserId = parseInt(sessionStorage.getItem("userId") || "0");
       
-      console.log(`Creating quiz with name: "${creatorName}" (ensuring fresh data)`);
-      
-      // Generate fresh tokens and codes
-      const accessCode = generateAccessCode();
-      const dashboardToken = generateDashboardToken();
+      console.log(`Publishing quiz with name: "${creatorName}"`);
       
-      // Important: Force a fresh slug creation with the current name to avoid cache issues
       // Clear any old creatorName data from localStorage (if any) as a safety measure
       localStorage.removeItem("creatorName");
       
-      // Generate the URL slug with the current creator name
-      const urlSlug = generateUrlSlug(creatorName);
-      
-      // Store the current dashboard token in sessionStorage for immediate access
-      sessionStorage.setItem("currentQuizDashboardToken", dashboardToken);
-      
-      // Create the quiz
-      const quizResponse = await apiRequest("POST", "/api/quizzes", {
-        creatorId: currentUserId,
-        creatorName: creatorName,
-        accessCode,
-        urlSlug,
-        dashboardToken,
-        isAutoCreated: isAutoCreateMode // Add flag to track auto-created quizzes
-      });
-      
-      if (!quizResponse.ok) {
-        throw new Error("Failed to create quiz");
-      }
-      
-      const quiz = await quizResponse.json();
-      
-      console.log(`Quiz created successfully with ID: ${quiz.id}`);
-      console.log(`Quiz ID type: ${typeof quiz.id}`);
-      console.log(`Quiz ID value: ${quiz.id}`);
-      console.log(`Dashboard Token: ${quiz.dashboardToken}`);
-      console.log(`URL Slug: ${quiz.urlSlug}`);
-      
-      // Create all questions for the quiz
-      const questionPromises = questions.map((question, index) => {
+      // Transform every question to the database format - they are saved together with the quiz
+      const transformedQuestions = questions.map((question) => {
         // Transform AI generated format to database format
         // Handle both AI format (correctAnswer: "A") and manual format (correctAnswers: ["text"])
         // Cast to any to handle different question formats from AI vs manual creation
         const aiQuestion = question as any;
-        let correctAnswerText;
+        let correctAnswers: string[];
         
         if (aiQuestion.correctAnswer && typeof aiQuestion.correctAnswer === 'string' && aiQuestion.correctAnswer.length > 0) {
           // AI generated format - convert letter to index
           const correctAnswerIndex = aiQuestion.correctAnswer.charCodeAt(0) - 'A'.charCodeAt(0);
           const options = Array.isArray(aiQuestion.options) ? aiQuestion.options : [];
           if (correctAnswerIndex >= 0 && correctAnswerIndex < options.length) {
-            correctAnswerText = options[correctAnswerIndex];
+            correctAnswers = [options[correctAnswerIndex]];
           } else {
             console.warn(`Invalid correctAnswer index: ${correctAnswerIndex} for question: ${aiQuestion.question || aiQuestion.text}`);
-            correctAnswerText = options.length > 0 ? options[0] : "Option A"; // Fallback to first option
+            correctAnswers = [options.length > 0 ? options[0] : "Option A"]; // Fallback to first option
           }
         } else if (aiQuestion.correctAnswers && Array.isArray(aiQuestion.correctAnswers) && aiQuestion.correctAnswers.length > 0) {
-          // Manual format - already has correct answer text
-          correctAnswerText = aiQuestion.correctAnswers[0];
+          // Manual format - already has correct answer text, possibly several for multi-select
+          correctAnswers = aiQuestion.correctAnswers;
         } else {
           // Fallback - use first option
           console.warn(`No valid correctAnswer found for question: ${aiQuestion.question || aiQuestion.text}. Using first option as fallback.`);
           const options = Array.isArray(aiQuestion.options) ? aiQuestion.options : [];
-          correctAnswerText = options.length > 0 ? options[0] : "Option A";
+          correctAnswers = [options.length > 0 ? options[0] : "Option A"];
         }
         
-        const transformedQuestion = {
-          quizId: quiz.id,
+        return {
           text: aiQuestion.question || aiQuestion.text || "Question text", // Handle both AI and manual formats
-          type: "multiple-choice",
+          type: isQuestionType(aiQuestion.type) ? aiQuestion.type : "multiple-choice", // AI questions are always multiple choice
           options: Array.isArray(aiQuestion.options) ? aiQuestion.options : [], // Ensure it's an array
-          correctAnswers: [correctAnswerText], // Convert letter to actual answer text
-          hint: aiQuestion.explanation || aiQuestion.hint || null, // Handle both explanation and hint fields
-          order: index,
+          correctAnswers, // Actual answer text rather than letters
+          numericSettings: aiQuestion.numericSettings ?? null,
+          points: aiQuestion.points ?? 1,
+          timeLimitSeconds: aiQuestion.timeLimitSeconds ?? null,
+          hint: aiQuestion.hint || null,
+          explanation: aiQuestion.explanation?.trim() || null,
           imageUrl: aiQuestion.imageUrl || null
         };
-        
-        console.log(`Creating question ${index + 1} with quizId: ${quiz.id} (type: ${typeof quiz.id})`);
-        console.log('Question data:', transformedQuestion);
-        
-        return apiRequest("POST", "/api/questions", transformedQuestion);
       });
       
-      console.log("Creating questions...", questionPromises.length);
-      const questionResults = await Promise.all(questionPromises);
-      console.log("All questions created successfully:", questionResults.length);
+      // Publish the quiz and its questions in one request; the server generates the
+      // access code, URL slug and dashboard token and saves everything atomically
+      const quizResponse = await apiRequest("POST", "/api/quizzes/publish", {
+        creatorId: currentUserId,
+        creatorName: creatorName,
+        isAutoCreated: isAutoCreateMode, // Add flag to track auto-created quizzes
+        settings: quizSettings,
+        lifetimeDays: lifetimeDays ?? undefined,
+        questions: transformedQuestions
+      });
+      
+      if (!quizResponse.ok) {
+        throw new Error("Failed to create quiz");
+      }
+      
+      const quiz = await quizResponse.json();
+      
+      console.log(`Quiz published successfully with ID: ${quiz.id} (${quiz.questionCount} questions)`);
+      console.log(`URL Slug: ${quiz.urlSlug}`);
+      
+      // Store the current dashboard token in sessionStorage for immediate access
+      sessionStorage.setItem("currentQuizDashboardToken", quiz.dashboardToken);
+      
       return quiz;
     }
   });
@@ -541,8 +573,9 @@ const QuizCreation: React.FC = () => {
       return;
     }
     
-    // Validate all options are filled
-    if (options.some(opt => !opt.trim())) {
+    // Validate all options are filled - true/false options are fixed, open-ended and numeric questions have none and matching questions have pairs
+    const hasOptions = !["true-false", "open-ended", "matching", "numeric"].includes(questionType);
+    if (hasOptions && options.some(opt => !opt.trim())) {
       toast({
         title: "Options Required",
         description: "Please fill in all options",
@@ -550,6 +583,44 @@ const QuizCreation: React.FC = () => {
       });
       return;
     }
+    
+    if (questionType === "multi-select" && correctOptions.length === 0) {
+      toast({
+        title: "Correct Answer Required",
+        description: "Please tick at least one correct option",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    if (questionType === "open-ended" && formatOpenEndedAnswers(acceptedAnswers).length === 0) {
+      toast({
+        title: "Answer Required",
+        description: "Please enter at least one accepted answer",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    const arrangementError = arrangementProblem(questionType, { options, correctOption, correctOptions, acceptedAnswers, matchPairs, numeric });
+    if (arrangementError) {
+      toast({
+        title: "Check Your Items",
+        description: arrangementError,
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    const numericError = questionType === "numeric" ? numericProblem(numeric) : null;
+    if (numericError) {
+      toast({
+        title: "Check Your Numbers",
+        description: numericError,
+        variant: "destructive"
+      });
+      return;
+    }
 
     try {
       // Handle image upload if present
@@ -590,16 +661,20 @@ const QuizCreation: React.FC = () => {
         }
       }
 
-      // Prepare the correct answers array
-      const correctAnswers = [options[correctOption]];
+      // Prepare the options and correct answers for the question type
+      const answerFields = buildAnswerFields(questionType, { options, correctOption, correctOptions, acceptedAnswers, matchPairs, numeric });
 
       if (editingQuestionIndex !== null) {
         // Update existing question
         const updatedQuestion: Question = {
           ...questions[editingQuestionIndex],
           text: questionText,
-          options,
-          correctAnswers,
+          type: questionType,
+          ...answerFields,
+          points: questionPoints,
+          timeLimitSeconds: questionTimeLimit,
+          hint: questionHint.trim() || null,
+          explanation: questionExplanation.trim() || null,
           imageUrl: imageUrl || questions[editingQuestionIndex].imageUrl // Preserve existing image if no new one uploaded
         };
 
@@ -621,10 +696,12 @@ const QuizCreation: React.FC = () => {
           id: Date.now(), // Temporary ID until saved to server
           quizId: 0, // Will be set when quiz is created
           text: questionText,
-          type: "multiple-choice",
-          options,
-          correctAnswers,
-          hint: null,
+          type: questionType,
+          ...answerFields,
+          points: questionPoints,
+          timeLimitSeconds: questionTimeLimit,
+          hint: questionHint.trim() || null,
+          explanation: questionExplanation.trim() || null,
           order: questions.length,
           imageUrl
         };
@@ -710,8 +787,12 @@ const QuizCreation: React.FC = () => {
       const updatedQuestion = {
         ...questions[currentAutoReviewIndex],
         text: questionText,
-        options: [...options],
-        correctAnswers: [options[correctOption]],
+        type: questionType,
+        ...buildAnswerFields(questionType, { options: [...options], correctOption, correctOptions, acceptedAnswers, matchPairs, numeric }),
+        points: questionPoints,
+        timeLimitSeconds: questionTimeLimit,
+        hint: questionHint.trim() || null,
+        explanation: questionExplanation.trim() || null,
         // Only set imageUrl if we actually have one (from upload or editing)
         imageUrl: imageUrl || null
       };
@@ -738,6 +819,11 @@ const QuizCreation: React.FC = () => {
       setCurrentAutoReviewIndex(nextIndex);
       const nextQuestion = questions[nextIndex];
       
+      setQuestionType("multiple-choice");
+      setQuestionPoints(nextQuestion.points ?? 1);
+      setQuestionTimeLimit(nextQuestion.timeLimitSeconds ?? null);
+      setQuestionHint(nextQuestion.hint ?? "");
+      setQuestionExplanation(nextQuestion.explanation ?? "");
       setQuestionText(nextQuestion.text);
       setOptions([...(nextQuestion.options as string[])]);
       
@@ -824,9 +910,18 @@ const QuizCreation: React.FC = () => {
 
   // Reset form fields
   const resetForm = () => {
+    setQuestionType("multiple-choice");
     setQuestionText("");
     setOptions(["", "", "", ""]);
     setCorrectOption(0);
+    setCorrectOptions([]);
+    setAcceptedAnswers("");
+    setMatchPairs(emptyMatchPairs());
+    setNumeric(emptyNumericDraft());
+    setQuestionPoints(1);
+    setQuestionTimeLimit(null);
+    setQuestionHint("");
+    setQuestionExplanation("");
     setEditingQuestionIndex(null);
     setEditingImageUrl(null); // Clear the editing image URL
     handleRemoveImage();
@@ -864,7 +959,12 @@ const QuizCreation: React.FC = () => {
       console.log(`📝 Question ${question.id} marked as reviewed (edited)`);
     }
     
-    // Set the question text
+    // Set the question type and text
+    setQuestionType(isQuestionType(question.type) ? question.type : "multiple-choice");
+    setQuestionPoints(question.points ?? 1);
+    setQuestionTimeLimit(question.timeLimitSeconds ?? null);
+    setQuestionHint(question.hint ?? "");
+    setQuestionExplanation(question.explanation ?? "");
     setQuestionText(question.text);
     
     // Set the options and correct answer (clean the options if they have letter prefixes)
@@ -873,12 +973,27 @@ const QuizCreation: React.FC = () => {
         // Remove A), B), C), D) prefixes if they exist
         return opt.replace(/^[A-D]\)\s*/, '').trim();
       });
-      setOptions(cleanOptions);
+      const correctAnswers = (question.correctAnswers as string[]) || [];
+      // Open-ended and matching questions have no plain options; keep blanks in case the type is switched.
+      // Ordering questions are edited in their right order.
+      if (question.type === "ordering") {
+        setOptions([...correctAnswers]);
+      } else {
+        setOptions(cleanOptions.length > 0 && question.type !== "matching" ? cleanOptions : ["", "", "", ""]);
+      }
+      setAcceptedAnswers(question.type === "open-ended" ? correctAnswers.join(", ") : "");
+      setMatchPairs(question.type === "matching"
+        ? matchPairsFromQuestion(question.options as string[], correctAnswers)
+        : emptyMatchPairs());
+      setNumeric(question.type === "numeric"
+        ? numericDraftFromQuestion(correctAnswers, question.numericSettings)
+        : emptyNumericDraft());
       
       const correctAnswerText = (question.correctAnswers as string[])?.[0];
       const cleanCorrectAnswer = correctAnswerText?.replace(/^[A-D]\)\s*/, '').trim();
       const correctIndex = cleanOptions.findIndex(opt => opt === cleanCorrectAnswer);
       setCorrectOption(correctIndex >= 0 ? correctIndex : 0);
+      setCorrectOptions(correctOptionIndexes(cleanOptions, (question.correctAnswers as string[]) || []));
     }
     
     // Handle the image - AI-generated questions start with no images
@@ -908,6 +1023,28 @@ const QuizCreation: React.FC = () => {
     setQuestions(updatedQuestions);
   };
 
+  // Add questions read from a quiz file after the existing ones; like typed questions they need no review
+  const handleImportQuestions = (imported: ImportedQuestion[]) => {
+    const firstId = Date.now();
+    const newQuestions: Question[] = imported.map((question, index) => ({
+      ...question,
+      id: firstId + index, // Temporary IDs until saved to server
+      quizId: 0,
+      order: questions.length + index
+    }));
+
+    setQuestions(prev => [...prev, ...newQuestions]);
+    setReviewedQuestions(prev => new Set([...Array.from(prev), ...newQuestions.map(question => question.id)]));
+    trackEvent('questions_imported', 'engagement', 'file', newQuestions.length);
+    setAdRefreshCounter(prev => prev + 1);
+
+    toast({
+      title: "Questions Imported",
+      description: `${newQuestions.length} ${newQuestions.length === 1 ? "question" : "questions"} added. You can edit them below before publishing.`,
+      variant: "default"
+    });
+  };
+
   // Mark question as reviewed without editing (for AI-generated questions)
   const handleMarkAsReviewed = (index: number) => {
     const question = questions[index];
@@ -1171,13 +1308,60 @@ const QuizCreation: React.FC = () => {
               )}
             </div>
             
-            {/* Multiple choice editor */}
-            <MultipleChoiceEditor
-              options={options}
-              setOptions={setOptions}
-              correctOption={correctOption}
-              setCorrectOption={setCorrectOption}
-            />
+            <div className="mb-6 flex flex-wrap items-end justify-between gap-3">
+              <QuestionTypePicker value={questionType} onChange={setQuestionType} />
+              <div className="flex flex-wrap items-center gap-3">
+                <QuestionPointsInput points={questionPoints} setPoints={setQuestionPoints} />
+                <QuestionTimeLimitSelect timeLimit={questionTimeLimit} setTimeLimit={setQuestionTimeLimit} />
+              </div>
+            </div>
+            
+            {/* Answer editor for the chosen question type */}
+            {questionType === "true-false" ? (
+              <TrueFalseEditor
+                correctOption={correctOption}
+                setCorrectOption={setCorrectOption}
+              />
+            ) : questionType === "multi-select" ? (
+              <MultiSelectEditor
+                options={options}
+                setOptions={setOptions}
+                correctOptions={correctOptions}
+                setCorrectOptions={setCorrectOptions}
+              />
+            ) : questionType === "open-ended" ? (
+              <OpenEndedEditor
+                acceptedAnswers={acceptedAnswers}
+                setAcceptedAnswers={setAcceptedAnswers}
+              />
+            ) : questionType === "ordering" ? (
+              <OrderingEditor
+                items={options}
+                setItems={setOptions}
+              />
+            ) : questionType === "matching" ? (
+              <MatchingEditor
+                pairs={matchPairs}
+                setPairs={setMatchPairs}
+              />
+            ) : questionType === "numeric" ? (
+              <NumericEditor
+                numeric={numeric}
+                setNumeric={setNumeric}
+              />
+            ) : (
+              <MultipleChoiceEditor
+                options={options}
+                setOptions={setOptions}
+                correctOption={correctOption}
+                setCorrectOption={setCorrectOption}
+              />
+            )}
+
+            <div className="mt-6 space-y-4">
+              <QuestionHintInput hint={questionHint} setHint={setQuestionHint} />
+              <QuestionExplanationInput explanation={questionExplanation} setExplanation={setQuestionExplanation} />
+            </div>
           </div>
           
           <div className="flex gap-3 mt-6">
@@ -1217,15 +1401,46 @@ const QuizCreation: React.FC = () => {
         </CardContent>
       </Card>
       
+      {/* Quiz Settings */}
+      <Card className="mb-6">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">Quiz Settings</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0 space-y-6">
+          <QuizSettingsPanel settings={quizSettings} onChange={setQuizSettings} />
+          <QuizLifetimePicker value={lifetimeDays} onChange={setLifetimeDays} />
+        </CardContent>
+      </Card>
+      
       {/* Questions List */}
       <Card>
         <CardContent className="pt-6">
-          <h3 className="font-semibold text-lg mb-3">
-            {isAutoGenerated && questions.length > 0 ? 
-              `Generated Questions (${questions.length})` : 
-              "Your Questions"
-            }
-          </h3>
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="font-semibold text-lg">
+              {isAutoGenerated && questions.length > 0 ? 
+                `Generated Questions (${questions.length})` : 
+                "Your Questions"
+              }
+            </h3>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="flex items-center h-8"
+              onClick={() => setIsImportOpen(true)}
+              disabled={questions.length >= MAX_QUIZ_QUESTIONS}
+            >
+              <Upload className="mr-2 h-3.5 w-3.5" />
+              Import
+            </Button>
+          </div>
+          
+          <QuizImportDialog
+            open={isImportOpen}
+            onOpenChange={setIsImportOpen}
+            roomLeft={MAX_QUIZ_QUESTIONS - questions.length}
+            onImport={handleImportQuestions}
+          />
           
           <QuestionList 
             questions={questions} 
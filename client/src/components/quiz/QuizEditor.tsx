@@ -0,0 +1,475 @@
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Question, QuestionType, Quiz, QuizSettings, formatAnswer, resolveQuizSettings } from "@shared/schema";
+import {
+  AnswerEditorState,
+  arrangementProblem,
+  buildAnswerFields,
+  correctOptionIndexes,
+  emptyMatchPairs,
+  emptyNumericDraft,
+  isQuestionType,
+  MatchPair,
+  matchPairsFromQuestion,
+  NumericDraft,
+  numericDraftFromQuestion,
+  numericProblem,
+  questionTypeChoices
+} from "@/lib/questionTypes";
+import { formatOpenEndedAnswers } from "@/lib/quizUtils";
+import { formatTimeLimit } from "@/lib/utils";
+import QuizSettingsPanel from "./QuizSettingsPanel";
+import QuestionTypePicker from "./QuestionTypePicker";
+import QuestionPointsInput from "./QuestionPointsInput";
+import QuestionTimeLimitSelect from "./QuestionTimeLimitSelect";
+import QuestionHintInput from "./QuestionHintInput";
+import QuestionExplanationInput from "./QuestionExplanationInput";
+import MultipleChoiceEditor from "./MultipleChoiceEditorNew";
+import TrueFalseEditor from "./TrueFalseEditor";
+import MultiSelectEditor from "./MultiSelectEditor";
+import OpenEndedEditor from "./OpenEndedEditor";
+import OrderingEditor from "./OrderingEditor";
+import MatchingEditor from "./MatchingEditor";
+import NumericEditor from "./NumericEditor";
+import { ArrowUp, ArrowDown, Pencil, Trash2, Plus } from "lucide-react";
+
+interface QuizEditorProps {
+  quiz: Quiz;
+  dashboardToken: string;
+  questions: Question[];
+}
+
+interface QuestionDraft extends AnswerEditorState {
+  type: QuestionType;
+  text: string;
+  points: number;
+  timeLimitSeconds: number | null;
+  hint: string;
+  explanation: string;
+}
+
+const emptyDraft = (): QuestionDraft => ({
+  type: "multiple-choice",
+  text: "",
+  points: 1,
+  timeLimitSeconds: null,
+  hint: "",
+  explanation: "",
+  options: ["", "", "", ""],
+  correctOption: 0,
+  correctOptions: [],
+  acceptedAnswers: "",
+  matchPairs: emptyMatchPairs(),
+  numeric: emptyNumericDraft()
+});
+
+const draftFromQuestion = (question: Question): QuestionDraft => {
+  const options = question.options as string[];
+  const correctAnswers = question.correctAnswers as string[];
+  const correctOptions = correctOptionIndexes(options, correctAnswers);
+  const type = isQuestionType(question.type) ? question.type : "multiple-choice";
+  return {
+    type,
+    text: question.text,
+    points: question.points,
+    timeLimitSeconds: question.timeLimitSeconds,
+    hint: question.hint ?? "",
+    explanation: question.explanation ?? "",
+    // Ordering questions are edited in their right order
+    options: type === "ordering" ? [...correctAnswers] : [...options],
+    correctOption: correctOptions[0] ?? 0,
+    correctOptions,
+    acceptedAnswers: type === "open-ended" ? correctAnswers.join(", ") : "",
+    matchPairs: type === "matching" ? matchPairsFromQuestion(options, correctAnswers) : emptyMatchPairs(),
+    numeric: type === "numeric" ? numericDraftFromQuestion(correctAnswers, question.numericSettings) : emptyNumericDraft()
+  };
+};
+
+interface QuestionFormProps {
+  initial: QuestionDraft;
+  submitLabel: string;
+  isSaving: boolean;
+  onSubmit: (draft: QuestionDraft) => void;
+  onCancel: () => void;
+}
+
+const QuestionForm: React.FC<QuestionFormProps> = ({ initial, submitLabel, isSaving, onSubmit, onCancel }) => {
+  const [type, setType] = useState<QuestionType>(initial.type);
+  const [text, setText] = useState(initial.text);
+  const [points, setPoints] = useState(initial.points);
+  const [timeLimitSeconds, setTimeLimitSeconds] = useState(initial.timeLimitSeconds);
+  const [hint, setHint] = useState(initial.hint);
+  const [explanation, setExplanation] = useState(initial.explanation);
+  // True/false, open-ended, matching and numeric questions have no editable options; start from blanks if the creator switches type
+  const withoutOptions: QuestionType[] = ["true-false", "open-ended", "matching", "numeric"];
+  const hadOptions = !withoutOptions.includes(initial.type);
+  const [options, setOptions] = useState<string[]>(hadOptions ? initial.options : emptyDraft().options);
+  const [correctOption, setCorrectOption] = useState(initial.correctOption);
+  const [correctOptions, setCorrectOptions] = useState<number[]>(initial.correctOptions);
+  const [acceptedAnswers, setAcceptedAnswers] = useState(initial.acceptedAnswers);
+  const [matchPairs, setMatchPairs] = useState<MatchPair[]>(initial.matchPairs);
+  const [numeric, setNumeric] = useState<NumericDraft>(initial.numeric);
+  const { toast } = useToast();
+
+  const handleSubmit = () => {
+    if (!text.trim()) {
+      toast({ title: "Question Required", description: "Please enter a question", variant: "destructive" });
+      return;
+    }
+    if (!withoutOptions.includes(type) && options.some(opt => !opt.trim())) {
+      toast({ title: "Options Required", description: "Please fill in all options", variant: "destructive" });
+      return;
+    }
+    if (type === "multi-select" && correctOptions.length === 0) {
+      toast({ title: "Correct Answer Required", description: "Please tick at least one correct option", variant: "destructive" });
+      return;
+    }
+    if (type === "open-ended" && formatOpenEndedAnswers(acceptedAnswers).length === 0) {
+      toast({ title: "Answer Required", description: "Please enter at least one accepted answer", variant: "destructive" });
+      return;
+    }
+    const answerState = { options, correctOption, correctOptions, acceptedAnswers, matchPairs, numeric };
+    const arrangementError = arrangementProblem(type, answerState);
+    if (arrangementError) {
+      toast({ title: "Check Your Items", description: arrangementError, variant: "destructive" });
+      return;
+    }
+    const numericError = type === "numeric" ? numericProblem(numeric) : null;
+    if (numericError) {
+      toast({ title: "Check Your Numbers", description: numericError, variant: "destructive" });
+      return;
+    }
+    onSubmit({ type, text, points, timeLimitSeconds, hint, explanation, ...answerState });
+  };
+
+  return (
+    <div className="space-y-4 p-4 rounded-lg border border-primary/40 bg-gray-50">
+      <div>
+        <Label className="block text-sm font-medium mb-1">Question</Label>
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Enter your question"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <QuestionTypePicker value={type} onChange={setType} />
+        <div className="flex flex-wrap items-center gap-3">
+          <QuestionPointsInput points={points} setPoints={setPoints} />
+          <QuestionTimeLimitSelect timeLimit={timeLimitSeconds} setTimeLimit={setTimeLimitSeconds} />
+        </div>
+      </div>
+
+      {type === "true-false" ? (
+        <TrueFalseEditor correctOption={correctOption} setCorrectOption={setCorrectOption} />
+      ) : type === "multi-select" ? (
+        <MultiSelectEditor
+          options={options}
+          setOptions={setOptions}
+          correctOptions={correctOptions}
+          setCorrectOptions={setCorrectOptions}
+        />
+      ) : type === "open-ended" ? (
+        <OpenEndedEditor acceptedAnswers={acceptedAnswers} setAcceptedAnswers={setAcceptedAnswers} />
+      ) : type === "ordering" ? (
+        <OrderingEditor items={options} setItems={setOptions} />
+      ) : type === "matching" ? (
+        <MatchingEditor pairs={matchPairs} setPairs={setMatchPairs} />
+      ) : type === "numeric" ? (
+        <NumericEditor numeric={numeric} setNumeric={setNumeric} />
+      ) : (
+        <MultipleChoiceEditor
+          options={options}
+          setOptions={setOptions}
+          correctOption={correctOption}
+          setCorrectOption={setCorrectOption}
+        />
+      )}
+
+      <QuestionHintInput hint={hint} setHint={setHint} />
+      <QuestionExplanationInput explanation={explanation} setExplanation={setExplanation} />
+
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="button" className="btn-primary" onClick={handleSubmit} disabled={isSaving}>
+          {isSaving ? "Saving..." : submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const QuizEditor: React.FC<QuizEditorProps> = ({ quiz, dashboardToken, questions }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [creatorName, setCreatorName] = useState(quiz.creatorName);
+  const [settings, setSettings] = useState<QuizSettings>(resolveQuizSettings(quiz.settings));
+  const [editingQuestionId, setEditingQuestionId] = useState<number | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [questionToDelete, setQuestionToDelete] = useState<Question | null>(null);
+
+  const quizKey = `/api/quizzes/dashboard/${dashboardToken}`;
+  const questionsKey = `/api/quizzes/dashboard/${dashboardToken}/questions`;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [quizKey] });
+    queryClient.invalidateQueries({ queryKey: [questionsKey] });
+  };
+
+  const onError = (error: Error) => {
+    console.error("Quiz edit failed:", error);
+    toast({ title: "Could not save changes", description: "Please try again.", variant: "destructive" });
+  };
+
+  const toQuestionContent = (draft: QuestionDraft) => ({
+    type: draft.type,
+    text: draft.text.trim(),
+    points: draft.points,
+    timeLimitSeconds: draft.timeLimitSeconds,
+    hint: draft.hint.trim() || null,
+    explanation: draft.explanation.trim() || null,
+    ...buildAnswerFields(draft.type, { ...draft, options: draft.options.map(opt => opt.trim()) })
+  });
+
+  const updateQuizMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", quizKey, { creatorName: creatorName.trim(), settings });
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Quiz updated", description: "Your changes have been saved." });
+    },
+    onError
+  });
+
+  const addQuestionMutation = useMutation({
+    mutationFn: async (draft: QuestionDraft) => {
+      const res = await apiRequest("POST", questionsKey, toQuestionContent(draft));
+      return res.json();
+    },
+    onSuccess: () => {
+      setIsAdding(false);
+      refresh();
+      toast({ title: "Question added" });
+    },
+    onError
+  });
+
+  const updateQuestionMutation = useMutation({
+    mutationFn: async ({ questionId, draft }: { questionId: number; draft: QuestionDraft }) => {
+      const res = await apiRequest("PATCH", `${questionsKey}/${questionId}`, toQuestionContent(draft));
+      return res.json();
+    },
+    onSuccess: () => {
+      setEditingQuestionId(null);
+      refresh();
+      toast({ title: "Question updated" });
+    },
+    onError
+  });
+
+  const deleteQuestionMutation = useMutation({
+    mutationFn: async (questionId: number) => {
+      await apiRequest("DELETE", `${questionsKey}/${questionId}`);
+    },
+    onSuccess: () => {
+      setQuestionToDelete(null);
+      refresh();
+      toast({ title: "Question deleted" });
+    },
+    onError
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (questionIds: number[]) => {
+      const res = await apiRequest("PUT", `${questionsKey}/order`, { questionIds });
+      return res.json();
+    },
+    onSuccess: (reordered: Question[]) => {
+      queryClient.setQueryData([questionsKey], reordered);
+      refresh();
+    },
+    onError
+  });
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const ids = questions.map(q => q.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Quiz details */}
+      <div>
+        <h3 className="font-poppins font-semibold text-lg mb-3">Quiz Details</h3>
+        <div className="space-y-4">
+          <div>
+            <Label className="block text-sm font-medium mb-1">Your name</Label>
+            <Input value={creatorName} onChange={(e) => setCreatorName(e.target.value)} maxLength={100} />
+          </div>
+          <QuizSettingsPanel settings={settings} onChange={setSettings} />
+          <Button
+            type="button"
+            className="btn-primary"
+            onClick={() => updateQuizMutation.mutate()}
+            disabled={!creatorName.trim() || updateQuizMutation.isPending}
+          >
+            {updateQuizMutation.isPending ? "Saving..." : "Save Details"}
+          </Button>
+        </div>
+      </div>
+
+      {/* Questions */}
+      <div>
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="font-poppins font-semibold text-lg">Questions</h3>
+          <span className="text-xs text-muted-foreground">Version {quiz.revision}</span>
+        </div>
+        <p className="text-sm text-muted-foreground mb-4">
+          Changes apply to new attempts. Scores from earlier attempts are kept and marked with the version they were taken on.
+        </p>
+
+        <div className="space-y-3">
+          {questions.map((question, index) => (
+            editingQuestionId === question.id ? (
+              <QuestionForm
+                key={question.id}
+                initial={draftFromQuestion(question)}
+                submitLabel="Save Question"
+                isSaving={updateQuestionMutation.isPending}
+                onSubmit={(draft) => updateQuestionMutation.mutate({ questionId: question.id, draft })}
+                onCancel={() => setEditingQuestionId(null)}
+              />
+            ) : (
+              <div key={question.id} className="p-4 rounded-lg border border-gray-200">
+                <div className="flex justify-between items-start">
+                  <div className="mr-4">
+                    <div className="font-medium">{index + 1}. {question.text}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {questionTypeChoices.find(choice => choice.value === question.type)?.label ?? question.type}
+                      {" · "}{question.points} {question.points === 1 ? "point" : "points"}
+                      {question.timeLimitSeconds !== null && <>{" · "}{formatTimeLimit(question.timeLimitSeconds)}</>}
+                    </div>
+                    {question.type === "open-ended" && (
+                      <div className="mt-1 text-sm text-green-700">
+                        Accepted: {(question.correctAnswers as string[]).join(", ")}
+                      </div>
+                    )}
+                    {(question.type === "ordering" || question.type === "matching" || question.type === "numeric") ? (
+                      <div className="mt-1 text-sm text-green-700">
+                        {formatAnswer(question, question.correctAnswers as string[])}
+                      </div>
+                    ) : (
+                      <ul className="mt-1 text-sm text-gray-600">
+                        {(question.options as string[]).map((option, i) => (
+                          <li
+                            key={i}
+                            className={(question.correctAnswers as string[]).includes(option) ? "text-green-700 font-medium" : ""}
+                          >
+                            {String.fromCharCode(65 + i)}. {option}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <div className="flex flex-shrink-0 space-x-1">
+                    <Button
+                      type="button" variant="ghost" size="sm"
+                      onClick={() => moveQuestion(index, -1)}
+                      disabled={index === 0 || reorderMutation.isPending}
+                      aria-label="Move question up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button" variant="ghost" size="sm"
+                      onClick={() => moveQuestion(index, 1)}
+                      disabled={index === questions.length - 1 || reorderMutation.isPending}
+                      aria-label="Move question down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button" variant="ghost" size="sm"
+                      onClick={() => setEditingQuestionId(question.id)}
+                      aria-label="Edit question"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button" variant="ghost" size="sm"
+                      onClick={() => setQuestionToDelete(question)}
+                      disabled={questions.length <= 1}
+                      aria-label="Delete question"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )
+          ))}
+
+          {isAdding ? (
+            <QuestionForm
+              initial={emptyDraft()}
+              submitLabel="Add Question"
+              isSaving={addQuestionMutation.isPending}
+              onSubmit={(draft) => addQuestionMutation.mutate(draft)}
+              onCancel={() => setIsAdding(false)}
+            />
+          ) : (
+            <Button type="button" variant="outline" className="w-full" onClick={() => setIsAdding(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Question
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <AlertDialog open={!!questionToDelete} onOpenChange={(open) => !open && setQuestionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this question?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{questionToDelete?.text}" will be removed from the quiz. Existing attempts keep their scores.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => questionToDelete && deleteQuestionMutation.mutate(questionToDelete.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default QuizEditor;
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatExpiryDate, formatTimeRemaining, lifetimeChoices } from "@/lib/utils";
+import { Quiz, QuizLifetimeBounds } from "@shared/schema";
+import { Clock } from "lucide-react";
+
+interface QuizExpiryBannerProps {
+  quiz: Quiz;
+  dashboardToken: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const QuizExpiryBanner: React.FC<QuizExpiryBannerProps> = ({ quiz, dashboardToken }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a minute so the countdown stays current
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const { data: bounds } = useQuery<QuizLifetimeBounds>({
+    queryKey: ["/api/quiz-lifetime"],
+  });
+
+  const extendMutation = useMutation({
+    mutationFn: async (days: number) => {
+      const res = await apiRequest("POST", `/api/quizzes/dashboard/${dashboardToken}/extend`, { days });
+      return res.json();
+    },
+    onSuccess: (updatedQuiz: Quiz) => {
+      queryClient.setQueryData([`/api/quizzes/dashboard/${dashboardToken}`], updatedQuiz);
+      toast({
+        title: "Quiz extended",
+        description: `Your quiz is now available until ${formatExpiryDate(updatedQuiz.expiresAt)}.`
+      });
+    },
+    onError: (error: Error) => {
+      console.error("Failed to extend quiz:", error);
+      toast({
+        title: "Could not extend quiz",
+        description: "Your quiz may already be at the maximum lifetime.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const msRemaining = new Date(quiz.expiresAt).getTime() - now;
+  const isUrgent = msRemaining < DAY_MS;
+  const hasExpired = msRemaining <= 0;
+
+  // Only offer extensions that would actually add time within the maximum lifetime;
+  // an expired quiz is extended from today
+  const daysUntilCap = bounds ? Math.floor((bounds.maxDays * DAY_MS - Math.max(msRemaining, 0)) / DAY_MS) : 0;
+  const extensionChoices = bounds
+    ? lifetimeChoices(1, bounds.maxDays).filter(days => days <= Math.max(daysUntilCap, 0))
+    : [];
+
+  return (
+    <Alert 
+      variant="default" 
+      className={`mb-6 ${isUrgent ? 'border-red-500 bg-red-50 text-red-700' : 'border-amber-500 bg-amber-50 text-amber-700'}`}
+    >
+      <Clock className={`h-4 w-4 ${isUrgent ? 'text-red-600' : 'text-amber-600'}`} />
+      <AlertTitle>{hasExpired ? "Expired" : `Expires in ${formatTimeRemaining(quiz.expiresAt, now)}`}</AlertTitle>
+      <AlertDescription>
+        {hasExpired ? (
+          <p>
+            This quiz expired on {formatExpiryDate(quiz.expiresAt)}. Extend it to open it again before
+            it is deleted with its results.
+          </p>
+        ) : (
+          <p>
+            This quiz will expire on {formatExpiryDate(quiz.expiresAt)}. After this date, 
+            players can no longer take it, and it is soon deleted with its results.
+          </p>
+        )}
+        {extensionChoices.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            <span className="text-sm font-medium">Extend by:</span>
+            {extensionChoices.map(days => (
+              <Button
+                key={days}
+                type="button"
+                size="sm"
+                variant="outline"
+                className="h-7"
+                disabled={extendMutation.isPending}
+                onClick={() => extendMutation.mutate(days)}
+              >
+                +{days} {days === 1 ? 'day' : 'days'}
+              </Button>
+            ))}
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default QuizExpiryBanner;
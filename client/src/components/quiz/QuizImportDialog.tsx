@@ -0,0 +1,191 @@
+import React from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ImportedQuestion, QuizFileFormat, QuizImportResult, formatAnswer } from "@shared/schema";
+import { serverRefusal } from "@/lib/queryClient";
+import { questionTypeChoices } from "@/lib/questionTypes";
+import { quizFileChoices, quizFileFormatOf } from "@/lib/quizFiles";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, Loader2 } from "lucide-react";
+
+interface QuizImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  roomLeft: number; // Questions the quiz can still take
+  onImport: (questions: ImportedQuestion[]) => void;
+}
+
+/**
+ * Reads the questions of a quiz file on the server and previews them, along with what couldn't be read,
+ * before they are added to the quiz being created
+ */
+const QuizImportDialog: React.FC<QuizImportDialogProps> = ({ open, onOpenChange, roomLeft, onImport }) => {
+  const [file, setFile] = React.useState<File | null>(null);
+  const [format, setFormat] = React.useState<QuizFileFormat | null>(null);
+
+  const readMutation = useMutation({
+    mutationFn: async ({ file, format }: { file: File; format: QuizFileFormat }) => {
+      const formData = new FormData();
+      formData.append("format", format);
+      formData.append("file", file);
+      // Sent as a file upload, since apiRequest only sends JSON
+      const response = await fetch("/api/quiz-import", { method: "POST", body: formData, credentials: "include" });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return response.json() as Promise<QuizImportResult>;
+    }
+  });
+
+  const read = (nextFile: File | null, nextFormat: QuizFileFormat | null) => {
+    readMutation.reset();
+    if (nextFile && nextFormat) readMutation.mutate({ file: nextFile, format: nextFormat });
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0] ?? null;
+    const guessed = chosen ? quizFileFormatOf(chosen.name) ?? format : format;
+    setFile(chosen);
+    setFormat(guessed);
+    read(chosen, guessed);
+  };
+
+  const handleFormatChange = (value: string) => {
+    setFormat(value as QuizFileFormat);
+    read(file, value as QuizFileFormat);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setFile(null);
+      setFormat(null);
+      readMutation.reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const result = readMutation.data;
+  const toAdd = result ? result.questions.slice(0, Math.max(0, roomLeft)) : [];
+  const typeLabel = (type: string) => questionTypeChoices.find(choice => choice.value === type)?.label ?? type;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Questions</DialogTitle>
+          <DialogDescription>
+            Add questions from a QzonMe, Moodle GIFT, Moodle XML or CSV file. You can edit them before publishing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="quiz-import-file">File</Label>
+            <Input
+              id="quiz-import-file"
+              type="file"
+              accept={quizFileChoices.flatMap(choice => choice.extensions).join(",")}
+              onChange={handleFileChange}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="quiz-import-format">Format</Label>
+            <Select value={format ?? ""} onValueChange={handleFormatChange}>
+              <SelectTrigger id="quiz-import-format">
+                <SelectValue placeholder="Choose a format" />
+              </SelectTrigger>
+              <SelectContent>
+                {quizFileChoices.map(choice => (
+                  <SelectItem key={choice.format} value={choice.format}>{choice.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {readMutation.isPending && (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        )}
+
+        {readMutation.isError && (
+          <p className="text-sm text-red-500">
+            {serverRefusal(readMutation.error)?.message ?? "Couldn't read the file. Please try again."}
+          </p>
+        )}
+
+        {result && (
+          <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+            {result.questions.length > 0 ? (
+              <div>
+                <div className="text-sm font-medium mb-2">
+                  {result.questions.length} {result.questions.length === 1 ? "question" : "questions"} ready to add
+                  {toAdd.length < result.questions.length && (
+                    <span className="text-yellow-600"> · only the first {toAdd.length} fit in this quiz</span>
+                  )}
+                </div>
+                <ol className="space-y-2 text-sm">
+                  {result.questions.map((question, index) => (
+                    <li key={index} className={`p-2 rounded border border-gray-200 ${index >= toAdd.length ? "opacity-50" : ""}`}>
+                      <div className="font-medium">{index + 1}. {question.text}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {typeLabel(question.type)} · {formatAnswer(question, question.correctAnswers)}
+                        {question.imageUrl && " · with image"}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No questions could be read from this file.</p>
+            )}
+
+            {result.problems.length > 0 && (
+              <div className="p-3 rounded-lg border border-yellow-200 bg-yellow-50">
+                <div className="flex items-center text-sm font-medium text-yellow-800 mb-1">
+                  <AlertTriangle className="h-4 w-4 mr-1" />
+                  {result.problems.length} {result.problems.length === 1 ? "part" : "parts"} of the file couldn't be imported
+                </div>
+                <ul className="text-xs text-yellow-800 space-y-0.5">
+                  {result.problems.map((problem, index) => (
+                    <li key={index}><strong>{problem.location}:</strong> {problem.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            className="btn-primary"
+            disabled={toAdd.length === 0}
+            onClick={() => {
+              onImport(toAdd);
+              handleOpenChange(false);
+            }}
+          >
+            {toAdd.length === 0 ? "Add Questions" : `Add ${toAdd.length} ${toAdd.length === 1 ? "Question" : "Questions"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuizImportDialog;
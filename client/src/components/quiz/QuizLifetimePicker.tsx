@@ -0,0 +1,48 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { lifetimeChoices } from "@/lib/utils";
+import { QuizLifetimeBounds } from "@shared/schema";
+
+interface QuizLifetimePickerProps {
+  // null means "use the server default"
+  value: number | null;
+  onChange: (days: number) => void;
+}
+
+const QuizLifetimePicker: React.FC<QuizLifetimePickerProps> = ({ value, onChange }) => {
+  const { data: bounds } = useQuery<QuizLifetimeBounds>({
+    queryKey: ["/api/quiz-lifetime"],
+  });
+
+  if (!bounds) return null;
+
+  const selected = value ?? bounds.defaultDays;
+
+  return (
+    <div>
+      <Label className="block text-sm font-medium mb-2">
+        Keep the quiz available for
+      </Label>
+      <div className="flex flex-wrap gap-2">
+        {lifetimeChoices(bounds.minDays, bounds.maxDays).map(days => (
+          <Button
+            key={days}
+            type="button"
+            size="sm"
+            variant={selected === days ? "default" : "outline"}
+            onClick={() => onChange(days)}
+          >
+            {days} {days === 1 ? "day" : "days"}
+          </Button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        You can extend it later from your dashboard, up to {bounds.maxDays} days at a time.
+      </p>
+    </div>
+  );
+};
+
+export default QuizLifetimePicker;
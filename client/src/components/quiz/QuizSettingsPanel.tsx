@@ -0,0 +1,301 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import { AnswerRevealPolicy, LeaderboardScorePolicy, MAX_TYPO_TOLERANCE, QuizSettings } from "@shared/schema";
+
+interface QuizSettingsPanelProps {
+  settings: QuizSettings;
+  onChange: (settings: QuizSettings) => void;
+}
+
+const answerRevealOptions: { value: AnswerRevealPolicy; label: string; description: string }[] = [
+  {
+    value: "after-submit",
+    label: "Show correct answers",
+    description: "After submitting, players review every question with the correct answer and its explanation"
+  },
+  {
+    value: "correctness-only",
+    label: "Only show right or wrong",
+    description: "Players see which of their answers were right, but not the correct answers"
+  },
+  {
+    value: "never",
+    label: "Score only",
+    description: "Players only see their score and the leaderboard, with no answer review"
+  }
+];
+
+const typoToleranceLabel = (typos: number) =>
+  typos === 0 ? "Exact" : `${typos} typo${typos === 1 ? "" : "s"}`;
+
+// Quiz-wide time limits offered, in minutes
+const quizTimeLimitChoices: (number | null)[] = [null, 2, 5, 10, 15, 30, 60];
+
+// Share of a question's points a revealed hint costs, in percent
+const hintPenaltyChoices = [0, 25, 50, 75, 100];
+
+// Attempts each player gets, null for unlimited
+const maxAttemptsChoices: (number | null)[] = [null, 1, 2, 3, 5];
+
+const leaderboardScoreOptions: { value: LeaderboardScorePolicy; label: string; description: string }[] = [
+  {
+    value: "best",
+    label: "Best score",
+    description: "Each player is ranked by their highest-scoring attempt"
+  },
+  {
+    value: "latest",
+    label: "Latest score",
+    description: "Each player is ranked by the attempt they submitted last"
+  },
+  {
+    value: "first",
+    label: "First score",
+    description: "Each player is ranked by their first attempt; retakes are just for practice"
+  }
+];
+
+const QuizSettingsPanel: React.FC<QuizSettingsPanelProps> = ({ settings, onChange }) => {
+  const update = <K extends keyof QuizSettings>(key: K, value: QuizSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Label className="block text-sm font-medium mb-2">
+          After submitting, players can see
+        </Label>
+        <RadioGroup
+          value={settings.answerReveal}
+          onValueChange={(val) => update("answerReveal", val as AnswerRevealPolicy)}
+          className="space-y-2"
+        >
+          {answerRevealOptions.map(option => (
+            <div key={option.value} className="flex items-start space-x-2">
+              <RadioGroupItem value={option.value} id={`answer-reveal-${option.value}`} className="mt-1" />
+              <Label htmlFor={`answer-reveal-${option.value}`} className="font-normal">
+                <span className="font-medium">{option.label}</span>
+                <span className="block text-xs text-muted-foreground">{option.description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+
+      <div className="flex items-start justify-between space-x-4">
+        <Label htmlFor="partial-credit" className="font-normal">
+          <span className="font-medium">Partial credit for multi-select questions</span>
+          <span className="block text-xs text-muted-foreground">
+            Each correct choice earns part of the point and each wrong choice takes part away, instead of all or nothing
+          </span>
+        </Label>
+        <Switch
+          id="partial-credit"
+          checked={settings.partialCredit}
+          onCheckedChange={(checked) => update("partialCredit", checked)}
+        />
+      </div>
+
+      <div>
+        <Label className="block text-sm font-medium mb-1">
+          Typos allowed in typed answers
+        </Label>
+        <p className="text-xs text-muted-foreground mb-2">
+          Capitalisation, accents and punctuation are always ignored. Short answers allow fewer typos.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {Array.from({ length: MAX_TYPO_TOLERANCE + 1 }, (_, typos) => (
+            <Button
+              key={typos}
+              type="button"
+              size="sm"
+              variant={settings.typoTolerance === typos ? "default" : "outline"}
+              onClick={() => update("typoTolerance", typos)}
+            >
+              {typoToleranceLabel(typos)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-start justify-between space-x-4">
+        <Label htmlFor="match-number-words" className="font-normal">
+          <span className="font-medium">Accept numbers written as words</span>
+          <span className="block text-xs text-muted-foreground">
+            "twenty four" matches an accepted answer of "24" in typed answers
+          </span>
+        </Label>
+        <Switch
+          id="match-number-words"
+          checked={settings.matchNumberWords}
+          onCheckedChange={(checked) => update("matchNumberWords", checked)}
+        />
+      </div>
+
+      <div className="flex items-start justify-between space-x-4">
+        <Label htmlFor="shuffle-questions" className="font-normal">
+          <span className="font-medium">Shuffle questions</span>
+          <span className="block text-xs text-muted-foreground">
+            Every player gets the questions in a different order
+          </span>
+        </Label>
+        <Switch
+          id="shuffle-questions"
+          checked={settings.shuffleQuestions}
+          onCheckedChange={(checked) => update("shuffleQuestions", checked)}
+        />
+      </div>
+
+      <div className="flex items-start justify-between space-x-4">
+        <Label htmlFor="shuffle-options" className="font-normal">
+          <span className="font-medium">Shuffle answer options</span>
+          <span className="block text-xs text-muted-foreground">
+            Every player gets the options of multiple-choice, multi-select and matching questions in a different order, so "the answer is B" doesn't help
+          </span>
+        </Label>
+        <Switch
+          id="shuffle-options"
+          checked={settings.shuffleOptions}
+          onCheckedChange={(checked) => update("shuffleOptions", checked)}
+        />
+      </div>
+
+      <div className="flex items-start justify-between space-x-4">
+        <Label htmlFor="speed-bonus" className="font-normal">
+          <span className="font-medium">Speed bonus</span>
+          <span className="block text-xs text-muted-foreground">
+            Quick correct answers earn up to half a question's points extra
+          </span>
+        </Label>
+        <Switch
+          id="speed-bonus"
+          checked={settings.speedBonus}
+          onCheckedChange={(checked) => update("speedBonus", checked)}
+        />
+      </div>
+
+      <div>
+        <Label className="block text-sm font-medium mb-1">
+          Time limit for the whole quiz
+        </Label>
+        <p className="text-xs text-muted-foreground mb-2">
+          Answers are submitted automatically when time runs out. Questions can also have their own time limit.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {quizTimeLimitChoices.map(minutes => (
+            <Button
+              key={minutes ?? "none"}
+              type="button"
+              size="sm"
+              variant={settings.timeLimitMinutes === minutes ? "default" : "outline"}
+              onClick={() => update("timeLimitMinutes", minutes)}
+            >
+              {minutes === null ? "No limit" : `${minutes} min`}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-start justify-between space-x-4">
+        <Label htmlFor="fifty-fifty" className="font-normal">
+          <span className="font-medium">50:50 lifeline</span>
+          <span className="block text-xs text-muted-foreground">
+            Once per quiz, players can take away two wrong options of a multiple-choice question
+          </span>
+        </Label>
+        <Switch
+          id="fifty-fifty"
+          checked={settings.fiftyFifty}
+          onCheckedChange={(checked) => update("fiftyFifty", checked)}
+        />
+      </div>
+
+      <div className="flex items-start justify-between space-x-4">
+        <Label htmlFor="skip-question" className="font-normal">
+          <span className="font-medium">Skip lifeline</span>
+          <span className="block text-xs text-muted-foreground">
+            Once per quiz, players can skip a question; it then doesn't count toward their score
+          </span>
+        </Label>
+        <Switch
+          id="skip-question"
+          checked={settings.skipQuestion}
+          onCheckedChange={(checked) => update("skipQuestion", checked)}
+        />
+      </div>
+
+      <div>
+        <Label className="block text-sm font-medium mb-1">
+          Cost of a hint
+        </Label>
+        <p className="text-xs text-muted-foreground mb-2">
+          Share of the question's points a player gives up by revealing its hint. Only questions with a hint offer one.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {hintPenaltyChoices.map(percent => (
+            <Button
+              key={percent}
+              type="button"
+              size="sm"
+              variant={settings.hintPenaltyPercent === percent ? "default" : "outline"}
+              onClick={() => update("hintPenaltyPercent", percent)}
+            >
+              {percent === 0 ? "Free" : `${percent}%`}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <Label className="block text-sm font-medium mb-1">
+          Attempts per player
+        </Label>
+        <p className="text-xs text-muted-foreground mb-2">
+          Players are recognised by their device, so a limited quiz can't be retaken under another name.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {maxAttemptsChoices.map(attempts => (
+            <Button
+              key={attempts ?? "unlimited"}
+              type="button"
+              size="sm"
+              variant={settings.maxAttempts === attempts ? "default" : "outline"}
+              onClick={() => update("maxAttempts", attempts)}
+            >
+              {attempts === null ? "Unlimited" : attempts}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {settings.maxAttempts !== 1 && (
+        <div>
+          <Label className="block text-sm font-medium mb-2">
+            Players who retake the quiz appear on the leaderboard with their
+          </Label>
+          <RadioGroup
+            value={settings.leaderboardScore}
+            onValueChange={(val) => update("leaderboardScore", val as LeaderboardScorePolicy)}
+            className="space-y-2"
+          >
+            {leaderboardScoreOptions.map(option => (
+              <div key={option.value} className="flex items-start space-x-2">
+                <RadioGroupItem value={option.value} id={`leaderboard-score-${option.value}`} className="mt-1" />
+                <Label htmlFor={`leaderboard-score-${option.value}`} className="font-normal">
+                  <span className="font-medium">{option.label}</span>
+                  <span className="block text-xs text-muted-foreground">{option.description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizSettingsPanel;
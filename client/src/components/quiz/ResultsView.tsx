@@ -2,8 +2,8 @@ import React from "react";
 import { useLocation } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Question, QuestionAnswer, QuizAttempt } from "@shared/schema";
-import { formatPercentage, getRemarkByScore } from "@/lib/utils";
+import { AnswerRevealPolicy, Lifeline, QuestionAnswer, ReviewQuestion, formatAnswer } from "@shared/schema";
+import { formatPercentage, formatPoints, getRemarkByScore } from "@/lib/utils";
 import Leaderboard from "../common/Leaderboard";
 import AdPlaceholder from "../common/AdPlaceholder";
 import Layout from "../common/Layout";
@@ -13,10 +13,17 @@ import { useToast } from "@/hooks/use-toast";
 interface ResultsViewProps {
   userName: string;
   quizCreator: string;
-  questions: Question[];
+  questions: ReviewQuestion[];
+  answerReveal: AnswerRevealPolicy;
   answers: QuestionAnswer[];
-  attempts: QuizAttempt[];
+  quizId: number;
   score: number;
+  totalQuestions: number; // Without a skipped question
+  points: number;
+  maxPoints: number;
+  totalTimeMs: number | null;
+  hintsUsed: number;
+  lifelinesUsed: Lifeline[];
   currentAttemptId: number;  // Add the current attempt ID
 }
 
@@ -24,13 +31,20 @@ const ResultsView: React.FC<ResultsViewProps> = ({
   userName,
   quizCreator,
   questions,
+  answerReveal,
   answers,
-  attempts,
+  quizId,
   score,
+  totalQuestions,
+  points,
+  maxPoints,
+  totalTimeMs,
+  hintsUsed,
+  lifelinesUsed,
   currentAttemptId
 }) => {
   const [, navigate] = useLocation();
-  const percentage = formatPercentage(score, questions.length);
+  const percentage = formatPercentage(score, totalQuestions);
   
   // Add navigation control to prevent going back to create page
   React.useEffect(() => {
@@ -72,14 +86,15 @@ const ResultsView: React.FC<ResultsViewProps> = ({
       isCorrect: answer?.isCorrect
     });
     
-    // If we have an answer but userAnswer is somehow empty, add placeholder
-    // This ensures we never show "No answer provided" for questions that were answered
+    // If we have an answer but userAnswer is somehow missing, add placeholder
+    // This ensures we never show "No answer provided" for questions that were answered.
+    // An empty answer is left alone: the question's time ran out before anything was given.
     let enhancedAnswer = answer;
-    if (answer && (answer.userAnswer === null || answer.userAnswer === undefined || answer.userAnswer === "")) {
+    if (answer && (answer.userAnswer === null || answer.userAnswer === undefined)) {
       enhancedAnswer = {
         ...answer,
-        userAnswer: answer.isCorrect ? 
-          (Array.isArray(question.correctAnswers) ? question.correctAnswers[0] : question.correctAnswers) : 
+        userAnswer: answer.isCorrect && question.correctAnswers ? 
+          question.correctAnswers[0] : 
           "Answer was recorded but not displayed correctly"
       };
       console.log("Enhanced empty answer:", enhancedAnswer);
@@ -91,19 +106,8 @@ const ResultsView: React.FC<ResultsViewProps> = ({
     };
   });
 
-  // Log attempt and user data for debugging
-  console.log("ResultsView:", { 
-    attemptsCount: attempts.length, 
-    userName,
-    score,
-    attempts: attempts.map(a => ({ id: a.id, name: a.userName, score: a.score }))
-  });
-  
-  // We don't need to manually enhance the attempts array anymore
-  // The Leaderboard component will handle this directly
-  
   const [showAnswers, setShowAnswers] = React.useState(false);
-  const personalizedRemark = getRemarkByScore(score, questions.length);
+  const personalizedRemark = getRemarkByScore(score, totalQuestions);
   const { toast } = useToast();
   
   return (
@@ -112,69 +116,107 @@ const ResultsView: React.FC<ResultsViewProps> = ({
         <CardContent className="pt-6">
           <div className="text-center mb-6">
             <div className="mx-auto mb-4 w-20 h-20 rounded-full bg-primary bg-opacity-10 flex items-center justify-center">
-              <span className="text-xl font-bold text-primary-foreground bg-primary rounded-full px-3 py-1">{formatPercentage(score, questions.length)}</span>
+              <span className="text-xl font-bold text-primary-foreground bg-primary rounded-full px-3 py-1">{formatPercentage(score, totalQuestions)}</span>
             </div>
             <h2 className="text-2xl font-bold mb-2 font-poppins">
               {personalizedRemark}
             </h2>
             <p className="text-muted-foreground">
-              You scored {score} out of {questions.length} on {quizCreator}'s quiz ({percentage})
+              You scored {score} out of {totalQuestions} on {quizCreator}'s quiz ({percentage})
+              {maxPoints !== totalQuestions || points !== score
+                ? ` and earned ${formatPoints(points)} of ${maxPoints} points`
+                : ""}
             </p>
           </div>
           
-          {/* Results Summary - Hidden by default */}
-          <div className="mb-6 text-center">
-            <Button 
-              type="button" 
-              className="mb-4" 
-              onClick={() => setShowAnswers(!showAnswers)}
-            >
-              {showAnswers ? "Hide Your Answers" : "View Your Answers"}
-            </Button>
+          {/* Results Summary - Hidden by default, and not offered at all if the creator reveals nothing */}
+          {answerReveal !== "never" && (
+            <div className="mb-6 text-center">
+              <Button 
+                type="button" 
+                className="mb-4" 
+                onClick={() => setShowAnswers(!showAnswers)}
+              >
+                {showAnswers ? "Hide Review" : "Review Your Answers"}
+              </Button>
             
-            {showAnswers && (
-              <div className="mt-4">
-                <h3 className="font-poppins font-semibold text-lg mb-3 text-left">Your Answers</h3>
-                <ul className="space-y-3">
-                  {questionAnswers.map(({ question, answer }) => (
-                    <li 
-                      key={question.id} 
-                      className={`p-3 rounded-lg border-l-4 ${
-                        answer?.isCorrect 
-                          ? 'bg-green-50 border-green-500' 
-                          : 'bg-red-50 border-red-500'
-                      }`}
-                    >
-                      <div className="flex justify-between">
-                        <span className="font-medium">{question.text}</span>
-                        {answer?.isCorrect ? (
-                          <Check className="h-5 w-5 text-green-500" />
-                        ) : (
-                          <X className="h-5 w-5 text-red-500" />
-                        )}
-                      </div>
-                      <div className="text-sm text-gray-700 mt-1">
-                        <strong>Your answer:</strong> <span className="font-medium" style={{ color: answer?.isCorrect ? "#16a34a" : "#dc2626" }}>
-                          {Array.isArray(answer?.userAnswer) 
-                            ? answer?.userAnswer.join(", ") 
-                            : (answer?.userAnswer !== null && answer?.userAnswer !== undefined && answer?.userAnswer !== "")
-                                ? answer.userAnswer.toString()
-                                : "No answer provided"}
-                        </span>
-                      </div>
-                      {!answer?.isCorrect && (
-                        <div className="text-sm text-red-600 mt-1">
-                          <strong>Correct answer:</strong> {Array.isArray(question.correctAnswers) 
-                            ? question.correctAnswers.join(" or ") 
-                            : String(question.correctAnswers || "")}
+              {showAnswers && (
+                <div className="mt-4">
+                  <h3 className="font-poppins font-semibold text-lg mb-3 text-left">Answer Review</h3>
+                  <ul className="space-y-3">
+                    {questionAnswers.map(({ question, answer }) => (
+                      <li 
+                        key={question.id} 
+                        className={`p-3 rounded-lg border-l-4 ${
+                          answer?.isCorrect 
+                            ? 'bg-green-50 border-green-500' 
+                            : answer?.credit
+                              ? 'bg-amber-50 border-amber-500'
+                              : 'bg-red-50 border-red-500'
+                        }`}
+                      >
+                        <div className="flex justify-between">
+                          <span className="font-medium">{question.text}</span>
+                          {answer?.isCorrect ? (
+                            <Check className="h-5 w-5 text-green-500" />
+                          ) : (
+                            <X className="h-5 w-5 text-red-500" />
+                          )}
                         </div>
-                      )}
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            )}
-          </div>
+                        <div className="text-sm text-gray-700 mt-1">
+                          <strong>{question.type === "numeric" ? "Your guess:" : "Your answer:"}</strong> <span className="font-medium" style={{ color: answer?.isCorrect ? "#16a34a" : "#dc2626" }}>
+                            {formatAnswer(question, answer?.userAnswer) || "No answer provided"}
+                          </span>
+                        </div>
+                        {answer?.skipped && (
+                          <div className="text-sm text-sky-700 mt-1">
+                            You skipped this question, so it doesn't count
+                          </div>
+                        )}
+                        {answer?.fiftyFifty && (
+                          <div className="text-sm text-sky-700 mt-1">
+                            You used the 50:50 on this question
+                          </div>
+                        )}
+                        {answer?.hintUsed && (
+                          <div className="text-sm text-amber-700 mt-1">
+                            You revealed the hint for this question
+                          </div>
+                        )}
+                        {answer?.timedOut && (
+                          <div className="text-sm text-red-600 mt-1">
+                            Answered after the time limit, so it didn't count
+                          </div>
+                        )}
+                        {!answer?.isCorrect && !!answer?.credit && (
+                          <div className="text-sm text-amber-700 mt-1">
+                            Partially correct ({Math.round(answer.credit * 100)}% of the point)
+                          </div>
+                        )}
+                        {question.type === "numeric" && question.correctAnswers && (
+                          <div className="text-sm text-gray-700 mt-1">
+                            <strong>True value:</strong> {formatAnswer(question, question.correctAnswers)}
+                          </div>
+                        )}
+                        {question.type !== "numeric" && question.correctAnswers && (
+                          <div className={`text-sm mt-1 ${answer?.isCorrect ? "text-gray-700" : "text-red-600"}`}>
+                            <strong>Correct answer:</strong> {question.type === "multi-select" || question.type === "ordering" || question.type === "matching"
+                              ? formatAnswer(question, question.correctAnswers)
+                              : question.correctAnswers.join(" or ")}
+                          </div>
+                        )}
+                        {question.explanation && (
+                          <div className="text-sm text-gray-600 mt-2 pt-2 border-t border-black/5 whitespace-pre-line">
+                            {question.explanation}
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
           
           {/* Share box removed as requested */}
           
@@ -182,10 +224,15 @@ const ResultsView: React.FC<ResultsViewProps> = ({
           <div className="mt-8">
             <h3 className="font-poppins font-semibold text-lg mb-3">Leaderboard</h3>
             <Leaderboard 
-              attempts={attempts} 
+              quizId={quizId}
               currentUserName={userName}
               currentUserScore={score}
-              currentUserTotalQuestions={questions.length}
+              currentUserTotalQuestions={totalQuestions}
+              currentUserPoints={points}
+              currentUserMaxPoints={maxPoints}
+              currentUserTotalTimeMs={totalTimeMs}
+              currentUserHintsUsed={hintsUsed}
+              currentUserLifelinesUsed={lifelinesUsed}
             />
           </div>
           
@@ -8,6 +8,7 @@ import { useToast } from "@/hooks/use-toast";
 import Layout from "../common/Layout";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Input } from "@/components/ui/input";
+import { formatExpiryDate } from "@/lib/utils";
 
 interface ShareQuizProps {
   accessCode: string;
@@ -54,14 +55,8 @@ const ShareQuiz: React.FC<ShareQuizProps> = ({ accessCode, quizId, urlSlug }) =>
   
   const dashboardLink = dashboardToken ? `${customDomain}/dashboard/${dashboardToken}` : null;
   
-  // Format expiration date (7 days from today)
-  const expirationDate = new Date();
-  expirationDate.setDate(expirationDate.getDate() + 7);
-  const formattedExpirationDate = expirationDate.toLocaleDateString('en-US', {
-    year: 'numeric', 
-    month: 'long', 
-    day: 'numeric'
-  });
+  // Expiry date chosen by the creator when publishing
+  const formattedExpirationDate = quiz?.expiresAt ? formatExpiryDate(quiz.expiresAt) : null;
   
   const handleCopyLink = () => {
     navigator.clipboard.writeText(shareMessage);
@@ -124,14 +119,16 @@ const ShareQuiz: React.FC<ShareQuizProps> = ({ accessCode, quizId, urlSlug }) =>
           </p>
           
           {/* Expiration Alert */}
-          <Alert variant="destructive" className="mb-6 border-amber-500 bg-amber-50 text-amber-700">
-            <AlertTriangle className="h-4 w-4 text-amber-600" />
-            <AlertTitle>Your quiz will expire in 7 days</AlertTitle>
-            <AlertDescription>
-              🕒 <strong>Note:</strong> This quiz and its dashboard will remain active for 7 days from today (until {formattedExpirationDate}).
-              After that, the links will expire and no longer be accessible.
-            </AlertDescription>
-          </Alert>
+          {formattedExpirationDate && (
+            <Alert variant="destructive" className="mb-6 border-amber-500 bg-amber-50 text-amber-700">
+              <AlertTriangle className="h-4 w-4 text-amber-600" />
+              <AlertTitle>Your quiz will expire on {formattedExpirationDate}</AlertTitle>
+              <AlertDescription>
+                🕒 <strong>Note:</strong> This quiz and its dashboard will remain active until {formattedExpirationDate}.
+                After that, the links will expire and no longer be accessible. You can extend it from your dashboard.
+              </AlertDescription>
+            </Alert>
+          )}
           
           {/* Share Box - Same style as in Results page */}
           <div className="p-4 border border-gray-200 rounded-lg bg-gray-50 mb-6">
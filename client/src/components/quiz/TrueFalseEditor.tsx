@@ -0,0 +1,40 @@
+import React from "react";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { TRUE_FALSE_OPTIONS } from "@shared/schema";
+
+interface TrueFalseEditorProps {
+  // Index into TRUE_FALSE_OPTIONS
+  correctOption: number;
+  setCorrectOption: React.Dispatch<React.SetStateAction<number>>;
+}
+
+const TrueFalseEditor: React.FC<TrueFalseEditorProps> = ({
+  correctOption,
+  setCorrectOption,
+}) => {
+  return (
+    <div>
+      <Label className="block text-sm font-medium mb-2">
+        The statement is
+      </Label>
+
+      <RadioGroup
+        value={(correctOption === 1 ? 1 : 0).toString()}
+        onValueChange={(val) => setCorrectOption(parseInt(val))}
+        className="flex space-x-6"
+      >
+        {TRUE_FALSE_OPTIONS.map((option, index) => (
+          <div key={option} className="flex items-center space-x-2">
+            <RadioGroupItem value={index.toString()} id={`true-false-${index}`} />
+            <Label htmlFor={`true-false-${index}`} className="font-medium">
+              {option}
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+};
+
+export default TrueFalseEditor;
@@ -0,0 +1,106 @@
+import * as React from "react";
+import type { LiveAttemptsMessage } from "@shared/schema";
+
+// Polling only runs while the live socket is down
+const POLL_INTERVAL_MS = 30_000;
+const RECONNECT_DELAYS_MS = [2_000, 5_000, 15_000, 30_000];
+
+function liveUrl(livePath: string) {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}${livePath}`;
+}
+
+/**
+ * A quiz's attempts, pushed by the server over a WebSocket at `livePath` whenever one is written.
+ * While the socket is down, `listUrl` is polled instead and the socket is retried.
+ */
+export function useLiveAttempts<A>(livePath: string | null, listUrl: string | null) {
+  const [attempts, setAttempts] = React.useState<A[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isLive, setIsLive] = React.useState(false);
+
+  const refresh = React.useCallback(async () => {
+    if (!listUrl) return;
+    try {
+      const response = await fetch(listUrl, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${response.statusText}`);
+      }
+      const body = await response.json();
+      setAttempts(body.data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listUrl]);
+
+  React.useEffect(() => {
+    if (!livePath) return;
+
+    let socket: WebSocket | null = null;
+    let pollId: ReturnType<typeof setInterval> | null = null;
+    let reconnectId: ReturnType<typeof setTimeout> | null = null;
+    let failures = 0;
+    let stopped = false;
+
+    const poll = () => {
+      refresh().catch(error => console.error(`Error polling attempts from ${listUrl}:`, error));
+    };
+
+    const startPolling = () => {
+      if (pollId) return;
+      poll();
+      pollId = setInterval(poll, POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (pollId) clearInterval(pollId);
+      pollId = null;
+    };
+
+    const connect = () => {
+      socket = new WebSocket(liveUrl(livePath));
+
+      socket.onopen = () => {
+        failures = 0;
+        setIsLive(true);
+        stopPolling(); // The server sends the current list straight away
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          const message: LiveAttemptsMessage<A> = JSON.parse(event.data);
+          if (message.type === "attempts") {
+            setAttempts(message.data);
+            setIsLoading(false);
+          } else if (message.type === "closed") {
+            // The quiz is gone, so there is nothing left to reconnect or poll for
+            stopped = true;
+            setIsLive(false);
+            stopPolling();
+          }
+        } catch (error) {
+          console.error("Ignoring unreadable live attempts message:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (stopped) return;
+        setIsLive(false);
+        startPolling();
+        reconnectId = setTimeout(connect, RECONNECT_DELAYS_MS[Math.min(failures, RECONNECT_DELAYS_MS.length - 1)]);
+        failures++;
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      socket?.close();
+      stopPolling();
+      if (reconnectId) clearTimeout(reconnectId);
+    };
+  }, [livePath, listUrl, refresh]);
+
+  return { attempts, isLoading, isLive, refresh };
+}
@@ -0,0 +1,76 @@
+import * as React from "react";
+import type { LiveHostState, LivePlayerState, LiveRoomMessage } from "@shared/schema";
+
+const RECONNECT_DELAYS_MS = [1_000, 2_000, 5_000, 10_000];
+
+/**
+ * The state of a live game as the server pushes it, for the host or one player depending on `key`.
+ * Reconnects when the socket drops; `closed` once the server has shut the room, or when the first
+ * connection is turned away because the room no longer exists.
+ */
+export function useLiveRoom<S extends LiveHostState | LivePlayerState>(pin: string | null, key: string | null) {
+  const [state, setState] = React.useState<S | null>(null);
+  const [isConnected, setIsConnected] = React.useState(false);
+  const [closed, setClosed] = React.useState(false);
+  // Server clock minus this browser's, so countdowns end when the server locks the question
+  const [clockOffset, setClockOffset] = React.useState(0);
+
+  React.useEffect(() => {
+    setState(null);
+    setClosed(false);
+    if (!pin || !key) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectId: ReturnType<typeof setTimeout> | null = null;
+    let failures = 0;
+    let opened = false;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/api/live-rooms/${pin}/socket?key=${encodeURIComponent(key)}`);
+
+      socket.onopen = () => {
+        opened = true;
+        failures = 0;
+        setIsConnected(true);
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          const message: LiveRoomMessage = JSON.parse(event.data);
+          if (message.type === "closed") {
+            stopped = true;
+            setClosed(true);
+          } else {
+            setState(message.state as S);
+            setClockOffset(message.state.serverTime - Date.now());
+          }
+        } catch (error) {
+          console.error("Ignoring unreadable live game message:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        setIsConnected(false);
+        if (stopped) return;
+        if (!opened) {
+          setClosed(true);
+          return;
+        }
+        reconnectId = setTimeout(connect, RECONNECT_DELAYS_MS[Math.min(failures, RECONNECT_DELAYS_MS.length - 1)]);
+        failures++;
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      socket?.close();
+      if (reconnectId) clearTimeout(reconnectId);
+    };
+  }, [pin, key]);
+
+  return { state, isConnected, closed, clockOffset };
+}
@@ -0,0 +1,16 @@
+// Signed by the server at POST /api/users; it lets quizzes limit how often this device plays them
+const PLAYER_TOKEN_KEY = "qzonme_player_token";
+
+export function getPlayerToken(): string | undefined {
+  return localStorage.getItem(PLAYER_TOKEN_KEY) || undefined;
+}
+
+export function savePlayerToken(token: string | undefined) {
+  if (token) localStorage.setItem(PLAYER_TOKEN_KEY, token);
+}
+
+// Sent when reading back this device's own attempts, which the server only shows to the player who submitted them
+export function playerTokenHeaders(): Record<string, string> {
+  const token = getPlayerToken();
+  return token ? { "X-Player-Token": token } : {};
+}
@@ -29,14 +29,28 @@ export async function apiRequest(
   return res;
 }
 
+// The server's reason for turning a request down, with the status it came with
+export function serverRefusal(error: Error | null): { status: number; message: string } | null {
+  const match = error?.message.match(/^(4\d\d): ([\s\S]*)$/);
+  if (!match) return null;
+  try {
+    const { message } = JSON.parse(match[2]);
+    return typeof message === "string" ? { status: Number(match[1]), message } : null;
+  } catch (e) {
+    return null;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
+  headers?: () => Record<string, string>; // Read on every request, e.g. the player token
 }) => QueryFunction<T> =
-  ({ on401: unauthorizedBehavior }) =>
+  ({ on401: unauthorizedBehavior, headers }) =>
   async ({ queryKey }) => {
     try {
       const res = await fetch(queryKey[0] as string, {
+        headers: headers?.(),
         credentials: "include",
       });
 
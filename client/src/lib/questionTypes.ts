@@ -0,0 +1,177 @@
+import {
+  NumericSettings,
+  QuestionType,
+  resolveNumericSettings,
+  shuffleForDisplay,
+  splitMatchingOptions,
+  TRUE_FALSE_OPTIONS
+} from "@shared/schema";
+import { formatOpenEndedAnswers } from "./quizUtils";
+
+export const questionTypeChoices: { value: QuestionType; label: string }[] = [
+  { value: "multiple-choice", label: "Multiple choice" },
+  { value: "true-false", label: "True / False" },
+  { value: "multi-select", label: "Multi-select" },
+  { value: "open-ended", label: "Typed answer" },
+  { value: "ordering", label: "Put in order" },
+  { value: "matching", label: "Match pairs" },
+  { value: "numeric", label: "Number guess" }
+];
+
+export function isQuestionType(value: unknown): value is QuestionType {
+  return questionTypeChoices.some(choice => choice.value === value);
+}
+
+export interface MatchPair {
+  prompt: string;
+  match: string;
+}
+
+export const emptyMatchPairs = (): MatchPair[] => [
+  { prompt: "", match: "" },
+  { prompt: "", match: "" },
+  { prompt: "", match: "" }
+];
+
+// Numeric question fields as typed by the creator
+export interface NumericDraft {
+  target: string;
+  unit: string;
+  tolerance: string;
+  min: string; // Slider range, both blank for no slider
+  max: string;
+}
+
+export const emptyNumericDraft = (): NumericDraft => ({ target: "", unit: "", tolerance: "0", min: "", max: "" });
+
+// What the answer editors of all question types edit
+export interface AnswerEditorState {
+  options: string[]; // For ordering questions, the items in the right order
+  correctOption: number; // Multiple choice and true/false
+  correctOptions: number[]; // Multi-select
+  acceptedAnswers: string; // Open-ended, comma-separated
+  matchPairs: MatchPair[]; // Matching
+  numeric: NumericDraft; // Numeric
+}
+
+/**
+ * What is missing from the items of an ordering question or the pairs of a matching question, or null if nothing
+ */
+export function arrangementProblem(type: QuestionType, { options, matchPairs }: AnswerEditorState): string | null {
+  if (type === "ordering") {
+    return new Set(options.map(item => item.trim())).size === options.length ? null : "Items to order must all be different";
+  }
+  if (type === "matching") {
+    if (matchPairs.some(pair => !pair.prompt.trim() || !pair.match.trim())) return "Please fill in both sides of every pair";
+    const prompts = new Set(matchPairs.map(pair => pair.prompt.trim()));
+    const matches = new Set(matchPairs.map(pair => pair.match.trim()));
+    return prompts.size === matchPairs.length && matches.size === matchPairs.length
+      ? null
+      : "Every prompt and every match must be different";
+  }
+  return null;
+}
+
+/**
+ * Options, correct answers and numeric settings to save for a question, from the editor state of its type
+ */
+export function buildAnswerFields(
+  type: QuestionType,
+  state: AnswerEditorState
+): { options: string[]; correctAnswers: string[]; numericSettings: NumericSettings | null } {
+  if (type === "numeric") {
+    const { target, unit, tolerance, min, max } = state.numeric;
+    const hasRange = min.trim() !== "" && max.trim() !== "";
+    return {
+      options: [],
+      correctAnswers: [target.trim()],
+      numericSettings: {
+        unit: unit.trim() || undefined,
+        tolerance: Number(tolerance) || 0,
+        min: hasRange ? Number(min) : undefined,
+        max: hasRange ? Number(max) : undefined
+      }
+    };
+  }
+  return { ...choiceAnswerFields(type, state), numericSettings: null };
+}
+
+// Options and correct answers of every type that isn't numeric
+function choiceAnswerFields(
+  type: QuestionType,
+  { options, correctOption, correctOptions, acceptedAnswers, matchPairs }: AnswerEditorState
+): { options: string[]; correctAnswers: string[] } {
+  if (type === "true-false") {
+    return { options: [...TRUE_FALSE_OPTIONS], correctAnswers: [TRUE_FALSE_OPTIONS[correctOption === 1 ? 1 : 0]] };
+  }
+  if (type === "multi-select") {
+    const sorted = [...correctOptions].sort((a, b) => a - b);
+    return { options, correctAnswers: sorted.map(index => options[index]) };
+  }
+  if (type === "open-ended") {
+    return { options: [], correctAnswers: formatOpenEndedAnswers(acceptedAnswers) };
+  }
+  if (type === "ordering") {
+    return { options: shuffleForDisplay(options), correctAnswers: options };
+  }
+  if (type === "matching") {
+    const prompts = matchPairs.map(pair => pair.prompt.trim());
+    const matches = matchPairs.map(pair => pair.match.trim());
+    return { options: [...prompts, ...shuffleForDisplay(matches)], correctAnswers: matches };
+  }
+  return { options, correctAnswers: [options[correctOption]] };
+}
+
+/**
+ * Positions of the correct answers among a question's options
+ */
+export function correctOptionIndexes(options: string[], correctAnswers: string[]): number[] {
+  return options
+    .map((option, index) => correctAnswers.includes(option) ? index : -1)
+    .filter(index => index >= 0);
+}
+
+/**
+ * Pairs of a saved matching question, for editing it
+ */
+export function matchPairsFromQuestion(options: string[], correctAnswers: string[]): MatchPair[] {
+  return splitMatchingOptions(options).prompts.map((prompt, i) => ({ prompt, match: correctAnswers[i] ?? "" }));
+}
+
+/**
+ * What is wrong with the numbers of a numeric question, or null if nothing
+ */
+export function numericProblem({ target, tolerance, min, max }: NumericDraft): string | null {
+  const isNumber = (value: string) => value.trim() !== "" && Number.isFinite(Number(value));
+
+  if (!isNumber(target)) return "Please enter the correct answer as a number";
+  if (tolerance.trim() !== "" && !(isNumber(tolerance) && Number(tolerance) >= 0)) {
+    return "The tolerance must be a positive number or 0";
+  }
+
+  const hasMin = min.trim() !== "";
+  const hasMax = max.trim() !== "";
+  if (hasMin !== hasMax) return "Enter both ends of the slider range, or neither";
+  if (hasMin && hasMax) {
+    if (!isNumber(min) || !isNumber(max)) return "The slider range must be numbers";
+    const value = Number(target);
+    if (!(Number(min) < Number(max) && Number(min) <= value && value <= Number(max))) {
+      return "The slider range must include the correct answer";
+    }
+  }
+  return null;
+}
+
+/**
+ * Editor fields of a saved numeric question
+ */
+export function numericDraftFromQuestion(correctAnswers: string[], numericSettings: unknown): NumericDraft {
+  const { unit, tolerance, min, max } = resolveNumericSettings(numericSettings);
+  return {
+    target: correctAnswers[0] ?? "",
+    unit: unit ?? "",
+    tolerance: String(tolerance),
+    min: min === undefined ? "" : String(min),
+    max: max === undefined ? "" : String(max)
+  };
+}
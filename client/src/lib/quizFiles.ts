@@ -0,0 +1,17 @@
+import { QuizFileFormat } from "@shared/schema";
+
+// Quiz file formats as offered to creators, with the extensions files in each are usually saved with
+export const quizFileChoices: { format: QuizFileFormat; label: string; extensions: string[] }[] = [
+  { format: "qzonme", label: "QzonMe (JSON)", extensions: [".json"] },
+  { format: "gift", label: "Moodle GIFT", extensions: [".gift", ".txt"] },
+  { format: "moodle-xml", label: "Moodle XML", extensions: [".xml"] },
+  { format: "csv", label: "CSV", extensions: [".csv"] }
+];
+
+/**
+ * The format a file's name suggests, or null if its extension doesn't say
+ */
+export function quizFileFormatOf(fileName: string): QuizFileFormat | null {
+  const name = fileName.toLowerCase();
+  return quizFileChoices.find(choice => choice.extensions.some(extension => name.endsWith(extension)))?.format ?? null;
+}
@@ -1,22 +1,4 @@
 import { Question, QuestionAnswer } from "@shared/schema";
-import { apiRequest } from "./queryClient";
-
-// Verify a single answer against a question
-export async function verifyAnswer(
-  questionId: number,
-  answer: string | string[]
-): Promise<boolean> {
-  try {
-    const response = await apiRequest("POST", `/api/questions/${questionId}/verify`, {
-      answer
-    });
-    const result = await response.json();
-    return result.isCorrect;
-  } catch (error) {
-    console.error("Error verifying answer:", error);
-    return false;
-  }
-}
 
 // Calculate score from answers
 export function calculateScore(answers: QuestionAnswer[]): {
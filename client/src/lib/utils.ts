@@ -24,6 +24,58 @@ export function createAvatarPlaceholder(name: string): string {
   return (nameParts[0][0] + nameParts[1][0]).toUpperCase();
 }
 
+export function isPastExpiry(expiresAt: string | Date): boolean {
+  return new Date() > new Date(expiresAt);
+}
+
+export function formatExpiryDate(expiresAt: string | Date): string {
+  return new Date(expiresAt).toLocaleDateString('en-US', {
+    year: 'numeric', 
+    month: 'long', 
+    day: 'numeric'
+  });
+}
+
+// Human readable time left until expiry, e.g. "3 days, 4 hours" or "25 minutes"
+export function formatTimeRemaining(expiresAt: string | Date, now: number = Date.now()): string {
+  const totalMinutes = Math.max(0, Math.floor((new Date(expiresAt).getTime() - now) / 60000));
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+  const minutes = totalMinutes % 60;
+  const plural = (value: number, unit: string) => `${value} ${unit}${value === 1 ? '' : 's'}`;
+  
+  if (days > 0) return `${plural(days, 'day')}, ${plural(hours, 'hour')}`;
+  if (hours > 0) return `${plural(hours, 'hour')}, ${plural(minutes, 'minute')}`;
+  return plural(minutes, 'minute');
+}
+
+// Answer time as minutes and seconds, e.g. "1:05"
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+// Time limit in words, e.g. "45 seconds" or "2 minutes"
+export function formatTimeLimit(seconds: number): string {
+  if (seconds < 60 || seconds % 60 !== 0) return `${seconds} seconds`;
+  const minutes = seconds / 60;
+  return minutes === 1 ? "1 minute" : `${minutes} minutes`;
+}
+
+// Points with at most two decimals, e.g. "12" or "7.5"
+export function formatPoints(points: number): string {
+  return String(Math.round(points * 100) / 100);
+}
+
+// Day counts offered to creators, limited to the admin-set range
+export function lifetimeChoices(minDays: number, maxDays: number): number[] {
+  const presets = [1, 3, 7, 14, 30, 60, 90];
+  const choices = presets.filter(days => days >= minDays && days <= maxDays);
+  if (!choices.includes(minDays)) choices.unshift(minDays);
+  if (!choices.includes(maxDays)) choices.push(maxDays);
+  return choices;
+}
+
 export function generateAccessCode(): string {
   const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
   let result = '';
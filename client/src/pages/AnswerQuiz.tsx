@@ -2,14 +2,35 @@ import React, { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { questionAnswerSchema, QuestionAnswer, Quiz, Question } from "@shared/schema";
+import { apiRequest, serverRefusal } from "@/lib/queryClient";
+import { AttemptProgress, PublicQuiz, LifelineUse, quizLifelines, resolveQuizSettings } from "@shared/schema";
 import QuizAnswer from "@/components/quiz/QuizAnswer";
-import { calculateScore } from "@/lib/quizUtils";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import Layout from "@/components/common/Layout";
 import MetaTags from "@/components/common/MetaTags";
+import { formatExpiryDate, isPastExpiry } from "@/lib/utils";
+import { getPlayerToken } from "@/lib/playerToken";
+
+// An attempt the server started, with its times on this browser's clock
+interface AttemptSession {
+  sessionToken: string;
+  clockOffset: number; // This browser's clock minus the server's
+  deadline: number | null;
+  lifelines: LifelineUse[];
+  progress: AttemptProgress;
+  attemptsLeft?: number | null;
+}
+
+interface AttemptStart {
+  sessionToken: string;
+  deadlineAt: string | null;
+  lifelines: LifelineUse[];
+  progress: AttemptProgress;
+  serverTime: number;
+  attemptsLeft: number | null;
+  endedAttemptId: number | null;
+}
 
 interface AnswerQuizProps {
   params: {
@@ -48,20 +69,11 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
   const identifier = isUsingAccessCode ? accessCode : creatorSlug;
   const endpoint = isUsingAccessCode ? `/api/quizzes/code/${identifier}` : `/api/quizzes/slug/${identifier}`;
 
-  // Helper function to check if a quiz has expired
-  const isQuizExpired = (createdAtString: string | Date) => {
-    const createdAt = new Date(createdAtString);
-    const expirationDate = new Date(createdAt);
-    expirationDate.setDate(expirationDate.getDate() + 30);
-    
-    return new Date() > expirationDate;
-  };
-
   // Generate unique cache key for this particular quiz attempt
   const cacheKey = React.useMemo(() => `quiz-${identifier}-${Date.now()}`, [identifier]);
 
   // Fetch quiz by access code or URL slug with aggressive cache invalidation
-  const { data: quiz, isLoading: isLoadingQuiz, error: quizError } = useQuery<Quiz>({
+  const { data: quiz, isLoading: isLoadingQuiz, error: quizError } = useQuery<PublicQuiz>({
     queryKey: [endpoint, cacheKey],
     enabled: !!identifier && !!userName && !!userId,
     retry: 3, // Retry failed requests up to 3 times
@@ -79,39 +91,58 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
     accessCode: quiz?.accessCode
   });
 
-  // Fetch questions for the quiz with aggressive cache invalidation
-  const { data: questions = [], isLoading: isLoadingQuestions } = useQuery<Question[]>({
-    queryKey: [`/api/quizzes/${quiz?.id}/questions`, cacheKey],
-    enabled: !!quiz?.id,
-    staleTime: 0, // Don't use stale data
-    gcTime: 0, // Don't cache at all
-    refetchOnMount: "always", // Always refetch on mount
-    refetchOnWindowFocus: true,
-    refetchOnReconnect: true
+  // Start the attempt on the server, which times it from now and hands out its questions one at a time -
+  // or hands back the one this player started before, so reloading doesn't restart the clock
+  const [session, setSession] = useState<AttemptSession | null>(null);
+  
+  const startAttemptMutation = useMutation({
+    mutationFn: async (quizId: number) => {
+      const response = await apiRequest("POST", `/api/quizzes/${quizId}/start`, {
+        userAnswerId: userId,
+        userName,
+        playerToken: getPlayerToken()
+      });
+      return await response.json() as AttemptStart;
+    },
+    onSuccess: (start) => {
+      // Times are moved onto this browser's clock, which may not agree with the server's
+      const clockOffset = Date.now() - start.serverTime;
+      setSession({
+        sessionToken: start.sessionToken,
+        clockOffset,
+        deadline: start.deadlineAt ? new Date(start.deadlineAt).getTime() + clockOffset : null,
+        lifelines: start.lifelines,
+        progress: start.progress,
+        attemptsLeft: start.attemptsLeft
+      });
+      if (start.endedAttemptId) {
+        toast({ title: "Time ran out on your last attempt", description: "It was handed in with the answers you gave in time" });
+      }
+    },
+    onError: (error) => {
+      console.error("Starting the quiz failed:", error);
+    }
   });
-
-  // Submit quiz attempt
+  
+  React.useEffect(() => {
+    if (!quiz?.id || session) return;
+    startAttemptMutation.mutate(quiz.id);
+  }, [quiz?.id]);
+  
+  // Submit quiz attempt - the server already has the answers and does the scoring
   const submitAttemptMutation = useMutation({
-    mutationFn: async (data: {
-      answers: QuestionAnswer[];
-      score: number;
-    }) => {
-      console.log("Submitting quiz attempt with data:", {
+    mutationFn: async () => {
+      console.log("Submitting quiz attempt:", {
         quizId: quiz?.id,
         userAnswerId: userId,
-        userName,
-        score: data.score,
-        totalQuestions: questions.length,
-        answersCount: data.answers.length
+        userName
       });
       
-      const response = await apiRequest("POST", "/api/quiz-attempts", {
-        quizId: quiz?.id,
+      const response = await apiRequest("POST", `/api/quizzes/${quiz?.id}/submit`, {
         userAnswerId: userId,
         userName,
-        score: data.score,
-        totalQuestions: questions.length,
-        answers: data.answers
+        sessionToken: session?.sessionToken,
+        playerToken: getPlayerToken()
       });
       
       const result = await response.json();
@@ -130,17 +161,28 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
       console.error("Quiz attempt submission failed:", error);
       toast({
         title: "Error",
-        description: "Failed to submit quiz attempt. Please try again.",
+        description: serverRefusal(error)?.message ?? "Failed to submit quiz attempt. Please try again.",
         variant: "destructive"
       });
     }
   });
 
-  const handleQuizComplete = (answers: QuestionAnswer[], score: number) => {
-    submitAttemptMutation.mutate({ answers, score });
+  const handleQuizComplete = () => {
+    submitAttemptMutation.mutate();
+  };
+
+  // Players without a player token, which comes with entering a name, are turned away
+  const startRefused = serverRefusal(startAttemptMutation.error);
+  const handleRejoin = () => {
+    if (accessCode) {
+      sessionStorage.setItem("pendingQuizCode", accessCode);
+    } else if (creatorSlug) {
+      sessionStorage.setItem("pendingQuizSlug", creatorSlug);
+    }
+    navigate("/");
   };
 
-  if (isLoadingQuiz || isLoadingQuestions) {
+  if (isLoadingQuiz) {
     return (
       <Layout>
         <MetaTags 
@@ -169,7 +211,7 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
           <h2 className="text-xl font-bold mb-4">About QzonMe Quizzes</h2>
           <p className="mb-4">
             QzonMe offers fun and interactive quizzes that test how well your friends know you. 
-            Each quiz is personalized by the creator and contains multiple-choice questions that 
+            Each quiz is personalized by the creator and contains multiple-choice, true/false, multi-select, typed-answer, ordering, matching or number-guess questions that 
             can include images and personal details.
           </p>
           
@@ -182,7 +224,7 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
           </ul>
           
           <p className="text-muted-foreground">
-            All quizzes remain active for 7 days after creation, after which they're automatically deleted 
+            Each quiz stays active for as long as its creator chose, after which it's automatically deleted 
             to maintain data privacy and keep content fresh.
           </p>
         </div>
@@ -256,13 +298,13 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
     );
   }
   
-  // Check if the quiz has expired (7 days after creation)
-  if (isQuizExpired(quiz.createdAt)) {
+  // Check if the quiz has passed the expiry date chosen by its creator
+  if (isPastExpiry(quiz.expiresAt)) {
     return (
       <Layout>
         <MetaTags 
           title="Quiz Expired | QzonMe"
-          description="This quiz has expired after the 7-day limit and is no longer accessible."
+          description="This quiz has expired and is no longer accessible."
         />
         
         <h1 className="text-3xl font-bold mb-6">Quiz Expired</h1>
@@ -274,10 +316,10 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
                 <img src="/favicon.png" alt="QzonMe Logo" className="h-16 w-16" />
               </div>
               <p className="mb-4">
-                This quiz has expired after the 7-day limit and is no longer accessible.
+                This quiz expired on {formatExpiryDate(quiz.expiresAt)} and is no longer accessible.
               </p>
               <p className="text-sm text-gray-600 mb-6">
-                All quizzes on QzonMe are automatically removed 7 days after creation.<br />
+                Quizzes on QzonMe are automatically removed once they expire.<br />
                 Would you like to find a different quiz?
               </p>
               
@@ -332,7 +374,7 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center mt-4 mb-2">
               <div className="bg-muted p-3 rounded-lg">
                 <h3 className="font-semibold mb-1">Total Questions</h3>
-                <p>{questions.length} questions to answer</p>
+                <p>{session ? `${session.progress.questionCount} questions to answer` : "Getting your questions ready"}</p>
               </div>
               
               <div className="bg-muted p-3 rounded-lg">
@@ -349,12 +391,62 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
         </Card>
       </div>
       
-      <QuizAnswer
-        quizId={quiz.id}
-        quizCreator={quiz.creatorName}
-        questions={questions}
-        onComplete={handleQuizComplete}
-      />
+      {session?.attemptsLeft != null && (
+        <p className="text-sm text-muted-foreground text-center mb-4">
+          {session.attemptsLeft === 1
+            ? "This is your last attempt at this quiz."
+            : `You have ${session.attemptsLeft} attempts at this quiz, including this one.`}
+        </p>
+      )}
+      
+      {session ? (
+        <QuizAnswer
+          quizId={quiz.id}
+          quizCreator={quiz.creatorName}
+          sessionToken={session.sessionToken}
+          progress={session.progress}
+          clockOffset={session.clockOffset}
+          hintPenaltyPercent={resolveQuizSettings(quiz.settings).hintPenaltyPercent}
+          lifelines={quizLifelines(resolveQuizSettings(quiz.settings))}
+          usedLifelines={session.lifelines}
+          deadline={session.deadline}
+          onComplete={handleQuizComplete}
+        />
+      ) : (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex justify-center items-center h-40">
+              {startAttemptMutation.isError && startRefused?.status === 403 ? (
+                <div className="text-center">
+                  <p className="mb-4">{startRefused.message}</p>
+                  <Button variant="outline" onClick={() => navigate("/")}>
+                    Back to Home
+                  </Button>
+                </div>
+              ) : startAttemptMutation.isError && startRefused ? (
+                <div className="text-center">
+                  <p className="mb-4">{startRefused.message}</p>
+                  <Button onClick={handleRejoin}>
+                    Enter Your Name
+                  </Button>
+                </div>
+              ) : startAttemptMutation.isError ? (
+                <div className="text-center">
+                  <p className="mb-4">We couldn't start the quiz.</p>
+                  <Button onClick={() => startAttemptMutation.mutate(quiz.id)}>
+                    Try Again
+                  </Button>
+                </div>
+              ) : (
+                <div className="text-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+                  <p>Starting quiz...</p>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </Layout>
   );
 };
@@ -366,7 +366,8 @@ const AutoCreateQuiz: React.FC = () => {
           options: q.options,
           correctAnswers: [correctAnswerText],
           order: index + 1,
-          hint: null,
+          hint: q.hint?.trim() || null,
+          explanation: q.explanation?.trim() || null,
           imageUrl: null
         };
       });
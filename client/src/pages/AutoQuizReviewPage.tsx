@@ -122,6 +122,8 @@ const AutoQuizReviewPage: React.FC = () => {
           text: q.text,
           options: q.options,
           correctAnswers: q.correctAnswers,
+          hint: q.hint,
+          explanation: q.explanation,
           imageUrl: q.imageUrl
         }))
       };
@@ -193,7 +193,7 @@ const Contact: React.FC = () => {
             <Card>
               <CardContent className="pt-6">
                 <h3 className="text-xl font-semibold mb-2">How long do quizzes stay active?</h3>
-                <p>Your quizzes remain active for 7 days, giving your friends plenty of time to participate.</p>
+                <p>Your quizzes remain active for 7 days by default (or longer if you choose), giving your friends plenty of time to participate.</p>
               </CardContent>
             </Card>
             
@@ -25,13 +25,13 @@ const CreateQuiz: React.FC = () => {
             </p>
             <ol className="list-decimal pl-5 mb-4 space-y-2">
               <li>Choose your quiz topic - personal questions, trivia, educational content, or any subject you love</li>
-              <li>Add multiple-choice questions with up to 4 answer options</li>
+              <li>Add multiple-choice, true/false, multi-select, typed-answer, ordering, matching or number-guess questions</li>
               <li>Upload images to make your quiz more engaging and visual</li>
               <li>Customize with your name and get instant sharing links</li>
               <li>Watch participants compete and see who scores highest on your leaderboard</li>
             </ol>
             <p className="text-muted-foreground">
-              Your quiz will remain active for 7 days, giving everyone plenty of time to participate. No account required - just create and share!
+              Your quiz will remain active for 7 days by default (you can choose longer), giving everyone plenty of time to participate. No account required - just create and share!
             </p>
           </CardContent>
         </Card>
@@ -128,8 +128,8 @@ const FindQuiz: React.FC = () => {
               friends who have taken the same quiz. It's a fun way to see who knows the quiz creator best!
             </p>
             <p>
-              All quizzes remain active for 7 days, giving you plenty of time to take the quiz and 
-              compare your score with others.
+              Each quiz remains active for as long as its creator chose, giving you plenty of time to take 
+              the quiz and compare your score with others.
             </p>
           </CardContent>
         </Card>
@@ -0,0 +1,318 @@
+import React from "react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { LivePlayerState, formatAnswer } from "@shared/schema";
+import { apiRequest, serverRefusal } from "@/lib/queryClient";
+import { formatPoints } from "@/lib/utils";
+import { getPlayerToken } from "@/lib/playerToken";
+import { useToast } from "@/hooks/use-toast";
+import { useLiveRoom } from "@/hooks/use-live-room";
+import Layout from "@/components/common/Layout";
+import AnswerInput, { initialArrangement } from "@/components/quiz/AnswerInput";
+import LiveCountdown from "@/components/quiz/LiveCountdown";
+import LiveStandings from "@/components/quiz/LiveStandings";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+
+interface LiveGameProps {
+  params: {
+    pin?: string;
+  };
+}
+
+interface JoinedGame {
+  playerKey: string;
+  quizId: number;
+}
+
+// Question types answered by picking from the listed options
+const PICKED_TYPES = ["multiple-choice", "true-false", "multi-select"];
+
+const playerKeyStorageKey = (pin: string) => `qzonme_live_${pin}`;
+
+/**
+ * A player's screen in a live game: enter the PIN, answer each question while the host has it open
+ * and see how it went once revealed
+ */
+const LiveGame: React.FC<LiveGameProps> = ({ params }) => {
+  const pin = params.pin ?? null;
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [pinInput, setPinInput] = React.useState("");
+
+  const userName = sessionStorage.getItem("userName") || sessionStorage.getItem("username") || "";
+  const userId = parseInt(sessionStorage.getItem("userId") || "0");
+  const hasUser = !!userName && !!userId;
+
+  // Joining takes a name, which is entered on the home page
+  React.useEffect(() => {
+    if (pin && !hasUser) {
+      sessionStorage.setItem("pendingLivePin", pin);
+      navigate("/");
+    }
+  }, [pin, hasUser, navigate]);
+
+  const [playerKey, setPlayerKey] = React.useState<string | null>(() =>
+    pin ? sessionStorage.getItem(playerKeyStorageKey(pin)) : null
+  );
+  const { state, closed, clockOffset } = useLiveRoom<LivePlayerState>(pin, playerKey);
+
+  // A closed room's PIN can be handed out again, so its player key is no use any more
+  React.useEffect(() => {
+    if (pin && closed) {
+      sessionStorage.removeItem(playerKeyStorageKey(pin));
+    }
+  }, [pin, closed]);
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/live-rooms/${pin}/join`, {
+        userAnswerId: userId,
+        userName,
+        playerToken: getPlayerToken()
+      });
+      return response.json() as Promise<JoinedGame>;
+    },
+    onSuccess: (joined) => {
+      sessionStorage.setItem(playerKeyStorageKey(pin!), joined.playerKey);
+      setPlayerKey(joined.playerKey);
+    }
+  });
+
+  React.useEffect(() => {
+    if (pin && hasUser && !playerKey && joinMutation.isIdle) {
+      joinMutation.mutate();
+    }
+  }, [pin, hasUser, playerKey]);
+
+  // What the player has picked or typed for the current question
+  const [selectedOption, setSelectedOption] = React.useState("");
+  const [selectedOptions, setSelectedOptions] = React.useState<string[]>([]);
+  const [arrangement, setArrangement] = React.useState<string[]>([]);
+  const question = state?.question ?? null;
+
+  React.useEffect(() => {
+    if (!question) return;
+    setSelectedOption("");
+    setSelectedOptions([]);
+    setArrangement(initialArrangement(question));
+  }, [question?.id]);
+
+  const answerMutation = useMutation({
+    mutationFn: async (userAnswer: string | string[]) => {
+      await apiRequest("POST", `/api/live-rooms/${pin}/answer`, {
+        playerKey,
+        questionId: question!.id,
+        userAnswer
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Answer not accepted",
+        description: serverRefusal(error)?.message ?? "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleSubmitAnswer = () => {
+    if (!question || state?.phase !== "question" || state.answered || answerMutation.isPending) return;
+
+    const isArranged = question.type === "ordering" || question.type === "matching";
+    const isMultiSelect = question.type === "multi-select";
+    if (!isArranged && (isMultiSelect ? selectedOptions.length === 0 : !selectedOption.trim())) {
+      toast({
+        title: PICKED_TYPES.includes(question.type) ? "Please select an answer" : "Please enter an answer",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    answerMutation.mutate(isArranged ? arrangement
+      : isMultiSelect ? selectedOptions
+      : PICKED_TYPES.includes(question.type) ? selectedOption : selectedOption.trim());
+  };
+
+  const handleJoinPin = (e: React.FormEvent) => {
+    e.preventDefault();
+    const entered = pinInput.replace(/\D/g, "");
+    if (entered.length === 6) {
+      navigate(`/live/${entered}`);
+    }
+  };
+
+  const message = (title: string, body: React.ReactNode) => (
+    <Layout>
+      <Card>
+        <CardContent className="pt-6 text-center space-y-4">
+          <h2 className="text-xl font-bold font-poppins">{title}</h2>
+          {body}
+        </CardContent>
+      </Card>
+    </Layout>
+  );
+
+  if (!pin) {
+    return message("Join a Live Game", (
+      <form className="max-w-xs mx-auto space-y-3" onSubmit={handleJoinPin}>
+        <p className="text-muted-foreground">Enter the PIN on the host's screen</p>
+        <Input
+          inputMode="numeric"
+          maxLength={6}
+          className="text-center text-2xl tracking-widest"
+          placeholder="123456"
+          value={pinInput}
+          onChange={(e) => setPinInput(e.target.value)}
+          autoFocus
+        />
+        <Button type="submit" className="btn-primary w-full" disabled={pinInput.replace(/\D/g, "").length !== 6}>
+          Join
+        </Button>
+      </form>
+    ));
+  }
+
+  if (joinMutation.isError) {
+    const refusal = serverRefusal(joinMutation.error);
+    const needsName = refusal?.status === 400;
+    return message("Couldn't join this game", (
+      <>
+        <p>{refusal?.message ?? "Please try again in a moment."}</p>
+        <Button
+          type="button"
+          className="btn-primary"
+          onClick={() => {
+            if (needsName) sessionStorage.setItem("pendingLivePin", pin);
+            navigate("/");
+          }}
+        >
+          {needsName ? "Enter Your Name" : "Back to Home"}
+        </Button>
+      </>
+    ));
+  }
+
+  if (closed) {
+    return message("This game has ended", (
+      <>
+        <p className="text-muted-foreground">Ask the host for a new PIN to play again.</p>
+        <Button type="button" className="btn-primary" onClick={() => navigate("/")}>
+          Back to Home
+        </Button>
+      </>
+    ));
+  }
+
+  if (!state) {
+    return message("Joining the game...", <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />);
+  }
+
+  if (state.phase === "lobby") {
+    return message(`You're in, ${userName}!`, (
+      <p className="text-muted-foreground">Waiting for the host to start the game...</p>
+    ));
+  }
+
+  if (state.phase === "finished") {
+    return message("Game over!", (
+      <>
+        <p className="text-lg">
+          {state.rank !== null
+            ? <>You finished <strong>#{state.rank}</strong> with {formatPoints(state.points)} points</>
+            : "You didn't answer any questions this time"}
+        </p>
+        <LiveStandings standings={state.standings} highlightName={userName} />
+        {state.attemptId !== null && (
+          <Button
+            type="button"
+            className="btn-primary"
+            onClick={() => navigate(`/results/${state.quizId}/${state.attemptId}`)}
+          >
+            See Your Results
+          </Button>
+        )}
+      </>
+    ));
+  }
+
+  const isRevealed = state.phase === "reveal";
+
+  return (
+    <Layout>
+      <Card>
+        <CardContent className="pt-6 space-y-6">
+          <div className="flex justify-between items-center text-sm text-muted-foreground">
+            <span>Question {state.questionIndex + 1} of {state.questionCount}</span>
+            {state.questionEndsAt !== null && !state.answered && (
+              <LiveCountdown endsAt={state.questionEndsAt} clockOffset={clockOffset} />
+            )}
+          </div>
+
+          {question && (
+            <>
+              <div className="text-center">
+                <h3 className="text-xl font-poppins font-semibold">{question.text}</h3>
+                {question.imageUrl && (
+                  <img src={question.imageUrl} alt="Question image" className="max-w-full max-h-64 mx-auto rounded-lg mt-3" />
+                )}
+              </div>
+
+              <AnswerInput
+                question={question}
+                selectedOption={selectedOption}
+                setSelectedOption={setSelectedOption}
+                selectedOptions={selectedOptions}
+                setSelectedOptions={setSelectedOptions}
+                arrangement={arrangement}
+                setArrangement={setArrangement}
+                locked={state.answered || isRevealed}
+                correctAnswers={state.correctAnswers ?? undefined}
+                onSubmit={handleSubmitAnswer}
+              />
+            </>
+          )}
+
+          {state.phase === "question" && (state.answered ? (
+            <p className="text-center text-muted-foreground">Answer locked in. Waiting for the others...</p>
+          ) : (
+            <Button
+              type="button"
+              className="btn-primary w-full"
+              onClick={handleSubmitAnswer}
+              disabled={answerMutation.isPending}
+            >
+              Submit Answer
+            </Button>
+          ))}
+
+          {isRevealed && (
+            <div className="space-y-4 text-center">
+              {!state.answered ? (
+                <p className="font-semibold text-gray-700">No answer this time</p>
+              ) : state.lastAnswerCorrect !== null && (
+                <p className={`text-lg font-semibold ${state.lastAnswerCorrect ? "text-green-600" : "text-red-500"}`}>
+                  {state.lastAnswerCorrect ? "Correct!" : "Not quite"}
+                </p>
+              )}
+              {question && state.correctAnswers && !PICKED_TYPES.includes(question.type) && (
+                <p className="text-sm">
+                  <strong>Answer:</strong> {formatAnswer(question, state.correctAnswers)}
+                </p>
+              )}
+              <p className="text-sm text-muted-foreground">
+                {state.rank !== null
+                  ? `You're #${state.rank} with ${formatPoints(state.points)} points`
+                  : "No points yet"}
+              </p>
+              <LiveStandings standings={state.standings} highlightName={userName} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </Layout>
+  );
+};
+
+export default LiveGame;
@@ -0,0 +1,289 @@
+import React from "react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { LiveHostState, formatAnswer } from "@shared/schema";
+import { apiRequest, serverRefusal } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLiveRoom } from "@/hooks/use-live-room";
+import Layout from "@/components/common/Layout";
+import LiveCountdown from "@/components/quiz/LiveCountdown";
+import LiveStandings from "@/components/quiz/LiveStandings";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Check, Copy, Loader2, Users } from "lucide-react";
+
+interface LiveHostProps {
+  params: {
+    token: string;
+  };
+}
+
+interface HostedRoom {
+  pin: string;
+  hostKey: string;
+}
+
+// Question types answered by picking from the listed options
+const PICKED_TYPES = ["multiple-choice", "true-false", "multi-select"];
+
+const hostedRoomKey = (token: string) => `qzonme_live_host_${token}`;
+
+// The room this browser opened for the quiz, so reloading the page keeps running the same game
+function loadHostedRoom(token: string): HostedRoom | null {
+  try {
+    const saved = sessionStorage.getItem(hostedRoomKey(token));
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * The creator's screen for a live game: shows the PIN, moves everyone through the questions and
+ * reveals how the room answered
+ */
+const LiveHost: React.FC<LiveHostProps> = ({ params }) => {
+  const { token } = params;
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [room, setRoom] = React.useState<HostedRoom | null>(() => loadHostedRoom(token));
+  const { state, closed, clockOffset } = useLiveRoom<LiveHostState>(room?.pin ?? null, room?.hostKey ?? null);
+
+  const openRoomMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/quizzes/dashboard/${token}/live-rooms`);
+      return response.json() as Promise<HostedRoom>;
+    },
+    onSuccess: (opened) => {
+      sessionStorage.setItem(hostedRoomKey(token), JSON.stringify(opened));
+      setRoom(opened);
+    }
+  });
+
+  const advanceMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/live-rooms/${room?.pin}/advance`, { hostKey: room?.hostKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't continue the game",
+        description: serverRefusal(error)?.message ?? "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  React.useEffect(() => {
+    if (!room && openRoomMutation.isIdle) {
+      openRoomMutation.mutate();
+    }
+  }, [room]);
+
+  const handleNewGame = () => {
+    sessionStorage.removeItem(hostedRoomKey(token));
+    setRoom(null);
+    openRoomMutation.reset();
+  };
+
+  const joinUrl = room ? `${window.location.origin}/live/${room.pin}` : "";
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(joinUrl).then(() => {
+      toast({ title: "Link copied", description: "Send it to the players, or show this screen" });
+    });
+  };
+
+  const backButton = (
+    <Button type="button" variant="outline" onClick={() => navigate(`/dashboard/${token}`)}>
+      Back to Dashboard
+    </Button>
+  );
+
+  if (openRoomMutation.isError) {
+    return (
+      <Layout>
+        <Card>
+          <CardContent className="pt-6 text-center space-y-4">
+            <h2 className="text-xl font-bold text-red-500">Couldn't open a live game</h2>
+            <p>{serverRefusal(openRoomMutation.error)?.message ?? "Please try again in a moment."}</p>
+            {backButton}
+          </CardContent>
+        </Card>
+      </Layout>
+    );
+  }
+
+  if (closed) {
+    return (
+      <Layout>
+        <Card>
+          <CardContent className="pt-6 text-center space-y-4">
+            <h2 className="text-xl font-bold">This game is over</h2>
+            <p className="text-muted-foreground">The room was closed. Players' attempts stay on your dashboard.</p>
+            <div className="flex justify-center gap-2">
+              {backButton}
+              <Button type="button" className="btn-primary" onClick={handleNewGame}>
+                Host Another Game
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </Layout>
+    );
+  }
+
+  if (!room || !state) {
+    return (
+      <Layout>
+        <Card>
+          <CardContent className="flex items-center justify-center p-6 min-h-[200px]">
+            <div className="text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-primary" />
+              <p>Opening the game...</p>
+            </div>
+          </CardContent>
+        </Card>
+      </Layout>
+    );
+  }
+
+  const { phase, question, players, distribution } = state;
+  const answeredCount = players.filter(player => player.answered).length;
+  const isLastQuestion = state.questionIndex === state.questionCount - 1;
+  const mostAnswers = Math.max(1, ...(distribution ?? []).map(entry => entry.count));
+
+  const advanceLabel = phase === "lobby" ? "Start Game"
+    : phase === "question" ? "Lock Answers"
+    : isLastQuestion ? "Finish Game" : "Next Question";
+
+  return (
+    <Layout>
+      <Card>
+        <CardContent className="pt-6 space-y-6">
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+            <div>
+              <div className="text-sm text-muted-foreground">Game PIN</div>
+              <div className="text-4xl font-bold tracking-widest font-poppins">{state.pin}</div>
+            </div>
+            <div className="flex items-center text-sm text-muted-foreground">
+              <Users className="h-4 w-4 mr-1" />
+              {players.length} {players.length === 1 ? "player" : "players"}
+            </div>
+          </div>
+
+          {phase === "lobby" && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 bg-gray-50 p-3 rounded-lg">
+                <span className="text-sm truncate flex-1">{joinUrl}</span>
+                <Button type="button" size="sm" variant="outline" onClick={handleCopyLink}>
+                  <Copy className="h-3.5 w-3.5 mr-1" /> Copy
+                </Button>
+              </div>
+              {players.length === 0 ? (
+                <p className="text-center text-muted-foreground">Waiting for players to join...</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {players.map(player => (
+                    <span key={player.name} className="px-3 py-1 rounded-full bg-primary/10 text-sm font-medium">
+                      {player.name}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {question && (phase === "question" || phase === "reveal") && (
+            <div className="space-y-4">
+              <div className="flex justify-between items-center text-sm text-muted-foreground">
+                <span>Question {state.questionIndex + 1} of {state.questionCount}</span>
+                {state.questionEndsAt !== null && (
+                  <LiveCountdown endsAt={state.questionEndsAt} clockOffset={clockOffset} />
+                )}
+              </div>
+              <h3 className="text-xl font-poppins font-semibold text-center">{question.text}</h3>
+              {question.imageUrl && (
+                <img src={question.imageUrl} alt="Question image" className="max-w-full max-h-64 mx-auto rounded-lg" />
+              )}
+
+              {phase === "question" && (
+                <>
+                  {PICKED_TYPES.includes(question.type) && (
+                    <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {(question.options as string[]).map(option => (
+                        <li key={option} className="p-3 border border-gray-200 rounded-lg">{option}</li>
+                      ))}
+                    </ul>
+                  )}
+                  <p className="text-center text-muted-foreground">
+                    {answeredCount} of {players.length} answered
+                  </p>
+                </>
+              )}
+
+              {phase === "reveal" && (
+                <>
+                  {!PICKED_TYPES.includes(question.type) && (
+                    <p className="text-center font-medium text-green-700">
+                      {formatAnswer(question, question.correctAnswers as string[])}
+                    </p>
+                  )}
+                  {/* How the room answered, correct answers in green */}
+                  <ul className="space-y-2">
+                    {(distribution ?? []).map((entry, index) => (
+                      <li key={index} className="text-sm">
+                        <div className="flex justify-between mb-1">
+                          <span className={`flex items-center ${entry.correct ? "text-green-700 font-medium" : ""}`}>
+                            {entry.correct && <Check className="h-4 w-4 mr-1" />}
+                            {formatAnswer(question, entry.answer)}
+                          </span>
+                          <span>{entry.count}</span>
+                        </div>
+                        <div className="h-2 rounded bg-gray-100">
+                          <div
+                            className={`h-2 rounded ${entry.correct ? "bg-green-500" : "bg-gray-400"}`}
+                            style={{ width: `${(entry.count / mostAnswers) * 100}%` }}
+                          />
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                  <LiveStandings standings={state.standings} />
+                </>
+              )}
+            </div>
+          )}
+
+          {phase === "finished" && (
+            <div className="space-y-4">
+              <h3 className="text-xl font-poppins font-semibold text-center">Final standings</h3>
+              <LiveStandings standings={state.standings} />
+              <div className="flex justify-center gap-2">
+                {backButton}
+                <Button type="button" className="btn-primary" onClick={handleNewGame}>
+                  Host Another Game
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {phase !== "finished" && (
+            <div className="flex justify-between">
+              {backButton}
+              <Button
+                type="button"
+                className="btn-primary"
+                onClick={() => advanceMutation.mutate()}
+                disabled={advanceMutation.isPending || (phase === "lobby" && players.length === 0)}
+              >
+                {advanceMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {advanceLabel}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </Layout>
+  );
+};
+
+export default LiveHost;
@@ -0,0 +1,12 @@
+-- Migration: Attempt sessions belong to the player who started them
+-- A player has at most one open session per quiz: /start picks it up again instead of handing out
+-- a fresh one, and a session that ran out of time is handed in before a new one is started.
+
+ALTER TABLE attempt_sessions
+ADD COLUMN IF NOT EXISTS player_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attempt_sessions_open_player
+ON attempt_sessions (quiz_id, player_id) WHERE closed_at IS NULL;
+
+COMMENT ON COLUMN attempt_sessions.player_id IS 'Player ID from the signed player token of the player who started the attempt';
+COMMENT ON COLUMN attempt_sessions.closed_at IS 'When the attempt was submitted, or handed in by /start after running out of time; null while open';
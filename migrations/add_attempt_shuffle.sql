@@ -0,0 +1,11 @@
+-- Migration: Per-attempt shuffling of questions and options
+-- Attempts record the seed their shuffle was drawn from, so what the player saw can be rebuilt.
+-- Whether to shuffle lives in quizzes.settings (shuffleQuestions, shuffleOptions).
+
+ALTER TABLE attempt_sessions
+ADD COLUMN IF NOT EXISTS shuffle JSONB;
+
+ALTER TABLE quiz_attempts
+ADD COLUMN IF NOT EXISTS shuffle JSONB;
+
+COMMENT ON COLUMN quiz_attempts.shuffle IS 'Seed and switches of the shuffle this player got, null if nothing was shuffled';
@@ -0,0 +1,13 @@
+-- Migration: Creator-initiated deletion of quizzes and attempts
+-- Deletions are soft for a short undo window, then purged by the server
+
+ALTER TABLE quizzes
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+ALTER TABLE quiz_attempts
+ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+COMMENT ON COLUMN quizzes.deleted_at IS 'Set when the creator deletes the quiz; the row is purged after the undo window';
+COMMENT ON COLUMN quiz_attempts.hidden_at IS 'Set when the creator hides the attempt from the public leaderboard';
+COMMENT ON COLUMN quiz_attempts.deleted_at IS 'Set when the creator deletes the attempt; the row is purged after the undo window';
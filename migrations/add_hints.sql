@@ -0,0 +1,12 @@
+-- Migration: On-demand hints
+-- Started attempts record which hints the player revealed; graded attempts count them.
+-- The penalty lives in quizzes.settings (hintPenaltyPercent); questions.hint already exists.
+
+ALTER TABLE attempt_sessions
+ADD COLUMN IF NOT EXISTS hints_used JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE quiz_attempts
+ADD COLUMN IF NOT EXISTS hints_used INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN questions.hint IS 'Revealed to players on request, costing the quiz''s hintPenaltyPercent of the question''s points';
+COMMENT ON COLUMN quiz_attempts.hints_used IS 'Answers given after revealing the question''s hint';
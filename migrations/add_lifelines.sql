@@ -0,0 +1,12 @@
+-- Migration: Lifelines (50:50 and skip)
+-- Started attempts record the lifelines the server granted, including the options a 50:50 removed;
+-- graded attempts only keep which lifelines were used, since the leaderboard is public.
+-- Which lifelines a quiz offers lives in quizzes.settings (fiftyFifty, skipQuestion).
+
+ALTER TABLE attempt_sessions
+ADD COLUMN IF NOT EXISTS lifelines JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE quiz_attempts
+ADD COLUMN IF NOT EXISTS lifelines_used JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN quiz_attempts.lifelines_used IS 'Lifelines the player used (fifty-fifty, skip), without the questions they were used on';
@@ -0,0 +1,9 @@
+-- Migration: Indexes for direct lookups
+-- Backs case-insensitive slug lookups and per-quiz question/attempt queries,
+-- which used to scan whole tables
+
+CREATE INDEX IF NOT EXISTS idx_quizzes_url_slug_lower ON quizzes (lower(url_slug));
+
+CREATE INDEX IF NOT EXISTS idx_questions_quiz_id ON questions (quiz_id, "order");
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_quiz_id ON quiz_attempts (quiz_id);
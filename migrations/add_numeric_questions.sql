@@ -0,0 +1,8 @@
+-- Migration: Numeric estimation questions
+-- The target value is the question's only correct answer; unit, tolerance and slider range live here
+
+ALTER TABLE questions
+ADD COLUMN IF NOT EXISTS numeric_settings JSONB;
+
+COMMENT ON COLUMN questions.numeric_settings IS 'Unit, tolerance and slider range of numeric questions, null otherwise';
+COMMENT ON COLUMN questions.type IS 'multiple-choice, true-false, multi-select, open-ended, ordering, matching or numeric';
@@ -0,0 +1,11 @@
+-- Migration: Per-player attempt limits
+-- Attempts remember the player ID from the signed token issued at POST /api/users, so a quiz
+-- can limit how often one device takes it and rank each player once on the leaderboard.
+-- The limit and the leaderboard policy live in quizzes.settings (maxAttempts, leaderboardScore).
+
+ALTER TABLE quiz_attempts
+ADD COLUMN IF NOT EXISTS player_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_player ON quiz_attempts (quiz_id, player_id);
+
+COMMENT ON COLUMN quiz_attempts.player_id IS 'Player ID from the signed player token; null for attempts submitted without one';
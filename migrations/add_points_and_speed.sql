@@ -0,0 +1,19 @@
+-- Migration: Per-question points and speed bonus
+-- Questions carry their own point value; attempts store the points earned and the time spent answering.
+-- Attempts from before this migration get one point per correct answer and no time.
+
+ALTER TABLE questions
+ADD COLUMN IF NOT EXISTS points INTEGER DEFAULT 1 NOT NULL;
+
+ALTER TABLE quiz_attempts
+ADD COLUMN IF NOT EXISTS points DOUBLE PRECISION DEFAULT 0 NOT NULL,
+ADD COLUMN IF NOT EXISTS max_points INTEGER DEFAULT 0 NOT NULL,
+ADD COLUMN IF NOT EXISTS total_time_ms INTEGER;
+
+UPDATE quiz_attempts
+SET points = score, max_points = total_questions
+WHERE max_points = 0;
+
+COMMENT ON COLUMN questions.points IS 'Points a right answer is worth, before any speed bonus';
+COMMENT ON COLUMN quiz_attempts.points IS 'Points earned: credit times question points, plus the speed bonus when the quiz has one';
+COMMENT ON COLUMN quiz_attempts.total_time_ms IS 'Time spent answering, measured by the server per question, breaks leaderboard ties';
@@ -0,0 +1,7 @@
+-- Migration: Question explanations
+-- Why the answer is right, written by the creator or kept from AI generation, shown in the post-attempt review.
+
+ALTER TABLE questions
+ADD COLUMN IF NOT EXISTS explanation TEXT;
+
+COMMENT ON COLUMN questions.explanation IS 'Why the answer is right, shown to players after submitting when answers are revealed';
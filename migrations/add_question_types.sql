@@ -0,0 +1,8 @@
+-- Migration: True/false and multi-select questions
+-- Multi-select questions can give partial credit, so attempt scores may be fractional
+
+ALTER TABLE quiz_attempts
+ALTER COLUMN score TYPE DOUBLE PRECISION;
+
+COMMENT ON COLUMN questions.type IS 'multiple-choice, true-false or multi-select';
+COMMENT ON COLUMN quiz_attempts.score IS 'Sum of the credit earned per question; fractional when the quiz gives partial credit';
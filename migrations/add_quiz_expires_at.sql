@@ -0,0 +1,16 @@
+-- Migration: Store each quiz's expiry date
+-- Replaces the hardcoded 7-day lifetime; existing quizzes keep their original 7-day expiry
+
+ALTER TABLE quizzes
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP;
+
+UPDATE quizzes
+SET expires_at = created_at + INTERVAL '7 days'
+WHERE expires_at IS NULL;
+
+ALTER TABLE quizzes
+ALTER COLUMN expires_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quizzes_expires_at ON quizzes(expires_at);
+
+COMMENT ON COLUMN quizzes.expires_at IS 'When the quiz stops being available and becomes eligible for cleanup';
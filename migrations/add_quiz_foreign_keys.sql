@@ -0,0 +1,23 @@
+-- Migration: Foreign keys from questions and quiz attempts to their quiz
+-- Removes rows left behind by earlier non-transactional cleanups, then lets
+-- deleting a quiz cascade to its questions and attempts
+
+DELETE FROM questions
+WHERE NOT EXISTS (SELECT 1 FROM quizzes WHERE quizzes.id = questions.quiz_id);
+
+DELETE FROM quiz_attempts
+WHERE NOT EXISTS (SELECT 1 FROM quizzes WHERE quizzes.id = quiz_attempts.quiz_id);
+
+ALTER TABLE questions
+DROP CONSTRAINT IF EXISTS questions_quiz_id_quizzes_id_fk;
+
+ALTER TABLE questions
+ADD CONSTRAINT questions_quiz_id_quizzes_id_fk
+FOREIGN KEY (quiz_id) REFERENCES quizzes(id) ON DELETE CASCADE;
+
+ALTER TABLE quiz_attempts
+DROP CONSTRAINT IF EXISTS quiz_attempts_quiz_id_quizzes_id_fk;
+
+ALTER TABLE quiz_attempts
+ADD CONSTRAINT quiz_attempts_quiz_id_quizzes_id_fk
+FOREIGN KEY (quiz_id) REFERENCES quizzes(id) ON DELETE CASCADE;
@@ -0,0 +1,12 @@
+-- Migration: Track quiz revisions for post-publish editing
+-- Every question edit from the creator dashboard bumps quizzes.revision; attempts remember
+-- the revision they were graded against so older scores stay interpretable
+
+ALTER TABLE quizzes
+ADD COLUMN IF NOT EXISTS revision INTEGER DEFAULT 1 NOT NULL;
+
+ALTER TABLE quiz_attempts
+ADD COLUMN IF NOT EXISTS quiz_revision INTEGER DEFAULT 1 NOT NULL;
+
+COMMENT ON COLUMN quizzes.revision IS 'Incremented on every question edit made after publishing';
+COMMENT ON COLUMN quiz_attempts.quiz_revision IS 'Revision of the quiz this attempt was taken against';
@@ -0,0 +1,7 @@
+-- Migration: Add per-quiz creator settings
+-- Stores creator choices such as the answer reveal policy (see quizSettingsSchema in shared/schema.ts)
+
+ALTER TABLE quizzes
+ADD COLUMN IF NOT EXISTS settings JSONB DEFAULT '{}'::jsonb NOT NULL;
+
+COMMENT ON COLUMN quizzes.settings IS 'Creator settings for the quiz, e.g. {"answerReveal": "after-submit"}';
@@ -0,0 +1,38 @@
+-- Migration: Quiz-wide and per-question time limits
+-- Players start an attempt on the server, which records when it began and when the quiz-wide limit runs out.
+-- The quiz-wide limit itself lives in quizzes.settings (timeLimitMinutes).
+-- The attempt's questions are then served one by one through /start and /answer. Each served question records
+-- when the server showed it and when the answer arrived, so answer times, per-question limits and the speed
+-- bonus are measured on the server clock. Submitting grades these answers and closes the attempt.
+
+ALTER TABLE questions
+ADD COLUMN IF NOT EXISTS time_limit_seconds INTEGER;
+
+ALTER TABLE quiz_attempts
+ADD COLUMN IF NOT EXISTS started_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS attempt_sessions (
+  id INTEGER PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  token TEXT NOT NULL UNIQUE,
+  quiz_id INTEGER NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  started_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  deadline_at TIMESTAMP,
+  closed_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS served_questions (
+  session_id INTEGER NOT NULL REFERENCES attempt_sessions(id) ON DELETE CASCADE,
+  question_id INTEGER NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  shown_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  answered_at TIMESTAMP,
+  user_answer JSONB,
+  PRIMARY KEY (session_id, question_id)
+);
+
+COMMENT ON COLUMN questions.time_limit_seconds IS 'Countdown for answering the question, null for no limit';
+COMMENT ON COLUMN quiz_attempts.started_at IS 'When the server started the attempt, null if it was submitted without starting';
+COMMENT ON TABLE attempt_sessions IS 'Attempts started by players; submissions are timed against these';
+COMMENT ON COLUMN attempt_sessions.closed_at IS 'When the attempt was submitted, null while open';
+COMMENT ON TABLE served_questions IS 'Questions shown to a player during a started attempt, with the answers given to them';
+COMMENT ON COLUMN served_questions.answered_at IS 'When the answer arrived, null while the question is still open';
+COMMENT ON COLUMN served_questions.user_answer IS 'The answer given, as {"value": ...} so a text answer stays text';
@@ -0,0 +1,41 @@
+-- Migration: Tables the app started out with
+-- Databases set up with `npm run db:push` before the other migrations existed already have these;
+-- it is the first migration the embedded database applies (see server/embeddedDb.ts).
+
+CREATE TABLE IF NOT EXISTS users (
+  id INTEGER PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  username TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS quizzes (
+  id INTEGER PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  creator_id INTEGER NOT NULL,
+  creator_name TEXT NOT NULL,
+  access_code TEXT NOT NULL CONSTRAINT quizzes_access_code_unique UNIQUE,
+  url_slug TEXT NOT NULL CONSTRAINT quizzes_url_slug_unique UNIQUE,
+  dashboard_token TEXT NOT NULL CONSTRAINT quizzes_dashboard_token_unique UNIQUE,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS questions (
+  id INTEGER PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  quiz_id INTEGER NOT NULL,
+  text TEXT NOT NULL,
+  type TEXT NOT NULL,
+  options JSONB NOT NULL,
+  correct_answers JSONB NOT NULL,
+  hint TEXT,
+  "order" INTEGER NOT NULL,
+  image_url TEXT
+);
+
+CREATE TABLE IF NOT EXISTS quiz_attempts (
+  id INTEGER PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  quiz_id INTEGER NOT NULL,
+  user_answer_id INTEGER NOT NULL,
+  user_name TEXT NOT NULL,
+  score INTEGER NOT NULL,
+  total_questions INTEGER NOT NULL,
+  answers JSONB NOT NULL,
+  completed_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
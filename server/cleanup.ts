@@ -1,42 +1,35 @@
 import { db } from './db';
-import { quizzes, questions, quizAttempts } from '@shared/schema';
-import { eq, lt, inArray, sql } from 'drizzle-orm';
+import { attemptSessions, quizzes } from '@shared/schema';
+import { isNotNull, lt, or } from 'drizzle-orm';
 import { cleanupOldQuizImages } from './cloudinary';
+import { purgeExpiredDeletions } from './services/deletion';
+import { closeAttemptSubscriptions } from './services/liveAttempts';
 
-/**
- * Gets the cutoff date for quiz retention
- * @returns Date object for the cutoff (7 days ago)
- */
-function getRetentionCutoffDate(): Date {
-  const now = new Date();
-  // Set cutoff to 7 days ago (changed from 30 days)
-  now.setDate(now.getDate() - 7);
-  return now;
-}
+// Open attempts older than this are given up on; starting the quiz again begins a fresh one
+const ABANDONED_ATTEMPT_DAYS = 7;
 
 /**
  * Cleans up expired quizzes and their related data
- * - Deletes quizzes older than 7 days
- * - Deletes associated questions
- * - Deletes associated attempts
- * - Deletes associated images from Cloudinary
+ * - Deletes quizzes whose stored expiry date has passed, in one transaction
+ * - Questions and attempts are removed by the ON DELETE CASCADE foreign keys
+ * - Deletes associated images from Cloudinary once the rows are gone
  * @returns Promise resolving to cleanup results
  */
 export async function cleanupExpiredQuizzes() {
   try {
     console.log('Starting cleanup of expired quizzes...');
-    const cutoffDate = getRetentionCutoffDate();
-    console.log(`Cutoff date for expired quizzes: ${cutoffDate.toISOString()}`);
-    
-    // First, get all expired quizzes (older than 7 days)
-    const expiredQuizzes = await db
-      .select()
-      .from(quizzes)
-      .where(lt(quizzes.createdAt, cutoffDate));
+    const now = new Date();
+    console.log(`Cleaning up quizzes that expired before: ${now.toISOString()}`);
     
-    console.log(`Found ${expiredQuizzes.length} expired quizzes to clean up`);
+    const expiredQuizIds = await db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(quizzes)
+        .where(lt(quizzes.expiresAt, now))
+        .returning({ id: quizzes.id });
+      return deleted.map(quiz => quiz.id);
+    });
     
-    if (expiredQuizzes.length === 0) {
+    if (expiredQuizIds.length === 0) {
       return { 
         success: true, 
         message: 'No expired quizzes found to clean up',
@@ -44,7 +37,8 @@ export async function cleanupExpiredQuizzes() {
       };
     }
     
-    const expiredQuizIds = expiredQuizzes.map(quiz => quiz.id);
+    console.log(`Deleted ${expiredQuizIds.length} expired quizzes with their questions and attempts`);
+    expiredQuizIds.forEach(closeAttemptSubscriptions);
     
     // Clean up related images from Cloudinary
     try {
@@ -52,46 +46,13 @@ export async function cleanupExpiredQuizzes() {
       await cleanupOldQuizImages(expiredQuizIds);
     } catch (imageError) {
       console.error('Error cleaning up images:', imageError);
-      // Continue with database cleanup even if image cleanup fails
+      // The database rows are already gone; leftover images are not worth failing the cleanup over
     }
     
-    // Delete associated attempts
-    const attemptDeleteResult = await db
-      .delete(quizAttempts)
-      .where(
-        expiredQuizIds.length === 1
-          ? eq(quizAttempts.quizId, expiredQuizIds[0])
-          : inArray(quizAttempts.quizId, expiredQuizIds)
-      );
-    
-    console.log(`Deleted quiz attempts for expired quizzes`);
-    
-    // Delete associated questions
-    const questionDeleteResult = await db
-      .delete(questions)
-      .where(
-        expiredQuizIds.length === 1
-          ? eq(questions.quizId, expiredQuizIds[0])
-          : inArray(questions.quizId, expiredQuizIds)
-      );
-    
-    console.log(`Deleted questions for expired quizzes`);
-    
-    // Finally, delete the expired quizzes
-    const quizDeleteResult = await db
-      .delete(quizzes)
-      .where(
-        expiredQuizIds.length === 1
-          ? eq(quizzes.id, expiredQuizIds[0])
-          : inArray(quizzes.id, expiredQuizIds)
-      );
-    
-    console.log(`Deleted ${expiredQuizzes.length} expired quizzes`);
-    
     return {
       success: true,
-      message: `Cleaned up ${expiredQuizzes.length} expired quizzes`,
-      count: expiredQuizzes.length,
+      message: `Cleaned up ${expiredQuizIds.length} expired quizzes`,
+      count: expiredQuizIds.length,
       quizIds: expiredQuizIds
     };
   } catch (error) {
@@ -104,6 +65,23 @@ export async function cleanupExpiredQuizzes() {
   }
 }
 
+/**
+ * Deletes attempt sessions that are no longer needed, with the questions served in them
+ * - Closed sessions: the attempt they were submitted as keeps everything it needs
+ * - Sessions started more than ABANDONED_ATTEMPT_DAYS ago and never submitted
+ * @returns Promise resolving to the number of sessions deleted
+ */
+export async function cleanupAttemptSessions(): Promise<number> {
+  const abandonedBefore = new Date(Date.now() - ABANDONED_ATTEMPT_DAYS * 24 * 60 * 60 * 1000);
+  const deleted = await db
+    .delete(attemptSessions)
+    .where(or(isNotNull(attemptSessions.closedAt), lt(attemptSessions.startedAt, abandonedBefore)))
+    .returning({ id: attemptSessions.id });
+  
+  console.log(`Deleted ${deleted.length} finished or abandoned attempt sessions`);
+  return deleted.length;
+}
+
 /**
  * Schedule the cleanup task to run daily
  * @param initialDelay Initial delay in milliseconds before first run
@@ -118,6 +96,8 @@ export function scheduleCleanupTask(initialDelay: number = 0) {
     try {
       const result = await cleanupExpiredQuizzes();
       console.log('Initial cleanup completed:', result);
+      await purgeExpiredDeletions();
+      await cleanupAttemptSessions();
     } catch (error) {
       console.error('Error in initial cleanup:', error);
     }
@@ -128,6 +108,8 @@ export function scheduleCleanupTask(initialDelay: number = 0) {
       try {
         const result = await cleanupExpiredQuizzes();
         console.log('Scheduled cleanup completed:', result);
+        await purgeExpiredDeletions();
+        await cleanupAttemptSessions();
       } catch (error) {
         console.error('Error in scheduled cleanup:', error);
       }
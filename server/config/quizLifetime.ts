@@ -0,0 +1,7 @@
+// Quiz Lifetime Configuration
+// Admin-set bounds for how long a quiz stays available; creators choose within them
+export const QUIZ_LIFETIME_CONFIG = {
+  MIN_DAYS: parseInt(process.env.QUIZ_LIFETIME_MIN_DAYS || "1"),
+  MAX_DAYS: parseInt(process.env.QUIZ_LIFETIME_MAX_DAYS || "30"),
+  DEFAULT_DAYS: parseInt(process.env.QUIZ_LIFETIME_DEFAULT_DAYS || "7"),
+};
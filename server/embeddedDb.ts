@@ -0,0 +1,77 @@
+import { readFile } from "fs/promises";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+// The SQL files in migrations/, in the order they were written. A new migration is added at the end.
+const MIGRATIONS = [
+  "create_base_tables.sql",
+  "add_auto_create_tables.sql",
+  "fix_auto_create_usage_date_type.sql",
+  "add_quiz_settings.sql",
+  "add_quiz_revisions.sql",
+  "add_quiz_expires_at.sql",
+  "add_creator_deletions.sql",
+  "add_lookup_indexes.sql",
+  "add_quiz_foreign_keys.sql",
+  "add_question_types.sql",
+  "add_numeric_questions.sql",
+  "add_points_and_speed.sql",
+  "add_time_limits.sql",
+  "add_attempt_shuffle.sql",
+  "add_question_explanations.sql",
+  "add_hints.sql",
+  "add_lifelines.sql",
+  "add_player_attempt_limits.sql",
+  "add_attempt_session_players.sql"
+];
+
+const MIGRATIONS_DIR = new URL("../migrations/", import.meta.url);
+
+/**
+ * In-process Postgres (PGlite) used when DATABASE_URL is not set, e.g. on a laptop or in tests.
+ * Data is kept in memory unless PGLITE_DATA_DIR points to a directory.
+ */
+export function createEmbeddedDatabase(dataDir: string | undefined = process.env.PGLITE_DATA_DIR) {
+  const client = new PGlite(dataDir);
+  const embeddedDb = drizzle(client, { schema });
+
+  return {
+    // Same query builder as node-postgres; only raw driver results differ, and the app does not use them
+    db: embeddedDb as unknown as NodePgDatabase<typeof schema>,
+    ready: applyMigrations(client)
+  };
+}
+
+/**
+ * Apply the migrations the database hasn't had yet, in order and each in its own transaction,
+ * so the embedded database goes through the same SQL as a deployed one
+ */
+async function applyMigrations(client: PGlite): Promise<void> {
+  await client.exec(`
+    CREATE TABLE IF NOT EXISTS embedded_migrations (
+      name TEXT PRIMARY KEY,
+      applied_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `);
+  const { rows } = await client.query<{ name: string }>("SELECT name FROM embedded_migrations");
+  const applied = new Set(rows.map(row => row.name));
+
+  // Data directories from before migrations were applied had their schema pushed from shared/schema.ts
+  if (applied.size === 0) {
+    const { rows: tables } = await client.query("SELECT 1 FROM information_schema.tables WHERE table_name = 'quizzes'");
+    if (tables.length > 0) {
+      throw new Error("The embedded database wasn't set up by its migrations. Delete PGLITE_DATA_DIR to start over.");
+    }
+  }
+
+  for (const name of MIGRATIONS.filter(migration => !applied.has(migration))) {
+    const migration = await readFile(new URL(name, MIGRATIONS_DIR), "utf8");
+    await client.transaction(async (tx) => {
+      await tx.exec(migration);
+      await tx.query("INSERT INTO embedded_migrations (name) VALUES ($1)", [name]);
+    });
+    console.log(`🧪 Applied migration ${name}`);
+  }
+}
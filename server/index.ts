@@ -5,6 +5,7 @@ import { registerRoutes } from "./routes";
 import * as pathModule from "path";
 import * as fs from "fs";
 import { scheduleCleanupTask } from './cleanup';
+import { databaseReady } from './db';
 import { testCloudinaryConnection } from './cloudinary';
 import { 
   setupSecurityMiddleware, 
@@ -102,6 +103,9 @@ app.use((req, res, next) => {
     validateServerConfig = () => ({ isValid: false, missingKeys: ['Configuration module not available'] });
   }
 
+  // The embedded database needs its schema before the first query
+  await databaseReady;
+
   const server = await registerRoutes(app);
 
   // Setup endpoint-specific rate limits after routes are registered
@@ -221,6 +225,6 @@ app.use((req, res, next) => {
     
     // Schedule daily cleanup task to run 5 minutes after server start
     scheduleCleanupTask(5 * 60 * 1000);
-    console.log('📅 Scheduled daily cleanup task for expired quizzes (7-day retention period)');
+    console.log('📅 Scheduled daily cleanup task for expired quizzes (per-quiz expiry dates)');
   });
 })();
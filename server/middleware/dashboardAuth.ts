@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import { quizExpiredResponse } from '../services/quizLifetime';
+
+function resolveDashboardQuiz(allowExpired: boolean) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const dashboardToken = req.params.token;
+      const quiz = dashboardToken ? await storage.getQuizByDashboardToken(dashboardToken) : undefined;
+
+      if (!quiz) {
+        console.log(`No quiz found with dashboard token: "${dashboardToken}"`);
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+
+      if (!allowExpired && storage.isQuizExpired(quiz)) {
+        return res.status(410).json(quizExpiredResponse(quiz));
+      }
+
+      (req as any).dashboardQuiz = quiz;
+      next();
+    } catch (error) {
+      console.error(`Error resolving dashboard token "${req.params.token}":`, error);
+      res.status(500).json({ message: "Failed to fetch quiz" });
+    }
+  };
+}
+
+/**
+ * Dashboard token authentication for creator-only quiz endpoints.
+ * Resolves the quiz for req.params.token and exposes it as (req as any).dashboardQuiz
+ */
+export const requireDashboardToken = resolveDashboardQuiz(false);
+
+/**
+ * Like requireDashboardToken, but also lets expired quizzes through, so their creator can still
+ * see them with their questions and results, and extend them, until the daily cleanup deletes them.
+ * For reading only; changes wait until the quiz is extended.
+ */
+export const requireDashboardTokenIncludingExpired = resolveDashboardQuiz(true);
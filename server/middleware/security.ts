@@ -71,6 +71,13 @@ export const rateLimiters = {
     5 * 60 * 1000, // 5 minutes
     20, // limit each IP to 20 quiz attempts per 5 minutes
     'Too many quiz attempts, please slow down.'
+  ),
+  
+  // Rate limit for starting quiz attempts, counted apart from submissions
+  quizStart: createRateLimit(
+    5 * 60 * 1000, // 5 minutes
+    20, // limit each IP to 20 quiz starts per 5 minutes
+    'Too many quiz attempts, please slow down.'
   )
 };
 
@@ -114,7 +121,7 @@ const corsOptions = {
   credentials: true,
   optionsSuccessStatus: 200, // Some legacy browsers (IE11, various SmartTVs) choke on 204
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'X-Player-Token'],
 };
 
 // Security headers configuration
@@ -258,6 +265,9 @@ export function setupSecurityMiddleware(app: Express) {
   console.log('✅ Security middleware configured');
 }
 
+// POST paths under /api/quizzes that create a new quiz (as opposed to submitting or editing one)
+const QUIZ_CREATION_PATHS = ['/publish'];
+
 // Apply specific rate limits to specific routes
 export function setupSpecificRateLimits(app: Express) {
   console.log('🔒 Setting up endpoint-specific rate limits...');
@@ -268,7 +278,7 @@ export function setupSpecificRateLimits(app: Express) {
   
   // Quiz creation endpoints
   app.use('/api/quizzes', (req, res, next) => {
-    if (req.method === 'POST') {
+    if (req.method === 'POST' && QUIZ_CREATION_PATHS.includes(req.path)) {
       return rateLimiters.createQuiz(req, res, next);
     }
     next();
@@ -282,6 +292,8 @@ export function setupSpecificRateLimits(app: Express) {
   
   // Quiz attempt endpoints
   app.use('/api/quiz-attempts', rateLimiters.quizAttempt);
+  app.use(/^\/api\/quizzes\/\d+\/submit/, rateLimiters.quizAttempt);
+  app.use(/^\/api\/quizzes\/\d+\/start/, rateLimiters.quizStart);
   
   console.log('✅ Endpoint-specific rate limits configured');
 }
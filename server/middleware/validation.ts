@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { body, validationResult, param, query } from 'express-validator';
+import { MAX_ARRANGE_ITEMS, QUESTION_TYPES } from '@shared/schema';
 
 /**
  * Enhanced validation middleware using express-validator for additional security
@@ -105,10 +106,11 @@ export const validateQuizCreation = [
 export const validateQuestionCreation = [
   ValidationPatterns.positiveInt('quizId'),
   ValidationPatterns.safeString('text', 1, 1000),
-  body('type').equals('multiple-choice').withMessage('Question type must be multiple-choice'),
-  ValidationPatterns.array('options', 2, 10),
-  ValidationPatterns.array('correctAnswers', 1, 10),
+  body('type').isIn([...QUESTION_TYPES]).withMessage(`Question type must be one of: ${QUESTION_TYPES.join(', ')}`),
+  ValidationPatterns.array('options', 0, MAX_ARRANGE_ITEMS * 2), // Open-ended questions have none, matching questions have two per pair
+  ValidationPatterns.array('correctAnswers', 1, 20),
   ValidationPatterns.safeString('hint', 0, 500).optional(),
+  ValidationPatterns.safeString('explanation', 0, 1000).optional(),
   ValidationPatterns.positiveInt('order'),
   ValidationPatterns.url('imageUrl', true), // Optional image URL
   
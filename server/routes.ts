@@ -5,12 +5,14 @@ import { db } from "./db";
 import { 
   insertUserSchema, 
   insertQuizSchema, 
-  insertQuestionSchema, 
-  insertQuizAttemptSchema,
   questionAnswerSchema,
   quizzes,
-  quizAttempts,
-  questions
+  resolveQuizSettings,
+  arrangeQuestions,
+  type AttemptSession,
+  type Question,
+  type Quiz,
+  type QuizAttempt
 } from "@shared/schema";
 import { z } from "zod";
 import multer from "multer";
@@ -19,17 +21,48 @@ import fs from "fs";
 import { fileURLToPath } from 'url';
 import { registerContactRoutes } from "./routes/contact";
 import { registerAutoCreateRoutes } from "./routes/autoCreateRoutes";
+import { registerDashboardRoutes } from "./routes/dashboardRoutes";
+import { registerLiveRoomRoutes } from "./routes/liveRoomRoutes";
+import { registerQuizTransferRoutes } from "./routes/quizTransferRoutes";
 import { requireAdmin } from "./auth";
 import { 
   secureUserSchema, 
-  secureQuizSchema, 
   secureQuestionSchema, 
   secureQuizAttemptSchema,
+  secureQuizSubmissionSchema,
+  secureQuizStartSchema,
+  secureAnswerSchema,
+  secureHintRequestSchema,
+  secureLifelineRequestSchema,
+  securePublishQuizSchema,
   checkRateLimit,
   rateLimits,
   validateInput 
 } from "./validation";
 import { incrementUsage } from "./services/rateLimiting";
+import { gradeAttempt } from "./services/grading";
+import { questionContentProblem } from "./services/questionRules";
+import { applyTimeLimits, attemptDeadline, generateSessionToken, isPastDeadline } from "./services/timeLimits";
+import { markHintedAnswers } from "./services/hints";
+import { attemptProgress, isCurrentQuestion, servedAnswers } from "./services/attemptProgress";
+import { drawFiftyFifty, lifelineProblem, markLifelineAnswers } from "./services/lifelines";
+import { attemptLimitProblem, attemptsLeft } from "./services/attemptPolicy";
+import { issuePlayerToken, verifyPlayerToken, PLAYER_TOKEN_HEADER, PLAYER_TOKEN_REQUIRED } from "./services/playerTokens";
+import { attachLiveAttempts, loadDashboardAttempts, loadLeaderboard, publishAttempts } from "./services/liveAttempts";
+import { attachLiveRooms } from "./services/liveRooms";
+import { 
+  toPublicQuiz, 
+  toReviewQuestion, 
+  toPlayerAttempt,
+  drawAttemptShuffle
+} from "./services/playerView";
+import { requireDashboardToken, requireDashboardTokenIncludingExpired } from "./middleware/dashboardAuth";
+import { 
+  expiresAfterDays, 
+  getQuizLifetimeBounds, 
+  isAllowedLifetime, 
+  quizExpiredResponse 
+} from "./services/quizLifetime";
 
 // Setup dirname equivalent in ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -78,6 +111,87 @@ const upload = multer({
   }
 });
 
+// Grade the answers given during the attempt against the stored questions and persist the attempt.
+// Returns the reason instead when the submission can't be graded.
+async function recordGradedAttempt(
+  quiz: Quiz,
+  submission: z.infer<typeof secureQuizSubmissionSchema>
+): Promise<{ attempt: QuizAttempt } | { problem: string }> {
+  const quizId = quiz.id;
+  const quizQuestions = await storage.getQuestionsByQuizId(quizId);
+  if (quizQuestions.length === 0) {
+    return { problem: "This quiz has no questions" };
+  }
+
+  // Every attempt is graded against a start the server recorded for this player
+  const playerId = verifyPlayerToken(submission.playerToken);
+  if (!playerId) {
+    return { problem: PLAYER_TOKEN_REQUIRED };
+  }
+  const openSession = await storage.getAttemptSession(quizId, submission.sessionToken);
+  if (!openSession || openSession.playerId !== playerId) {
+    return { problem: "This attempt has already been submitted or has ended. Start the quiz again to submit your answers." };
+  }
+  
+  if (resolveQuizSettings(quiz.settings).maxAttempts !== null) {
+    const limitProblem = attemptLimitProblem(quiz, await storage.countPlayerAttempts(quizId, playerId));
+    if (limitProblem) {
+      return { problem: limitProblem };
+    }
+  }
+  
+  // Closing the session hands back its final hints, and only to one submission
+  const session = await storage.closeAttemptSession(openSession.id);
+  if (!session) {
+    return { problem: "This attempt has already been submitted." };
+  }
+
+  return { attempt: await recordSessionAttempt(quiz, quizQuestions, session, { ...submission, playerId }) };
+}
+
+// Grade a closed attempt session from the answers served in it and persist it as the player's attempt
+async function recordSessionAttempt(
+  quiz: Quiz,
+  quizQuestions: Question[],
+  session: AttemptSession,
+  player: { userAnswerId: number; userName: string; playerId: string }
+): Promise<QuizAttempt> {
+  const quizId = quiz.id;
+  const given = servedAnswers(await storage.getServedQuestions(session.id));
+  const answers = markLifelineAnswers(
+    markHintedAnswers(applyTimeLimits(quizQuestions, given, session), session),
+    session
+  );
+  const result = gradeAttempt(quizQuestions, answers, resolveQuizSettings(quiz.settings));
+  console.log(`Graded attempt for quiz ${quizId}: ${result.score}/${result.totalQuestions}`);
+
+  const attempt = await storage.createQuizAttempt({
+    quizId,
+    userAnswerId: player.userAnswerId,
+    userName: player.userName,
+    playerId: player.playerId,
+    score: result.score,
+    totalQuestions: result.totalQuestions,
+    points: result.points,
+    maxPoints: result.maxPoints,
+    totalTimeMs: result.totalTimeMs,
+    hintsUsed: result.hintsUsed,
+    lifelinesUsed: result.lifelinesUsed,
+    answers: result.answers,
+    quizRevision: quiz.revision,
+    startedAt: session.startedAt,
+    shuffle: session.shuffle
+  });
+  publishAttempts(quizId);
+  return attempt;
+}
+
+// Attempts, and the answers they reveal, are only read back by the player who submitted them
+function isOwnAttempt(req: Request, attempt: QuizAttempt): boolean {
+  const playerId = verifyPlayerToken(req.get(PLAYER_TOKEN_HEADER));
+  return playerId !== null && attempt.playerId === playerId;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Health check endpoint for Render and uptime monitoring
   app.get("/health", (req, res) => {
@@ -116,72 +230,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const userData = (req as any).validatedBody;
+      const { playerToken, ...userData } = (req as any).validatedBody;
       const user = await storage.createUser(userData);
-      res.status(201).json(user);
+      // A device that already has a player ID keeps it, so attempt limits follow it across names;
+      // its token is renewed
+      res.status(201).json({
+        ...user,
+        playerToken: issuePlayerToken(verifyPlayerToken(playerToken) ?? undefined)
+      });
     } catch (error) {
       console.error("Error creating user:", error);
       res.status(500).json({ message: "Failed to create user" });
     }
   });
 
-  // Quiz routes with enhanced security
-  app.post("/api/quizzes", validateInput(secureQuizSchema), async (req, res) => {
+  // Publish a quiz together with all of its questions atomically - either everything is saved or nothing is
+  app.post("/api/quizzes/publish", validateInput(securePublishQuizSchema), async (req, res) => {
     try {
       const clientIp = req.ip || req.connection.remoteAddress || 'unknown';
-      
-      // Rate limiting for quiz creation
+
       if (!checkRateLimit(clientIp, rateLimits.createQuiz)) {
-        return res.status(429).json({ 
-          message: "Too many quiz creation attempts. Please try again later." 
+        return res.status(429).json({
+          message: "Too many quiz creation attempts. Please try again later."
         });
       }
 
-      const quizData = (req as any).validatedBody;
-      
-      // Map client isAutoCreated to database isAutoGenerated
-      const dbQuizData = {
-        ...quizData,
-        isAutoGenerated: quizData.isAutoCreated || false
-      };
-      delete dbQuizData.isAutoCreated; // Remove client field to avoid DB issues
-      
-      console.log(`Creating quiz with creator name: "${quizData.creatorName}"`);
-      
-      const quiz = await storage.createQuiz(dbQuizData);
-      
-      // Increment auto-create usage count for rate limiting (only for auto-created quizzes)
-      if (quizData.isAutoCreated) {
+      const { questions: questionData, isAutoCreated, lifetimeDays, ...quizData } = (req as any).validatedBody;
+
+      const bounds = getQuizLifetimeBounds();
+      const days = lifetimeDays ?? bounds.defaultDays;
+      if (!isAllowedLifetime(days)) {
+        return res.status(400).json({
+          message: `Quiz lifetime must be between ${bounds.minDays} and ${bounds.maxDays} days`
+        });
+      }
+
+      for (let i = 0; i < questionData.length; i++) {
+        const problem = questionContentProblem(questionData[i]);
+        if (problem) {
+          return res.status(400).json({ message: `Question ${i + 1}: ${problem}` });
+        }
+      }
+
+      console.log(`Publishing quiz by "${quizData.creatorName}" with ${questionData.length} questions for ${days} days`);
+
+      const { quiz, questions: createdQuestions } = await storage.publishQuiz(
+        { ...quizData, isAutoGenerated: isAutoCreated || false, expiresAt: expiresAfterDays(days) },
+        questionData
+      );
+
+      if (isAutoCreated) {
         try {
-          // Use IP address for rate limiting, not creator name
-          const ipAddress = req.ip || req.connection.remoteAddress || 'unknown';
-          await incrementUsage(ipAddress);
-          console.log(`✅ Auto-create usage incremented for IP: ${ipAddress}`);
+          await incrementUsage(clientIp);
+          console.log(`✅ Auto-create usage incremented for IP: ${clientIp}`);
         } catch (usageError) {
           console.error('❌ Failed to increment auto-create usage:', usageError);
-          // Don't fail the quiz creation if usage tracking fails
         }
       }
-      
-      // Verify the quiz was created and is immediately readable
-      console.log(`✅ Quiz created with ID: ${quiz.id}, verifying readability...`);
-      try {
-        const verificationQuiz = await storage.getQuiz(quiz.id);
-        if (!verificationQuiz) {
-          console.warn(`⚠️ Quiz ${quiz.id} was created but is not immediately readable`);
-        } else {
-          console.log(`✅ Quiz ${quiz.id} is immediately readable after creation`);
-        }
-      } catch (verifyError) {
-        console.warn(`⚠️ Error verifying quiz ${quiz.id} readability:`, verifyError);
-      }
-      
-      res.status(201).json(quiz);
+
+      console.log(`✅ Quiz ${quiz.id} published with ${createdQuestions.length} questions`);
+      res.status(201).json({ ...quiz, questionCount: createdQuestions.length });
     } catch (error) {
-      console.error("Error creating quiz:", error);
-      res.status(500).json({ message: "Failed to create quiz" });
+      console.error("Error publishing quiz:", error);
+      res.status(500).json({ message: "Failed to publish quiz" });
     }
   });
+
+  // Lifetime choices available to creators when publishing or extending a quiz
+  app.get("/api/quiz-lifetime", (req, res) => {
+    res.json(getQuizLifetimeBounds());
+  });
   
   // Get all quizzes (ADMIN ONLY - secured for testing/debugging)
   app.get("/api/quizzes", requireAdmin, async (req, res) => {
@@ -204,17 +322,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Quiz not found" });
       }
       
-      // Check if the quiz is expired (older than 7 days)
-      const isExpired = storage.isQuizExpired(quiz);
-      if (isExpired) {
-        return res.status(410).json({ 
-          message: "Quiz expired", 
-          expired: true,
-          detail: "This quiz has expired. Quizzes are available for 7 days after creation."
-        });
+      if (storage.isQuizExpired(quiz)) {
+        return res.status(410).json(quizExpiredResponse(quiz));
       }
       
-      res.json(quiz);
+      res.json(toPublicQuiz(quiz));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch quiz" });
     }
@@ -225,75 +337,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const urlSlug = req.params.urlSlug;
       console.log(`Looking up quiz with URL slug: "${urlSlug}"`);
       
-      // First, try exact match
-      let quiz = await storage.getQuizByUrlSlug(urlSlug);
+      // Slugs are matched case-insensitively
+      const quiz = await storage.getQuizByUrlSlug(urlSlug);
       
-      // If no exact match, try checking if the slug uses a different casing
       if (!quiz) {
-        // Get all quizzes from the database
-        const allQuizzesList = await db.select().from(quizzes);
-        
-        // Find a case-insensitive match
-        const slugMatch = allQuizzesList.find((q: any) => 
-          q.urlSlug.toLowerCase() === urlSlug.toLowerCase()
-        );
-        
-        if (slugMatch) {
-          quiz = slugMatch;
-          console.log(`Found quiz with case-insensitive match: ${slugMatch.urlSlug}`);
-        } else {
-          console.log(`No quiz found with URL slug: "${urlSlug}"`);
-          return res.status(404).json({ message: "Quiz not found" });
-        }
+        console.log(`No quiz found with URL slug: "${urlSlug}"`);
+        return res.status(404).json({ message: "Quiz not found" });
       }
       
-      // Check if the quiz is expired (older than 7 days)
-      if (quiz) {
-        const isExpired = storage.isQuizExpired(quiz);
-        if (isExpired) {
-          return res.status(410).json({ 
-          message: "Quiz expired", 
-          expired: true,
-          detail: "This quiz has expired. Quizzes are available for 7 days after creation."
-        });
-        }
+      if (storage.isQuizExpired(quiz)) {
+        return res.status(410).json(quizExpiredResponse(quiz));
       }
       
-      res.json(quiz);
+      res.json(toPublicQuiz(quiz));
     } catch (error) {
       console.error(`Error fetching quiz by slug "${req.params.urlSlug}":`, error);
       res.status(500).json({ message: "Failed to fetch quiz" });
     }
   });
   
-  // Get quiz by dashboard token
-  app.get("/api/quizzes/dashboard/:token", async (req, res) => {
+  // Get quiz by dashboard token - expired quizzes too, so the creator can extend them
+  app.get("/api/quizzes/dashboard/:token", requireDashboardTokenIncludingExpired, (req, res) => {
+    res.json((req as any).dashboardQuiz);
+  });
+  
+  // Full questions, including correct answers, for the dashboard token holder
+  app.get("/api/quizzes/dashboard/:token/questions", requireDashboardTokenIncludingExpired, async (req, res) => {
     try {
-      const dashboardToken = req.params.token;
-      console.log(`Looking up quiz with dashboard token: "${dashboardToken}"`);
-      
-      // Use the storage function to get the quiz by dashboard token
-      const quiz = await storage.getQuizByDashboardToken(dashboardToken);
-      
-      if (!quiz) {
-        console.log(`No quiz found with dashboard token: "${dashboardToken}"`);
-        return res.status(404).json({ message: "Quiz not found" });
-      }
+      const quiz = (req as any).dashboardQuiz;
+      const questions = await storage.getQuestionsByQuizId(quiz.id);
+      res.json(questions);
+    } catch (error) {
+      console.error(`Error fetching dashboard questions:`, error);
+      res.status(500).json({ message: "Failed to fetch questions" });
+    }
+  });
+  
+  // Full attempts, including every answer given, for the dashboard token holder
+  app.get("/api/quizzes/dashboard/:token/attempts", requireDashboardTokenIncludingExpired, async (req, res) => {
+    try {
+      res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
       
-      // Check if the quiz is expired (older than 7 days)
-      const isExpired = storage.isQuizExpired(quiz);
-      if (isExpired) {
-        return res.status(410).json({ 
-          message: "Quiz expired", 
-          expired: true,
-          detail: "This quiz has expired. Quizzes are available for 7 days after creation."
-        });
-      }
+      const attempts = await loadDashboardAttempts((req as any).dashboardQuiz);
       
-      res.json(quiz);
+      res.json({
+        data: attempts,
+        serverTime: Date.now(),
+        count: attempts.length
+      });
     } catch (error) {
-      console.error(`Error fetching quiz by dashboard token "${req.params.token}":`, error);
-      res.status(500).json({ message: "Failed to fetch quiz" });
+      console.error(`Error fetching dashboard attempts:`, error);
+      res.status(500).json({ message: "Failed to fetch quiz attempts" });
     }
   });
   
@@ -330,23 +424,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Quiz not found" });
       }
       
-      // Check if the quiz is expired (older than 7 days) - TEMPORARILY DISABLED FOR DEBUGGING
-      const isExpired = storage.isQuizExpired(quiz);
-      console.log(`🔍 Quiz expired check: ${isExpired}`);
-      console.log(`🔍 Quiz data for debugging:`, JSON.stringify(quiz, null, 2));
-      
-      // TEMPORARILY COMMENTED OUT TO DEBUG THE QUIZ DATA
-      // if (isExpired) {
-      //   console.log(`🔍 Quiz ${quizId} is expired`);
-      //   return res.status(410).json({ 
-      //     message: "Quiz expired", 
-      //     expired: true,
-      //     detail: "This quiz has expired. Quizzes are available for 7 days after creation."
-      //   });
-      // }
+      if (storage.isQuizExpired(quiz)) {
+        console.log(`🔍 Quiz ${quizId} is expired`);
+        return res.status(410).json(quizExpiredResponse(quiz));
+      }
       
       console.log(`🔍 Sending response for quiz ${quizId}:`, quiz);
-      res.json(quiz);
+      res.json(toPublicQuiz(quiz));
       console.log(`🔍 Response sent successfully for quiz ${quizId}`);
     } catch (error) {
       console.error(`🔍 Error in GET /api/quizzes/${req.params.quizId}:`, error);
@@ -354,22 +438,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Question routes
-  app.post("/api/questions", async (req, res) => {
+  // Start an attempt - the server's start time and deadline are what the answers are timed against,
+  // and the questions are handed out from here one at a time. A player who already has an open attempt
+  // at the quiz gets that one back, on the question they were on; one that ran out of time without being
+  // submitted is handed in as it stands first, so starting again never resets the clock on seen questions.
+  app.post("/api/quizzes/:quizId/start", validateInput(secureQuizStartSchema), async (req, res) => {
     try {
-      const questionData = insertQuestionSchema.parse(req.body);
-      const question = await storage.createQuestion(questionData);
-      res.status(201).json(question);
+      const quizId = parseInt(req.params.quizId);
+      
+      if (isNaN(quizId)) {
+        return res.status(400).json({ message: "Invalid quiz ID" });
+      }
+      
+      const quiz = await storage.getQuiz(quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      
+      if (storage.isQuizExpired(quiz)) {
+        return res.status(410).json(quizExpiredResponse(quiz));
+      }
+      
+      const { playerToken, userAnswerId, userName } = (req as any).validatedBody;
+      const playerId = verifyPlayerToken(playerToken);
+      if (!playerId) {
+        return res.status(400).json({ message: PLAYER_TOKEN_REQUIRED });
+      }
+      
+      const startedAt = new Date();
+      const quizQuestions = await storage.getQuestionsByQuizId(quizId);
+      let session = await storage.getOpenAttemptSession(quizId, playerId);
+      let endedAttemptId: number | null = null;
+      if (session && isPastDeadline(session, startedAt)) {
+        const expired = await storage.closeAttemptSession(session.id);
+        if (expired) {
+          endedAttemptId = (await recordSessionAttempt(quiz, quizQuestions, expired, { userAnswerId, userName, playerId })).id;
+          console.log(`⏱️ Attempt ${endedAttemptId} at quiz ${quizId} ran out of time and was handed in`);
+        }
+        session = undefined;
+      }
+      
+      // Checked again on submit; turning players away here spares them answering for nothing
+      let remaining: number | null = null;
+      if (resolveQuizSettings(quiz.settings).maxAttempts !== null) {
+        const previousAttempts = await storage.countPlayerAttempts(quizId, playerId);
+        const limitProblem = attemptLimitProblem(quiz, previousAttempts);
+        if (limitProblem) {
+          return res.status(403).json({ message: limitProblem });
+        }
+        remaining = attemptsLeft(quiz, previousAttempts);
+      }
+      
+      if (!session) {
+        session = await storage.openAttemptSession({
+          token: generateSessionToken(),
+          quizId,
+          playerId,
+          startedAt,
+          deadlineAt: attemptDeadline(quiz, quizQuestions, startedAt),
+          shuffle: drawAttemptShuffle(quiz)
+        });
+      }
+      
+      res.status(201).json({
+        sessionToken: session.token,
+        startedAt: session.startedAt,
+        deadlineAt: session.deadlineAt,
+        shuffle: session.shuffle, // The results page arranges the questions with it, see arrangeQuestions
+        lifelines: session.lifelines, // Already used, when the attempt was picked up again
+        progress: await attemptProgress(session, quizQuestions),
+        serverTime: Date.now(), // Lets the browser correct for its own clock when counting down
+        attemptsLeft: remaining, // Including this one; null when the quiz doesn't limit attempts
+        endedAttemptId // The earlier attempt that ran out of time and was handed in just now, if any
+      });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Invalid question data", error: (error as z.ZodError).message });
-      } else {
-        res.status(500).json({ message: "Failed to create question" });
+      console.error(`Error starting quiz ${req.params.quizId}:`, error);
+      res.status(500).json({ message: "Failed to start quiz" });
+    }
+  });
+
+  // Answer the question the player is on - timed by the server, final once given, and answered with the next question
+  app.post("/api/quizzes/:quizId/answer", validateInput(secureAnswerSchema), async (req, res) => {
+    try {
+      const quizId = parseInt(req.params.quizId);
+      
+      if (isNaN(quizId)) {
+        return res.status(400).json({ message: "Invalid quiz ID" });
+      }
+      
+      const quiz = await storage.getQuiz(quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      
+      if (storage.isQuizExpired(quiz)) {
+        return res.status(410).json(quizExpiredResponse(quiz));
       }
+      
+      const { questionId, userAnswer, sessionToken } = (req as any).validatedBody;
+      const session = await storage.getAttemptSession(quizId, sessionToken);
+      if (!session) {
+        return res.status(400).json({ message: "This attempt has ended. Start the quiz again to keep answering." });
+      }
+      
+      if (isPastDeadline(session, new Date())) {
+        return res.status(410).json({ message: "Time's up for this attempt. Submit it to see your results." });
+      }
+      
+      if (!(await storage.recordServedAnswer(session.id, questionId, userAnswer))) {
+        return res.status(409).json({ message: "Only the question you're on can be answered, and only once" });
+      }
+      
+      res.json({
+        progress: await attemptProgress(session, await storage.getQuestionsByQuizId(quizId)),
+        serverTime: Date.now()
+      });
+    } catch (error) {
+      console.error(`Error recording answer for quiz ${req.params.quizId}:`, error);
+      res.status(500).json({ message: "Failed to record answer" });
     }
   });
 
-  app.get("/api/quizzes/:quizId/questions", async (req, res) => {
+  // Reveal a question's hint - recorded on the started attempt, so grading can take the penalty off
+  app.post("/api/quizzes/:quizId/hint", validateInput(secureHintRequestSchema), async (req, res) => {
     try {
       const quizId = parseInt(req.params.quizId);
       
@@ -377,25 +568,165 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid quiz ID" });
       }
       
-      const questions = await storage.getQuestionsByQuizId(quizId);
-      res.json(questions);
+      const quiz = await storage.getQuiz(quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      
+      if (storage.isQuizExpired(quiz)) {
+        return res.status(410).json(quizExpiredResponse(quiz));
+      }
+      
+      const { questionId, sessionToken } = (req as any).validatedBody;
+      const session = await storage.getAttemptSession(quizId, sessionToken);
+      if (!session) {
+        return res.status(400).json({ message: "Start the quiz again to see hints." });
+      }
+      
+      const question = (await storage.getQuestionsByQuizId(quizId)).find(q => q.id === questionId);
+      if (!question?.hint) {
+        return res.status(404).json({ message: "This question has no hint" });
+      }
+      
+      if (!(await isCurrentQuestion(session, question.id))) {
+        return res.status(409).json({ message: "Hints are only shown for the question you're on" });
+      }
+      
+      if (!(await storage.recordHintUsed(session.id, question.id))) {
+        return res.status(400).json({ message: "Start the quiz again to see hints." });
+      }
+      res.json({
+        hint: question.hint,
+        penaltyPercent: resolveQuizSettings(quiz.settings).hintPenaltyPercent
+      });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch questions" });
+      console.error(`Error revealing hint for quiz ${req.params.quizId}:`, error);
+      res.status(500).json({ message: "Failed to reveal hint" });
+    }
+  });
+
+  // Use a lifeline - the server picks what a 50:50 removes, so the right answer never reaches the browser early
+  app.post("/api/quizzes/:quizId/lifeline", validateInput(secureLifelineRequestSchema), async (req, res) => {
+    try {
+      const quizId = parseInt(req.params.quizId);
+      
+      if (isNaN(quizId)) {
+        return res.status(400).json({ message: "Invalid quiz ID" });
+      }
+      
+      const quiz = await storage.getQuiz(quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      
+      if (storage.isQuizExpired(quiz)) {
+        return res.status(410).json(quizExpiredResponse(quiz));
+      }
+      
+      const { lifeline, questionId, sessionToken } = (req as any).validatedBody;
+      const session = await storage.getAttemptSession(quizId, sessionToken);
+      if (!session) {
+        return res.status(400).json({ message: "Start the quiz again to use lifelines." });
+      }
+      
+      const quizQuestions = await storage.getQuestionsByQuizId(quizId);
+      const question = quizQuestions.find(q => q.id === questionId);
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      
+      if (!(await isCurrentQuestion(session, question.id))) {
+        return res.status(409).json({ message: "Lifelines can only be used on the question you're on" });
+      }
+      
+      // Asking again for the same question, e.g. after a reload, gets the same answer
+      const previous = session.lifelines.find(use => use.lifeline === lifeline);
+      if (previous) {
+        return previous.questionId === questionId
+          ? res.json(previous)
+          : res.status(409).json({ message: "You've already used this lifeline" });
+      }
+      
+      const problem = lifelineProblem(lifeline, quiz, question, quizQuestions.length);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const use = {
+        lifeline,
+        questionId,
+        ...(lifeline === "fifty-fifty" && { removedOptions: drawFiftyFifty(question) })
+      };
+      if (!(await storage.recordLifelineUse(session.id, use))) {
+        return res.status(409).json({ message: "You've already used this lifeline" });
+      }
+      
+      res.json(use);
+    } catch (error) {
+      console.error(`Error using lifeline for quiz ${req.params.quizId}:`, error);
+      res.status(500).json({ message: "Failed to use lifeline" });
     }
   });
 
-  // Quiz attempt routes
-  app.post("/api/quiz-attempts", async (req, res) => {
+  app.post("/api/quizzes/:quizId/submit", validateInput(secureQuizSubmissionSchema), async (req, res) => {
     try {
-      const attemptData = insertQuizAttemptSchema.parse(req.body);
-      const attempt = await storage.createQuizAttempt(attemptData);
-      res.status(201).json(attempt);
+      const quizId = parseInt(req.params.quizId);
+      
+      if (isNaN(quizId)) {
+        return res.status(400).json({ message: "Invalid quiz ID" });
+      }
+      
+      const clientIp = req.ip || req.connection.remoteAddress || 'unknown';
+      if (!checkRateLimit(clientIp, rateLimits.submitQuizAttempt)) {
+        return res.status(429).json({ 
+          message: "Too many quiz submissions. Please try again later." 
+        });
+      }
+      
+      const quiz = await storage.getQuiz(quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      
+      if (storage.isQuizExpired(quiz)) {
+        return res.status(410).json(quizExpiredResponse(quiz));
+      }
+      
+      const recorded = await recordGradedAttempt(quiz, (req as any).validatedBody);
+      if ("problem" in recorded) {
+        return res.status(400).json({ message: recorded.problem });
+      }
+      
+      res.status(201).json(toPlayerAttempt(recorded.attempt, quiz));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Invalid attempt data", error: (error as z.ZodError).message });
-      } else {
-        res.status(500).json({ message: "Failed to create quiz attempt" });
+      console.error(`Error submitting quiz ${req.params.quizId}:`, error);
+      res.status(500).json({ message: "Failed to submit quiz" });
+    }
+  });
+
+  // Legacy attempt route - kept for older clients, but graded on the server as well
+  app.post("/api/quiz-attempts", validateInput(secureQuizAttemptSchema), async (req, res) => {
+    try {
+      const { quizId, ...submission } = (req as any).validatedBody;
+      
+      const quiz = await storage.getQuiz(quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      
+      if (storage.isQuizExpired(quiz)) {
+        return res.status(410).json(quizExpiredResponse(quiz));
+      }
+      
+      const recorded = await recordGradedAttempt(quiz, submission);
+      if ("problem" in recorded) {
+        return res.status(400).json({ message: recorded.problem });
       }
+      
+      res.status(201).json(toPlayerAttempt(recorded.attempt, quiz));
+    } catch (error) {
+      console.error("Error creating quiz attempt:", error);
+      res.status(500).json({ message: "Failed to create quiz attempt" });
     }
   });
 
@@ -415,18 +746,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid quiz ID" });
       }
       
-      // Add a small delay to ensure previous writes have been committed
-      await new Promise(resolve => setTimeout(resolve, 100));
+      const quiz = await storage.getQuiz(quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
       
-      const attempts = await storage.getQuizAttempts(quizId);
+      // One row per player, picked by the quiz's leaderboard policy
+      const attempts = await loadLeaderboard(quiz);
       
       console.log(`[${timestamp}] Returning ${attempts.length} attempts for quiz ${quizId}`);
       
       // Add a server timestamp in the response to help client detect freshness
-      // Sort attempts by completion date (newest first) for immediate display
-      attempts.sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
-      
-      console.log(`[${timestamp}] Sending sorted attempts: ${attempts.map(a => a.id).join(', ')}`);
+      // Attempts arrive ranked: most points first, ties broken by the quicker total time
+      console.log(`[${timestamp}] Sending ranked attempts: ${attempts.map(a => a.id).join(', ')}`);
       
       res.json({
         data: attempts,
@@ -439,7 +771,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get specific quiz attempt by ID
+  // Get specific quiz attempt by ID - only for the player who submitted it
   app.get("/api/quiz-attempts/:attemptId", async (req, res) => {
     try {
       // Add anti-caching headers
@@ -456,30 +788,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`[${timestamp}] Fetching attempt with ID ${attemptId}`);
       
-      // Get all attempt IDs from all quizzes
-      // This is a temporary workaround since we don't have a direct getAttemptById method
-      const allQuizzesList = await db.select().from(quizzes);
-      const allAttempts = [];
-      
-      // Gather all attempts for all quizzes
-      for (const quiz of allQuizzesList) {
-        const quizAttempts = await storage.getQuizAttempts(quiz.id);
-        allAttempts.push(...quizAttempts);
-      }
-      
-      // Find the specific attempt
-      const attempt = allAttempts.find(a => a.id === attemptId);
+      const attempt = await storage.getAttemptById(attemptId);
       
       if (!attempt) {
         console.log(`[${timestamp}] Attempt ID ${attemptId} not found`);
         return res.status(404).json({ message: "Quiz attempt not found" });
       }
       
+      if (!isOwnAttempt(req, attempt)) {
+        return res.status(403).json({ message: "Only the player who submitted this attempt can see it" });
+      }
+      
       console.log(`[${timestamp}] Found attempt ${attemptId} (quiz ${attempt.quizId})`);
       
+      const quiz = await storage.getQuiz(attempt.quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      
       // Send with timestamp for caching verification
       res.json({
-        data: attempt,
+        data: toPlayerAttempt(attempt, quiz),
         serverTime: timestamp
       });
     } catch (error) {
@@ -487,77 +816,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ message: "Failed to fetch quiz attempt" });
     }
   });
-
-  // Verify an answer
-  app.post("/api/questions/:questionId/verify", async (req, res) => {
+  
+  // Questions for reviewing a submitted attempt, with answers revealed per the creator's policy,
+  // for the player who submitted it
+  app.get("/api/quiz-attempts/:attemptId/review", async (req, res) => {
     try {
-      const questionId = parseInt(req.params.questionId);
+      const attemptId = parseInt(req.params.attemptId);
       
-      if (isNaN(questionId)) {
-        return res.status(400).json({ message: "Invalid question ID" });
+      if (isNaN(attemptId)) {
+        return res.status(400).json({ message: "Invalid attempt ID" });
       }
       
-      const answerData = z.object({
-        answer: z.union([z.string(), z.array(z.string())])
-      }).parse(req.body);
-      
-      // Get all questions from the database
-      const allQuestions = await db.select().from(questions);
+      const attempt = await storage.getAttemptById(attemptId);
+      if (!attempt) {
+        return res.status(404).json({ message: "Quiz attempt not found" });
+      }
       
-      // Find the specific question
-      const question = allQuestions.find((q: any) => q.id === questionId);
+      if (!isOwnAttempt(req, attempt)) {
+        return res.status(403).json({ message: "Only the player who submitted this attempt can review it" });
+      }
       
-      if (!question) {
-        console.error(`[SERVER ERROR] Question not found: ${questionId}`);
-        return res.status(404).json({ message: "Question not found" });
+      const quiz = await storage.getQuiz(attempt.quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
       }
       
-      let isCorrect = false;
-      const correctAnswers = question.correctAnswers as string[];
-      const userAnswer = answerData.answer;
-      
-      // Debug logs to trace the issue
-      console.log(`Verifying answer for question ${questionId}:`);
-      console.log(`- Correct answers:`, correctAnswers);
-      console.log(`- User answer:`, userAnswer);
-      
-      if (Array.isArray(userAnswer)) {
-        // For multiple answers, check if all are correct
-        isCorrect = userAnswer.every(ans => 
-          correctAnswers.some(correct => 
-            correct.toLowerCase().trim() === ans.toLowerCase().trim()
-          )
-        );
-      } else {
-        // For single answer, check if it matches any correct answer
-        // Use trim() to fix whitespace issues and ensure exact matching
-        const normalizedUserAnswer = userAnswer.toString().toLowerCase().trim();
-        isCorrect = correctAnswers.some(correct => 
-          correct.toLowerCase().trim() === normalizedUserAnswer
-        );
-      }
-      
-      console.log(`Answer is ${isCorrect ? 'CORRECT' : 'INCORRECT'}`);
-      
-      // Return both the correctness and the expected answers for debugging
-      res.json({ 
-        isCorrect,
-        debug: {
-          questionText: question.text,
-          correctAnswers: correctAnswers,
-          userAnswer: userAnswer
-        }
+      const questions = await storage.getQuestionsByQuizId(quiz.id);
+      
+      res.json({
+        answerReveal: resolveQuizSettings(quiz.settings).answerReveal,
+        // In the order this player saw them
+        questions: arrangeQuestions(questions, attempt.shuffle).map(question => toReviewQuestion(question, quiz))
       });
     } catch (error) {
-      console.error("Error verifying answer:", error);
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Invalid answer data", error: (error as z.ZodError).message });
-      } else {
-        res.status(500).json({ message: "Failed to verify answer" });
-      }
+      console.error(`Error fetching review for attempt ${req.params.attemptId}:`, error);
+      res.status(500).json({ message: "Failed to fetch attempt review" });
     }
   });
-  
+
   // Image upload endpoint using Cloudinary
   app.post("/api/upload-image", upload.single('image'), async (req, res) => {
     try {
@@ -626,7 +922,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Register auto-create quiz routes (re-enabled after successful deployment)
   registerAutoCreateRoutes(app);
+  
+  // Register creator dashboard editing routes
+  registerDashboardRoutes(app);
+  
+  // Register live hosted game routes
+  registerLiveRoomRoutes(app);
+  
+  // Register quiz file import and export routes
+  registerQuizTransferRoutes(app);
 
   const httpServer = createServer(app);
+  // Live leaderboard and dashboard updates, see services/liveAttempts
+  attachLiveAttempts(httpServer);
+  // Live hosted games, see services/liveRooms
+  attachLiveRooms(httpServer);
   return httpServer;
 }
@@ -0,0 +1,384 @@
+import { Express, Request, Response } from 'express';
+import { storage } from '../storage';
+import { requireDashboardToken, requireDashboardTokenIncludingExpired } from '../middleware/dashboardAuth';
+import {
+  secureQuestionContentSchema,
+  secureQuestionUpdateSchema,
+  secureQuestionOrderSchema,
+  secureQuizMetadataSchema,
+  secureQuizExtensionSchema,
+  secureAttemptVisibilitySchema,
+  secureAcceptedAnswerSchema,
+  validateInput
+} from '../validation';
+import { extendedExpiry, getQuizLifetimeBounds } from '../services/quizLifetime';
+import { schedulePurge, undoCutoff, undoDeadline } from '../services/deletion';
+import { closeAttemptSubscriptions, publishAttempts } from '../services/liveAttempts';
+import { closeLiveRoomsOfQuiz } from '../services/liveRooms';
+import { questionContentProblem } from '../services/questionRules';
+import { findNearMisses, rescoreAttempts } from '../services/nearMisses';
+import { computeQuizAnalytics } from '../services/quizAnalytics';
+import { buildAttemptExportTable, streamAttemptExport } from '../services/attemptExport';
+import { buildXlsx } from '../services/xlsx';
+import { normalizeTypedAnswer } from '../services/answerMatching';
+import { ATTEMPT_EXPORT_FORMATS, resolveQuizSettings, type AttemptExportFormat, type Quiz } from '@shared/schema';
+
+function parseQuestionId(req: Request): number | null {
+  const questionId = parseInt(req.params.questionId);
+  return isNaN(questionId) ? null : questionId;
+}
+
+function parseAttemptId(req: Request): number | null {
+  const attemptId = parseInt(req.params.attemptId);
+  return isNaN(attemptId) ? null : attemptId;
+}
+
+/**
+ * Creator-only editing of a published quiz, authenticated by the dashboard token.
+ * Question changes bump the quiz revision; existing attempts are kept as they are.
+ * Deletions can be undone for a short window before they are purged.
+ */
+export function registerDashboardRoutes(app: Express) {
+  // Update quiz metadata (creator name, settings)
+  app.patch('/api/quizzes/dashboard/:token', requireDashboardToken, validateInput(secureQuizMetadataSchema), async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const update = (req as any).validatedBody;
+
+      const updatedQuiz = await storage.updateQuiz(quiz.id, update);
+      // A new leaderboard policy can pick other attempts for the leaderboard
+      publishAttempts(quiz.id);
+      console.log(`✏️ Quiz ${quiz.id} metadata updated`);
+      res.json(updatedQuiz);
+    } catch (error) {
+      console.error(`Error updating quiz for dashboard token "${req.params.token}":`, error);
+      res.status(500).json({ message: "Failed to update quiz" });
+    }
+  });
+
+  // Keep the quiz available for longer, up to the maximum lifetime counted from today.
+  // A quiz that has just expired can still be extended until the daily cleanup deletes it.
+  app.post('/api/quizzes/dashboard/:token/extend', requireDashboardTokenIncludingExpired, validateInput(secureQuizExtensionSchema), async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const { days } = (req as any).validatedBody;
+
+      const expiresAt = extendedExpiry(quiz, days);
+      if (expiresAt <= new Date(quiz.expiresAt)) {
+        return res.status(400).json({
+          message: `This quiz is already available for the maximum of ${getQuizLifetimeBounds().maxDays} days`
+        });
+      }
+
+      const updatedQuiz = await storage.setQuizExpiry(quiz.id, expiresAt);
+      console.log(`⏳ Quiz ${quiz.id} extended until ${expiresAt.toISOString()}`);
+      res.json(updatedQuiz);
+    } catch (error) {
+      console.error(`Error extending quiz for dashboard token "${req.params.token}":`, error);
+      res.status(500).json({ message: "Failed to extend quiz" });
+    }
+  });
+
+  // Add a question at the end of the quiz
+  app.post('/api/quizzes/dashboard/:token/questions', requireDashboardToken, validateInput(secureQuestionContentSchema), async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const content = (req as any).validatedBody;
+
+      const problem = questionContentProblem(content);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const question = await storage.addQuestion(quiz.id, content);
+      console.log(`✏️ Question ${question.id} added to quiz ${quiz.id}`);
+      res.status(201).json(question);
+    } catch (error) {
+      console.error(`Error adding question for dashboard token "${req.params.token}":`, error);
+      res.status(500).json({ message: "Failed to add question" });
+    }
+  });
+
+  // Reorder all questions of the quiz
+  app.put('/api/quizzes/dashboard/:token/questions/order', requireDashboardToken, validateInput(secureQuestionOrderSchema), async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const { questionIds } = (req as any).validatedBody;
+
+      const reordered = await storage.reorderQuestions(quiz.id, questionIds);
+      if (!reordered) {
+        return res.status(400).json({ message: "The new order must list every question of the quiz exactly once" });
+      }
+
+      console.log(`✏️ Questions of quiz ${quiz.id} reordered`);
+      res.json(reordered);
+    } catch (error) {
+      console.error(`Error reordering questions for dashboard token "${req.params.token}":`, error);
+      res.status(500).json({ message: "Failed to reorder questions" });
+    }
+  });
+
+  // Edit a single question
+  app.patch('/api/quizzes/dashboard/:token/questions/:questionId', requireDashboardToken, validateInput(secureQuestionUpdateSchema), async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const questionId = parseQuestionId(req);
+      if (questionId === null) {
+        return res.status(400).json({ message: "Invalid question ID" });
+      }
+
+      const existing = await storage.getQuestionById(questionId);
+      if (!existing || existing.quizId !== quiz.id) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      const update = (req as any).validatedBody;
+      const problem = questionContentProblem({ ...existing, ...update });
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const question = await storage.updateQuestion(quiz.id, questionId, update);
+      console.log(`✏️ Question ${questionId} of quiz ${quiz.id} updated`);
+      res.json(question);
+    } catch (error) {
+      console.error(`Error updating question ${req.params.questionId}:`, error);
+      res.status(500).json({ message: "Failed to update question" });
+    }
+  });
+
+  // Delete a single question; a quiz always keeps at least one
+  app.delete('/api/quizzes/dashboard/:token/questions/:questionId', requireDashboardToken, async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const questionId = parseQuestionId(req);
+      if (questionId === null) {
+        return res.status(400).json({ message: "Invalid question ID" });
+      }
+
+      const quizQuestions = await storage.getQuestionsByQuizId(quiz.id);
+      if (!quizQuestions.some(q => q.id === questionId)) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      if (quizQuestions.length === 1) {
+        return res.status(400).json({ message: "A quiz needs at least one question" });
+      }
+
+      await storage.deleteQuestion(quiz.id, questionId);
+      console.log(`🗑️ Question ${questionId} removed from quiz ${quiz.id}`);
+      res.status(204).send();
+    } catch (error) {
+      console.error(`Error deleting question ${req.params.questionId}:`, error);
+      res.status(500).json({ message: "Failed to delete question" });
+    }
+  });
+
+  // Rejected typed answers that came close to an accepted answer
+  app.get('/api/quizzes/dashboard/:token/near-misses', requireDashboardTokenIncludingExpired, async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const [quizQuestions, attempts] = await Promise.all([
+        storage.getQuestionsByQuizId(quiz.id),
+        storage.getQuizAttempts(quiz.id, { includeHidden: true })
+      ]);
+
+      res.json(findNearMisses(quizQuestions, attempts, resolveQuizSettings(quiz.settings)));
+    } catch (error) {
+      console.error(`Error finding near misses for dashboard token "${req.params.token}":`, error);
+      res.status(500).json({ message: "Failed to find near-miss answers" });
+    }
+  });
+
+  // Aggregates for the analytics tab, so the browser doesn't have to add up every attempt itself
+  app.get('/api/quizzes/dashboard/:token/analytics', requireDashboardTokenIncludingExpired, async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const [quizQuestions, attempts] = await Promise.all([
+        storage.getQuestionsByQuizId(quiz.id),
+        storage.getQuizAttempts(quiz.id, { includeHidden: true })
+      ]);
+
+      res.json(computeQuizAnalytics(quizQuestions, attempts));
+    } catch (error) {
+      console.error(`Error computing analytics for dashboard token "${req.params.token}":`, error);
+      res.status(500).json({ message: "Failed to compute quiz analytics" });
+    }
+  });
+
+  // Download the results for a spreadsheet: one row per player, a pair of columns per question
+  app.get('/api/quizzes/dashboard/:token/export', requireDashboardTokenIncludingExpired, async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const format = (req.query.format ?? 'csv') as AttemptExportFormat;
+      if (!ATTEMPT_EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ message: `Format must be one of ${ATTEMPT_EXPORT_FORMATS.join(', ')}` });
+      }
+
+      const quizQuestions = await storage.getQuestionsByQuizId(quiz.id);
+
+      res.setHeader('Content-Disposition', `attachment; filename="qzonme-${quiz.urlSlug}-results.${format}"`);
+      res.setHeader('Cache-Control', 'no-store');
+      let rowCount: number;
+      if (format === 'xlsx') {
+        // The workbook is a zip whose directory comes last, so it's built whole
+        const table = buildAttemptExportTable(quiz, quizQuestions, await storage.getQuizAttempts(quiz.id, { includeHidden: true }));
+        res.type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.send(buildXlsx('Results', [table.columns, ...table.rows]));
+        rowCount = table.rows.length;
+      } else {
+        res.type(format === 'json' ? 'application/json' : 'text/csv; charset=utf-8');
+        rowCount = await streamAttemptExport(res, format, quiz, quizQuestions);
+      }
+      console.log(`📤 Exported ${rowCount} results of quiz ${quiz.id} as ${format}`);
+    } catch (error) {
+      console.error(`Error exporting attempts for dashboard token "${req.params.token}":`, error);
+      // Once rows have gone out the status can't change, so cut the download short instead
+      if (res.headersSent) return res.end();
+      res.status(500).json({ message: "Failed to export attempts" });
+    }
+  });
+
+  // Accept another answer for an open-ended question and rescore the attempts that gave it.
+  // This corrects grading rather than changing the quiz, so the revision stays the same.
+  app.post('/api/quizzes/dashboard/:token/questions/:questionId/accepted-answers', requireDashboardToken, validateInput(secureAcceptedAnswerSchema), async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const questionId = parseQuestionId(req);
+      if (questionId === null) {
+        return res.status(400).json({ message: "Invalid question ID" });
+      }
+
+      const question = await storage.getQuestionById(questionId);
+      if (!question || question.quizId !== quiz.id) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      if (question.type !== "open-ended") {
+        return res.status(400).json({ message: "Only answers to open-ended questions can be accepted" });
+      }
+
+      const { answer } = (req as any).validatedBody;
+      const accepted = question.correctAnswers as string[];
+      const correctAnswers = accepted.some(a => normalizeTypedAnswer(a) === normalizeTypedAnswer(answer))
+        ? accepted
+        : [...accepted, answer];
+
+      const attempts = await storage.getQuizAttempts(quiz.id, { includeHidden: true });
+      const rescored = rescoreAttempts({ ...question, correctAnswers }, attempts, resolveQuizSettings(quiz.settings));
+      const updatedQuestion = await storage.acceptAnswers(quiz.id, questionId, correctAnswers, rescored);
+
+      if (rescored.length > 0) publishAttempts(quiz.id);
+
+      console.log(`✅ "${answer}" accepted for question ${questionId} of quiz ${quiz.id}; ${rescored.length} attempts rescored`);
+      res.json({ question: updatedQuestion, rescoredAttempts: rescored.length });
+    } catch (error) {
+      console.error(`Error accepting answer for question ${req.params.questionId}:`, error);
+      res.status(500).json({ message: "Failed to accept answer" });
+    }
+  });
+
+  // Delete the whole quiz; it disappears immediately but can be restored until the undo window passes
+  app.delete('/api/quizzes/dashboard/:token', requireDashboardToken, async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+
+      await storage.markQuizDeleted(quiz.id);
+      schedulePurge();
+      closeLiveRoomsOfQuiz(quiz.id);
+      closeAttemptSubscriptions(quiz.id);
+
+      console.log(`🗑️ Quiz ${quiz.id} deleted by its creator`);
+      res.json({ deleted: true, undoUntil: undoDeadline() });
+    } catch (error) {
+      console.error(`Error deleting quiz for dashboard token "${req.params.token}":`, error);
+      res.status(500).json({ message: "Failed to delete quiz" });
+    }
+  });
+
+  // Undo deleting the quiz - the deleted quiz is no longer visible to requireDashboardToken
+  app.post('/api/quizzes/dashboard/:token/restore', async (req: Request, res: Response) => {
+    try {
+      const quiz = await storage.restoreQuiz(req.params.token, undoCutoff());
+      if (!quiz) {
+        return res.status(410).json({ message: "This quiz can no longer be restored" });
+      }
+
+      console.log(`♻️ Quiz ${quiz.id} restored by its creator`);
+      res.json(quiz);
+    } catch (error) {
+      console.error(`Error restoring quiz for dashboard token "${req.params.token}":`, error);
+      res.status(500).json({ message: "Failed to restore quiz" });
+    }
+  });
+
+  // Hide an attempt from (or show it again on) the public leaderboard
+  app.patch('/api/quizzes/dashboard/:token/attempts/:attemptId', requireDashboardToken, validateInput(secureAttemptVisibilitySchema), async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const attemptId = parseAttemptId(req);
+      if (attemptId === null) {
+        return res.status(400).json({ message: "Invalid attempt ID" });
+      }
+
+      const { hidden } = (req as any).validatedBody;
+      const attempt = await storage.setAttemptHidden(quiz.id, attemptId, hidden);
+      if (!attempt) {
+        return res.status(404).json({ message: "Quiz attempt not found" });
+      }
+
+      publishAttempts(quiz.id);
+
+      console.log(`👁️ Attempt ${attemptId} of quiz ${quiz.id} ${hidden ? 'hidden' : 'shown'}`);
+      res.json(attempt);
+    } catch (error) {
+      console.error(`Error changing visibility of attempt ${req.params.attemptId}:`, error);
+      res.status(500).json({ message: "Failed to update quiz attempt" });
+    }
+  });
+
+  // Delete a single attempt, with the same undo window as quiz deletion
+  app.delete('/api/quizzes/dashboard/:token/attempts/:attemptId', requireDashboardToken, async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const attemptId = parseAttemptId(req);
+      if (attemptId === null) {
+        return res.status(400).json({ message: "Invalid attempt ID" });
+      }
+
+      const attempt = await storage.markAttemptDeleted(quiz.id, attemptId);
+      if (!attempt) {
+        return res.status(404).json({ message: "Quiz attempt not found" });
+      }
+      schedulePurge();
+      publishAttempts(quiz.id);
+
+      console.log(`🗑️ Attempt ${attemptId} of quiz ${quiz.id} deleted by the creator`);
+      res.json({ deleted: true, undoUntil: undoDeadline() });
+    } catch (error) {
+      console.error(`Error deleting attempt ${req.params.attemptId}:`, error);
+      res.status(500).json({ message: "Failed to delete quiz attempt" });
+    }
+  });
+
+  app.post('/api/quizzes/dashboard/:token/attempts/:attemptId/restore', requireDashboardToken, async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const attemptId = parseAttemptId(req);
+      if (attemptId === null) {
+        return res.status(400).json({ message: "Invalid attempt ID" });
+      }
+
+      const attempt = await storage.restoreAttempt(quiz.id, attemptId, undoCutoff());
+      if (!attempt) {
+        return res.status(410).json({ message: "This attempt can no longer be restored" });
+      }
+
+      publishAttempts(quiz.id);
+
+      console.log(`♻️ Attempt ${attemptId} of quiz ${quiz.id} restored`);
+      res.json(attempt);
+    } catch (error) {
+      console.error(`Error restoring attempt ${req.params.attemptId}:`, error);
+      res.status(500).json({ message: "Failed to restore quiz attempt" });
+    }
+  });
+}
@@ -0,0 +1,126 @@
+import { Express, Request, Response } from 'express';
+import { storage } from '../storage';
+import { requireDashboardToken } from '../middleware/dashboardAuth';
+import {
+  checkRateLimit,
+  rateLimits,
+  secureLiveJoinSchema,
+  secureLiveAnswerSchema,
+  secureLiveAdvanceSchema,
+  validateInput
+} from '../validation';
+import { advanceLiveRoom, closeLiveRoomIfQuizGone, getLiveRoom, joinLiveRoom, openLiveRoom, submitLiveAnswer } from '../services/liveRooms';
+import { attemptLimitProblem } from '../services/attemptPolicy';
+import { verifyPlayerToken, PLAYER_TOKEN_REQUIRED } from '../services/playerTokens';
+import { resolveQuizSettings, type Quiz } from '@shared/schema';
+
+/**
+ * Live hosted games: the creator opens a room from the dashboard, players join with its PIN and the
+ * host moves everyone through the questions. Room updates are pushed over /api/live-rooms/:pin/socket.
+ */
+export function registerLiveRoomRoutes(app: Express) {
+  // Open a room for the quiz; only the holder of the host key can run it
+  app.post('/api/quizzes/dashboard/:token/live-rooms', requireDashboardToken, async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const questions = await storage.getQuestionsByQuizId(quiz.id);
+      if (questions.length === 0) {
+        return res.status(400).json({ message: "This quiz has no questions" });
+      }
+
+      const room = openLiveRoom(quiz, questions);
+      console.log(`🎤 Live game ${room.pin} opened for quiz ${quiz.id}`);
+      res.status(201).json({ pin: room.pin, hostKey: room.hostKey });
+    } catch (error) {
+      console.error(`Error opening live game for dashboard token "${req.params.token}":`, error);
+      res.status(500).json({ message: "Failed to open live game" });
+    }
+  });
+
+  app.post('/api/live-rooms/:pin/join', validateInput(secureLiveJoinSchema), async (req: Request, res: Response) => {
+    try {
+      const clientIp = req.ip || req.connection.remoteAddress || 'unknown';
+      if (!checkRateLimit(clientIp, rateLimits.joinLiveRoom)) {
+        return res.status(429).json({ 
+          message: "Too many attempts to join a game. Please try again later." 
+        });
+      }
+
+      const room = getLiveRoom(req.params.pin);
+      if (!room) {
+        return res.status(404).json({ message: "There's no game with this PIN" });
+      }
+      if (await closeLiveRoomIfQuizGone(room)) {
+        return res.status(410).json({ message: "This game has ended because its quiz is no longer available" });
+      }
+
+      const { userAnswerId, userName, playerToken } = (req as any).validatedBody;
+      const playerId = verifyPlayerToken(playerToken);
+
+      // The game ends in an ordinary attempt, so the quiz's attempt limit applies
+      if (resolveQuizSettings(room.quiz.settings).maxAttempts !== null) {
+        if (!playerId) {
+          return res.status(400).json({ message: PLAYER_TOKEN_REQUIRED });
+        }
+        const limitProblem = attemptLimitProblem(room.quiz, await storage.countPlayerAttempts(room.quiz.id, playerId));
+        if (limitProblem) {
+          return res.status(403).json({ message: limitProblem });
+        }
+      }
+
+      const joined = joinLiveRoom(room, { userAnswerId, name: userName, playerId });
+      if ("problem" in joined) {
+        return res.status(409).json({ message: joined.problem });
+      }
+
+      res.status(201).json({ playerKey: joined.player.key, quizId: room.quiz.id });
+    } catch (error) {
+      console.error(`Error joining live game ${req.params.pin}:`, error);
+      res.status(500).json({ message: "Failed to join live game" });
+    }
+  });
+
+  app.post('/api/live-rooms/:pin/answer', validateInput(secureLiveAnswerSchema), async (req: Request, res: Response) => {
+    try {
+      const room = getLiveRoom(req.params.pin);
+      if (!room) {
+        return res.status(404).json({ message: "There's no game with this PIN" });
+      }
+
+      const { playerKey, questionId, userAnswer } = (req as any).validatedBody;
+      const player = room.players.get(playerKey);
+      if (!player) {
+        return res.status(403).json({ message: "You're not in this game" });
+      }
+
+      const problem = submitLiveAnswer(room, player, questionId, userAnswer);
+      if (problem) {
+        return res.status(409).json({ message: problem });
+      }
+
+      res.json({ answered: true });
+    } catch (error) {
+      console.error(`Error answering in live game ${req.params.pin}:`, error);
+      res.status(500).json({ message: "Failed to submit answer" });
+    }
+  });
+
+  // The host's next step - start, lock and reveal, next question, or finish
+  app.post('/api/live-rooms/:pin/advance', validateInput(secureLiveAdvanceSchema), async (req: Request, res: Response) => {
+    try {
+      const room = getLiveRoom(req.params.pin);
+      if (!room) {
+        return res.status(404).json({ message: "There's no game with this PIN" });
+      }
+      if ((req as any).validatedBody.hostKey !== room.hostKey) {
+        return res.status(403).json({ message: "Only the host can run this game" });
+      }
+
+      await advanceLiveRoom(room);
+      res.json({ phase: room.phase, questionIndex: room.questionIndex });
+    } catch (error) {
+      console.error(`Error advancing live game ${req.params.pin}:`, error);
+      res.status(500).json({ message: "Failed to advance live game" });
+    }
+  });
+}
@@ -0,0 +1,75 @@
+import { Express, NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { storage } from '../storage';
+import { requireDashboardToken } from '../middleware/dashboardAuth';
+import { parseQuizFile, QUIZ_FILE_TYPES, writeQuizFile } from '../services/quizTransfer';
+import { QUIZ_FILE_FORMATS, type Quiz, type QuizFileFormat } from '@shared/schema';
+
+const MAX_QUIZ_FILE_MB = 2;
+
+// Quiz files are uploaded rather than posted as JSON, which keeps their text away from the
+// request body sanitizer: it would strip anything that looks like markup from questions and answers
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_QUIZ_FILE_MB * 1024 * 1024, files: 1 }
+});
+
+function receiveQuizFile(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(400).json({ message: `Quiz files must not exceed ${MAX_QUIZ_FILE_MB} MB` });
+    }
+    if (error) {
+      return res.status(400).json({ message: "Couldn't read the uploaded file" });
+    }
+    next();
+  });
+}
+
+/**
+ * Quiz files in QzonMe JSON, Moodle GIFT, Moodle XML and CSV: creators download a published quiz's
+ * questions from the dashboard, and read questions from a file into the quiz they are creating
+ */
+export function registerQuizTransferRoutes(app: Express) {
+  // Download the questions with their answers, so only for the creator
+  app.get('/api/quizzes/dashboard/:token/quiz-file', requireDashboardToken, async (req: Request, res: Response) => {
+    try {
+      const quiz: Quiz = (req as any).dashboardQuiz;
+      const format = (req.query.format ?? 'qzonme') as QuizFileFormat;
+      if (!QUIZ_FILE_FORMATS.includes(format)) {
+        return res.status(400).json({ message: `Format must be one of ${QUIZ_FILE_FORMATS.join(', ')}` });
+      }
+
+      const quizQuestions = await storage.getQuestionsByQuizId(quiz.id);
+      const { extension, contentType } = QUIZ_FILE_TYPES[format];
+      res.setHeader('Content-Disposition', `attachment; filename="qzonme-${quiz.urlSlug}.${extension}"`);
+      res.setHeader('Cache-Control', 'no-store');
+      res.type(contentType);
+      res.send(writeQuizFile(format, quiz, quizQuestions));
+      console.log(`📤 Exported ${quizQuestions.length} questions of quiz ${quiz.id} as ${format}`);
+    } catch (error) {
+      console.error(`Error exporting questions for dashboard token "${req.params.token}":`, error);
+      res.status(500).json({ message: "Failed to export the quiz" });
+    }
+  });
+
+  // Read the questions of an uploaded file for the creator to review; nothing is saved
+  app.post('/api/quiz-import', receiveQuizFile, (req: Request, res: Response) => {
+    try {
+      const format = req.body?.format as QuizFileFormat;
+      if (!QUIZ_FILE_FORMATS.includes(format)) {
+        return res.status(400).json({ message: `Format must be one of ${QUIZ_FILE_FORMATS.join(', ')}` });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const result = parseQuizFile(format, req.file.buffer.toString('utf8'));
+      console.log(`📥 Read ${result.questions.length} questions from a ${format} file, ${result.problems.length} left out`);
+      res.json(result);
+    } catch (error) {
+      console.error("Error importing quiz file:", error);
+      res.status(500).json({ message: "Failed to read the quiz file" });
+    }
+  });
+}
@@ -16,6 +16,7 @@ export interface GeneratedQuestion {
   options: [string, string, string, string];
   correctAnswer: string; // Should be one of the options (A, B, C, or D)
   explanation?: string;
+  hint?: string; // Nudge a player can reveal while answering, without giving the answer away
   difficulty: DifficultyLevel;
   topic?: string;
 }
@@ -268,6 +269,7 @@ FORMAT: Return ONLY a valid JSON array with this exact structure:
     "options": ["First option text", "Second option text", "Third option text", "Fourth option text"],
     "correctAnswer": "A",
     "explanation": "Brief explanation of why this is correct",
+    "hint": "Short clue that points toward the answer without giving it away",
     "topic": "Main topic/subject of the question"
   }
 ]
@@ -444,6 +446,7 @@ function parseAIResponse(responseText: string, difficulty: DifficultyLevel): Gen
         options: [cleanedOptions[0], cleanedOptions[1], cleanedOptions[2], cleanedOptions[3]] as [string, string, string, string],
         correctAnswer: q.correctAnswer || 'A',
         explanation: q.explanation || '',
+        hint: q.hint || '',
         difficulty,
         topic: q.topic || ''
       };
@@ -481,7 +484,7 @@ function extractQuestionsManually(responseText: string, difficulty: DifficultyLe
           question: questionText,
           options: ['Option A', 'Option B', 'Option C', 'Option D'] as [string, string, string, string],
           correctAnswer: 'A',
-          explanation: 'Generated from fallback parsing',
+          explanation: '',
           difficulty,
           topic: 'General'
         });
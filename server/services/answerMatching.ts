@@ -0,0 +1,139 @@
+/**
+ * Matching of typed (open-ended) answers against the answers a creator accepts.
+ * Case, accents, punctuation and extra spaces never matter; typos and number words are up to the quiz settings.
+ */
+
+export interface MatchOptions {
+  typoTolerance?: number;
+  matchNumberWords?: boolean;
+}
+
+export interface MatchResult {
+  matched: boolean;
+  distance: number; // Edit distance to the closest accepted answer after normalizing
+}
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+
+const SCALES: Record<string, number> = { hundred: 100, thousand: 1000, million: 1000000 };
+
+// Anything but letters (in any script), digits and whitespace. Built at runtime because the
+// type-check target predates the regex "u" flag.
+const NOT_LETTER_OR_DIGIT = new RegExp("[^\\p{L}\\p{N}\\s]", "gu");
+
+// Answers shorter than this many characters per allowed typo are matched more strictly,
+// so that e.g. "cat" never matches "car"
+const CHARS_PER_TYPO = 4;
+
+/**
+ * Lowercase, strip accents and punctuation, and collapse whitespace
+ */
+export function normalizeTypedAnswer(value: string): string {
+  return value
+    .toString()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(NOT_LETTER_OR_DIGIT, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function isNumberWord(word: string): boolean {
+  return word in UNITS || word in TENS || word in SCALES;
+}
+
+/**
+ * Replace runs of number words with digits, e.g. "twenty one pilots" -> "21 pilots".
+ * Expects normalized input.
+ */
+export function numberWordsToDigits(normalized: string): string {
+  const words = normalized.split(" ");
+  const result: string[] = [];
+  let i = 0;
+
+  while (i < words.length) {
+    if (!isNumberWord(words[i]) || words[i] in SCALES) {
+      result.push(words[i]);
+      i++;
+      continue;
+    }
+
+    let total = 0;
+    let current = 0;
+    while (i < words.length && (isNumberWord(words[i]) || (words[i] === "and" && total + current > 0 && isNumberWord(words[i + 1] ?? "")))) {
+      const word = words[i];
+      if (word in UNITS) current += UNITS[word];
+      else if (word in TENS) current += TENS[word];
+      else if (word === "hundred") current = (current || 1) * 100;
+      else if (word in SCALES) {
+        total += (current || 1) * SCALES[word];
+        current = 0;
+      }
+      i++;
+    }
+    result.push(String(total + current));
+  }
+
+  return result.join(" ");
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function comparable(value: string, options: MatchOptions): string {
+  const normalized = normalizeTypedAnswer(value);
+  return options.matchNumberWords ? numberWordsToDigits(normalized) : normalized;
+}
+
+/**
+ * Typos allowed for an accepted answer of this (normalized) length
+ */
+export function allowedTypos(accepted: string, typoTolerance: number): number {
+  return Math.min(typoTolerance, Math.floor(accepted.length / CHARS_PER_TYPO));
+}
+
+export function matchTypedAnswer(userAnswer: string, acceptedAnswers: string[], options: MatchOptions = {}): MatchResult {
+  const answer = comparable(userAnswer, options);
+  if (answer.length === 0 || acceptedAnswers.length === 0) {
+    return { matched: false, distance: Infinity };
+  }
+
+  let matched = false;
+  let closest = Infinity;
+  for (const acceptedAnswer of acceptedAnswers) {
+    const accepted = comparable(acceptedAnswer, options);
+    const distance = editDistance(answer, accepted);
+    closest = Math.min(closest, distance);
+    if (distance <= allowedTypos(accepted, options.typoTolerance ?? 0)) {
+      matched = true;
+    }
+  }
+
+  return { matched, distance: closest };
+}
@@ -0,0 +1,106 @@
+import { EventEmitter } from "events";
+import type { Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Question, Quiz, QuizAttempt } from "@shared/schema";
+import { storage } from "../storage";
+import { buildAttemptExportTable, streamAttemptExport } from "./attemptExport";
+
+vi.mock("../storage", () => ({
+  storage: { getQuizAttemptSummaries: vi.fn(), getQuizAttemptsByIds: vi.fn() }
+}));
+
+const quiz = { id: 1, settings: {} } as Quiz;
+const questions = [
+  { id: 10, text: "Capital of France?", type: "multiple-choice", options: ["Paris", "Rome"], numericSettings: null }
+] as Question[];
+
+function attempt(id: number, playerId: string, points: number): QuizAttempt {
+  return {
+    id,
+    quizId: 1,
+    userAnswerId: id,
+    userName: `Player ${playerId}`,
+    playerId,
+    score: points,
+    totalQuestions: 1,
+    points,
+    maxPoints: 1,
+    totalTimeMs: 1500,
+    hintsUsed: 0,
+    lifelinesUsed: [],
+    startedAt: null,
+    shuffle: null,
+    answers: [{ questionId: 10, userAnswer: points ? "Paris" : "Rome", isCorrect: points > 0, credit: points, points }],
+    quizRevision: 1,
+    hiddenAt: null,
+    deletedAt: null,
+    completedAt: new Date("2026-03-01T10:00:00Z")
+  };
+}
+
+// Takes a few chunks at a time, then makes the writer wait for "drain" like a slow connection
+class SlowResponse extends EventEmitter {
+  chunks: string[] = [];
+  destroyed = false;
+  ended = false;
+  waits = 0;
+
+  write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    if (this.chunks.length % 3 !== 0) return true;
+    this.waits++;
+    setImmediate(() => this.emit("drain"));
+    return false;
+  }
+
+  end(chunk: string) {
+    this.chunks.push(chunk);
+    this.ended = true;
+  }
+}
+
+// Ranked like storage returns them: most points first
+const attempts = Array.from({ length: 150 }, (_, i) => attempt(i + 1, `p${i % 120}`, 150 - i));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(storage.getQuizAttemptSummaries).mockResolvedValue(attempts.map(({ answers, ...summary }) => summary));
+  vi.mocked(storage.getQuizAttemptsByIds).mockImplementation(async (_quizId, ids) =>
+    attempts.filter(attempt => ids.includes(attempt.id)));
+});
+
+describe("streamAttemptExport", () => {
+  it("streams the same rows as the table, a page of attempts at a time", async () => {
+    const res = new SlowResponse();
+    const written = await streamAttemptExport(res as unknown as Response, "csv", quiz, questions);
+    const table = buildAttemptExportTable(quiz, questions, attempts);
+
+    expect(written).toBe(120);
+    expect(res.ended).toBe(true);
+    expect(res.waits).toBeGreaterThan(0);
+    expect(storage.getQuizAttemptsByIds).toHaveBeenCalledTimes(2);
+
+    const lines = res.chunks.join("").replace(/^\uFEFF/, "").split("\r\n");
+    expect(lines[0]).toBe(table.columns.join(","));
+    expect(lines[1]).toBe("1,Player p0,150,1,15000,150,1,1.5,0,,2,FALSE,,2026-03-01T10:00:00.000Z,Paris,TRUE");
+    expect(lines).toHaveLength(table.rows.length + 2);
+  });
+
+  it("writes a JSON array of objects keyed by column", async () => {
+    const res = new SlowResponse();
+    await streamAttemptExport(res as unknown as Response, "json", quiz, questions);
+    const rows = JSON.parse(res.chunks.join(""));
+
+    expect(rows).toHaveLength(120);
+    expect(rows[119]).toMatchObject({ Rank: 120, Player: "Player p119", Attempts: 1, "Q1: Capital of France?": "Paris" });
+  });
+
+  it("stops reading attempts once the connection is gone", async () => {
+    const res = new SlowResponse();
+    res.destroyed = true;
+    const written = await streamAttemptExport(res as unknown as Response, "json", quiz, questions);
+
+    expect(written).toBe(0);
+    expect(storage.getQuizAttemptsByIds).not.toHaveBeenCalled();
+  });
+});
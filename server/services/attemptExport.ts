@@ -0,0 +1,125 @@
+import type { Response } from "express";
+import { formatAnswer, resolveQuizSettings, type Question, type Quiz, type QuizAttempt } from "@shared/schema";
+import { storage } from "../storage";
+import { leaderboardAttempts } from "./attemptPolicy";
+import type { CellValue } from "./xlsx";
+import { toCsvCell } from "./csv";
+import type { GradedAnswer } from "./grading";
+
+export interface AttemptExportTable {
+  columns: string[];
+  rows: CellValue[][];
+}
+
+// Attempts with their answers are read this many at a time while streaming
+const EXPORT_PAGE_SIZE = 100;
+
+function exportColumns(questions: Question[]): string[] {
+  return [
+    "Rank", "Player", "Score", "Questions", "Percentage", "Points", "Max Points", "Time (seconds)",
+    "Hints Used", "Lifelines Used", "Attempts", "Hidden", "Started At", "Completed At",
+    ...questions.flatMap((question, index) => [`Q${index + 1}: ${question.text}`, `Q${index + 1} Correct`])
+  ];
+}
+
+function countAttemptsPerPlayer(attempts: Pick<QuizAttempt, "playerId">[]): Map<string, number> {
+  const attemptsPerPlayer = new Map<string, number>();
+  for (const attempt of attempts) {
+    if (attempt.playerId) attemptsPerPlayer.set(attempt.playerId, (attemptsPerPlayer.get(attempt.playerId) ?? 0) + 1);
+  }
+  return attemptsPerPlayer;
+}
+
+function exportRow(rank: number, attempt: QuizAttempt, attemptsPerPlayer: Map<string, number>, questions: Question[]): CellValue[] {
+  const answers = attempt.answers as GradedAnswer[];
+  return [
+    rank,
+    attempt.userName,
+    attempt.score,
+    attempt.totalQuestions,
+    attempt.totalQuestions > 0 ? Math.round((attempt.score / attempt.totalQuestions) * 1000) / 10 : 0,
+    attempt.points,
+    attempt.maxPoints,
+    attempt.totalTimeMs !== null ? Math.round(attempt.totalTimeMs / 100) / 10 : null,
+    attempt.hintsUsed,
+    attempt.lifelinesUsed.join(", "),
+    attempt.playerId ? attemptsPerPlayer.get(attempt.playerId) ?? 1 : 1,
+    attempt.hiddenAt !== null,
+    attempt.startedAt ? new Date(attempt.startedAt).toISOString() : null,
+    new Date(attempt.completedAt).toISOString(),
+    ...questions.flatMap((question): CellValue[] => {
+      const answer = answers.find(a => a.questionId === question.id);
+      if (!answer) return [null, null];
+      if (answer.skipped) return ["(skipped)", null];
+      return [formatAnswer(question, answer.userAnswer), answer.isCorrect];
+    })
+  ];
+}
+
+/**
+ * One row per player, with the attempt the quiz's leaderboard policy picks and that player's number of
+ * attempts, then each question's answer and whether it was right, in quiz order. Hidden attempts are included.
+ */
+export function buildAttemptExportTable(quiz: Quiz, questions: Question[], attempts: QuizAttempt[]): AttemptExportTable {
+  const attemptsPerPlayer = countAttemptsPerPlayer(attempts);
+  const chosen = leaderboardAttempts(attempts, resolveQuizSettings(quiz.settings).leaderboardScore);
+  return {
+    columns: exportColumns(questions),
+    rows: chosen.map((attempt, index) => exportRow(index + 1, attempt, attemptsPerPlayer, questions))
+  };
+}
+
+// Wait for the response to take more when its buffer is full; a closed connection ends the wait too
+async function write(res: Response, chunk: string): Promise<void> {
+  if (res.write(chunk)) return;
+  await new Promise<void>(resolve => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
+
+/**
+ * Stream the same rows as buildAttemptExportTable as CSV or as a JSON array of objects keyed by column.
+ * Players are ranked from the attempts without their answers; the chosen attempts are then read with
+ * their answers a page at a time, and each row waits for the connection to take the last ones.
+ * Returns the number of rows written.
+ */
+export async function streamAttemptExport(
+  res: Response,
+  format: "csv" | "json",
+  quiz: Quiz,
+  questions: Question[]
+): Promise<number> {
+  const summaries = await storage.getQuizAttemptSummaries(quiz.id, { includeHidden: true });
+  const attemptsPerPlayer = countAttemptsPerPlayer(summaries);
+  const chosen = leaderboardAttempts(summaries, resolveQuizSettings(quiz.settings).leaderboardScore);
+  const columns = exportColumns(questions);
+
+  // The byte order mark makes spreadsheet apps read the file as UTF-8
+  await write(res, format === "csv" ? "\uFEFF" + columns.map(toCsvCell).join(",") + "\r\n" : "[");
+
+  let written = 0;
+  for (let start = 0; start < chosen.length && !res.destroyed; start += EXPORT_PAGE_SIZE) {
+    const page = chosen.slice(start, start + EXPORT_PAGE_SIZE);
+    const attempts = new Map((await storage.getQuizAttemptsByIds(quiz.id, page.map(attempt => attempt.id)))
+      .map(attempt => [attempt.id, attempt]));
+
+    for (const summary of page) {
+      const attempt = attempts.get(summary.id);
+      if (!attempt) continue; // Deleted since the export started
+      const row = exportRow(start + page.indexOf(summary) + 1, attempt, attemptsPerPlayer, questions);
+      await write(res, format === "csv"
+        ? row.map(toCsvCell).join(",") + "\r\n"
+        : (written > 0 ? ",\n" : "\n") + JSON.stringify(Object.fromEntries(columns.map((column, i) => [column, row[i]]))));
+      written++;
+    }
+  }
+
+  res.end(format === "csv" ? "" : "\n]\n");
+  return written;
+}
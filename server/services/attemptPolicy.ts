@@ -0,0 +1,44 @@
+import { resolveQuizSettings, type LeaderboardScorePolicy, type Quiz, type QuizAttempt } from "@shared/schema";
+
+/**
+ * Why this player can't take the quiz again, or null when they can
+ */
+export function attemptLimitProblem(quiz: Quiz, previousAttempts: number): string | null {
+  const { maxAttempts } = resolveQuizSettings(quiz.settings);
+  if (maxAttempts === null || previousAttempts < maxAttempts) return null;
+  return maxAttempts === 1
+    ? "You've already taken this quiz"
+    : `You've already used all ${maxAttempts} attempts at this quiz`;
+}
+
+/**
+ * Attempts the player may still submit, null when there's no limit
+ */
+export function attemptsLeft(quiz: Quiz, previousAttempts: number): number | null {
+  const { maxAttempts } = resolveQuizSettings(quiz.settings);
+  return maxAttempts === null ? null : Math.max(maxAttempts - previousAttempts, 0);
+}
+
+/**
+ * One attempt per player, picked by the quiz's policy, in the order the attempts came in (ranked).
+ * Attempts without a player each stand for themselves.
+ */
+export function leaderboardAttempts<A extends Pick<QuizAttempt, "id" | "playerId" | "completedAt">>(
+  attempts: A[],
+  policy: LeaderboardScorePolicy
+): A[] {
+  const chosen = new Map<string, A>();
+
+  for (const attempt of attempts) {
+    const player = attempt.playerId ?? `attempt:${attempt.id}`;
+    const current = chosen.get(player);
+    const replaces = !current
+      || (policy === "latest" && attempt.completedAt > current.completedAt)
+      || (policy === "first" && attempt.completedAt < current.completedAt);
+    // For "best" the first one seen wins, since the attempts arrive ranked
+    if (replaces) chosen.set(player, attempt);
+  }
+
+  const kept = new Set(Array.from(chosen.values()));
+  return attempts.filter(attempt => kept.has(attempt));
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ServedQuestion } from "@shared/schema";
+import { servedAnswers } from "./attemptProgress";
+
+// servedAnswers only reads what it's given; the module's other helpers go through storage
+vi.mock("../storage", () => ({ storage: {} }));
+
+function served(questionId: number, shownAt: string, answeredAt: string | null, value?: string | string[]): ServedQuestion {
+  return {
+    sessionId: 1,
+    questionId,
+    shownAt: new Date(shownAt),
+    answeredAt: answeredAt === null ? null : new Date(answeredAt),
+    userAnswer: value === undefined ? null : { value }
+  };
+}
+
+describe("servedAnswers", () => {
+  it("unwraps each stored answer and times it from when its question was shown", () => {
+    expect(servedAnswers([
+      served(1, "2026-01-01T12:00:00Z", "2026-01-01T12:00:04.5Z", "110"),
+      served(2, "2026-01-01T12:00:05Z", "2026-01-01T12:00:07Z", ["b", "a"]),
+      served(3, "2026-01-01T12:00:08Z", null)
+    ])).toEqual([
+      { questionId: 1, userAnswer: "110", timeMs: 4500, answeredAt: new Date("2026-01-01T12:00:04.5Z") },
+      { questionId: 2, userAnswer: ["b", "a"], timeMs: 2000, answeredAt: new Date("2026-01-01T12:00:07Z") }
+    ]);
+  });
+});
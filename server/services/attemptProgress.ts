@@ -0,0 +1,49 @@
+import { storage } from "../storage";
+import { arrangeQuestions, type AttemptProgress, type AttemptSession, type Question, type QuestionAnswer, type ServedQuestion } from "@shared/schema";
+import { toPlayerQuestion } from "./playerView";
+
+/**
+ * The question the player is on: the first one in their order they haven't answered yet, shown from
+ * now unless it was shown before. Questions are only ever handed out this way, one at a time.
+ */
+export async function attemptProgress(session: AttemptSession, questions: Question[]): Promise<AttemptProgress> {
+  const served = await storage.getServedQuestions(session.id);
+  const answered = new Set(served.filter(entry => entry.answeredAt !== null).map(entry => entry.questionId));
+  const current = arrangeQuestions(questions, session.shuffle).find(question => !answered.has(question.id));
+
+  if (!current) {
+    return { question: null, questionNumber: questions.length, questionCount: questions.length, shownAt: null };
+  }
+
+  const shown = await storage.serveQuestion(session.id, current.id);
+  return {
+    question: toPlayerQuestion(current),
+    questionNumber: answered.size + 1,
+    questionCount: questions.length,
+    shownAt: shown.shownAt.toISOString()
+  };
+}
+
+/**
+ * The answers the player gave during the attempt, each timed by the server from when its question was shown
+ */
+export function servedAnswers(
+  served: ServedQuestion[]
+): (Pick<QuestionAnswer, "questionId" | "userAnswer" | "timeMs"> & { answeredAt: Date })[] {
+  return served.flatMap(entry => entry.answeredAt !== null && entry.userAnswer !== null
+    ? [{
+        questionId: entry.questionId,
+        userAnswer: entry.userAnswer.value,
+        timeMs: entry.answeredAt.getTime() - entry.shownAt.getTime(),
+        answeredAt: entry.answeredAt
+      }]
+    : []);
+}
+
+/**
+ * Whether the player is on this question: it has been shown to them and not answered yet
+ */
+export async function isCurrentQuestion(session: AttemptSession, questionId: number): Promise<boolean> {
+  const served = await storage.getServedQuestions(session.id);
+  return served.some(entry => entry.questionId === questionId && entry.answeredAt === null);
+}
@@ -0,0 +1,57 @@
+import { storage } from "../storage";
+import { deleteImagesByQuizId } from "../cloudinary";
+import { closeAttemptSubscriptions } from "./liveAttempts";
+
+// How long a creator can undo deleting a quiz or an attempt
+export const UNDO_WINDOW_MS = 30 * 1000;
+
+/**
+ * Deletions made after this moment can still be undone
+ */
+export function undoCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - UNDO_WINDOW_MS);
+}
+
+export function undoDeadline(deletedAt: Date = new Date()): Date {
+  return new Date(deletedAt.getTime() + UNDO_WINDOW_MS);
+}
+
+/**
+ * Permanently remove quizzes and attempts whose undo window has passed.
+ * Quizzes take their questions, attempts and Cloudinary images with them.
+ */
+export async function purgeExpiredDeletions(): Promise<{ quizzes: number; attempts: number }> {
+  const cutoff = undoCutoff();
+  const deletedQuizzes = await storage.getQuizzesDeletedBefore(cutoff);
+
+  for (const quiz of deletedQuizzes) {
+    try {
+      await deleteImagesByQuizId(quiz.id);
+    } catch (imageError) {
+      // The quiz is gone for the creator either way; orphaned images are not worth blocking on
+      console.error(`Error deleting images for deleted quiz ${quiz.id}:`, imageError);
+    }
+    await storage.purgeQuiz(quiz.id);
+    closeAttemptSubscriptions(quiz.id);
+  }
+
+  const attempts = await storage.purgeAttemptsDeletedBefore(cutoff);
+
+  if (deletedQuizzes.length > 0 || attempts > 0) {
+    console.log(`🗑️ Purged ${deletedQuizzes.length} deleted quizzes and ${attempts} deleted attempts`);
+  }
+  return { quizzes: deletedQuizzes.length, attempts };
+}
+
+/**
+ * Purge shortly after the undo window of a deletion made now has passed.
+ * Deletions missed because of a restart are picked up by the daily cleanup task.
+ */
+export function schedulePurge(): void {
+  const timeoutId = setTimeout(() => {
+    purgeExpiredDeletions().catch(error => {
+      console.error("Error purging deleted quizzes and attempts:", error);
+    });
+  }, UNDO_WINDOW_MS + 1000);
+  timeoutId.unref();
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { Question } from "@shared/schema";
+import { parseGift, writeGift } from "./giftFormat";
+
+describe("parseGift", () => {
+  it("reads each kind of GIFT question, located by the line it starts on", () => {
+    const entries = parseGift([
+      "// Geography",
+      "$CATEGORY: $course$/Geography",
+      "",
+      "::Capital:: What is the capital of France? {=Paris ~London ~Rome #### Paris is on the Seine}",
+      "",
+      "Pick the primes {~%50%2 ~%50%3 ~%-100%4}",
+      "",
+      "The sun is a star {T}",
+      "",
+      "Name a primary colour {=red =blue =yellow}",
+      "",
+      "Match the capitals {=France -> Paris =Italy -> Rome}",
+      "",
+      "How many legs has a spider? {#8:1}"
+    ].join("\n"));
+
+    expect(entries.map(entry => entry.location)).toEqual(["Line 4", "Line 6", "Line 8", "Line 10", "Line 12", "Line 14"]);
+    expect(entries.map(entry => "question" in entry && entry.question.type)).toEqual([
+      "multiple-choice", "multi-select", "true-false", "open-ended", "matching", "numeric"
+    ]);
+    expect(entries[0]).toMatchObject({
+      question: {
+        text: "What is the capital of France?",
+        options: ["Paris", "London", "Rome"],
+        correctAnswers: ["Paris"],
+        explanation: "Paris is on the Seine"
+      }
+    });
+    expect(entries[1]).toMatchObject({ question: { correctAnswers: ["2", "3"] } });
+    expect(entries[4]).toMatchObject({ question: { options: ["France", "Italy", "Paris", "Rome"], correctAnswers: ["Paris", "Rome"] } });
+    expect(entries[5]).toMatchObject({ question: { correctAnswers: ["8"], numericSettings: { tolerance: 1 } } });
+  });
+
+  it("turns answers in the middle of the text into a blank and unescapes special characters", () => {
+    const [entry] = parseGift("The \\{curly\\} braces are called {=brackets} in Britain");
+
+    expect(entry).toMatchObject({ question: { text: "The {curly} braces are called _____ in Britain" } });
+  });
+
+  it("reports questions without answers", () => {
+    const [entry] = parseGift("Just a description");
+
+    expect(entry).toEqual({ location: "Line 1", problem: expect.stringContaining("No answers") });
+  });
+});
+
+describe("writeGift", () => {
+  it("escapes special characters and leaves ordering questions out with a comment", () => {
+    const questions = [
+      { text: "1 + 1 = ?", type: "multiple-choice", options: ["2", "3"], correctAnswers: ["2"], explanation: null, imageUrl: null },
+      { text: "Order them", type: "ordering", options: ["b", "a"], correctAnswers: ["a", "b"], explanation: null, imageUrl: null }
+    ] as Question[];
+
+    expect(writeGift(questions)).toBe(
+      "::Q1:: 1 + 1 \\= ? {=2 ~3}\n\n// Question 2 is an ordering question, which GIFT can't hold\n"
+    );
+  });
+});
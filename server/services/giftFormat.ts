@@ -0,0 +1,257 @@
+import { splitMatchingOptions, TRUE_FALSE_OPTIONS, type Question } from "@shared/schema";
+import { escapeHtml, htmlToText } from "./htmlText";
+import type { QuizFileEntry } from "./quizTransfer";
+
+// Characters with a meaning in GIFT, written with a backslash in front when they are part of the text
+const SPECIAL_CHARS = /[~=#{}:\\]/g;
+
+interface GiftAnswer {
+  marker: "=" | "~";
+  weight: number | null; // The %50% in front of the text, a share of the full mark
+  text: string;
+}
+
+// Position of the token in the text where it isn't escaped with a backslash, or -1
+function findUnescaped(text: string, token: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text.startsWith(token, i)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function unescapeGift(text: string): string {
+  return text.replace(/\\(n|[~=#{}:\\])/g, (_, char: string) => char === "n" ? "\n" : char);
+}
+
+function escapeGift(text: string): string {
+  return text.replace(SPECIAL_CHARS, "\\$&").replace(/\r?\n/g, "\\n");
+}
+
+// Questions are separated by blank lines; lines starting with // are comments
+function splitQuestions(content: string): { line: number; text: string }[] {
+  const blocks: { line: number; text: string }[] = [];
+  const lines = content.split(/\r\n|\r|\n/);
+  let start = -1;
+  let current: string[] = [];
+
+  for (let i = 0; i <= lines.length; i++) {
+    const line = lines[i]?.trim() ?? "";
+    if (line === "") {
+      if (current.length > 0) blocks.push({ line: start + 1, text: current.join("\n") });
+      current = [];
+    } else if (!line.startsWith("//")) {
+      if (current.length === 0) start = i;
+      current.push(lines[i]);
+    }
+  }
+
+  return blocks;
+}
+
+// Answers in braces start with = (right) or ~ (wrong), optionally followed by a %weight% and a #feedback
+function splitAnswers(body: string): GiftAnswer[] | null {
+  const answers: GiftAnswer[] = [];
+  let start = -1;
+  const flush = (end: number) => {
+    if (start < 0) return;
+    let text = body.slice(start + 1, end);
+    const feedback = findUnescaped(text, "#");
+    if (feedback >= 0) text = text.slice(0, feedback);
+    const weight = text.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    if (weight) text = text.slice(weight[0].length);
+    answers.push({ marker: body[start] as "=" | "~", weight: weight ? Number(weight[1]) : null, text: text.trim() });
+  };
+
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === "\\") {
+      i++;
+    } else if (body[i] === "=" || body[i] === "~") {
+      if (start < 0 && body.slice(0, i).trim() !== "") return null;
+      flush(i);
+      start = i;
+    }
+  }
+  flush(body.length);
+
+  return start < 0 ? null : answers;
+}
+
+// {#5:0.5} is 5 give or take 0.5, {#4..6} anything from 4 to 6
+function numericFields(body: string): Record<string, unknown> | string {
+  let value = body.slice(1).trim();
+  if (value.startsWith("=")) {
+    const answers = splitAnswers(value);
+    const right = answers?.find(answer => answer.marker === "=" && (answer.weight === null || answer.weight === 100));
+    if (!right) return "No fully correct number among the answers";
+    value = right.text;
+  } else {
+    const feedback = findUnescaped(value, "#");
+    if (feedback >= 0) value = value.slice(0, feedback).trim();
+  }
+
+  const range = value.match(/^(-?[\d.]+)\s*\.\.\s*(-?[\d.]+)$/);
+  const [target, tolerance] = range
+    ? [(Number(range[1]) + Number(range[2])) / 2, Math.abs(Number(range[2]) - Number(range[1])) / 2]
+    : value.split(":").map(part => part.trim() === "" ? NaN : Number(part));
+  if (!Number.isFinite(target) || (tolerance !== undefined && !Number.isFinite(tolerance))) {
+    return `"${value}" isn't a number`;
+  }
+
+  return {
+    type: "numeric",
+    options: [],
+    correctAnswers: [String(target)],
+    numericSettings: { tolerance: tolerance ?? 0 }
+  };
+}
+
+function answerFields(body: string, isHtml: boolean): Record<string, unknown> | string {
+  const trueFalse = body.match(/^(TRUE|T|FALSE|F)\s*(#[\s\S]*)?$/i);
+  if (trueFalse) {
+    const isTrue = trueFalse[1].toUpperCase().startsWith("T");
+    return { type: "true-false", options: [...TRUE_FALSE_OPTIONS], correctAnswers: [TRUE_FALSE_OPTIONS[isTrue ? 0 : 1]] };
+  }
+  if (body === "") {
+    return "Essay questions can't be imported, they have no answers to check";
+  }
+  if (body.startsWith("#")) {
+    return numericFields(body);
+  }
+
+  const answers = splitAnswers(body);
+  if (!answers || answers.length === 0) return "Answers must start with = or ~";
+  const readable = (text: string) => isHtml ? htmlToText(unescapeGift(text)).text : unescapeGift(text);
+
+  const allRight = answers.every(answer => answer.marker === "=");
+  if (allRight && answers.every(answer => findUnescaped(answer.text, "->") >= 0)) {
+    const pairs = answers.map(answer => {
+      const arrow = findUnescaped(answer.text, "->");
+      return { prompt: readable(answer.text.slice(0, arrow).trim()), match: readable(answer.text.slice(arrow + 2).trim()) };
+    });
+    if (pairs.some(pair => !pair.prompt)) return "Matches without a prompt can't be imported";
+    const matches = pairs.map(pair => pair.match);
+    return { type: "matching", options: [...pairs.map(pair => pair.prompt), ...matches], correctAnswers: matches };
+  }
+
+  // Only = answers is a short answer question; answers worth partial credit are left out
+  if (allRight) {
+    const accepted = answers.filter(answer => answer.weight === null || answer.weight === 100).map(answer => readable(answer.text));
+    return { type: "open-ended", options: [], correctAnswers: accepted };
+  }
+
+  const options = answers.map(answer => readable(answer.text));
+  const right = answers
+    .filter(answer => answer.weight !== null ? answer.weight > 0 : answer.marker === "=")
+    .map(answer => readable(answer.text));
+  return { type: right.length > 1 ? "multi-select" : "multiple-choice", options, correctAnswers: right };
+}
+
+function parseQuestion(block: string): Record<string, unknown> | string {
+  let text = block.trim();
+  if (text.startsWith("::")) {
+    const titleEnd = findUnescaped(text, "::", 2);
+    if (titleEnd >= 0) text = text.slice(titleEnd + 2).trim();
+  }
+
+  const open = findUnescaped(text, "{");
+  if (open < 0) return "No answers in braces; descriptions without a question can't be imported";
+  const close = findUnescaped(text, "}", open + 1);
+  if (close < 0) return "The answers are missing their closing }";
+
+  let before = text.slice(0, open).trim();
+  const after = text.slice(close + 1).trim();
+  const format = before.match(/^\[(html|moodle|plain|markdown)\]/i);
+  if (format) before = before.slice(format[0].length).trim();
+  const isHtml = format?.[1].toLowerCase() === "html";
+
+  // Answers in the middle of the text fill in a blank
+  const rawText = after ? `${before} _____ ${after}` : before;
+  const { text: questionText, imageUrl } = isHtml
+    ? htmlToText(unescapeGift(rawText))
+    : { text: unescapeGift(rawText), imageUrl: null };
+
+  let body = text.slice(open + 1, close).trim();
+  let explanation: string | undefined;
+  const generalFeedback = findUnescaped(body, "####");
+  if (generalFeedback >= 0) {
+    const feedback = unescapeGift(body.slice(generalFeedback + 4).trim());
+    explanation = isHtml ? htmlToText(feedback).text : feedback;
+    body = body.slice(0, generalFeedback).trim();
+  }
+
+  const fields = answerFields(body, isHtml);
+  if (typeof fields === "string") return fields;
+  return { text: questionText, ...fields, explanation: explanation || null, imageUrl };
+}
+
+/**
+ * Questions of a Moodle GIFT file, located by the line they start on. Categories and comments are skipped.
+ */
+export function parseGift(content: string): QuizFileEntry[] {
+  return splitQuestions(content)
+    .filter(block => !block.text.trim().startsWith("$CATEGORY:"))
+    .map(block => {
+      const parsed = parseQuestion(block.text);
+      const location = `Line ${block.line}`;
+      return typeof parsed === "string" ? { location, problem: parsed } : { location, question: parsed };
+    });
+}
+
+// Moodle only takes certain shares of the full mark, which 100 / 1 to 100 / 10 all are
+const weight = (share: number) => Number(share.toFixed(5));
+
+function answersGift(question: Question, write: (text: string) => string): string | null {
+  const options = question.options as string[];
+  const correctAnswers = question.correctAnswers as string[];
+
+  switch (question.type) {
+    case "true-false":
+      return correctAnswers[0] === TRUE_FALSE_OPTIONS[0] ? "TRUE" : "FALSE";
+    case "numeric": {
+      const tolerance = (question.numericSettings as { tolerance?: number } | null)?.tolerance ?? 0;
+      return `#${correctAnswers[0]}${tolerance ? `:${tolerance}` : ""}`;
+    }
+    case "open-ended":
+      return correctAnswers.map(answer => `=${write(answer)}`).join(" ");
+    case "matching": {
+      const { prompts } = splitMatchingOptions(options);
+      return prompts.map((prompt, i) => `=${write(prompt)} -> ${write(correctAnswers[i] ?? "")}`).join(" ");
+    }
+    case "multi-select": {
+      const wrongCount = options.length - correctAnswers.length;
+      return options.map(option => correctAnswers.includes(option)
+        ? `~%${weight(100 / correctAnswers.length)}%${write(option)}`
+        : `~%-${weight(100 / wrongCount)}%${write(option)}`).join(" ");
+    }
+    case "multiple-choice":
+      return options.map(option => `${correctAnswers.includes(option) ? "=" : "~"}${write(option)}`).join(" ");
+    default:
+      return null;
+  }
+}
+
+/**
+ * The questions as a Moodle GIFT file. GIFT has no ordering questions, so those are left out with a comment,
+ * and points, time limits, hints and answer slider ranges have nowhere to go.
+ */
+export function writeGift(questions: Question[]): string {
+  return questions.map((question, index) => {
+    // Questions with an image are written as HTML, which then applies to their answers too
+    const isHtml = !!question.imageUrl;
+    const write = (text: string) => escapeGift(isHtml ? escapeHtml(text) : text);
+    const answers = answersGift(question, write);
+    if (answers === null) {
+      return `// Question ${index + 1} is an ordering question, which GIFT can't hold\n`;
+    }
+
+    const text = isHtml
+      ? `[html]${write(question.text)}<br><img src\\="${escapeGift(escapeHtml(question.imageUrl!))}">`
+      : write(question.text);
+    const explanation = question.explanation ? ` ####${write(question.explanation)}` : "";
+    return `::Q${index + 1}:: ${text} {${answers}${explanation}}\n`;
+  }).join("\n");
+}
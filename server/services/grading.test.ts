@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import type { Question } from "@shared/schema";
+import { answerCredit, answerPoints, gradeAttempt, parseNumericAnswer } from "./grading";
+
+function question(overrides: Partial<Question>): Question {
+  return {
+    id: 1,
+    quizId: 1,
+    text: "Question",
+    type: "multiple-choice",
+    options: ["Paris", "London", "Rome"],
+    correctAnswers: ["Paris"],
+    numericSettings: null,
+    points: 1,
+    timeLimitSeconds: null,
+    hint: null,
+    explanation: null,
+    order: 0,
+    imageUrl: null,
+    ...overrides
+  };
+}
+
+describe("answerCredit", () => {
+  it("takes a single choice regardless of case and spacing", () => {
+    expect(answerCredit(question({}), "  paris ")).toBe(1);
+    expect(answerCredit(question({}), "London")).toBe(0);
+    expect(answerCredit(question({}), ["Paris", "London"])).toBe(0);
+  });
+
+  it("needs every correct option of a multi-select question unless partial credit is on", () => {
+    const multiSelect = question({ type: "multi-select", options: ["a", "b", "c", "d"], correctAnswers: ["a", "b"] });
+
+    expect(answerCredit(multiSelect, ["b", "a"])).toBe(1);
+    expect(answerCredit(multiSelect, ["a"])).toBe(0);
+    expect(answerCredit(multiSelect, ["a"], { partialCredit: true })).toBe(0.5);
+    expect(answerCredit(multiSelect, ["a", "c"], { partialCredit: true })).toBe(0);
+    expect(answerCredit(multiSelect, ["c", "d"], { partialCredit: true })).toBe(0);
+  });
+
+  it("matches typed answers with the quiz's typo tolerance", () => {
+    const openEnded = question({ type: "open-ended", options: [], correctAnswers: ["photosynthesis"] });
+
+    expect(answerCredit(openEnded, "Photosynthesis")).toBe(1);
+    expect(answerCredit(openEnded, "photosynthesys", { typoTolerance: 1 })).toBe(1);
+    expect(answerCredit(openEnded, "photosynthesys", { typoTolerance: 0 })).toBe(0);
+  });
+
+  it("gives a share for every ordering item in its place", () => {
+    const ordering = question({ type: "ordering", options: ["3", "1", "2", "4"], correctAnswers: ["1", "2", "3", "4"] });
+
+    expect(answerCredit(ordering, ["1", "2", "3", "4"])).toBe(1);
+    expect(answerCredit(ordering, ["1", "2", "4", "3"])).toBe(0.5);
+    expect(answerCredit(ordering, [])).toBe(0);
+  });
+
+  it("lowers numeric credit the further a guess is beyond the tolerance", () => {
+    const numeric = question({
+      type: "numeric",
+      options: [],
+      correctAnswers: ["100"],
+      numericSettings: { tolerance: 5 }
+    });
+
+    expect(answerCredit(numeric, "103")).toBe(1);
+    expect(answerCredit(numeric, "130")).toBe(0.5);
+    expect(answerCredit(numeric, "200")).toBe(0);
+    expect(answerCredit(numeric, "lots")).toBe(0);
+  });
+});
+
+describe("parseNumericAnswer", () => {
+  it("reads thousands separators and rejects anything that isn't a number", () => {
+    expect(parseNumericAnswer("1,000")).toBe(1000);
+    expect(parseNumericAnswer(" -2.5 ")).toBe(-2.5);
+    expect(parseNumericAnswer("")).toBeNull();
+    expect(parseNumericAnswer("ten")).toBeNull();
+  });
+});
+
+describe("answerPoints", () => {
+  it("adds the speed bonus to quick right answers and takes the hint penalty off", () => {
+    const worthTwo = question({ points: 2 });
+
+    expect(answerPoints(worthTwo, 1, {})).toBe(2);
+    expect(answerPoints(worthTwo, 1, { timeMs: 0 }, { speedBonus: true })).toBe(3);
+    expect(answerPoints(worthTwo, 1, { timeMs: 15_000 }, { speedBonus: true })).toBe(2.5);
+    expect(answerPoints(worthTwo, 1, { timeMs: 60_000 }, { speedBonus: true })).toBe(2);
+    expect(answerPoints(worthTwo, 0, { timeMs: 0 }, { speedBonus: true })).toBe(0);
+    expect(answerPoints(worthTwo, 1, { hintUsed: true }, { hintPenaltyPercent: 25 })).toBe(1.5);
+  });
+});
+
+describe("gradeAttempt", () => {
+  const questions = [
+    question({ id: 1, points: 2 }),
+    question({ id: 2, type: "true-false", options: ["True", "False"], correctAnswers: ["True"] }),
+    question({ id: 3, type: "open-ended", options: [], correctAnswers: ["blue"] })
+  ];
+
+  it("scores the answers against the stored questions and ignores what the client claims", () => {
+    const result = gradeAttempt(questions, [
+      { questionId: 1, userAnswer: "Paris", timeMs: 4000 },
+      { questionId: 2, userAnswer: "False", timeMs: 1000 },
+      { questionId: 99, userAnswer: "Paris" },
+      { questionId: 1, userAnswer: "London" }
+    ]);
+
+    expect(result.score).toBe(1);
+    expect(result.totalQuestions).toBe(3);
+    expect(result.points).toBe(2);
+    expect(result.maxPoints).toBe(4);
+    expect(result.totalTimeMs).toBe(5000);
+    expect(result.answers.map(answer => [answer.questionId, answer.isCorrect])).toEqual([[1, true], [2, false]]);
+  });
+
+  it("gives timed-out answers nothing and leaves skipped questions out of the totals", () => {
+    const result = gradeAttempt(questions, [
+      { questionId: 1, userAnswer: "Paris", timedOut: true },
+      { questionId: 2, userAnswer: "", skipped: true },
+      { questionId: 3, userAnswer: "Blue", hintUsed: true, fiftyFifty: true }
+    ], { hintPenaltyPercent: 50 });
+
+    expect(result.score).toBe(1);
+    expect(result.totalQuestions).toBe(2);
+    expect(result.points).toBe(0.5);
+    expect(result.maxPoints).toBe(3);
+    expect(result.totalTimeMs).toBeNull();
+    expect(result.hintsUsed).toBe(1);
+    expect(result.lifelinesUsed).toEqual(["fifty-fifty", "skip"]);
+    expect(result.answers[0]).toMatchObject({ timedOut: true, credit: 0, points: 0 });
+  });
+
+  it("rounds partial credit so thirds add up to whole points", () => {
+    const multiSelect = (id: number) =>
+      question({ id, type: "multi-select", options: ["a", "b", "c", "d"], correctAnswers: ["a", "b", "c"] });
+    const result = gradeAttempt([multiSelect(1), multiSelect(2), multiSelect(3)], [
+      { questionId: 1, userAnswer: ["a"] },
+      { questionId: 2, userAnswer: ["b"] },
+      { questionId: 3, userAnswer: ["c"] }
+    ], { partialCredit: true });
+
+    expect(result.score).toBe(1);
+  });
+});
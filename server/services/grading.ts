@@ -0,0 +1,211 @@
+import { resolveNumericSettings, type Lifeline, type Question, type QuestionAnswer } from "@shared/schema";
+import { matchTypedAnswer, type MatchOptions } from "./answerMatching";
+
+export interface GradedAnswer {
+  questionId: number;
+  userAnswer: string | string[];
+  isCorrect: boolean;
+  credit: number; // Share of the question's point earned, 0 to 1
+  points: number; // Credit times the question's points, plus any speed bonus
+  timeMs?: number;
+  timedOut?: boolean; // Answered after the time limit, so it earned nothing
+  hintUsed?: boolean; // The player revealed the hint first, which cost part of the points
+  fiftyFifty?: boolean; // Two wrong options were taken away first
+  skipped?: boolean; // Skipped with the lifeline; left out of the attempt's totals
+}
+
+export interface GradingResult {
+  score: number;
+  totalQuestions: number; // Skipped questions left out
+  lifelinesUsed: Lifeline[];
+  points: number;
+  maxPoints: number; // Skipped questions left out
+  totalTimeMs: number | null; // Null when no answer was timed by the server
+  hintsUsed: number;
+  answers: GradedAnswer[];
+}
+
+// Takes the quiz settings as they are (see resolveQuizSettings)
+export interface GradingOptions extends MatchOptions {
+  partialCredit?: boolean;
+  speedBonus?: boolean;
+  hintPenaltyPercent?: number;
+}
+
+// An instant right answer earns half the question's points again; the bonus is gone after 30 seconds
+export const SPEED_BONUS_SHARE = 0.5;
+export const SPEED_BONUS_WINDOW_MS = 30_000;
+
+function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
+
+function normalizeAnswer(value: string): string {
+  return value.toString().toLowerCase().trim();
+}
+
+// Distinct normalized choices of a player, whether they picked one option or several
+function selectedAnswers(userAnswer: string | string[]): string[] {
+  const answers = Array.isArray(userAnswer) ? userAnswer : [userAnswer];
+  return Array.from(new Set(answers.map(normalizeAnswer).filter(answer => answer.length > 0)));
+}
+
+/**
+ * Number typed or slid by a player, allowing thousands separators like "1,000"; null if it isn't one
+ */
+export function parseNumericAnswer(value: string): number | null {
+  const cleaned = value.toString().replace(/[,\s]/g, "");
+  if (cleaned === "") return null;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Full credit within the tolerance around the target. Beyond it the credit falls linearly and reaches
+ * zero once the guess is off by another half of the target (or the tolerance or 1, if those are larger).
+ */
+function numericCredit(question: Question, userAnswer: string | string[]): number {
+  const target = parseNumericAnswer((question.correctAnswers as string[])[0] ?? "");
+  const guess = parseNumericAnswer(Array.isArray(userAnswer) ? userAnswer[0] ?? "" : userAnswer);
+  if (target === null || guess === null) return 0;
+
+  const { tolerance } = resolveNumericSettings(question.numericSettings);
+  const beyondTolerance = Math.abs(guess - target) - tolerance;
+  if (beyondTolerance <= 0) return 1;
+
+  const falloff = Math.max(Math.abs(target) / 2, tolerance, 1);
+  return Math.max(0, 1 - beyondTolerance / falloff);
+}
+
+/**
+ * Share of a question's point earned by an answer, between 0 and 1.
+ * Multi-select questions need exactly the set of correct options for full credit. With partial
+ * credit, each correct choice earns its share and each wrong choice takes one share away.
+ * Open-ended answers are matched tolerantly against every accepted answer.
+ * Ordering and matching answers earn a share for every item in the right place, whatever the partial credit setting.
+ * Numeric guesses earn credit by how close they are to the target.
+ * Every other type takes a single choice, which has to be one of the correct answers.
+ */
+export function answerCredit(question: Question, userAnswer: string | string[], options: GradingOptions = {}): number {
+  if (question.type === "open-ended") {
+    const typed = Array.isArray(userAnswer) ? userAnswer.join(" ") : userAnswer;
+    return matchTypedAnswer(typed, question.correctAnswers as string[], options).matched ? 1 : 0;
+  }
+
+  if (question.type === "numeric") {
+    return numericCredit(question, userAnswer);
+  }
+
+  if (question.type === "ordering" || question.type === "matching") {
+    const placed = Array.isArray(userAnswer) ? userAnswer : [userAnswer];
+    const expected = question.correctAnswers as string[];
+    const hits = expected.filter((item, i) =>
+      placed[i] !== undefined && normalizeAnswer(placed[i]) === normalizeAnswer(item)).length;
+    return expected.length === 0 ? 0 : hits / expected.length;
+  }
+
+  const correctAnswers = new Set((question.correctAnswers as string[]).map(normalizeAnswer));
+  const selected = selectedAnswers(userAnswer);
+
+  if (question.type === "multi-select") {
+    const hits = selected.filter(answer => correctAnswers.has(answer)).length;
+    const misses = selected.length - hits;
+
+    if (hits === correctAnswers.size && misses === 0) return 1;
+    if (!options.partialCredit) return 0;
+    return Math.max(0, (hits - misses) / correctAnswers.size);
+  }
+
+  return selected.length === 1 && correctAnswers.has(selected[0]) ? 1 : 0;
+}
+
+/**
+ * Check a single answer against the stored correct answers of a question
+ */
+export function isAnswerCorrect(question: Question, userAnswer: string | string[], options: GradingOptions = {}): boolean {
+  return answerCredit(question, userAnswer, options) === 1;
+}
+
+/**
+ * Points earned for an answer: its credit times the question's points, raised by the speed bonus
+ * when the quiz has one and the answer time is known, then cut by the hint penalty if the player
+ * revealed the hint
+ */
+export function answerPoints(
+  question: Question,
+  credit: number,
+  answer: Pick<QuestionAnswer, "timeMs" | "hintUsed">,
+  options: GradingOptions = {}
+): number {
+  let points = credit * question.points;
+  if (options.speedBonus && answer.timeMs !== undefined && credit > 0) {
+    points *= 1 + SPEED_BONUS_SHARE * Math.max(0, 1 - answer.timeMs / SPEED_BONUS_WINDOW_MS);
+  }
+  if (answer.hintUsed) {
+    points *= 1 - (options.hintPenaltyPercent ?? 0) / 100;
+  }
+  return roundPoints(points);
+}
+
+/**
+ * Grade a full set of answers for a quiz on the server.
+ * Client-supplied correctness is ignored; unanswered questions count as wrong, answers flagged
+ * by applyTimeLimits earn nothing, answers flagged by markHintedAnswers lose the hint penalty,
+ * questions skipped according to markLifelineAnswers don't count at all, and answers for
+ * questions that do not belong to the quiz are dropped.
+ */
+export function gradeAttempt(
+  questions: Question[],
+  answers: Pick<QuestionAnswer, "questionId" | "userAnswer" | "timeMs" | "timedOut" | "hintUsed" | "fiftyFifty" | "skipped">[],
+  options: GradingOptions = {}
+): GradingResult {
+  const answersByQuestion = new Map<number, Pick<QuestionAnswer, "userAnswer" | "timeMs" | "timedOut" | "hintUsed" | "fiftyFifty" | "skipped">>();
+  for (const answer of answers) {
+    if (!answersByQuestion.has(answer.questionId)) {
+      answersByQuestion.set(answer.questionId, answer);
+    }
+  }
+
+  const gradedAnswers: GradedAnswer[] = [];
+  for (const question of questions) {
+    const answer = answersByQuestion.get(question.id);
+    if (answer === undefined) continue;
+
+    const credit = answer.timedOut || answer.skipped ? 0 : answerCredit(question, answer.userAnswer, options);
+    gradedAnswers.push({
+      questionId: question.id,
+      userAnswer: answer.userAnswer,
+      isCorrect: credit === 1,
+      credit,
+      points: answerPoints(question, credit, answer, options),
+      ...(answer.timeMs !== undefined && { timeMs: answer.timeMs }),
+      ...(answer.timedOut && { timedOut: true }),
+      ...(answer.hintUsed && { hintUsed: true }),
+      ...(answer.fiftyFifty && { fiftyFifty: true }),
+      ...(answer.skipped && { skipped: true })
+    });
+  }
+
+  const score = gradedAnswers.reduce((sum, answer) => sum + answer.credit, 0);
+  const points = gradedAnswers.reduce((sum, answer) => sum + answer.points, 0);
+  const timedAnswers = gradedAnswers.filter(answer => answer.timeMs !== undefined);
+  const skippedIds = new Set(gradedAnswers.filter(answer => answer.skipped).map(answer => answer.questionId));
+  const countedQuestions = questions.filter(question => !skippedIds.has(question.id));
+  const lifelinesUsed: Lifeline[] = [];
+  if (gradedAnswers.some(answer => answer.fiftyFifty)) lifelinesUsed.push("fifty-fifty");
+  if (skippedIds.size > 0) lifelinesUsed.push("skip");
+
+  return {
+    // Rounded so partial credit like 1/3 + 1/3 + 1/3 still adds up to a whole point
+    score: roundPoints(score),
+    totalQuestions: countedQuestions.length,
+    points: roundPoints(points),
+    maxPoints: countedQuestions.reduce((sum, question) => sum + question.points, 0),
+    totalTimeMs: timedAnswers.length > 0
+      ? timedAnswers.reduce((sum, answer) => sum + (answer.timeMs ?? 0), 0)
+      : null,
+    hintsUsed: gradedAnswers.filter(answer => answer.hintUsed).length,
+    lifelinesUsed,
+    answers: gradedAnswers
+  };
+}
@@ -0,0 +1,16 @@
+import type { AttemptSession, QuestionAnswer } from "@shared/schema";
+
+type SubmittedAnswer = Pick<QuestionAnswer, "questionId" | "userAnswer" | "timeMs" | "timedOut" | "hintUsed">;
+
+/**
+ * Flag the answers to questions whose hint the player revealed, so grading takes the penalty off.
+ * Only the hints the server handed out for this attempt count, whatever the browser claims.
+ */
+export function markHintedAnswers(answers: SubmittedAnswer[], session: AttemptSession | undefined): SubmittedAnswer[] {
+  const revealed = new Set(session?.hintsUsed ?? []);
+
+  return answers.map(({ hintUsed, ...answer }) => ({
+    ...answer,
+    ...(revealed.has(answer.questionId) && { hintUsed: true })
+  }));
+}
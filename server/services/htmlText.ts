@@ -0,0 +1,39 @@
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: "\u00A0" };
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10FFFF ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Plain text of an HTML fragment written by another quiz tool, and the first image it shows
+ * if that image has a web address (images embedded in the file can't be brought along)
+ */
+export function htmlToText(html: string): { text: string; imageUrl: string | null } {
+  const image = html.match(/<img\b[^>]*?\bsrc\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+  const src = image ? decodeEntities(image[1] ?? image[2]).trim() : "";
+
+  const text = decodeEntities(html
+    .replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6])\s*>/gi, "\n")
+    .replace(/<[^>]*>/g, ""))
+    .replace(/[ \t\u00A0]+/g, " ")
+    .replace(/ *\n\s*/g, "\n")
+    .trim();
+
+  return { text, imageUrl: /^https?:\/\//i.test(src) ? src : null };
+}
@@ -0,0 +1,65 @@
+import { randomInt } from "crypto";
+import { resolveQuizSettings, type AttemptSession, type Lifeline, type Question, type QuestionAnswer, type Quiz } from "@shared/schema";
+
+type SubmittedAnswer = Pick<QuestionAnswer, "questionId" | "userAnswer" | "timeMs" | "timedOut" | "hintUsed" | "fiftyFifty" | "skipped">;
+
+// Most wrong options a 50:50 takes away; at least one always stays, so the answer isn't given away
+const FIFTY_FIFTY_REMOVALS = 2;
+
+/**
+ * Why a lifeline can't be used on a question of this quiz, or null when it can
+ */
+export function lifelineProblem(lifeline: Lifeline, quiz: Quiz, question: Question, questionCount: number): string | null {
+  const settings = resolveQuizSettings(quiz.settings);
+
+  if (lifeline === "skip") {
+    if (!settings.skipQuestion) return "This quiz has no skip lifeline";
+    // Something has to be left to score
+    return questionCount > 1 ? null : "The only question of a quiz can't be skipped";
+  }
+
+  if (!settings.fiftyFifty) {
+    return "This quiz has no 50:50 lifeline";
+  }
+  if (question.type !== "multiple-choice" || (question.options as string[]).length < 3) {
+    return "50:50 only works on multiple-choice questions with at least three options";
+  }
+  return null;
+}
+
+/**
+ * Wrong options a 50:50 removes from a question, picked at random on the server
+ */
+export function drawFiftyFifty(question: Question): string[] {
+  const correct = new Set((question.correctAnswers as string[]).map(answer => answer.toLowerCase().trim()));
+  const wrong = (question.options as string[]).filter(option => !correct.has(option.toLowerCase().trim()));
+
+  const removals = Math.min(FIFTY_FIFTY_REMOVALS, wrong.length - 1);
+  const removed: string[] = [];
+  while (removed.length < removals) {
+    removed.push(wrong.splice(randomInt(wrong.length), 1)[0]);
+  }
+  return removed;
+}
+
+/**
+ * Flag the answers the player used a lifeline on, going by what the server granted this attempt.
+ * A skipped question gets an empty answer when the browser sent none, so grading leaves it out.
+ */
+export function markLifelineAnswers(answers: SubmittedAnswer[], session: AttemptSession | undefined): SubmittedAnswer[] {
+  const uses = session?.lifelines ?? [];
+  const usedOn = (lifeline: Lifeline, questionId: number) =>
+    uses.some(use => use.lifeline === lifeline && use.questionId === questionId);
+
+  const marked: SubmittedAnswer[] = answers.map(({ fiftyFifty, skipped, ...answer }) => ({
+    ...answer,
+    ...(usedOn("fifty-fifty", answer.questionId) && { fiftyFifty: true }),
+    ...(usedOn("skip", answer.questionId) && { skipped: true })
+  }));
+
+  const skip = uses.find(use => use.lifeline === "skip");
+  if (skip && !marked.some(answer => answer.questionId === skip.questionId)) {
+    marked.push({ questionId: skip.questionId, userAnswer: "", skipped: true });
+  }
+  return marked;
+}
@@ -0,0 +1,178 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "../storage";
+import {
+  resolveQuizSettings,
+  type LeaderboardAttempt,
+  type LiveAttemptsMessage,
+  type Quiz,
+  type QuizAttempt
+} from "@shared/schema";
+import { leaderboardAttempts } from "./attemptPolicy";
+import { toLeaderboardAttempt } from "./playerView";
+
+const LEADERBOARD_PATH = /^\/api\/quizzes\/(\d+)\/live$/;
+const DASHBOARD_PATH = /^\/api\/quizzes\/dashboard\/([^/]+)\/live$/;
+
+// Sockets that stop answering pings are dropped after one interval
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const MAX_SUBSCRIBERS_PER_QUIZ = 500;
+
+interface Subscriber {
+  socket: WebSocket;
+  creator: boolean; // Subscribed through the dashboard token, so sent every attempt in full
+  alive: boolean;
+}
+
+const subscribers = new Map<number, Set<Subscriber>>();
+
+/**
+ * The public leaderboard: one attempt per player, picked by the quiz's policy, ranked
+ */
+export async function loadLeaderboard(quiz: Quiz): Promise<LeaderboardAttempt[]> {
+  const attempts = leaderboardAttempts(
+    await storage.getQuizAttempts(quiz.id),
+    resolveQuizSettings(quiz.settings).leaderboardScore
+  );
+  return attempts.map(toLeaderboardAttempt);
+}
+
+/**
+ * Every attempt for the dashboard, hidden ones included so the creator can show them again, newest first
+ */
+export async function loadDashboardAttempts(quiz: Quiz): Promise<QuizAttempt[]> {
+  const attempts = await storage.getQuizAttempts(quiz.id, { includeHidden: true });
+  return attempts.sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
+}
+
+function send<A>(socket: WebSocket, data: A[]) {
+  if (socket.readyState !== WebSocket.OPEN) return;
+  const message: LiveAttemptsMessage<A> = { type: "attempts", data, serverTime: Date.now() };
+  socket.send(JSON.stringify(message));
+}
+
+// The quiz a live path subscribes to and whether it is the creator's, or null when there's none
+async function resolveSubscription(path: string): Promise<{ quiz: Quiz; creator: boolean } | null> {
+  const dashboardMatch = path.match(DASHBOARD_PATH);
+  const leaderboardMatch = path.match(LEADERBOARD_PATH);
+  const quiz = dashboardMatch
+    ? await storage.getQuizByDashboardToken(decodeURIComponent(dashboardMatch[1]))
+    : leaderboardMatch ? await storage.getQuiz(parseInt(leaderboardMatch[1])) : undefined;
+
+  // The creator keeps watching an expired quiz until it is cleaned up, like the rest of its dashboard
+  if (!quiz || (!dashboardMatch && storage.isQuizExpired(quiz))) return null;
+  return { quiz, creator: !!dashboardMatch };
+}
+
+function refuseUpgrade(socket: Duplex, status: string) {
+  socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+}
+
+/**
+ * Serve live attempt updates over WebSocket from the app's HTTP server:
+ * /api/quizzes/:quizId/live for the leaderboard and /api/quizzes/dashboard/:token/live for the creator.
+ * Other upgrade requests (such as Vite's in development) are left alone.
+ */
+export function attachLiveAttempts(server: Server) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 1024 });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const path = (req.url ?? "").split("?")[0];
+    if (!LEADERBOARD_PATH.test(path) && !DASHBOARD_PATH.test(path)) return;
+
+    resolveSubscription(path).then(subscription => {
+      if (!subscription) {
+        return refuseUpgrade(socket, "404 Not Found");
+      }
+
+      const { quiz, creator } = subscription;
+      const quizSubscribers = subscribers.get(quiz.id) ?? new Set<Subscriber>();
+      if (quizSubscribers.size >= MAX_SUBSCRIBERS_PER_QUIZ) {
+        return refuseUpgrade(socket, "503 Service Unavailable");
+      }
+
+      wss.handleUpgrade(req, socket, head, ws => {
+        const subscriber: Subscriber = { socket: ws, creator, alive: true };
+        quizSubscribers.add(subscriber);
+        subscribers.set(quiz.id, quizSubscribers);
+
+        ws.on("pong", () => { subscriber.alive = true; });
+        ws.on("close", () => {
+          quizSubscribers.delete(subscriber);
+          if (quizSubscribers.size === 0 && subscribers.get(quiz.id) === quizSubscribers) {
+            subscribers.delete(quiz.id);
+          }
+        });
+        ws.on("error", error => console.error(`Live attempts socket error for quiz ${quiz.id}:`, error));
+
+        // Start from the current list, so the browser doesn't have to fetch it as well
+        (creator ? loadDashboardAttempts(quiz) : loadLeaderboard(quiz))
+          .then(attempts => send(ws, attempts))
+          .catch(error => console.error(`Error sending live attempts for quiz ${quiz.id}:`, error));
+      });
+    }).catch(error => {
+      console.error("Error opening live attempts socket:", error);
+      refuseUpgrade(socket, "500 Internal Server Error");
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    subscribers.forEach(quizSubscribers => {
+      quizSubscribers.forEach(subscriber => {
+        if (!subscriber.alive) {
+          subscriber.socket.terminate();
+          return;
+        }
+        subscriber.alive = false;
+        subscriber.socket.ping();
+      });
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  server.on("close", () => clearInterval(heartbeat));
+}
+
+/**
+ * Push the quiz's attempts to everyone watching it, after an attempt was written, changed or removed.
+ * Never throws: a failed push only leaves subscribers to catch up on the next one.
+ */
+export function publishAttempts(quizId: number): void {
+  const quizSubscribers = subscribers.get(quizId);
+  if (!quizSubscribers || quizSubscribers.size === 0) return;
+
+  (async () => {
+    const quiz = await storage.getQuiz(quizId);
+    if (!quiz) return;
+
+    const watchers = Array.from(quizSubscribers);
+    const leaderboard = watchers.some(subscriber => !subscriber.creator) ? await loadLeaderboard(quiz) : [];
+    const dashboard = watchers.some(subscriber => subscriber.creator) ? await loadDashboardAttempts(quiz) : [];
+
+    watchers.forEach(subscriber => {
+      if (subscriber.creator) {
+        send(subscriber.socket, dashboard);
+      } else {
+        send(subscriber.socket, leaderboard);
+      }
+    });
+  })().catch(error => {
+    console.error(`Error publishing live attempts for quiz ${quizId}:`, error);
+  });
+}
+
+/**
+ * Tell everyone watching the quiz that it is gone and close their sockets, once it is deleted or expired
+ */
+export function closeAttemptSubscriptions(quizId: number): void {
+  const quizSubscribers = subscribers.get(quizId);
+  if (!quizSubscribers) return;
+
+  subscribers.delete(quizId);
+  const closed: LiveAttemptsMessage<never> = { type: "closed" };
+  quizSubscribers.forEach(({ socket }) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(closed));
+    socket.close();
+  });
+}
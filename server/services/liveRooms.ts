@@ -0,0 +1,452 @@
+import { randomInt } from "crypto";
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "../storage";
+import {
+  resolveQuizSettings,
+  type AnswerCount,
+  type LiveHostState,
+  type LivePlayerState,
+  type LiveRoomMessage,
+  type LiveRoomPhase,
+  type LiveStanding,
+  type Question,
+  type Quiz
+} from "@shared/schema";
+import { gradeAttempt, isAnswerCorrect } from "./grading";
+import { generateSessionToken, TIME_LIMIT_GRACE_MS } from "./timeLimits";
+import { toPlayerQuestion } from "./playerView";
+import { publishAttempts } from "./liveAttempts";
+
+const SOCKET_PATH = /^\/api\/live-rooms\/(\d{6})\/socket$/;
+
+export const MAX_LIVE_ROOM_PLAYERS = 100;
+// Rooms nobody has done anything in for this long are closed
+const ROOM_IDLE_MS = 60 * 60_000;
+const STANDINGS_SHOWN = 10;
+
+// Question types answered by picking from the listed options, counted option by option
+const PICKED_TYPES = ["multiple-choice", "true-false", "multi-select"];
+
+interface LiveAnswer {
+  userAnswer: string | string[];
+  timeMs: number; // Measured by the server from when the question was shown
+}
+
+interface LivePlayer {
+  key: string; // Unguessable; the player's phone sends it with every request
+  userAnswerId: number;
+  name: string;
+  playerId: string | null;
+  answers: Map<number, LiveAnswer>;
+  attemptId: number | null;
+}
+
+interface RoomSocket {
+  socket: WebSocket;
+  key: string; // The host's or a player's
+}
+
+export interface LiveRoom {
+  pin: string;
+  quiz: Quiz;
+  questions: Question[];
+  hostKey: string;
+  phase: LiveRoomPhase;
+  questionIndex: number;
+  questionShownAt: number | null;
+  startedAt: Date | null;
+  players: Map<string, LivePlayer>;
+  sockets: Set<RoomSocket>;
+  lockTimer: NodeJS.Timeout | null; // Locks a timed question once its time is up
+  finishing: Promise<void> | null; // Recording the attempts after the last question
+  lastActivity: number;
+}
+
+// Held in memory: a game only lasts as long as the party, and its results end up as quiz attempts
+const rooms = new Map<string, LiveRoom>();
+
+function drawPin(): string {
+  let pin: string;
+  do {
+    pin = randomInt(100_000, 1_000_000).toString();
+  } while (rooms.has(pin));
+  return pin;
+}
+
+/**
+ * Open a room for a live game of the quiz, in the lobby
+ */
+export function openLiveRoom(quiz: Quiz, questions: Question[]): LiveRoom {
+  const room: LiveRoom = {
+    pin: drawPin(),
+    quiz,
+    questions,
+    hostKey: generateSessionToken(),
+    phase: "lobby",
+    questionIndex: -1,
+    questionShownAt: null,
+    startedAt: null,
+    players: new Map(),
+    sockets: new Set(),
+    lockTimer: null,
+    finishing: null,
+    lastActivity: Date.now()
+  };
+  rooms.set(room.pin, room);
+  return room;
+}
+
+export function getLiveRoom(pin: string): LiveRoom | undefined {
+  return rooms.get(pin);
+}
+
+function currentQuestion(room: LiveRoom): Question | null {
+  return room.phase === "question" || room.phase === "reveal" ? room.questions[room.questionIndex] : null;
+}
+
+function questionEndsAt(room: LiveRoom): number | null {
+  const question = currentQuestion(room);
+  return question?.timeLimitSeconds && room.questionShownAt !== null
+    ? room.questionShownAt + question.timeLimitSeconds * 1000
+    : null;
+}
+
+/**
+ * Add a player to the room; they can join until the game is finished, missing the questions already asked.
+ * A device that is in the room already gets its seat back.
+ */
+export function joinLiveRoom(
+  room: LiveRoom,
+  player: { userAnswerId: number; name: string; playerId: string | null }
+): { player: LivePlayer } | { problem: string } {
+  const seated = player.playerId
+    ? Array.from(room.players.values()).find(other => other.playerId === player.playerId)
+    : undefined;
+  if (seated) {
+    return { player: seated };
+  }
+
+  if (room.phase === "finished") {
+    return { problem: "This game has already finished" };
+  }
+  if (room.players.size >= MAX_LIVE_ROOM_PLAYERS) {
+    return { problem: `This game is full (${MAX_LIVE_ROOM_PLAYERS} players)` };
+  }
+  const name = player.name.trim();
+  if (Array.from(room.players.values()).some(other => other.name.toLowerCase() === name.toLowerCase())) {
+    return { problem: "Someone in this game already goes by that name" };
+  }
+
+  const joined: LivePlayer = {
+    key: generateSessionToken(),
+    userAnswerId: player.userAnswerId,
+    name,
+    playerId: player.playerId,
+    answers: new Map(),
+    attemptId: null
+  };
+  room.players.set(joined.key, joined);
+  room.lastActivity = Date.now();
+  broadcast(room);
+  return { player: joined };
+}
+
+/**
+ * Take a player's answer to the current question, timed by the server. Returns why it can't be taken, or null.
+ */
+export function submitLiveAnswer(
+  room: LiveRoom,
+  player: LivePlayer,
+  questionId: number,
+  userAnswer: string | string[]
+): string | null {
+  const question = currentQuestion(room);
+  if (room.phase !== "question" || !question || question.id !== questionId) {
+    return "This question is closed";
+  }
+  if (player.answers.has(questionId)) {
+    return "You've already answered this question";
+  }
+  const endsAt = questionEndsAt(room);
+  if (endsAt !== null && Date.now() > endsAt + TIME_LIMIT_GRACE_MS) {
+    return "Time's up for this question";
+  }
+
+  player.answers.set(questionId, { userAnswer, timeMs: Date.now() - (room.questionShownAt ?? Date.now()) });
+  room.lastActivity = Date.now();
+
+  // Nobody left to wait for
+  if (Array.from(room.players.values()).every(other => other.answers.has(questionId))) {
+    revealQuestion(room);
+  } else {
+    broadcast(room);
+  }
+  return null;
+}
+
+function revealQuestion(room: LiveRoom) {
+  if (room.lockTimer) clearTimeout(room.lockTimer);
+  room.lockTimer = null;
+  room.phase = "reveal";
+  broadcast(room);
+}
+
+function showQuestion(room: LiveRoom, index: number) {
+  room.phase = "question";
+  room.questionIndex = index;
+  room.questionShownAt = Date.now();
+  room.startedAt = room.startedAt ?? new Date();
+
+  const limitSeconds = room.questions[index].timeLimitSeconds;
+  if (limitSeconds) {
+    room.lockTimer = setTimeout(() => revealQuestion(room), limitSeconds * 1000 + TIME_LIMIT_GRACE_MS);
+    room.lockTimer.unref();
+  }
+  broadcast(room);
+}
+
+/**
+ * The host's next step: start the game, lock the current question and reveal it, move on to the next
+ * question, or after the last one finish the game and record every player's attempt
+ */
+export async function advanceLiveRoom(room: LiveRoom): Promise<void> {
+  room.lastActivity = Date.now();
+
+  if (room.phase === "lobby") {
+    showQuestion(room, 0);
+  } else if (room.phase === "question") {
+    revealQuestion(room);
+  } else if (room.phase === "reveal" && room.questionIndex < room.questions.length - 1) {
+    showQuestion(room, room.questionIndex + 1);
+  } else if (room.phase === "reveal") {
+    // The game only counts as finished once every attempt is recorded; if recording fails the host
+    // can finish again, and a second request while recording waits for the same one
+    room.finishing = room.finishing ?? recordLiveAttempts(room).finally(() => { room.finishing = null; });
+    await room.finishing;
+    room.phase = "finished";
+    broadcast(room);
+  }
+}
+
+function gradePlayer(room: LiveRoom, player: LivePlayer, questions: Question[]) {
+  const answers = Array.from(player.answers.entries()).map(([questionId, answer]) => ({ questionId, ...answer }));
+  return gradeAttempt(questions, answers, resolveQuizSettings(room.quiz.settings));
+}
+
+// Players who answered at least once get an ordinary attempt, so the results page, leaderboard and dashboard show it.
+// Players whose attempt was recorded by an earlier try are skipped.
+async function recordLiveAttempts(room: LiveRoom) {
+  const players = Array.from(room.players.values())
+    .filter(player => player.answers.size > 0 && player.attemptId === null);
+
+  for (const player of players) {
+    const result = gradePlayer(room, player, room.questions);
+    const attempt = await storage.createQuizAttempt({
+      quizId: room.quiz.id,
+      userAnswerId: player.userAnswerId,
+      userName: player.name,
+      playerId: player.playerId,
+      score: result.score,
+      totalQuestions: result.totalQuestions,
+      points: result.points,
+      maxPoints: result.maxPoints,
+      totalTimeMs: result.totalTimeMs,
+      hintsUsed: result.hintsUsed,
+      lifelinesUsed: result.lifelinesUsed,
+      answers: result.answers,
+      quizRevision: room.quiz.revision,
+      startedAt: room.startedAt,
+      shuffle: null
+    });
+    player.attemptId = attempt.id;
+  }
+
+  console.log(`🎉 Live game ${room.pin} of quiz ${room.quiz.id} finished; ${players.length} attempts recorded`);
+  if (players.length > 0) publishAttempts(room.quiz.id);
+}
+
+// Points of every player over the questions revealed so far, best first
+function standings(room: LiveRoom): (LiveStanding & { key: string })[] {
+  const revealed = room.questions.slice(0, room.phase === "question" ? room.questionIndex : room.questionIndex + 1);
+  return Array.from(room.players.values())
+    .map(player => ({ key: player.key, name: player.name, points: gradePlayer(room, player, revealed).points }))
+    .sort((a, b) => b.points - a.points);
+}
+
+function answerDistribution(room: LiveRoom, question: Question): AnswerCount[] {
+  const settings = resolveQuizSettings(room.quiz.settings);
+  const answers = Array.from(room.players.values())
+    .map(player => player.answers.get(question.id)?.userAnswer)
+    .filter((answer): answer is string | string[] => answer !== undefined);
+
+  if (PICKED_TYPES.includes(question.type)) {
+    const correctAnswers = question.correctAnswers as string[];
+    return (question.options as string[]).map(option => ({
+      answer: option,
+      count: answers.filter(answer => [answer].flat().includes(option)).length,
+      correct: correctAnswers.includes(option)
+    }));
+  }
+
+  // Typed and arranged answers are grouped when they only differ in case and spacing
+  const counts = new Map<string, AnswerCount>();
+  answers.forEach(answer => {
+    const key = JSON.stringify([answer].flat().map(value => value.toLowerCase().trim()));
+    const counted = counts.get(key);
+    if (counted) {
+      counted.count++;
+    } else {
+      counts.set(key, { answer, count: 1, correct: isAnswerCorrect(question, answer, settings) });
+    }
+  });
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+}
+
+function hostState(room: LiveRoom, ranked: (LiveStanding & { key: string })[]): LiveHostState {
+  const question = currentQuestion(room);
+  return {
+    pin: room.pin,
+    quizId: room.quiz.id,
+    phase: room.phase,
+    questionIndex: room.questionIndex,
+    questionCount: room.questions.length,
+    questionEndsAt: room.phase === "question" ? questionEndsAt(room) : null,
+    standings: ranked.slice(0, STANDINGS_SHOWN).map(({ name, points }) => ({ name, points })),
+    serverTime: Date.now(),
+    question,
+    players: Array.from(room.players.values()).map(player => ({
+      name: player.name,
+      answered: !!question && player.answers.has(question.id)
+    })),
+    distribution: room.phase === "reveal" && question ? answerDistribution(room, question) : null
+  };
+}
+
+function playerState(room: LiveRoom, player: LivePlayer, ranked: (LiveStanding & { key: string })[]): LivePlayerState {
+  const question = currentQuestion(room);
+  const { answerReveal } = resolveQuizSettings(room.quiz.settings);
+  const answer = question ? player.answers.get(question.id) : undefined;
+  const revealed = room.phase === "reveal" ? question : null;
+  const rank = ranked.findIndex(standing => standing.key === player.key);
+
+  return {
+    pin: room.pin,
+    quizId: room.quiz.id,
+    phase: room.phase,
+    questionIndex: room.questionIndex,
+    questionCount: room.questions.length,
+    questionEndsAt: room.phase === "question" ? questionEndsAt(room) : null,
+    standings: ranked.slice(0, STANDINGS_SHOWN).map(({ name, points }) => ({ name, points })),
+    serverTime: Date.now(),
+    question: question ? toPlayerQuestion(question) : null,
+    answered: !!answer,
+    lastAnswerCorrect: revealed && answer && answerReveal !== "never"
+      ? isAnswerCorrect(revealed, answer.userAnswer, resolveQuizSettings(room.quiz.settings))
+      : null,
+    correctAnswers: revealed && answerReveal === "after-submit" ? revealed.correctAnswers as string[] : null,
+    points: rank >= 0 ? ranked[rank].points : 0,
+    rank: rank >= 0 ? rank + 1 : null,
+    attemptId: player.attemptId
+  };
+}
+
+function send(socket: WebSocket, message: LiveRoomMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function sendState(room: LiveRoom, roomSocket: RoomSocket, ranked: (LiveStanding & { key: string })[]) {
+  if (roomSocket.key === room.hostKey) {
+    send(roomSocket.socket, { type: "host", state: hostState(room, ranked) });
+    return;
+  }
+  const player = room.players.get(roomSocket.key);
+  if (player) {
+    send(roomSocket.socket, { type: "player", state: playerState(room, player, ranked) });
+  }
+}
+
+// Everyone in the room gets the new state, each from their own side
+function broadcast(room: LiveRoom) {
+  const ranked = standings(room);
+  room.sockets.forEach(roomSocket => sendState(room, roomSocket, ranked));
+}
+
+function closeRoom(room: LiveRoom) {
+  if (room.lockTimer) clearTimeout(room.lockTimer);
+  room.sockets.forEach(({ socket }) => {
+    send(socket, { type: "closed" });
+    socket.close();
+  });
+  rooms.delete(room.pin);
+}
+
+/**
+ * Close every room playing the quiz, e.g. once its creator deletes it
+ */
+export function closeLiveRoomsOfQuiz(quizId: number) {
+  rooms.forEach(room => {
+    if (room.quiz.id === quizId) closeRoom(room);
+  });
+}
+
+/**
+ * Close the room if its quiz has been deleted or has expired since it was opened. Returns whether it was closed.
+ */
+export async function closeLiveRoomIfQuizGone(room: LiveRoom): Promise<boolean> {
+  const quiz = await storage.getQuiz(room.quiz.id);
+  if (quiz && !storage.isQuizExpired(quiz)) return false;
+  closeRoom(room);
+  return true;
+}
+
+function refuseUpgrade(socket: Duplex, status: string) {
+  socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+}
+
+/**
+ * Serve live game rooms over WebSocket from the app's HTTP server at /api/live-rooms/:pin/socket?key=...,
+ * where the key is the host's or a player's. Other upgrade requests are left alone.
+ */
+export function attachLiveRooms(server: Server) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 1024 });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? "", "http://localhost");
+    const match = url.pathname.match(SOCKET_PATH);
+    if (!match) return;
+
+    const room = rooms.get(match[1]);
+    const key = url.searchParams.get("key") ?? "";
+    if (!room || (key !== room.hostKey && !room.players.has(key))) {
+      return refuseUpgrade(socket, "404 Not Found");
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      const roomSocket: RoomSocket = { socket: ws, key };
+      room.sockets.add(roomSocket);
+      ws.on("close", () => room.sockets.delete(roomSocket));
+      ws.on("error", error => console.error(`Live game ${room.pin} socket error:`, error));
+      sendState(room, roomSocket, standings(room));
+    });
+  });
+
+  const cleanup = setInterval(() => {
+    const idleSince = Date.now() - ROOM_IDLE_MS;
+    rooms.forEach(room => {
+      if (room.lastActivity < idleSince) {
+        closeRoom(room);
+      } else {
+        closeLiveRoomIfQuizGone(room).catch(error => {
+          console.error(`Error checking the quiz of live game ${room.pin}:`, error);
+        });
+      }
+    });
+  }, 5 * 60_000);
+  cleanup.unref();
+
+  server.on("close", () => clearInterval(cleanup));
+}
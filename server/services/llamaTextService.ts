@@ -14,6 +14,7 @@ export interface GeneratedQuestion {
   options: [string, string, string, string];
   correctAnswer: string; // Should be one of the options (A, B, C, or D)
   explanation?: string;
+  hint?: string; // Nudge a player can reveal while answering, without giving the answer away
   difficulty: DifficultyLevel;
   topic?: string;
 }
@@ -291,6 +292,7 @@ Return ONLY a valid JSON array. No markdown, no explanations, just the JSON:
     "options": ["Clean option without prefixes", "Second option", "Third option", "Fourth option"],
     "correctAnswer": "A",
     "explanation": "Brief explanation why this answer is correct",
+    "hint": "Short clue that points toward the answer without giving it away",
     "topic": "Main topic of this question"
   }
 ]
@@ -509,7 +511,8 @@ function convertQuestionsFormat(parsedQuestions: any[], difficulty: DifficultyLe
       question: q.question || `Question ${index + 1}`,
       options: [cleanedOptions[0], cleanedOptions[1], cleanedOptions[2], cleanedOptions[3]] as [string, string, string, string],
       correctAnswer: q.correctAnswer || 'A',
-      explanation: q.explanation || 'No explanation provided',
+      explanation: q.explanation || '',
+      hint: q.hint || '',
       difficulty,
       topic: q.topic || 'General Knowledge'
     };
@@ -544,7 +547,7 @@ function extractQuestionsManually(responseText: string, difficulty: DifficultyLe
             question: currentQuestion,
             options: [currentOptions[0] || 'A', currentOptions[1] || 'B', currentOptions[2] || 'C', currentOptions[3] || 'D'] as [string, string, string, string],
             correctAnswer: 'A',
-            explanation: 'Generated from manual extraction',
+            explanation: '',
             difficulty,
             topic: 'Extracted Content'
           });
@@ -568,7 +571,7 @@ function extractQuestionsManually(responseText: string, difficulty: DifficultyLe
         question: currentQuestion,
         options: [currentOptions[0], currentOptions[1], currentOptions[2], currentOptions[3]] as [string, string, string, string],
         correctAnswer: 'A',
-        explanation: 'Generated from manual extraction',
+        explanation: '',
         difficulty,
         topic: 'Extracted Content'
       });
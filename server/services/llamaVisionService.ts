@@ -15,6 +15,7 @@ export interface GeneratedQuestion {
   options: [string, string, string, string];
   correctAnswer: string; // Should be one of the options (A, B, C, or D)
   explanation?: string;
+  hint?: string; // Nudge a player can reveal while answering, without giving the answer away
   difficulty: DifficultyLevel;
   topic?: string;
 }
@@ -274,6 +275,7 @@ FORMAT: Return ONLY a valid JSON array with this exact structure:
     "options": ["Clean option text without A), B), C), D) or A., B., C., D. prefixes", "Another clean option", "Third clean option", "Fourth clean option"],
     "correctAnswer": "B",
     "explanation": "Brief explanation of why this is correct based on the image",
+    "hint": "Short clue that points toward the answer without giving it away",
     "topic": "Main topic/subject visible in the image"
   }
 ]
@@ -346,6 +348,7 @@ Return ONLY a valid JSON array. No markdown, no explanations, just the JSON:
     "options": ["Clean option without prefixes", "Second option", "Third option", "Fourth option"],
     "correctAnswer": "A",
     "explanation": "Brief explanation why this answer is correct",
+    "hint": "Short clue that points toward the answer without giving it away",
     "topic": "Main topic of this question"
   }
 ]
@@ -587,6 +590,7 @@ function convertQuestionsFormat(parsedQuestions: any[], difficulty: DifficultyLe
       options: [cleanedOptions[0], cleanedOptions[1], cleanedOptions[2], cleanedOptions[3]] as [string, string, string, string],
       correctAnswer: q.correctAnswer || 'A',
       explanation: q.explanation || '',
+      hint: q.hint || '',
       difficulty,
       topic: q.topic || ''
     };
@@ -615,7 +619,7 @@ function extractQuestionsManually(responseText: string, difficulty: DifficultyLe
           question: questionText,
           options: ['Option A', 'Option B', 'Option C', 'Option D'] as [string, string, string, string],
           correctAnswer: 'A',
-          explanation: 'Generated from fallback parsing',
+          explanation: '',
           difficulty,
           topic: 'General'
         });
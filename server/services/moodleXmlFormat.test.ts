@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseMoodleXml } from "./moodleXmlFormat";
+
+const quizXml = (questions: string) => `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${questions}\n</quiz>\n`;
+
+describe("parseMoodleXml", () => {
+  it("reads questions written as Moodle's HTML, skipping categories", () => {
+    const entries = parseMoodleXml(quizXml(`
+      <question type="category"><category><text>$course$/Geography</text></category></question>
+      <question type="multichoice">
+        <questiontext format="html"><text><![CDATA[<p>Which city is this?</p><p><img src="https://example.com/paris.jpg"></p>]]></text></questiontext>
+        <generalfeedback format="html"><text>It&apos;s Paris</text></generalfeedback>
+        <defaultgrade>2.0000000</defaultgrade>
+        <single>true</single>
+        <answer fraction="100" format="html"><text>Paris</text></answer>
+        <answer fraction="0" format="html"><text>Rome</text></answer>
+        <hint format="html"><text>It has a tower</text></hint>
+      </question>
+      <question type="truefalse">
+        <questiontext format="moodle_auto_format"><text>The sun is a star</text></questiontext>
+        <answer fraction="100"><text>true</text></answer>
+        <answer fraction="0"><text>false</text></answer>
+      </question>
+      <question type="shortanswer">
+        <questiontext format="html"><text>Name a primary colour</text></questiontext>
+        <answer fraction="100"><text>red</text></answer>
+        <answer fraction="50"><text>pink</text></answer>
+      </question>`));
+
+    expect(entries).toEqual([
+      {
+        location: "Question 1",
+        question: {
+          text: "Which city is this?",
+          type: "multiple-choice",
+          options: ["Paris", "Rome"],
+          correctAnswers: ["Paris"],
+          points: 2,
+          hint: "It has a tower",
+          explanation: "It's Paris",
+          imageUrl: "https://example.com/paris.jpg"
+        }
+      },
+      { location: "Question 2", question: expect.objectContaining({ type: "true-false", correctAnswers: ["True"] }) },
+      { location: "Question 3", question: expect.objectContaining({ type: "open-ended", correctAnswers: ["red"] }) }
+    ]);
+  });
+
+  it("reports questions it can't import and files that aren't Moodle XML", () => {
+    expect(parseMoodleXml(quizXml(`<question type="essay"><questiontext><text>Discuss</text></questiontext></question>`)))
+      .toEqual([{ location: "Question 1", problem: "Moodle essay questions can't be imported" }]);
+    expect(parseMoodleXml("<quiz><question></quiz>"))
+      .toEqual([{ location: "File", problem: expect.stringContaining("Not a valid XML file") }]);
+    expect(parseMoodleXml("<questions/>"))
+      .toEqual([{ location: "File", problem: "Not a Moodle XML file, its root element must be <quiz>" }]);
+  });
+});
@@ -0,0 +1,250 @@
+import { resolveNumericSettings, splitMatchingOptions, TRUE_FALSE_OPTIONS, type Question } from "@shared/schema";
+import { decodeEntities, escapeHtml, htmlToText } from "./htmlText";
+import type { QuizFileEntry } from "./quizTransfer";
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Text and CDATA directly inside the element
+}
+
+// Characters XML 1.0 doesn't allow at all
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+// One piece of XML at a time: CDATA, a comment or declaration, a closing tag, an opening tag, or text
+const XML_TOKEN = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const XML_ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * The root element of an XML document, enough of XML for the files quiz tools write.
+ * Throws when the document isn't well-formed.
+ */
+function parseXml(content: string): XmlElement {
+  const root: XmlElement = { name: "", attributes: {}, children: [], text: "" };
+  const open: XmlElement[] = [root];
+  XML_TOKEN.lastIndex = 0;
+
+  while (XML_TOKEN.lastIndex < content.length) {
+    const at = XML_TOKEN.lastIndex;
+    const token = XML_TOKEN.exec(content);
+    if (!token || token.index !== at) {
+      const line = content.slice(0, at).split("\n").length;
+      throw new Error(`Unexpected "<" on line ${line}`);
+    }
+    const [, cdata, closing, opening, attributes, selfClosing, text] = token;
+    const parent = open[open.length - 1];
+
+    if (cdata !== undefined) {
+      parent.text += cdata;
+    } else if (text !== undefined) {
+      parent.text += decodeEntities(text);
+    } else if (closing !== undefined) {
+      if (closing !== parent.name) throw new Error(`</${closing}> doesn't close <${parent.name || "nothing"}>`);
+      open.pop();
+    } else if (opening !== undefined) {
+      const element: XmlElement = { name: opening, attributes: {}, children: [], text: "" };
+      for (const [, name, doubleQuoted, singleQuoted] of Array.from(attributes.matchAll(XML_ATTRIBUTE))) {
+        element.attributes[name] = decodeEntities(doubleQuoted ?? singleQuoted);
+      }
+      parent.children.push(element);
+      if (!selfClosing) open.push(element);
+    }
+  }
+
+  if (open.length > 1) throw new Error(`<${open[open.length - 1].name}> is never closed`);
+  if (root.children.length !== 1) throw new Error("There must be exactly one root element");
+  return root.children[0];
+}
+
+const child = (element: XmlElement | undefined, name: string) => element?.children.find(c => c.name === name);
+const childrenNamed = (element: XmlElement, name: string) => element.children.filter(c => c.name === name);
+
+// Moodle keeps text in a <text> element, as HTML when the parent says format="html"
+function readText(element: XmlElement | undefined): { text: string; imageUrl: string | null } {
+  const raw = child(element, "text")?.text ?? element?.text ?? "";
+  return element?.attributes.format === "html" ? htmlToText(raw) : { text: raw.trim(), imageUrl: null };
+}
+
+function fraction(answer: XmlElement): number {
+  const value = parseFloat(answer.attributes.fraction ?? "0");
+  return Number.isFinite(value) ? value : 0;
+}
+
+function answerFields(question: XmlElement, type: string): Record<string, unknown> | string {
+  const answers = childrenNamed(question, "answer").map(answer => ({ text: readText(answer).text, fraction: fraction(answer) }));
+
+  switch (type) {
+    case "multichoice": {
+      const single = /^(true|1)$/i.test(child(question, "single")?.text.trim() ?? "true");
+      const options = answers.map(answer => answer.text);
+      if (single) {
+        const right = answers.filter(answer => answer.fraction === 100);
+        if (right.length !== 1) return "Single-answer questions need exactly one answer worth the full mark";
+        return { type: "multiple-choice", options, correctAnswers: [right[0].text] };
+      }
+      return { type: "multi-select", options, correctAnswers: answers.filter(answer => answer.fraction > 0).map(answer => answer.text) };
+    }
+    case "truefalse": {
+      const right = answers.find(answer => answer.fraction === 100);
+      if (!right) return "Neither true nor false is marked correct";
+      const isTrue = right.text.toLowerCase() === "true";
+      return { type: "true-false", options: [...TRUE_FALSE_OPTIONS], correctAnswers: [TRUE_FALSE_OPTIONS[isTrue ? 0 : 1]] };
+    }
+    case "shortanswer":
+      // Answers worth partial credit are left out
+      return { type: "open-ended", options: [], correctAnswers: answers.filter(answer => answer.fraction === 100).map(answer => answer.text) };
+    case "numerical": {
+      const right = childrenNamed(question, "answer").find(answer => fraction(answer) === 100 && readText(answer).text !== "*");
+      if (!right) return "No number is marked correct";
+      const tolerance = parseFloat(child(right, "tolerance")?.text ?? "0");
+      // Only the unit the answer is given in carries over, other units Moodle converts from are left out
+      const unit = childrenNamed(child(question, "units") ?? question, "unit")
+        .find(u => parseFloat(child(u, "multiplier")?.text ?? "1") === 1);
+      return {
+        type: "numeric",
+        options: [],
+        correctAnswers: [readText(right).text],
+        numericSettings: {
+          tolerance: Number.isFinite(tolerance) ? Math.abs(tolerance) : 0,
+          unit: unit ? child(unit, "unit_name")?.text.trim() || undefined : undefined
+        }
+      };
+    }
+    case "matching": {
+      const pairs = childrenNamed(question, "subquestion").map(subquestion => ({
+        prompt: readText(subquestion).text,
+        match: readText(child(subquestion, "answer")).text
+      }));
+      if (pairs.some(pair => !pair.prompt)) return "Extra wrong matches without a prompt can't be imported";
+      const matches = pairs.map(pair => pair.match);
+      return { type: "matching", options: [...pairs.map(pair => pair.prompt), ...matches], correctAnswers: matches };
+    }
+    case "ordering": {
+      // The fraction of each item is its place in the right order
+      const items = answers.map((answer, index) => ({ ...answer, index }))
+        .sort((a, b) => a.fraction - b.fraction || a.index - b.index)
+        .map(answer => answer.text);
+      return { type: "ordering", options: items, correctAnswers: items };
+    }
+    default:
+      return `Moodle ${type} questions can't be imported`;
+  }
+}
+
+function parseQuestion(question: XmlElement, type: string): Record<string, unknown> | string {
+  const fields = answerFields(question, type);
+  if (typeof fields === "string") return fields;
+
+  const { text, imageUrl } = readText(child(question, "questiontext"));
+  const grade = parseFloat(child(question, "defaultgrade")?.text ?? "1");
+  const hint = child(question, "hint");
+  return {
+    text,
+    ...fields,
+    points: Number.isFinite(grade) ? Math.max(1, Math.round(grade)) : 1,
+    hint: hint ? readText(hint).text || null : null,
+    explanation: readText(child(question, "generalfeedback")).text || null,
+    imageUrl
+  };
+}
+
+/**
+ * Questions of a Moodle XML file, located by their number among the file's questions. Categories are skipped.
+ */
+export function parseMoodleXml(content: string): QuizFileEntry[] {
+  let quiz: XmlElement;
+  try {
+    quiz = parseXml(content);
+  } catch (error) {
+    return [{ location: "File", problem: `Not a valid XML file: ${(error as Error).message}` }];
+  }
+  if (quiz.name !== "quiz") {
+    return [{ location: "File", problem: "Not a Moodle XML file, its root element must be <quiz>" }];
+  }
+
+  return childrenNamed(quiz, "question")
+    .filter(question => question.attributes.type !== "category")
+    .map((question, index) => {
+      const parsed = parseQuestion(question, question.attributes.type ?? "");
+      const location = `Question ${index + 1}`;
+      return typeof parsed === "string" ? { location, problem: parsed } : { location, question: parsed };
+    });
+}
+
+const cdata = (text: string) => `<![CDATA[${text.replace(INVALID_XML_CHARS, "").replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+
+// Text as Moodle's HTML, in the given element
+const htmlText = (name: string, text: string, attributes = "") =>
+  `<${name}${attributes} format="html"><text>${cdata(escapeHtml(text).replace(/\r?\n/g, "<br>"))}</text></${name}>`;
+
+function answersXml(question: Question): string[] {
+  const options = question.options as string[];
+  const correctAnswers = question.correctAnswers as string[];
+  const answer = (grade: number, text: string) => htmlText("answer", text, ` fraction="${Number(grade.toFixed(5))}"`);
+
+  switch (question.type) {
+    case "true-false":
+      return TRUE_FALSE_OPTIONS.map(option =>
+        `<answer fraction="${correctAnswers.includes(option) ? 100 : 0}" format="moodle_auto_format"><text>${option.toLowerCase()}</text></answer>`);
+    case "open-ended":
+      return ["<usecase>0</usecase>", ...correctAnswers.map(accepted => answer(100, accepted))];
+    case "numeric": {
+      const { unit, tolerance } = resolveNumericSettings(question.numericSettings);
+      return [
+        `<answer fraction="100" format="moodle_auto_format"><text>${cdata(correctAnswers[0] ?? "")}</text><tolerance>${tolerance}</tolerance></answer>`,
+        ...(unit ? [`<units><unit><multiplier>1</multiplier><unit_name>${cdata(unit)}</unit_name></unit></units>`, "<unitgradingtype>0</unitgradingtype>"] : [])
+      ];
+    }
+    case "matching": {
+      const { prompts } = splitMatchingOptions(options);
+      return ["<shuffleanswers>true</shuffleanswers>", ...prompts.map((prompt, i) =>
+        `<subquestion format="html"><text>${cdata(escapeHtml(prompt))}</text><answer><text>${cdata(correctAnswers[i] ?? "")}</text></answer></subquestion>`)];
+    }
+    case "ordering":
+      return [
+        "<layouttype>VERTICAL</layouttype>", "<selecttype>ALL</selecttype>", "<gradingtype>ABSOLUTE_POSITION</gradingtype>",
+        ...correctAnswers.map((item, i) => answer(i + 1, item))
+      ];
+    case "multi-select": {
+      const wrongCount = options.length - correctAnswers.length;
+      return ["<single>false</single>", "<shuffleanswers>true</shuffleanswers>", ...options.map(option =>
+        answer(correctAnswers.includes(option) ? 100 / correctAnswers.length : -100 / wrongCount, option))];
+    }
+    default:
+      return ["<single>true</single>", "<shuffleanswers>true</shuffleanswers>", ...options.map(option =>
+        answer(correctAnswers.includes(option) ? 100 : 0, option))];
+  }
+}
+
+const MOODLE_TYPES: Record<string, string> = {
+  "multiple-choice": "multichoice",
+  "multi-select": "multichoice",
+  "true-false": "truefalse",
+  "open-ended": "shortanswer",
+  numeric: "numerical",
+  matching: "matching",
+  ordering: "ordering"
+};
+
+/**
+ * The questions as a Moodle XML file. Time limits and answer slider ranges have nowhere to go;
+ * ordering questions need Moodle's ordering question plugin.
+ */
+export function writeMoodleXml(questions: Question[]): string {
+  const questionsXml = questions.map((question, index) => {
+    const image = question.imageUrl ? `<p><img src="${escapeHtml(question.imageUrl)}" alt=""></p>` : "";
+    return [
+      `  <question type="${MOODLE_TYPES[question.type] ?? "multichoice"}">`,
+      `    <name><text>Q${index + 1}</text></name>`,
+      `    <questiontext format="html"><text>${cdata(`<p>${escapeHtml(question.text).replace(/\r?\n/g, "<br>")}</p>${image}`)}</text></questiontext>`,
+      `    ${htmlText("generalfeedback", question.explanation ?? "")}`,
+      `    <defaultgrade>${question.points}</defaultgrade>`,
+      ...answersXml(question).map(line => `    ${line}`),
+      ...(question.hint ? [`    ${htmlText("hint", question.hint)}`] : []),
+      "  </question>"
+    ].join("\n");
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${questionsXml.join("\n")}\n</quiz>\n`;
+}
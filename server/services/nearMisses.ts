@@ -0,0 +1,85 @@
+import type { NearMissAnswer, Question, QuizAttempt } from "@shared/schema";
+import { matchTypedAnswer, normalizeTypedAnswer } from "./answerMatching";
+import { answerCredit, answerPoints, type GradedAnswer, type GradingOptions } from "./grading";
+import type { RescoredAttempt } from "../storage";
+
+// Rejected answers within this many typos of an accepted answer (or a third of its length, if more) are near misses
+const NEAR_MISS_MIN_DISTANCE = 2;
+
+function isNearMiss(answer: string, distance: number): boolean {
+  return distance <= Math.max(NEAR_MISS_MIN_DISTANCE, Math.ceil(answer.length / 3));
+}
+
+function typedAnswer(userAnswer: string | string[]): string {
+  return Array.isArray(userAnswer) ? userAnswer.join(" ") : userAnswer;
+}
+
+/**
+ * Rejected answers to open-ended questions that came close to an accepted answer, most frequent first
+ */
+export function findNearMisses(questions: Question[], attempts: QuizAttempt[], options: GradingOptions): NearMissAnswer[] {
+  const nearMisses: NearMissAnswer[] = [];
+
+  for (const question of questions) {
+    if (question.type !== "open-ended") continue;
+
+    const byNormalized = new Map<string, NearMissAnswer>();
+    for (const attempt of attempts) {
+      const answer = (attempt.answers as GradedAnswer[]).find(a => a.questionId === question.id);
+      if (!answer || answer.isCorrect || answer.timedOut) continue;
+
+      const typed = typedAnswer(answer.userAnswer).trim();
+      const normalized = normalizeTypedAnswer(typed);
+      if (!normalized) continue;
+
+      const existing = byNormalized.get(normalized);
+      if (existing) {
+        existing.count++;
+        continue;
+      }
+
+      const { matched, distance } = matchTypedAnswer(typed, question.correctAnswers as string[], options);
+      if (!matched && isNearMiss(normalized, distance)) {
+        byNormalized.set(normalized, { questionId: question.id, questionText: question.text, answer: typed, count: 1, distance });
+      }
+    }
+    nearMisses.push(...Array.from(byNormalized.values()));
+  }
+
+  return nearMisses.sort((a, b) => b.count - a.count || a.distance - b.distance);
+}
+
+/**
+ * Regrade one question in every attempt after its accepted answers changed.
+ * Only attempts whose score actually changes are returned.
+ */
+export function rescoreAttempts(question: Question, attempts: QuizAttempt[], options: GradingOptions): RescoredAttempt[] {
+  const rescored: RescoredAttempt[] = [];
+
+  for (const attempt of attempts) {
+    const answers = attempt.answers as GradedAnswer[];
+    const index = answers.findIndex(a => a.questionId === question.id);
+    if (index === -1) continue;
+
+    const previous = answers[index];
+    if (previous.timedOut || previous.skipped) continue; // Earns nothing, whatever it said
+    // Attempts graded before per-answer credit was stored only have isCorrect, and
+    // attempts from before points were stored earned one point per right answer
+    const previousCredit = previous.credit ?? (previous.isCorrect ? 1 : 0);
+    const previousPoints = previous.points ?? previousCredit;
+    const credit = answerCredit(question, previous.userAnswer, options);
+    if (credit === previousCredit) continue;
+
+    const points = answerPoints(question, credit, previous, options);
+    const updatedAnswers = [...answers];
+    updatedAnswers[index] = { ...previous, isCorrect: credit === 1, credit, points };
+    rescored.push({
+      id: attempt.id,
+      score: Math.round((attempt.score - previousCredit + credit) * 100) / 100,
+      points: Math.round((attempt.points - previousPoints + points) * 100) / 100,
+      answers: updatedAnswers
+    });
+  }
+
+  return rescored;
+}
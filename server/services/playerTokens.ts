@@ -0,0 +1,59 @@
+import jwt from "jsonwebtoken";
+import { randomBytes, randomUUID } from "crypto";
+
+// Signed with the same secret as admin tokens; issuer and audience keep the two apart
+const DEFAULT_JWT_SECRET = 'your-secure-jwt-secret-change-this';
+
+// The default secret is public, so it is never used to sign player tokens. Production refuses to start
+// without a real one; elsewhere a random one is drawn, and tokens stop working when the server restarts.
+function playerTokenSecret(): string {
+  const configured = process.env.JWT_SECRET;
+  if (configured && configured !== DEFAULT_JWT_SECRET) return configured;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set: players need tokens signed with it to take quizzes');
+  }
+  console.warn('⚠️ JWT_SECRET is not set - player tokens are signed with a random secret until the server restarts');
+  return randomBytes(32).toString('hex');
+}
+
+const PLAYER_TOKEN_SECRET = playerTokenSecret();
+const PLAYER_TOKEN_ISSUER = 'qzonme-player';
+const PLAYER_TOKEN_AUDIENCE = 'qzonme-api';
+// Renewed whenever the player enters their name, so only devices that stop playing lose their ID
+const PLAYER_TOKEN_LIFETIME = '30d';
+
+// Why a player without a valid token is turned away from a quiz
+export const PLAYER_TOKEN_REQUIRED = "We couldn't tell who you are. Enter your name again to join this quiz.";
+
+// Request header players send their token in when reading back their own attempts
+export const PLAYER_TOKEN_HEADER = 'X-Player-Token';
+
+/**
+ * Token a device keeps to be recognised as the same player across quizzes. A player whose token
+ * expired or who clears their browser simply becomes a new one.
+ */
+export function issuePlayerToken(playerId: string = randomUUID()): string {
+  return jwt.sign({ sub: playerId }, PLAYER_TOKEN_SECRET, {
+    algorithm: 'HS256',
+    issuer: PLAYER_TOKEN_ISSUER,
+    audience: PLAYER_TOKEN_AUDIENCE,
+    expiresIn: PLAYER_TOKEN_LIFETIME
+  });
+}
+
+/**
+ * Player ID of an unexpired token this server signed, or null for anything else
+ */
+export function verifyPlayerToken(token: string | undefined): string | null {
+  if (!token) return null;
+  try {
+    const decoded = jwt.verify(token, PLAYER_TOKEN_SECRET, {
+      algorithms: ['HS256'],
+      issuer: PLAYER_TOKEN_ISSUER,
+      audience: PLAYER_TOKEN_AUDIENCE
+    });
+    return typeof decoded === 'object' && typeof decoded.sub === 'string' ? decoded.sub : null;
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,82 @@
+import { randomInt } from "crypto";
+import {
+  resolveQuizSettings,
+  type Quiz,
+  type Question,
+  type QuizAttempt,
+  type PlayerQuestion,
+  type PublicQuiz,
+  type LeaderboardAttempt,
+  type ReviewQuestion,
+  type AttemptShuffle
+} from "@shared/schema";
+
+/**
+ * Quiz as seen by anyone without the dashboard token
+ */
+export function toPublicQuiz(quiz: Quiz): PublicQuiz {
+  const { dashboardToken, ...publicQuiz } = quiz;
+  return publicQuiz;
+}
+
+/**
+ * Question as seen by a player while taking the quiz - no answers or explanations, and only
+ * whether it has a hint
+ */
+export function toPlayerQuestion(question: Question): PlayerQuestion {
+  const { correctAnswers, hint, explanation, ...playerQuestion } = question;
+  return { ...playerQuestion, hasHint: !!hint };
+}
+
+/**
+ * Shuffle for a player starting the quiz now, drawn from a fresh seed; null when the quiz doesn't shuffle
+ */
+export function drawAttemptShuffle(quiz: Quiz): AttemptShuffle | null {
+  const { shuffleQuestions, shuffleOptions } = resolveQuizSettings(quiz.settings);
+  if (!shuffleQuestions && !shuffleOptions) return null;
+  return { seed: randomInt(2 ** 31), questions: shuffleQuestions, options: shuffleOptions };
+}
+
+/**
+ * Question as seen by a player after submitting, according to the quiz's reveal policy
+ */
+export function toReviewQuestion(question: Question, quiz: Quiz): ReviewQuestion {
+  const { answerReveal } = resolveQuizSettings(quiz.settings);
+  const playerQuestion = toPlayerQuestion(question);
+
+  if (answerReveal !== "after-submit") {
+    return playerQuestion;
+  }
+
+  return {
+    ...playerQuestion,
+    correctAnswers: question.correctAnswers as string[],
+    explanation: question.explanation
+  };
+}
+
+/**
+ * Attempt as shown on the public leaderboard - individual answers are left out
+ * since they would reveal the correct answers to other players, and the player ID
+ * since it would link a player's attempts across quizzes
+ */
+export function toLeaderboardAttempt(attempt: QuizAttempt): LeaderboardAttempt {
+  const { answers, playerId, ...leaderboardAttempt } = attempt;
+  return leaderboardAttempt;
+}
+
+/**
+ * A player's own attempt; per-answer correctness is hidden when the creator reveals nothing
+ */
+export function toPlayerAttempt(attempt: QuizAttempt, quiz: Quiz): QuizAttempt {
+  const { answerReveal } = resolveQuizSettings(quiz.settings);
+
+  if (answerReveal !== "never") {
+    return attempt;
+  }
+
+  const answers = (attempt.answers as { questionId: number; userAnswer: string | string[] }[])
+    .map(({ questionId, userAnswer }) => ({ questionId, userAnswer }));
+
+  return { ...attempt, answers };
+}
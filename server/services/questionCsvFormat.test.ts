@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import type { Question } from "@shared/schema";
+import { parseQuestionCsv, writeQuestionCsv } from "./questionCsvFormat";
+
+describe("parseQuestionCsv", () => {
+  it("works out the type from the options when the column is left out", () => {
+    const entries = parseQuestionCsv([
+      "Text,Options,Correct Answers,Points",
+      "Capital of France?,Paris|London|Rome,Paris,2",
+      "Pick the primes,2|3|4,2|3,",
+      "Name a primary colour,,red|blue,"
+    ].join("\n"));
+
+    expect(entries.map(entry => entry.location)).toEqual(["Line 2", "Line 3", "Line 4"]);
+    expect(entries.map(entry => "question" in entry && entry.question.type))
+      .toEqual(["multiple-choice", "multi-select", "open-ended"]);
+    expect(entries[0]).toMatchObject({ question: { options: ["Paris", "London", "Rome"], correctAnswers: ["Paris"], points: 2 } });
+    expect(entries[1]).toMatchObject({ question: { points: undefined } });
+  });
+
+  it("reads true/false in any case, escaped pipes and numeric settings", () => {
+    const entries = parseQuestionCsv([
+      "type,text,options,correct_answers,numeric_unit,numeric_tolerance",
+      "true-false,The sun is a star,,TRUE,,",
+      'multiple-choice,"Which is a pipe, | or /?",\\||/,\\|,,',
+      "numeric,Height of Everest,,8849,m,10"
+    ].join("\n"));
+
+    expect(entries[0]).toMatchObject({ question: { options: ["True", "False"], correctAnswers: ["True"] } });
+    expect(entries[1]).toMatchObject({ question: { text: "Which is a pipe, | or /?", options: ["|", "/"], correctAnswers: ["|"] } });
+    expect(entries[2]).toMatchObject({ question: { correctAnswers: ["8849"], numericSettings: { unit: "m", tolerance: 10 } } });
+  });
+
+  it("needs the text and correct answers columns", () => {
+    expect(parseQuestionCsv("question,answer\nA,B")).toEqual([
+      { location: "Line 1", problem: "The header row has no text or correct_answers column" }
+    ]);
+  });
+});
+
+describe("writeQuestionCsv", () => {
+  it("writes rows parseQuestionCsv reads back", () => {
+    const question = {
+      text: 'Say "hi", please',
+      type: "open-ended",
+      options: [],
+      correctAnswers: ["hi", "a|b"],
+      numericSettings: null,
+      points: 1,
+      timeLimitSeconds: 20,
+      hint: null,
+      explanation: "Line one\nLine two",
+      imageUrl: null
+    } as unknown as Question;
+
+    const [entry] = parseQuestionCsv(writeQuestionCsv([question]).replace(/^\uFEFF/, ""));
+
+    expect(entry).toMatchObject({
+      question: {
+        text: 'Say "hi", please',
+        type: "open-ended",
+        correctAnswers: ["hi", "a|b"],
+        timeLimitSeconds: 20,
+        explanation: "Line one\nLine two"
+      }
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { resolveNumericSettings, splitMatchingOptions, TRUE_FALSE_OPTIONS, type Question } from "@shared/schema";
+import { fromCsvCell, parseCsv, toCsvCell } from "./csv";
+import type { QuizFileEntry } from "./quizTransfer";
+
+// Header of a question CSV file. Only text and correct_answers are required; the columns can come in any order.
+const CSV_COLUMNS = [
+  "type", "text", "options", "correct_answers", "points", "time_limit_seconds", "hint", "explanation",
+  "image_url", "numeric_unit", "numeric_tolerance", "numeric_min", "numeric_max"
+] as const;
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+// Lists in a cell are separated with |, written as \| inside an item
+function splitList(cell: string): string[] {
+  if (cell.trim() === "") return [];
+  const items = [""];
+  for (let i = 0; i < cell.length; i++) {
+    if (cell[i] === "\\" && i + 1 < cell.length) {
+      items[items.length - 1] += cell[++i];
+    } else if (cell[i] === "|") {
+      items.push("");
+    } else {
+      items[items.length - 1] += cell[i];
+    }
+  }
+  return items.map(item => item.trim());
+}
+
+const joinList = (items: string[]) => items.map(item => item.replace(/[\\|]/g, "\\$&")).join("|");
+
+// Blank numbers are left out; anything else that isn't a number is caught by validation
+const numberCell = (cell: string) => cell.trim() === "" ? undefined : Number(cell);
+
+function parseRow(cell: (column: CsvColumn) => string): Record<string, unknown> {
+  const options = splitList(cell("options"));
+  const correctAnswers = splitList(cell("correct_answers"));
+  // Without a type, a row with options is a multiple choice (or multi-select) question and one without is typed
+  const type = cell("type").trim().toLowerCase()
+    || (options.length === 0 ? "open-ended" : correctAnswers.length > 1 ? "multi-select" : "multiple-choice");
+
+  const fields: Record<string, unknown> = { type, options, correctAnswers };
+  if (type === "true-false") {
+    // Accepts true/false in any case, and the options can be left out
+    fields.options = options.length > 0 ? options : [...TRUE_FALSE_OPTIONS];
+    fields.correctAnswers = correctAnswers.map(answer =>
+      TRUE_FALSE_OPTIONS.find(option => option.toLowerCase() === answer.toLowerCase()) ?? answer);
+  } else if (type === "ordering") {
+    // Items in the right order; players get them shuffled
+    fields.options = correctAnswers;
+  } else if (type === "matching") {
+    // The options are the prompts and the correct answers their matches, in the same order
+    fields.options = [...options, ...correctAnswers];
+  } else if (type === "numeric") {
+    const settings = {
+      unit: cell("numeric_unit").trim() || undefined,
+      tolerance: numberCell(cell("numeric_tolerance")),
+      min: numberCell(cell("numeric_min")),
+      max: numberCell(cell("numeric_max"))
+    };
+    fields.numericSettings = Object.values(settings).some(value => value !== undefined) ? settings : null;
+  }
+
+  return {
+    ...fields,
+    text: cell("text"),
+    points: numberCell(cell("points")),
+    timeLimitSeconds: numberCell(cell("time_limit_seconds")) ?? null,
+    hint: cell("hint").trim() || null,
+    explanation: cell("explanation").trim() || null,
+    imageUrl: cell("image_url").trim() || null
+  };
+}
+
+/**
+ * Questions of a CSV file with a header row, one question per row, located by the line the row starts on
+ */
+export function parseQuestionCsv(content: string): QuizFileEntry[] {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+
+  const columns = header.cells.map(name => name.trim().toLowerCase().replace(/[\s-]+/g, "_"));
+  const missing = ["text", "correct_answers"].filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    return [{ location: `Line ${header.line}`, problem: `The header row has no ${missing.join(" or ")} column` }];
+  }
+
+  return rows.map(row => {
+    const cell = (column: CsvColumn) => {
+      const index = columns.indexOf(column);
+      return index >= 0 ? fromCsvCell(row.cells[index] ?? "") : "";
+    };
+    return { location: `Line ${row.line}`, question: parseRow(cell) };
+  });
+}
+
+/**
+ * The questions as CSV in the format parseQuestionCsv reads, with a byte order mark for spreadsheet apps
+ */
+export function writeQuestionCsv(questions: Question[]): string {
+  const rows = questions.map(question => {
+    const options = question.options as string[];
+    const correctAnswers = question.correctAnswers as string[];
+    const numeric = question.type === "numeric" ? resolveNumericSettings(question.numericSettings) : null;
+    const listedOptions = question.type === "ordering" ? []
+      : question.type === "matching" ? splitMatchingOptions(options).prompts
+      : options;
+
+    return [
+      question.type,
+      question.text,
+      joinList(listedOptions),
+      joinList(correctAnswers),
+      question.points,
+      question.timeLimitSeconds,
+      question.hint,
+      question.explanation,
+      question.imageUrl,
+      numeric?.unit ?? null,
+      numeric?.tolerance ?? null,
+      numeric?.min ?? null,
+      numeric?.max ?? null
+    ].map(toCsvCell).join(",");
+  });
+
+  return "\uFEFF" + [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
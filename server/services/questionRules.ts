@@ -0,0 +1,104 @@
+import { MAX_ARRANGE_ITEMS, numericSettingsSchema, splitMatchingOptions, TRUE_FALSE_OPTIONS } from "@shared/schema";
+import { parseNumericAnswer } from "./grading";
+
+interface QuestionAnswerFields {
+  type: string;
+  options: unknown;
+  correctAnswers: unknown;
+  numericSettings?: unknown;
+}
+
+// Whether two lists hold the same items, in any order
+function sameItems(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join("\n") === [...b].sort().join("\n");
+}
+
+function hasDuplicates(items: string[]): boolean {
+  return new Set(items).size !== items.length;
+}
+
+function numericProblem(options: string[], correctAnswers: string[], numericSettings: unknown): string | null {
+  if (options.length > 0) {
+    return "Numeric questions cannot have options";
+  }
+
+  const target = correctAnswers.length === 1 ? parseNumericAnswer(correctAnswers[0]) : null;
+  if (target === null) {
+    return "Numeric questions need a single number as the correct answer";
+  }
+
+  const settings = numericSettingsSchema.safeParse(numericSettings ?? {});
+  if (!settings.success) {
+    return "Invalid numeric settings";
+  }
+
+  const { min, max } = settings.data;
+  if ((min === undefined) !== (max === undefined)) {
+    return "The answer slider needs both a minimum and a maximum";
+  }
+  if (min !== undefined && max !== undefined && !(min < max && min <= target && target <= max)) {
+    return "The answer slider range must include the correct answer";
+  }
+
+  return null;
+}
+
+/**
+ * Why the options and correct answers of a question don't work for its type, or null if they do
+ */
+export function questionContentProblem(question: QuestionAnswerFields): string | null {
+  const options = question.options as string[];
+  const correctAnswers = question.correctAnswers as string[];
+
+  if (question.type !== "numeric") {
+    if (question.numericSettings) return "Only numeric questions can have numeric settings";
+  } else {
+    return numericProblem(options, correctAnswers, question.numericSettings);
+  }
+
+  // Players type the answer, so there is nothing to choose from
+  if (question.type === "open-ended") {
+    return options.length === 0 ? null : "Open-ended questions cannot have options";
+  }
+
+  if (question.type === "ordering") {
+    if (options.length < 2 || options.length > MAX_ARRANGE_ITEMS) {
+      return `Ordering questions need between 2 and ${MAX_ARRANGE_ITEMS} items`;
+    }
+    if (hasDuplicates(options)) {
+      return "Items to order must all be different";
+    }
+    return sameItems(options, correctAnswers) ? null : "The correct order must contain every item exactly once";
+  }
+
+  if (question.type === "matching") {
+    const { prompts, choices } = splitMatchingOptions(options);
+    if (options.length % 2 !== 0 || prompts.length < 2 || prompts.length > MAX_ARRANGE_ITEMS) {
+      return `Matching questions need between 2 and ${MAX_ARRANGE_ITEMS} pairs`;
+    }
+    if (hasDuplicates(prompts) || hasDuplicates(choices)) {
+      return "Every prompt and every match must be different";
+    }
+    return sameItems(choices, correctAnswers) ? null : "Every prompt needs exactly one of the matches";
+  }
+
+  if (options.length < 2) {
+    return "At least two options are required";
+  }
+
+  // Every correct answer has to be one of the options, otherwise nobody could ever get the question right
+  if (!correctAnswers.every(answer => options.includes(answer))) {
+    return "Correct answers must be among the options";
+  }
+
+  if (question.type === "true-false" &&
+      (options.length !== TRUE_FALSE_OPTIONS.length || options.some((option, i) => option !== TRUE_FALSE_OPTIONS[i]))) {
+    return `True/false questions must have the options ${TRUE_FALSE_OPTIONS.join(" and ")}`;
+  }
+
+  if (question.type !== "multi-select" && correctAnswers.length !== 1) {
+    return "Only multi-select questions can have more than one correct answer";
+  }
+
+  return null;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { Question, QuizAttempt } from "@shared/schema";
+import type { GradedAnswer } from "./grading";
+import { computeQuizAnalytics } from "./quizAnalytics";
+
+const picked = {
+  id: 1,
+  type: "multiple-choice",
+  options: ["Paris", "London", "Rome"],
+  correctAnswers: ["Paris"]
+} as Question;
+const typed = { id: 2, type: "open-ended", options: [], correctAnswers: ["42"] } as unknown as Question;
+
+function answer(questionId: number, userAnswer: unknown, isCorrect: boolean, extra: Partial<GradedAnswer> = {}): GradedAnswer {
+  return { questionId, userAnswer: userAnswer as string, isCorrect, credit: isCorrect ? 1 : 0, points: isCorrect ? 1 : 0, ...extra };
+}
+
+function attempt(score: number, completedAt: string, answers: GradedAnswer[]): QuizAttempt {
+  return { score, totalQuestions: 2, totalTimeMs: null, completedAt: new Date(completedAt), answers } as QuizAttempt;
+}
+
+describe("computeQuizAnalytics", () => {
+  const attempts = [
+    attempt(2, "2026-03-01T10:00:00Z", [
+      answer(1, "Paris", true, { timeMs: 2000 }),
+      // Older attempts stored typed numbers as JSON numbers
+      answer(2, 42, true, { timeMs: 4000 })
+    ]),
+    attempt(1, "2026-03-03T10:00:00Z", [
+      answer(1, "London", false, { hintUsed: true }),
+      answer(2, " 42 ", true)
+    ]),
+    attempt(0, "2026-03-03T11:00:00Z", [
+      answer(1, "", false, { skipped: true }),
+      answer(2, "Forty", false, { timedOut: true })
+    ])
+  ];
+  const analytics = computeQuizAnalytics([picked, typed], attempts);
+
+  it("counts every option of picked questions and leaves skips out", () => {
+    const [first] = analytics.questions;
+
+    expect(first).toMatchObject({ answered: 2, correct: 1, skipped: 1, hintsUsed: 1, averageTimeMs: 2000 });
+    expect(first.answers).toEqual([
+      { answer: "Paris", count: 1, correct: true },
+      { answer: "London", count: 1, correct: false },
+      { answer: "Rome", count: 0, correct: false }
+    ]);
+  });
+
+  it("groups typed answers as text, whatever type they were stored as", () => {
+    const [, second] = analytics.questions;
+
+    expect(second).toMatchObject({ answered: 3, correct: 2, timedOut: 1 });
+    expect(second.answers).toEqual([
+      { answer: "42", count: 2, correct: true },
+      { answer: "Forty", count: 1, correct: false }
+    ]);
+  });
+
+  it("sums up the scores and fills in days without attempts", () => {
+    expect(analytics.attemptCount).toBe(3);
+    expect(analytics.averageScorePercent).toBe(50);
+    expect(analytics.scoreHistogram.map(bucket => bucket.count)).toEqual([1, 0, 0, 0, 0, 1, 0, 0, 0, 1]);
+    expect(analytics.attemptsPerDay).toEqual([
+      { date: "2026-03-01", count: 1 },
+      { date: "2026-03-02", count: 0 },
+      { date: "2026-03-03", count: 2 }
+    ]);
+  });
+
+  it("splits a short quiz's questions between the hardest and the easiest", () => {
+    expect(analytics.hardestQuestionIds).toEqual([1]);
+    expect(analytics.easiestQuestionIds).toEqual([2]);
+  });
+
+  it("is empty without attempts", () => {
+    const empty = computeQuizAnalytics([picked], []);
+
+    expect(empty.attemptCount).toBe(0);
+    expect(empty.averageScorePercent).toBeNull();
+    expect(empty.attemptsPerDay).toEqual([]);
+    expect(empty.hardestQuestionIds).toEqual([]);
+  });
+});
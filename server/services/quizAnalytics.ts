@@ -0,0 +1,130 @@
+import type { AnswerCount, Question, QuestionAnalytics, QuizAnalytics, QuizAttempt, ScoreBucket } from "@shared/schema";
+import type { GradedAnswer } from "./grading";
+
+// Question types answered by picking from the listed options
+const PICKED_TYPES = ["multiple-choice", "true-false", "multi-select"];
+
+// Typed and arranged answers beyond this many different ones are left out of a question's answers
+const MAX_COMMON_ANSWERS = 10;
+// Questions listed as the hardest and as the easiest
+const EXTREME_QUESTIONS = 3;
+const SCORE_BUCKET_PERCENT = 10;
+const DAY_MS = 24 * 60 * 60_000;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+// Answers are compared as text: stored attempts can hold a number or boolean where a typed answer looked like one
+function answerValues(answer: GradedAnswer): string[] {
+  return ([answer.userAnswer] as unknown[]).flat().map(value => String(value ?? ""));
+}
+
+function answerCounts(question: Question, answers: GradedAnswer[]): AnswerCount[] {
+  if (PICKED_TYPES.includes(question.type)) {
+    const correctAnswers = question.correctAnswers as string[];
+    return (question.options as string[]).map(option => ({
+      answer: option,
+      count: answers.filter(answer => answerValues(answer).includes(option)).length,
+      correct: correctAnswers.includes(option)
+    }));
+  }
+
+  // Typed and arranged answers are grouped when they only differ in case and spacing
+  const counts = new Map<string, AnswerCount>();
+  for (const answer of answers) {
+    const values = answerValues(answer);
+    const key = JSON.stringify(values.map(value => value.toLowerCase().trim()));
+    const counted = counts.get(key);
+    if (counted) {
+      counted.count++;
+    } else {
+      counts.set(key, { answer: Array.isArray(answer.userAnswer) ? values : values[0], count: 1, correct: answer.isCorrect });
+    }
+  }
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_COMMON_ANSWERS);
+}
+
+function questionAnalytics(question: Question, attempts: QuizAttempt[]): QuestionAnalytics {
+  const given = attempts.flatMap(attempt =>
+    (attempt.answers as GradedAnswer[]).filter(answer => answer.questionId === question.id)
+  );
+  // Skipped questions were never answered, so they say nothing about how hard the question is
+  const answered = given.filter(answer => !answer.skipped);
+
+  return {
+    questionId: question.id,
+    answered: answered.length,
+    correct: answered.filter(answer => answer.isCorrect).length,
+    skipped: given.length - answered.length,
+    timedOut: answered.filter(answer => answer.timedOut).length,
+    hintsUsed: answered.filter(answer => answer.hintUsed).length,
+    averageTimeMs: average(answered.flatMap(answer => answer.timeMs !== undefined ? [answer.timeMs] : [])),
+    answers: answerCounts(question, answered)
+  };
+}
+
+function scorePercent(attempt: QuizAttempt): number {
+  return attempt.totalQuestions > 0 ? (attempt.score / attempt.totalQuestions) * 100 : 0;
+}
+
+function scoreHistogram(attempts: QuizAttempt[]): ScoreBucket[] {
+  const buckets: ScoreBucket[] = [];
+  for (let fromPercent = 0; fromPercent < 100; fromPercent += SCORE_BUCKET_PERCENT) {
+    buckets.push({ fromPercent, toPercent: fromPercent + SCORE_BUCKET_PERCENT, count: 0 });
+  }
+  for (const attempt of attempts) {
+    const index = Math.min(Math.floor(scorePercent(attempt) / SCORE_BUCKET_PERCENT), buckets.length - 1);
+    buckets[Math.max(index, 0)].count++;
+  }
+  return buckets;
+}
+
+// Days without attempts are filled in, so the chart's time axis stays even
+function attemptsPerDay(attempts: QuizAttempt[]): QuizAnalytics["attemptsPerDay"] {
+  if (attempts.length === 0) return [];
+
+  const counts = new Map<number, number>();
+  for (const attempt of attempts) {
+    const day = Math.floor(new Date(attempt.completedAt).getTime() / DAY_MS);
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  }
+
+  const days = Array.from(counts.keys());
+  const perDay: QuizAnalytics["attemptsPerDay"] = [];
+  for (let day = Math.min(...days); day <= Math.max(...days); day++) {
+    perDay.push({ date: new Date(day * DAY_MS).toISOString().slice(0, 10), count: counts.get(day) ?? 0 });
+  }
+  return perDay;
+}
+
+/**
+ * How a quiz went across all the given attempts: per question, overall scores and when it was played
+ */
+export function computeQuizAnalytics(questions: Question[], attempts: QuizAttempt[]): QuizAnalytics {
+  const perQuestion = questions.map(question => questionAnalytics(question, attempts));
+
+  const byCorrectRate = perQuestion
+    .filter(question => question.answered > 0)
+    .map(question => ({ questionId: question.questionId, rate: question.correct / question.answered }))
+    .sort((a, b) => a.rate - b.rate);
+  // Short quizzes are split in two, so no question is both among the hardest and the easiest
+  const hardestQuestionIds = byCorrectRate
+    .slice(0, Math.min(EXTREME_QUESTIONS, Math.ceil(byCorrectRate.length / 2)))
+    .map(question => question.questionId);
+  const easiestQuestionIds = byCorrectRate.reverse()
+    .slice(0, Math.min(EXTREME_QUESTIONS, Math.floor(byCorrectRate.length / 2)))
+    .map(question => question.questionId);
+
+  return {
+    attemptCount: attempts.length,
+    averageScorePercent: average(attempts.map(scorePercent)),
+    averageTimeMs: average(attempts.flatMap(attempt => attempt.totalTimeMs !== null ? [attempt.totalTimeMs] : [])),
+    questions: perQuestion,
+    hardestQuestionIds,
+    easiestQuestionIds,
+    scoreHistogram: scoreHistogram(attempts),
+    attemptsPerDay: attemptsPerDay(attempts)
+  };
+}
@@ -0,0 +1,53 @@
+import { randomBytes, randomInt, randomUUID } from "crypto";
+
+export interface QuizIdentifiers {
+  accessCode: string;
+  urlSlug: string;
+  dashboardToken: string;
+}
+
+const ACCESS_CODE_CHARS = "abcdefghijklmnopqrstuvwxyz0123456789";
+const ACCESS_CODE_LENGTH = 8;
+const SLUG_NAME_MAX_LENGTH = 15;
+
+function randomString(length: number): string {
+  let result = "";
+  for (let i = 0; i < length; i++) {
+    result += ACCESS_CODE_CHARS.charAt(randomInt(ACCESS_CODE_CHARS.length));
+  }
+  return result;
+}
+
+/**
+ * 8 character lowercase alphanumeric code players can type in
+ */
+export function generateAccessCode(): string {
+  return randomString(ACCESS_CODE_LENGTH);
+}
+
+/**
+ * Shareable slug built from the creator's name, e.g. "john-k3f90412"
+ */
+export function generateUrlSlug(creatorName: string): string {
+  const cleanName = creatorName
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "")
+    .substring(0, SLUG_NAME_MAX_LENGTH) || "quiz";
+
+  return `${cleanName}-${randomString(4)}${randomInt(10000).toString().padStart(4, "0")}`;
+}
+
+/**
+ * Unguessable token that grants access to the creator dashboard
+ */
+export function generateDashboardToken(): string {
+  return `${randomUUID()}-${randomBytes(8).toString("hex")}`;
+}
+
+export function generateQuizIdentifiers(creatorName: string): QuizIdentifiers {
+  return {
+    accessCode: generateAccessCode(),
+    urlSlug: generateUrlSlug(creatorName),
+    dashboardToken: generateDashboardToken()
+  };
+}
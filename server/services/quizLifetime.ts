@@ -0,0 +1,52 @@
+import type { Quiz, QuizLifetimeBounds } from "@shared/schema";
+import { QUIZ_LIFETIME_CONFIG } from "../config/quizLifetime";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getQuizLifetimeBounds(): QuizLifetimeBounds {
+  return {
+    minDays: QUIZ_LIFETIME_CONFIG.MIN_DAYS,
+    maxDays: QUIZ_LIFETIME_CONFIG.MAX_DAYS,
+    defaultDays: QUIZ_LIFETIME_CONFIG.DEFAULT_DAYS
+  };
+}
+
+export function isAllowedLifetime(days: number): boolean {
+  return Number.isInteger(days) && days >= QUIZ_LIFETIME_CONFIG.MIN_DAYS && days <= QUIZ_LIFETIME_CONFIG.MAX_DAYS;
+}
+
+/**
+ * Expiry date for a quiz published now that should live for the given number of days
+ */
+export function expiresAfterDays(days: number = QUIZ_LIFETIME_CONFIG.DEFAULT_DAYS, from: Date = new Date()): Date {
+  return new Date(from.getTime() + days * DAY_MS);
+}
+
+/**
+ * New expiry date when extending by the given number of days, counted from today for a quiz
+ * that has already expired. A quiz never runs for more than the maximum lifetime counted from today.
+ */
+export function extendedExpiry(quiz: Quiz, days: number, now: Date = new Date()): Date {
+  const latestAllowed = expiresAfterDays(QUIZ_LIFETIME_CONFIG.MAX_DAYS, now);
+  const from = Math.max(new Date(quiz.expiresAt).getTime(), now.getTime());
+  const extended = new Date(from + days * DAY_MS);
+  return extended > latestAllowed ? latestAllowed : extended;
+}
+
+/**
+ * Body of the 410 response sent for any lookup of an expired quiz
+ */
+export function quizExpiredResponse(quiz: Quiz) {
+  const expiredOn = new Date(quiz.expiresAt).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric"
+  });
+
+  return {
+    message: "Quiz expired",
+    expired: true,
+    expiresAt: quiz.expiresAt,
+    detail: `This quiz expired on ${expiredOn} and is no longer available.`
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type { ImportedQuestion, Question, Quiz, QuizFileFormat } from "@shared/schema";
+import { parseQuizFile, writeQuizFile } from "./quizTransfer";
+
+const quiz = { creatorName: "Sam" } as Quiz;
+
+const imported: ImportedQuestion[] = [
+  {
+    text: "Which city is this?", type: "multiple-choice", options: ["Paris", "Rome", "Oslo"], correctAnswers: ["Paris"],
+    points: 2, timeLimitSeconds: 30, numericSettings: null, hint: "It has a tower", explanation: "It's Paris, <France>",
+    imageUrl: "https://example.com/paris.jpg"
+  },
+  {
+    text: "Pick the primes", type: "multi-select", options: ["2", "3", "4"], correctAnswers: ["2", "3"],
+    points: 1, timeLimitSeconds: null, numericSettings: null, hint: null, explanation: null, imageUrl: null
+  },
+  {
+    text: "The sun is a star", type: "true-false", options: ["True", "False"], correctAnswers: ["True"],
+    points: 1, timeLimitSeconds: null, numericSettings: null, hint: null, explanation: null, imageUrl: null
+  },
+  {
+    text: "Name a primary colour", type: "open-ended", options: [], correctAnswers: ["red", "blue"],
+    points: 1, timeLimitSeconds: null, numericSettings: null, hint: null, explanation: null, imageUrl: null
+  },
+  {
+    text: "Height of Everest", type: "numeric", options: [], correctAnswers: ["8849"],
+    points: 1, timeLimitSeconds: null, numericSettings: { unit: "m", tolerance: 10, min: 0, max: 10000 }, hint: null,
+    explanation: null, imageUrl: null
+  },
+  {
+    text: "Match the capitals", type: "matching", options: ["France", "Italy", "Rome", "Paris"], correctAnswers: ["Paris", "Rome"],
+    points: 1, timeLimitSeconds: null, numericSettings: null, hint: null, explanation: null, imageUrl: null
+  },
+  {
+    text: "Smallest first", type: "ordering", options: ["3", "1", "2"], correctAnswers: ["1", "2", "3"],
+    points: 1, timeLimitSeconds: null, numericSettings: null, hint: null, explanation: null, imageUrl: null
+  }
+];
+
+const questions = imported.map((question, index) => ({ ...question, id: index + 1, quizId: 1, order: index }) as Question);
+
+// Arranged questions come back with their items and matches shuffled
+const unshuffled = (question: ImportedQuestion): ImportedQuestion =>
+  question.type === "ordering" || question.type === "matching"
+    ? { ...question, options: [...question.options].sort() }
+    : question;
+
+function roundTrip(format: QuizFileFormat) {
+  const result = parseQuizFile(format, writeQuizFile(format, quiz, questions));
+  return { ...result, questions: result.questions.map(unshuffled) };
+}
+
+describe("quiz files", () => {
+  it("keep everything in the QzonMe format", () => {
+    expect(parseQuizFile("qzonme", writeQuizFile("qzonme", quiz, questions))).toEqual({ questions: imported, problems: [] });
+  });
+
+  it("keep everything in CSV", () => {
+    expect(roundTrip("csv")).toEqual({ questions: imported.map(unshuffled), problems: [] });
+  });
+
+  it("keep what Moodle XML can hold", () => {
+    expect(roundTrip("moodle-xml")).toEqual({
+      questions: imported.map(unshuffled).map(question => ({
+        ...question,
+        timeLimitSeconds: null,
+        numericSettings: question.numericSettings && { unit: "m", tolerance: 10 }
+      })),
+      problems: []
+    });
+  });
+
+  it("keep what GIFT can hold, leaving ordering questions out", () => {
+    expect(roundTrip("gift")).toEqual({
+      questions: imported.filter(question => question.type !== "ordering").map(unshuffled).map(question => ({
+        ...question,
+        points: 1,
+        timeLimitSeconds: null,
+        hint: null,
+        numericSettings: question.numericSettings && { tolerance: 10 }
+      })),
+      problems: []
+    });
+  });
+});
+
+describe("parseQuizFile", () => {
+  it("imports the questions that pass the publishing checks and says what's wrong with the rest", () => {
+    const result = parseQuizFile("qzonme", JSON.stringify({
+      format: "qzonme-quiz",
+      version: 1,
+      questions: [
+        imported[1],
+        { ...imported[0], correctAnswers: ["Berlin"] },
+        "not a question"
+      ]
+    }));
+
+    expect(result.questions).toEqual([imported[1]]);
+    expect(result.problems.map(problem => problem.location)).toEqual(["Question 2", "Question 3"]);
+  });
+
+  it("tells files from other apps and newer versions apart", () => {
+    expect(parseQuizFile("qzonme", "{").problems[0].message).toMatch(/^Not a valid JSON file/);
+    expect(parseQuizFile("qzonme", JSON.stringify({ format: "other", questions: [] })).problems)
+      .toEqual([{ location: "File", message: 'Not a QzonMe quiz file, its format is "other"' }]);
+    expect(parseQuizFile("qzonme", JSON.stringify({ version: 99, questions: [] })).problems)
+      .toEqual([{ location: "File", message: "This file is from a newer version of QzonMe" }]);
+  });
+
+  it("ignores a byte order mark", () => {
+    expect(parseQuizFile("csv", "\uFEFFtext,correct_answers\nName a colour,red").questions).toHaveLength(1);
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  shuffleForDisplay,
+  splitMatchingOptions,
+  type ImportedQuestion,
+  type Question,
+  type Quiz,
+  type QuizFileFormat,
+  type QuizImportResult
+} from "@shared/schema";
+import { secureQuestionContentSchema, secureQuizFileSchema } from "../validation";
+import { questionContentProblem } from "./questionRules";
+import { parseGift, writeGift } from "./giftFormat";
+import { parseMoodleXml, writeMoodleXml } from "./moodleXmlFormat";
+import { parseQuestionCsv, writeQuestionCsv } from "./questionCsvFormat";
+
+/**
+ * A question as read from a quiz file, before it is validated, or why it couldn't be read
+ */
+export type QuizFileEntry =
+  | { location: string; question: Record<string, unknown> }
+  | { location: string; problem: string };
+
+// What the QzonMe JSON format says about itself, so files from other apps are told apart
+const QZONME_FILE_FORMAT = "qzonme-quiz";
+const QZONME_FILE_VERSION = 1;
+
+// As many questions as a published quiz can have
+const MAX_IMPORTED_QUESTIONS = 100;
+
+// How each format is downloaded
+export const QUIZ_FILE_TYPES: Record<QuizFileFormat, { extension: string; contentType: string }> = {
+  qzonme: { extension: "json", contentType: "application/json" },
+  gift: { extension: "gift.txt", contentType: "text/plain; charset=utf-8" },
+  "moodle-xml": { extension: "xml", contentType: "application/xml" },
+  csv: { extension: "csv", contentType: "text/csv; charset=utf-8" }
+};
+
+// Fields of the QzonMe format, which are the question fields a creator supplies when publishing
+const questionFields = (question: Question): ImportedQuestion => ({
+  text: question.text,
+  type: question.type as ImportedQuestion["type"],
+  options: question.options as string[],
+  correctAnswers: question.correctAnswers as string[],
+  points: question.points,
+  timeLimitSeconds: question.timeLimitSeconds,
+  numericSettings: question.numericSettings as ImportedQuestion["numericSettings"],
+  hint: question.hint,
+  explanation: question.explanation,
+  imageUrl: question.imageUrl
+});
+
+function parseQzonMe(content: string): QuizFileEntry[] {
+  let file: unknown;
+  try {
+    file = JSON.parse(content);
+  } catch (error) {
+    return [{ location: "File", problem: `Not a valid JSON file: ${(error as Error).message}` }];
+  }
+
+  const parsed = secureQuizFileSchema.safeParse(file);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    return [{
+      location: "File",
+      problem: issue.path.length === 0 || issue.path[0] === "questions"
+        ? "Not a QzonMe quiz file, it has no list of questions"
+        : `Not a QzonMe quiz file: ${issue.path.join(".")}: ${issue.message}`
+    }];
+  }
+
+  const { format, version, questions } = parsed.data;
+  if (format !== undefined && format !== QZONME_FILE_FORMAT) {
+    return [{ location: "File", problem: `Not a QzonMe quiz file, its format is "${format}"` }];
+  }
+  if (version !== undefined && version > QZONME_FILE_VERSION) {
+    return [{ location: "File", problem: "This file is from a newer version of QzonMe" }];
+  }
+
+  return questions.map((question, index) => {
+    const location = `Question ${index + 1}`;
+    return question && typeof question === "object" && !Array.isArray(question)
+      ? { location, question: question as Record<string, unknown> }
+      : { location, problem: "Not a question" };
+  });
+}
+
+// The other formats only say what the right order is, so players get the items and matches shuffled
+function shuffleArranged(question: Record<string, unknown>): Record<string, unknown> {
+  const options = Array.isArray(question.options) ? question.options as string[] : [];
+  const correctAnswers = Array.isArray(question.correctAnswers) ? question.correctAnswers as string[] : [];
+  if (question.type === "ordering") {
+    return { ...question, options: shuffleForDisplay(correctAnswers) };
+  }
+  if (question.type === "matching") {
+    return { ...question, options: [...splitMatchingOptions(options).prompts, ...shuffleForDisplay(correctAnswers)] };
+  }
+  return question;
+}
+
+// The question as it would be published, or what is wrong with it
+function validateQuestion(fields: Record<string, unknown>): ImportedQuestion | string {
+  const parsed = secureQuestionContentSchema.safeParse(fields);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+  }
+
+  const problem = questionContentProblem(parsed.data);
+  if (problem) return problem;
+
+  const question = parsed.data;
+  return {
+    text: question.text,
+    type: question.type,
+    options: question.options,
+    correctAnswers: question.correctAnswers,
+    points: question.points ?? 1,
+    timeLimitSeconds: question.timeLimitSeconds ?? null,
+    numericSettings: question.numericSettings ?? null,
+    hint: question.hint?.trim() || null,
+    explanation: question.explanation || null,
+    imageUrl: question.imageUrl ?? null
+  };
+}
+
+/**
+ * The questions of a quiz file that pass the same checks as a published quiz's, in file order,
+ * and where and why the rest couldn't be imported
+ */
+export function parseQuizFile(format: QuizFileFormat, content: string): QuizImportResult {
+  const text = content.replace(/^\uFEFF/, "");
+  const entries = format === "gift" ? parseGift(text)
+    : format === "moodle-xml" ? parseMoodleXml(text)
+    : format === "csv" ? parseQuestionCsv(text)
+    : parseQzonMe(text);
+
+  const result: QuizImportResult = { questions: [], problems: [] };
+  for (const entry of entries) {
+    if ("problem" in entry) {
+      result.problems.push({ location: entry.location, message: entry.problem });
+      continue;
+    }
+
+    const question = validateQuestion(format === "qzonme" ? entry.question : shuffleArranged(entry.question));
+    if (typeof question === "string") {
+      result.problems.push({ location: entry.location, message: question });
+    } else if (result.questions.length >= MAX_IMPORTED_QUESTIONS) {
+      result.problems.push({ location: entry.location, message: `Only the first ${MAX_IMPORTED_QUESTIONS} questions can be imported` });
+    } else {
+      result.questions.push(question);
+    }
+  }
+  return result;
+}
+
+/**
+ * A quiz's questions as a file in the given format. The QzonMe format keeps everything; see the
+ * writers of the other formats for what they can't hold.
+ */
+export function writeQuizFile(format: QuizFileFormat, quiz: Quiz, questions: Question[]): string {
+  switch (format) {
+    case "gift":
+      return writeGift(questions);
+    case "moodle-xml":
+      return writeMoodleXml(questions);
+    case "csv":
+      return writeQuestionCsv(questions);
+    default:
+      return JSON.stringify({
+        format: QZONME_FILE_FORMAT,
+        version: QZONME_FILE_VERSION,
+        creatorName: quiz.creatorName,
+        questions: questions.map(questionFields)
+      }, null, 2) + "\n";
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { Question, Quiz } from "@shared/schema";
+import { applyTimeLimits, attemptDeadline, isPastDeadline, TIME_LIMIT_GRACE_MS } from "./timeLimits";
+
+const startedAt = new Date("2026-01-01T12:00:00Z");
+const later = (ms: number) => new Date(startedAt.getTime() + ms);
+
+function quiz(timeLimitMinutes: number | null): Quiz {
+  return { settings: { timeLimitMinutes } } as Quiz;
+}
+
+function question(id: number, timeLimitSeconds: number | null): Question {
+  return { id, timeLimitSeconds } as Question;
+}
+
+describe("attemptDeadline", () => {
+  it("is null when neither the quiz nor every question has a limit", () => {
+    expect(attemptDeadline(quiz(null), [question(1, 30), question(2, null)], startedAt)).toBeNull();
+    expect(attemptDeadline(quiz(null), [], startedAt)).toBeNull();
+  });
+
+  it("takes the quiz limit or the questions' limits added up, whichever is sooner", () => {
+    expect(attemptDeadline(quiz(2), [question(1, null)], startedAt)).toEqual(later(120_000));
+    expect(attemptDeadline(quiz(null), [question(1, 30), question(2, 20)], startedAt)).toEqual(later(50_000));
+    expect(attemptDeadline(quiz(1), [question(1, 45), question(2, 45)], startedAt)).toEqual(later(60_000));
+  });
+});
+
+describe("isPastDeadline", () => {
+  it("allows the grace period on top of the deadline", () => {
+    const session = { deadlineAt: later(60_000) };
+
+    expect(isPastDeadline(session, later(60_000 + TIME_LIMIT_GRACE_MS))).toBe(false);
+    expect(isPastDeadline(session, later(60_001 + TIME_LIMIT_GRACE_MS))).toBe(true);
+    expect(isPastDeadline({ deadlineAt: null }, later(1e9))).toBe(false);
+  });
+});
+
+describe("applyTimeLimits", () => {
+  const questions = [question(1, 10), question(2, null)];
+
+  it("flags answers received after the deadline, however late the attempt is submitted", () => {
+    const session = { deadlineAt: later(30_000) };
+    const answers = applyTimeLimits(questions, [
+      { questionId: 1, userAnswer: "a", timeMs: 5_000, answeredAt: later(5_000) },
+      { questionId: 2, userAnswer: "b", timeMs: 40_000, answeredAt: later(45_000) }
+    ], session);
+
+    expect(answers).toEqual([
+      { questionId: 1, userAnswer: "a", timeMs: 5_000 },
+      { questionId: 2, userAnswer: "b", timeMs: 40_000, timedOut: true }
+    ]);
+  });
+
+  it("flags answers over their question's limit, and untimed answers to limited questions", () => {
+    const session = { deadlineAt: null };
+    const answers = applyTimeLimits(questions, [
+      { questionId: 1, userAnswer: "a", timeMs: 10_000 + TIME_LIMIT_GRACE_MS + 1, answeredAt: later(20_000) },
+      { questionId: 1, userAnswer: "a", answeredAt: later(20_000) },
+      { questionId: 2, userAnswer: "b", answeredAt: later(20_000) }
+    ], session);
+
+    expect(answers.map(answer => answer.timedOut ?? false)).toEqual([true, true, false]);
+  });
+});
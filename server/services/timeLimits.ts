@@ -0,0 +1,66 @@
+import { randomBytes } from "crypto";
+import { resolveQuizSettings, type AttemptSession, type Question, type QuestionAnswer, type Quiz } from "@shared/schema";
+
+// Allowance on top of every limit for the network and slow devices
+export const TIME_LIMIT_GRACE_MS = 5_000;
+
+type SubmittedAnswer = Pick<QuestionAnswer, "questionId" | "userAnswer" | "timeMs" | "timedOut">;
+type ReceivedAnswer = SubmittedAnswer & { answeredAt: Date }; // When the server received it
+
+/**
+ * Unguessable token a player sends back with the answers of the attempt they started
+ */
+export function generateSessionToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+/**
+ * When an attempt started now has to be submitted: the quiz-wide limit, or the questions' limits
+ * added up when every question has one, whichever comes first. Null when the attempt is untimed.
+ */
+export function attemptDeadline(quiz: Quiz, questions: Question[], startedAt: Date): Date | null {
+  const limitsMs: number[] = [];
+
+  const { timeLimitMinutes } = resolveQuizSettings(quiz.settings);
+  if (timeLimitMinutes !== null) {
+    limitsMs.push(timeLimitMinutes * 60_000);
+  }
+  if (questions.length > 0 && questions.every(question => question.timeLimitSeconds !== null)) {
+    limitsMs.push(questions.reduce((sum, question) => sum + (question.timeLimitSeconds ?? 0) * 1000, 0));
+  }
+
+  return limitsMs.length > 0 ? new Date(startedAt.getTime() + Math.min(...limitsMs)) : null;
+}
+
+/**
+ * Whether the attempt's deadline, grace period included, had passed by the given time
+ */
+export function isPastDeadline(session: Pick<AttemptSession, "deadlineAt">, at: Date): boolean {
+  return !!session.deadlineAt && at.getTime() > session.deadlineAt.getTime() + TIME_LIMIT_GRACE_MS;
+}
+
+/**
+ * Flag the answers that came too late, so grading gives them nothing: an answer is late when the server
+ * received it after the attempt's deadline, or timed it, from showing the question to receiving the
+ * answer, at over its question's limit. When the attempt is submitted doesn't matter.
+ */
+export function applyTimeLimits(
+  questions: Question[],
+  answers: ReceivedAnswer[],
+  session: Pick<AttemptSession, "deadlineAt">
+): SubmittedAnswer[] {
+  const limits = new Map(questions.map(question => [question.id, question.timeLimitSeconds]));
+
+  return answers.map(answer => {
+    const limitSeconds = limits.get(answer.questionId) ?? null;
+    const overLimit = limitSeconds !== null
+      && (answer.timeMs === undefined || answer.timeMs > limitSeconds * 1000 + TIME_LIMIT_GRACE_MS);
+
+    return {
+      questionId: answer.questionId,
+      userAnswer: answer.userAnswer,
+      ...(answer.timeMs !== undefined && { timeMs: answer.timeMs }),
+      ...((isPastDeadline(session, answer.answeredAt) || overLimit) && { timedOut: true })
+    };
+  });
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import { buildXlsx } from "./xlsx";
+
+// Reads the workbook back with a maintained zip library, which checks every file's CRC
+async function unzip(workbook: Buffer): Promise<Record<string, string>> {
+  const archive = await JSZip.loadAsync(workbook, { checkCRC32: true });
+  const files: Record<string, string> = {};
+  for (const name of Object.keys(archive.files)) {
+    files[name] = await archive.files[name].async("string");
+  }
+  return files;
+}
+
+describe("buildXlsx", () => {
+  it("writes a zip holding the parts of a one-sheet workbook", async () => {
+    const files = await unzip(buildXlsx("Results", [["Player", "Score"], ["Amy", 3]]));
+
+    expect(Object.keys(files).sort()).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/_rels/workbook.xml.rels",
+      "xl/workbook.xml",
+      "xl/worksheets/sheet1.xml"
+    ]);
+    expect(files["xl/workbook.xml"]).toContain('<sheet name="Results" sheetId="1" r:id="rId1"/>');
+  });
+
+  it("writes each type of cell and escapes text", async () => {
+    const files = await unzip(buildXlsx("Results", [
+      ["Zoë <3 & \"quotes\"\u0007", 2.5, true, null, ""]
+    ]));
+    const sheet = files["xl/worksheets/sheet1.xml"];
+
+    expect(sheet).toContain('<c r="A1" t="inlineStr"><is><t xml:space="preserve">Zoë &lt;3 &amp; &quot;quotes&quot;</t></is></c>');
+    expect(sheet).toContain('<c r="B1"><v>2.5</v></c>');
+    expect(sheet).toContain('<c r="C1" t="b"><v>1</v></c>');
+    expect(sheet).not.toContain('r="D1"');
+    expect(sheet).not.toContain('r="E1"');
+  });
+
+  it("names columns past Z like a spreadsheet does", async () => {
+    const row = Array.from({ length: 28 }, (_, i) => i);
+    const sheet = (await unzip(buildXlsx("Results", [row])))["xl/worksheets/sheet1.xml"];
+
+    expect(sheet).toContain('<c r="Z1"><v>25</v></c>');
+    expect(sheet).toContain('<c r="AB1"><v>27</v></c>');
+  });
+
+  it("keeps sheet names within what spreadsheet apps accept", async () => {
+    const files = await unzip(buildXlsx("Results: 2026/03 [final] and a long tail", [[1]]));
+
+    expect(files["xl/workbook.xml"]).toContain('<sheet name="Results  2026 03  final  and a "');
+  });
+
+  it("round-trips a large sheet", async () => {
+    const rows = Array.from({ length: 2000 }, (_, i) => [`Player ${i}`, i, i % 2 === 0]);
+    const sheet = (await unzip(buildXlsx("Results", rows)))["xl/worksheets/sheet1.xml"];
+
+    expect(sheet.match(/<row /g)).toHaveLength(2000);
+    expect(sheet).toContain('<row r="2000"><c r="A2000" t="inlineStr"><is><t xml:space="preserve">Player 1999</t></is></c>');
+  });
+});
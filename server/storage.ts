@@ -2,10 +2,27 @@ import {
   users, type User, type InsertUser,
   quizzes, type Quiz, type InsertQuiz,
   questions, type Question, type InsertQuestion,
-  quizAttempts, type QuizAttempt, type InsertQuizAttempt
+  quizAttempts, type QuizAttempt, type QuizAttemptSummary, type InsertQuizAttempt,
+  attemptSessions, type AttemptSession, type InsertAttemptSession, type LifelineUse,
+  servedQuestions, type ServedQuestion
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, sql, isNull, isNotNull, lte, gt, desc, inArray, getTableColumns } from "drizzle-orm";
+import { generateQuizIdentifiers } from "./services/quizIdentifiers";
+
+// How many times publishing regenerates identifiers after a unique collision
+const MAX_IDENTIFIER_ATTEMPTS = 5;
+
+export type PublishQuizData = Omit<InsertQuiz, "accessCode" | "urlSlug" | "dashboardToken">;
+export type QuestionContent = Omit<InsertQuestion, "quizId" | "order">;
+export type QuizMetadataUpdate = Partial<Pick<InsertQuiz, "creatorName" | "settings">>;
+export type RescoredAttempt = Pick<QuizAttempt, "id" | "score" | "points" | "answers">;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === "23505";
+}
 
 // Add retry helper function
 async function withRetry<T>(operation: () => Promise<T>, maxRetries = 3): Promise<T> {
@@ -33,18 +50,57 @@ export interface IStorage {
   // Quiz operations
   getQuiz(id: number): Promise<Quiz | undefined>;
   getQuizByAccessCode(accessCode: string): Promise<Quiz | undefined>;
-  getQuizByUrlSlug(urlSlug: string): Promise<Quiz | undefined>;
+  getQuizByUrlSlug(urlSlug: string): Promise<Quiz | undefined>; // Case-insensitive
   getQuizByDashboardToken(token: string): Promise<Quiz | undefined>;
   createQuiz(quiz: InsertQuiz): Promise<Quiz>;
+  updateQuiz(quizId: number, update: QuizMetadataUpdate): Promise<Quiz | undefined>;
+  setQuizExpiry(quizId: number, expiresAt: Date): Promise<Quiz | undefined>;
+  publishQuiz(quiz: PublishQuizData, questions: QuestionContent[]): Promise<{ quiz: Quiz; questions: Question[] }>;
   
   // Question operations
+  getQuestionById(id: number): Promise<Question | undefined>;
   getQuestionsByQuizId(quizId: number): Promise<Question[]>;
   createQuestion(question: InsertQuestion): Promise<Question>;
   
+  // Post-publish question editing - each change bumps the quiz revision
+  addQuestion(quizId: number, question: QuestionContent): Promise<Question>;
+  updateQuestion(quizId: number, questionId: number, update: Partial<QuestionContent>): Promise<Question | undefined>;
+  deleteQuestion(quizId: number, questionId: number): Promise<boolean>;
+  reorderQuestions(quizId: number, questionIds: number[]): Promise<Question[] | undefined>;
+  
+  // Accepting a typed answer after the fact - rescored attempts are saved with it, without a new revision
+  acceptAnswers(quizId: number, questionId: number, correctAnswers: string[], rescored: RescoredAttempt[]): Promise<Question | undefined>;
+  
   // Quiz Attempt operations
-  getQuizAttempts(quizId: number): Promise<QuizAttempt[]>;
+  getAttemptById(id: number): Promise<QuizAttempt | undefined>;
+  getQuizAttempts(quizId: number, options?: { includeHidden?: boolean }): Promise<QuizAttempt[]>;
+  getQuizAttemptSummaries(quizId: number, options?: { includeHidden?: boolean }): Promise<QuizAttemptSummary[]>; // Same order, without the answers
+  getQuizAttemptsByIds(quizId: number, ids: number[]): Promise<QuizAttempt[]>;
+  countPlayerAttempts(quizId: number, playerId: string): Promise<number>;
   createQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt>;
   
+  // Attempt sessions - started before the first question so time limits use the server clock;
+  // a player has at most one open per quiz, and submitting closes it
+  openAttemptSession(session: InsertAttemptSession): Promise<AttemptSession>;
+  getOpenAttemptSession(quizId: number, playerId: string): Promise<AttemptSession | undefined>;
+  getAttemptSession(quizId: number, token: string): Promise<AttemptSession | undefined>; // Open sessions only
+  closeAttemptSession(sessionId: number): Promise<AttemptSession | undefined>;
+  getServedQuestions(sessionId: number): Promise<ServedQuestion[]>;
+  serveQuestion(sessionId: number, questionId: number): Promise<ServedQuestion>; // Keeps the first time it was shown
+  recordServedAnswer(sessionId: number, questionId: number, userAnswer: string | string[]): Promise<ServedQuestion | undefined>;
+  recordHintUsed(sessionId: number, questionId: number): Promise<boolean>;
+  recordLifelineUse(sessionId: number, use: LifelineUse): Promise<boolean>;
+  
+  // Creator deletions - soft until the undo window has passed, then purged
+  markQuizDeleted(quizId: number): Promise<void>;
+  restoreQuiz(dashboardToken: string, deletedSince: Date): Promise<Quiz | undefined>;
+  getQuizzesDeletedBefore(cutoff: Date): Promise<Quiz[]>;
+  purgeQuiz(quizId: number): Promise<void>;
+  setAttemptHidden(quizId: number, attemptId: number, hidden: boolean): Promise<QuizAttempt | undefined>;
+  markAttemptDeleted(quizId: number, attemptId: number): Promise<QuizAttempt | undefined>;
+  restoreAttempt(quizId: number, attemptId: number, deletedSince: Date): Promise<QuizAttempt | undefined>;
+  purgeAttemptsDeletedBefore(cutoff: Date): Promise<number>;
+  
   // Quiz expiration check
   isQuizExpired(quiz: Quiz): boolean;
 }
@@ -79,28 +135,32 @@ export class DatabaseStorage implements IStorage {
   // Quiz methods
   async getQuiz(id: number): Promise<Quiz | undefined> {
     return await withRetry(async () => {
-      const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, id));
+      const [quiz] = await db.select().from(quizzes).where(and(eq(quizzes.id, id), isNull(quizzes.deletedAt)));
       return quiz;
     });
   }
   
   async getQuizByAccessCode(accessCode: string): Promise<Quiz | undefined> {
     return await withRetry(async () => {
-      const [quiz] = await db.select().from(quizzes).where(eq(quizzes.accessCode, accessCode));
+      const [quiz] = await db.select().from(quizzes).where(and(eq(quizzes.accessCode, accessCode), isNull(quizzes.deletedAt)));
       return quiz;
     });
   }
   
   async getQuizByUrlSlug(urlSlug: string): Promise<Quiz | undefined> {
     return await withRetry(async () => {
-      const [quiz] = await db.select().from(quizzes).where(eq(quizzes.urlSlug, urlSlug));
+      // Matches the idx_quizzes_url_slug_lower index
+      const [quiz] = await db.select().from(quizzes).where(and(
+        sql`lower(${quizzes.urlSlug}) = lower(${urlSlug})`,
+        isNull(quizzes.deletedAt)
+      ));
       return quiz;
     });
   }
   
   async getQuizByDashboardToken(token: string): Promise<Quiz | undefined> {
     return await withRetry(async () => {
-      const [quiz] = await db.select().from(quizzes).where(eq(quizzes.dashboardToken, token));
+      const [quiz] = await db.select().from(quizzes).where(and(eq(quizzes.dashboardToken, token), isNull(quizzes.deletedAt)));
       return quiz;
     });
   }
@@ -129,7 +189,59 @@ export class DatabaseStorage implements IStorage {
     });
   }
   
+  // Create a quiz and all of its questions in one transaction, with server-minted identifiers.
+  // A collision on access code, slug or token rolls everything back and retries with fresh ones.
+  async publishQuiz(
+    quizData: PublishQuizData,
+    questionData: QuestionContent[]
+  ): Promise<{ quiz: Quiz; questions: Question[] }> {
+    if (!quizData.creatorName || !quizData.creatorName.trim()) {
+      throw new Error("Creator name is required");
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const identifiers = generateQuizIdentifiers(quizData.creatorName);
+
+      try {
+        return await db.transaction(async (tx) => {
+          const [quiz] = await tx.insert(quizzes).values({ ...quizData, ...identifiers }).returning();
+          const createdQuestions = await tx.insert(questions)
+            .values(questionData.map((question, index) => ({ ...question, quizId: quiz.id, order: index })))
+            .returning();
+
+          return { quiz, questions: createdQuestions };
+        });
+      } catch (error) {
+        if (!isUniqueViolation(error) || attempt >= MAX_IDENTIFIER_ATTEMPTS) {
+          throw error;
+        }
+        console.warn(`⚠️ Quiz identifier collision (attempt ${attempt}/${MAX_IDENTIFIER_ATTEMPTS}), regenerating...`);
+      }
+    }
+  }
+  
+  async updateQuiz(quizId: number, update: QuizMetadataUpdate): Promise<Quiz | undefined> {
+    return await withRetry(async () => {
+      const [quiz] = await db.update(quizzes).set(update).where(eq(quizzes.id, quizId)).returning();
+      return quiz;
+    });
+  }
+  
+  async setQuizExpiry(quizId: number, expiresAt: Date): Promise<Quiz | undefined> {
+    return await withRetry(async () => {
+      const [quiz] = await db.update(quizzes).set({ expiresAt }).where(eq(quizzes.id, quizId)).returning();
+      return quiz;
+    });
+  }
+  
   // Question methods
+  async getQuestionById(id: number): Promise<Question | undefined> {
+    return await withRetry(async () => {
+      const [question] = await db.select().from(questions).where(eq(questions.id, id));
+      return question;
+    });
+  }
+  
   async getQuestionsByQuizId(quizId: number): Promise<Question[]> {
     return await withRetry(async () => {
       return await db.select().from(questions).where(eq(questions.quizId, quizId)).orderBy(questions.order);
@@ -143,13 +255,171 @@ export class DatabaseStorage implements IStorage {
     });
   }
   
+  // Record that the quiz's questions changed, so new attempts can be told apart from older ones
+  private async bumpRevision(tx: Transaction, quizId: number): Promise<void> {
+    await tx.update(quizzes)
+      .set({ revision: sql`${quizzes.revision} + 1` })
+      .where(eq(quizzes.id, quizId));
+  }
+  
+  async addQuestion(quizId: number, content: QuestionContent): Promise<Question> {
+    return await db.transaction(async (tx) => {
+      const [{ nextOrder }] = await tx
+        .select({ nextOrder: sql<number>`coalesce(max(${questions.order}) + 1, 0)::int` })
+        .from(questions)
+        .where(eq(questions.quizId, quizId));
+      
+      const [question] = await tx.insert(questions)
+        .values({ ...content, quizId, order: nextOrder })
+        .returning();
+      
+      await this.bumpRevision(tx, quizId);
+      return question;
+    });
+  }
+  
+  async updateQuestion(quizId: number, questionId: number, update: Partial<QuestionContent>): Promise<Question | undefined> {
+    return await db.transaction(async (tx) => {
+      const [question] = await tx.update(questions)
+        .set(update)
+        .where(and(eq(questions.id, questionId), eq(questions.quizId, quizId)))
+        .returning();
+      
+      if (question) {
+        await this.bumpRevision(tx, quizId);
+      }
+      return question;
+    });
+  }
+  
+  async deleteQuestion(quizId: number, questionId: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const deleted = await tx.delete(questions)
+        .where(and(eq(questions.id, questionId), eq(questions.quizId, quizId)))
+        .returning({ id: questions.id });
+      
+      if (deleted.length === 0) {
+        return false;
+      }
+      
+      // Close the gap left in the question order
+      const remaining = await tx.select({ id: questions.id }).from(questions)
+        .where(eq(questions.quizId, quizId))
+        .orderBy(questions.order);
+      for (let index = 0; index < remaining.length; index++) {
+        await tx.update(questions).set({ order: index }).where(eq(questions.id, remaining[index].id));
+      }
+      
+      await this.bumpRevision(tx, quizId);
+      return true;
+    });
+  }
+  
+  // questionIds must contain every question of the quiz exactly once, in the new order
+  async reorderQuestions(quizId: number, questionIds: number[]): Promise<Question[] | undefined> {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select({ id: questions.id }).from(questions)
+        .where(eq(questions.quizId, quizId));
+      const existingIds = new Set(existing.map(q => q.id));
+      
+      if (questionIds.length !== existingIds.size || 
+          new Set(questionIds).size !== questionIds.length ||
+          !questionIds.every(id => existingIds.has(id))) {
+        return undefined;
+      }
+      
+      for (let index = 0; index < questionIds.length; index++) {
+        await tx.update(questions).set({ order: index }).where(eq(questions.id, questionIds[index]));
+      }
+      
+      await this.bumpRevision(tx, quizId);
+      return await tx.select().from(questions)
+        .where(eq(questions.quizId, quizId))
+        .orderBy(questions.order);
+    });
+  }
+  
+  async acceptAnswers(quizId: number, questionId: number, correctAnswers: string[], rescored: RescoredAttempt[]): Promise<Question | undefined> {
+    return await db.transaction(async (tx) => {
+      const [question] = await tx.update(questions)
+        .set({ correctAnswers })
+        .where(and(eq(questions.id, questionId), eq(questions.quizId, quizId)))
+        .returning();
+      
+      if (!question) {
+        return undefined;
+      }
+      
+      for (const attempt of rescored) {
+        await tx.update(quizAttempts)
+          .set({ score: attempt.score, points: attempt.points, answers: attempt.answers })
+          .where(and(eq(quizAttempts.id, attempt.id), eq(quizAttempts.quizId, quizId)));
+      }
+      return question;
+    });
+  }
+  
   // Quiz Attempt methods 
-  async getQuizAttempts(quizId: number): Promise<QuizAttempt[]> {
+  // Hidden attempts are still returned - hiding only affects the public leaderboard
+  async getAttemptById(id: number): Promise<QuizAttempt | undefined> {
+    return await withRetry(async () => {
+      const [attempt] = await db.select().from(quizAttempts)
+        .where(and(eq(quizAttempts.id, id), isNull(quizAttempts.deletedAt)));
+      return attempt;
+    });
+  }
+  
+  async getQuizAttempts(quizId: number, options: { includeHidden?: boolean } = {}): Promise<QuizAttempt[]> {
     return await withRetry(async () => {
       const result = await db.select().from(quizAttempts)
-        .where(eq(quizAttempts.quizId, quizId))
-        .orderBy(quizAttempts.score);
-      return result.reverse(); // Reverse to get highest scores first
+        .where(and(
+          eq(quizAttempts.quizId, quizId),
+          isNull(quizAttempts.deletedAt),
+          options.includeHidden ? undefined : isNull(quizAttempts.hiddenAt)
+        ))
+        // Same order as compareLeaderboardAttempts: most points, then the quickest, untimed attempts last
+        .orderBy(desc(quizAttempts.points), sql`${quizAttempts.totalTimeMs} asc nulls last`);
+      return result;
+    });
+  }
+
+  async getQuizAttemptSummaries(quizId: number, options: { includeHidden?: boolean } = {}): Promise<QuizAttemptSummary[]> {
+    return await withRetry(async () => {
+      const { answers, ...summaryColumns } = getTableColumns(quizAttempts);
+      const result = await db.select(summaryColumns).from(quizAttempts)
+        .where(and(
+          eq(quizAttempts.quizId, quizId),
+          isNull(quizAttempts.deletedAt),
+          options.includeHidden ? undefined : isNull(quizAttempts.hiddenAt)
+        ))
+        .orderBy(desc(quizAttempts.points), sql`${quizAttempts.totalTimeMs} asc nulls last`);
+      return result;
+    });
+  }
+
+  async getQuizAttemptsByIds(quizId: number, ids: number[]): Promise<QuizAttempt[]> {
+    if (ids.length === 0) return [];
+    return await withRetry(async () => {
+      const result = await db.select().from(quizAttempts)
+        .where(and(
+          eq(quizAttempts.quizId, quizId),
+          inArray(quizAttempts.id, ids),
+          isNull(quizAttempts.deletedAt)
+        ));
+      return result;
+    });
+  }
+  
+  // Hidden attempts count too, so a creator hiding one doesn't hand the player another go
+  async countPlayerAttempts(quizId: number, playerId: string): Promise<number> {
+    return await withRetry(async () => {
+      const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(quizAttempts)
+        .where(and(
+          eq(quizAttempts.quizId, quizId),
+          eq(quizAttempts.playerId, playerId),
+          isNull(quizAttempts.deletedAt)
+        ));
+      return count;
     });
   }
   
@@ -160,17 +430,201 @@ export class DatabaseStorage implements IStorage {
     });
   }
   
-  // Check if a quiz is expired (older than 7 days)
+  // Attempt session methods
+  async openAttemptSession(insertSession: InsertAttemptSession): Promise<AttemptSession> {
+    try {
+      const [session] = await db.insert(attemptSessions).values(insertSession).returning();
+      return session;
+    } catch (error) {
+      // Another start for the same player got there first, and its session is the open one
+      const open = isUniqueViolation(error) && insertSession.playerId
+        ? await this.getOpenAttemptSession(insertSession.quizId, insertSession.playerId)
+        : undefined;
+      if (!open) throw error;
+      return open;
+    }
+  }
+  
+  async getOpenAttemptSession(quizId: number, playerId: string): Promise<AttemptSession | undefined> {
+    return await withRetry(async () => {
+      const [session] = await db.select().from(attemptSessions)
+        .where(and(
+          eq(attemptSessions.quizId, quizId),
+          eq(attemptSessions.playerId, playerId),
+          isNull(attemptSessions.closedAt)
+        ));
+      return session;
+    });
+  }
+  
+  async getAttemptSession(quizId: number, token: string): Promise<AttemptSession | undefined> {
+    return await withRetry(async () => {
+      const [session] = await db.select().from(attemptSessions)
+        .where(and(
+          eq(attemptSessions.quizId, quizId),
+          eq(attemptSessions.token, token),
+          isNull(attemptSessions.closedAt)
+        ));
+      return session;
+    });
+  }
+  
+  async closeAttemptSession(sessionId: number): Promise<AttemptSession | undefined> {
+    return await withRetry(async () => {
+      // Checked and closed in one statement, so only one submission gets the session back
+      const [session] = await db.update(attemptSessions)
+        .set({ closedAt: new Date() })
+        .where(and(eq(attemptSessions.id, sessionId), isNull(attemptSessions.closedAt)))
+        .returning();
+      return session;
+    });
+  }
+  
+  async getServedQuestions(sessionId: number): Promise<ServedQuestion[]> {
+    return await withRetry(async () => {
+      return await db.select().from(servedQuestions).where(eq(servedQuestions.sessionId, sessionId));
+    });
+  }
+  
+  async serveQuestion(sessionId: number, questionId: number): Promise<ServedQuestion> {
+    return await withRetry(async () => {
+      const [served] = await db.insert(servedQuestions)
+        .values({ sessionId, questionId })
+        .onConflictDoNothing()
+        .returning();
+      if (served) return served;
+      
+      const [shownBefore] = await db.select().from(servedQuestions)
+        .where(and(eq(servedQuestions.sessionId, sessionId), eq(servedQuestions.questionId, questionId)));
+      return shownBefore;
+    });
+  }
+  
+  async recordServedAnswer(sessionId: number, questionId: number, userAnswer: string | string[]): Promise<ServedQuestion | undefined> {
+    return await withRetry(async () => {
+      // Only a question that was shown and is still open takes an answer, and only the first one
+      const [answered] = await db.update(servedQuestions)
+        .set({ answeredAt: new Date(), userAnswer: { value: userAnswer } })
+        .where(and(
+          eq(servedQuestions.sessionId, sessionId),
+          eq(servedQuestions.questionId, questionId),
+          isNull(servedQuestions.answeredAt)
+        ))
+        .returning();
+      return answered;
+    });
+  }
+  
+  async recordHintUsed(sessionId: number, questionId: number): Promise<boolean> {
+    return await withRetry(async () => {
+      // Appended in one statement, so revealing the same hint twice only records it once
+      const revealed = JSON.stringify([questionId]);
+      const recorded = await db.update(attemptSessions)
+        .set({
+          hintsUsed: sql`CASE WHEN ${attemptSessions.hintsUsed} @> ${revealed}::jsonb
+            THEN ${attemptSessions.hintsUsed} ELSE ${attemptSessions.hintsUsed} || ${revealed}::jsonb END`
+        })
+        .where(and(eq(attemptSessions.id, sessionId), isNull(attemptSessions.closedAt)))
+        .returning({ id: attemptSessions.id });
+      return recorded.length > 0;
+    });
+  }
+  
+  async recordLifelineUse(sessionId: number, use: LifelineUse): Promise<boolean> {
+    return await withRetry(async () => {
+      // Each lifeline only once per attempt, checked in the same statement that records it
+      const sameLifeline = JSON.stringify([{ lifeline: use.lifeline }]);
+      const recorded = await db.update(attemptSessions)
+        .set({ lifelines: sql`${attemptSessions.lifelines} || ${JSON.stringify([use])}::jsonb` })
+        .where(and(
+          eq(attemptSessions.id, sessionId),
+          isNull(attemptSessions.closedAt),
+          sql`NOT ${attemptSessions.lifelines} @> ${sameLifeline}::jsonb`
+        ))
+        .returning({ id: attemptSessions.id });
+      return recorded.length > 0;
+    });
+  }
+  
+  // Creator deletion methods
+  async markQuizDeleted(quizId: number): Promise<void> {
+    await withRetry(async () => {
+      await db.update(quizzes).set({ deletedAt: new Date() }).where(eq(quizzes.id, quizId));
+    });
+  }
+  
+  // Undo a deletion made after deletedSince; older deletions can no longer be restored
+  async restoreQuiz(dashboardToken: string, deletedSince: Date): Promise<Quiz | undefined> {
+    return await withRetry(async () => {
+      const [quiz] = await db.update(quizzes)
+        .set({ deletedAt: null })
+        .where(and(eq(quizzes.dashboardToken, dashboardToken), gt(quizzes.deletedAt, deletedSince)))
+        .returning();
+      return quiz;
+    });
+  }
+  
+  async getQuizzesDeletedBefore(cutoff: Date): Promise<Quiz[]> {
+    return await withRetry(async () => {
+      return await db.select().from(quizzes)
+        .where(and(isNotNull(quizzes.deletedAt), lte(quizzes.deletedAt, cutoff)));
+    });
+  }
+  
+  // Questions and attempts go with the quiz via ON DELETE CASCADE
+  async purgeQuiz(quizId: number): Promise<void> {
+    await withRetry(async () => {
+      await db.delete(quizzes).where(eq(quizzes.id, quizId));
+    });
+  }
+  
+  async setAttemptHidden(quizId: number, attemptId: number, hidden: boolean): Promise<QuizAttempt | undefined> {
+    return await withRetry(async () => {
+      const [attempt] = await db.update(quizAttempts)
+        .set({ hiddenAt: hidden ? new Date() : null })
+        .where(and(eq(quizAttempts.id, attemptId), eq(quizAttempts.quizId, quizId), isNull(quizAttempts.deletedAt)))
+        .returning();
+      return attempt;
+    });
+  }
+  
+  async markAttemptDeleted(quizId: number, attemptId: number): Promise<QuizAttempt | undefined> {
+    return await withRetry(async () => {
+      const [attempt] = await db.update(quizAttempts)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(quizAttempts.id, attemptId), eq(quizAttempts.quizId, quizId), isNull(quizAttempts.deletedAt)))
+        .returning();
+      return attempt;
+    });
+  }
+  
+  async restoreAttempt(quizId: number, attemptId: number, deletedSince: Date): Promise<QuizAttempt | undefined> {
+    return await withRetry(async () => {
+      const [attempt] = await db.update(quizAttempts)
+        .set({ deletedAt: null })
+        .where(and(
+          eq(quizAttempts.id, attemptId),
+          eq(quizAttempts.quizId, quizId),
+          gt(quizAttempts.deletedAt, deletedSince)
+        ))
+        .returning();
+      return attempt;
+    });
+  }
+  
+  async purgeAttemptsDeletedBefore(cutoff: Date): Promise<number> {
+    return await withRetry(async () => {
+      const purged = await db.delete(quizAttempts)
+        .where(and(isNotNull(quizAttempts.deletedAt), lte(quizAttempts.deletedAt, cutoff)))
+        .returning({ id: quizAttempts.id });
+      return purged.length;
+    });
+  }
+  
+  // Check if a quiz is past its stored expiry date
   isQuizExpired(quiz: Quiz): boolean {
-    if (!quiz || !quiz.createdAt) return true;
-    
-    const now = new Date();
-    const createdAt = new Date(quiz.createdAt);
-    const diffInMs = now.getTime() - createdAt.getTime();
-    const diffInDays = diffInMs / (1000 * 60 * 60 * 24);
-    
-    // Changed from 30 days to 7 days expiration policy
-    return diffInDays > 7;
+    if (!quiz || !quiz.expiresAt) return true;
+    return new Date() > new Date(quiz.expiresAt);
   }
 }
 
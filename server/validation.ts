@@ -1,4 +1,14 @@
 import { z } from "zod";
+import {
+  LIFELINES,
+  MAX_ARRANGE_ITEMS,
+  MAX_QUESTION_POINTS,
+  MAX_QUESTION_TIME_LIMIT_SECONDS,
+  MIN_QUESTION_TIME_LIMIT_SECONDS,
+  numericSettingsSchema,
+  quizSettingsSchema,
+  QUESTION_TYPES
+} from "@shared/schema";
 
 // Enhanced validation schemas with security considerations
 export const secureUserSchema = z.object({
@@ -6,26 +16,8 @@ export const secureUserSchema = z.object({
     .min(3, "Username must be at least 3 characters")
     .max(50, "Username must not exceed 50 characters")
     .regex(/^[a-zA-Z0-9_-]+$/, "Username can only contain letters, numbers, underscores, and hyphens")
-    .transform(str => str.trim())
-});
-
-export const secureQuizSchema = z.object({
-  creatorId: z.number().int().positive(),
-  creatorName: z.string()
-    .min(1, "Creator name is required")
-    .max(100, "Creator name must not exceed 100 characters")
     .transform(str => str.trim()),
-  accessCode: z.string()
-    .length(8, "Access code must be exactly 8 characters")
-    .regex(/^[a-z0-9]+$/, "Access code can only contain lowercase letters and numbers"),
-  urlSlug: z.string()
-    .min(5, "URL slug must be at least 5 characters")
-    .max(200, "URL slug must not exceed 200 characters")
-    .regex(/^[a-z0-9-]+$/, "URL slug can only contain lowercase letters, numbers, and hyphens"),
-  dashboardToken: z.string()
-    .min(10, "Dashboard token must be at least 10 characters")
-    .max(500, "Dashboard token must not exceed 500 characters"),
-  isAutoCreated: z.boolean().optional().default(false) // Allow tracking of auto-created quizzes
+  playerToken: z.string().max(1000).optional() // Kept by the device from an earlier visit
 });
 
 export const secureQuestionSchema = z.object({
@@ -34,28 +26,138 @@ export const secureQuestionSchema = z.object({
     .min(1, "Question text is required")
     .max(1000, "Question text must not exceed 1000 characters")
     .transform(str => str.trim()),
-  type: z.literal("multiple-choice"),
-  options: z.array(z.string().min(1).max(200)).min(2).max(10),
-  correctAnswers: z.array(z.string().min(1).max(200)).min(1),
+  type: z.enum(QUESTION_TYPES),
+  options: z.array(z.string().min(1).max(200)).max(MAX_ARRANGE_ITEMS * 2), // How many depends on the type, see questionContentProblem
+  correctAnswers: z.array(z.string().min(1).max(200)).min(1).max(20),
+  points: z.number().int().min(1).max(MAX_QUESTION_POINTS).optional(), // Defaults to 1
+  timeLimitSeconds: z.number().int()
+    .min(MIN_QUESTION_TIME_LIMIT_SECONDS)
+    .max(MAX_QUESTION_TIME_LIMIT_SECONDS)
+    .optional().nullable(), // No countdown when left out
+  numericSettings: numericSettingsSchema.optional().nullable(), // Numeric questions only
   hint: z.string().max(500).optional().nullable(),
+  explanation: z.string().trim().max(1000).optional().nullable(), // Shown in the review when answers are revealed
   order: z.number().int().min(0).max(1000),
   imageUrl: z.string().url().max(2000).optional().nullable()
 });
 
-export const secureQuizAttemptSchema = z.object({
-  quizId: z.number().int().positive(),
+// Question fields a creator supplies; quiz and position are decided by the server
+export const secureQuestionContentSchema = secureQuestionSchema.omit({ quizId: true, order: true });
+
+export const secureQuestionUpdateSchema = secureQuestionContentSchema.partial();
+
+export const secureQuestionOrderSchema = z.object({
+  questionIds: z.array(z.number().int().positive()).min(1).max(100)
+});
+
+export const secureQuizMetadataSchema = z.object({
+  creatorName: z.string()
+    .min(1, "Creator name is required")
+    .max(100, "Creator name must not exceed 100 characters")
+    .transform(str => str.trim())
+    .optional(),
+  settings: quizSettingsSchema.optional()
+});
+
+// A typed answer the creator accepts for an open-ended question after the fact
+export const secureAcceptedAnswerSchema = z.object({
+  answer: z.string()
+    .min(1, "Answer is required")
+    .max(200, "Answer must not exceed 200 characters")
+    .transform(str => str.trim())
+});
+
+export const secureAttemptVisibilitySchema = z.object({
+  hidden: z.boolean()
+});
+
+export const secureQuizExtensionSchema = z.object({
+  days: z.number().int().positive()
+});
+
+// One-shot publish: the quiz and all its questions in a single request.
+// Access code, slug and dashboard token are generated by the server.
+export const securePublishQuizSchema = z.object({
+  creatorId: z.number().int().positive(),
+  creatorName: z.string()
+    .min(1, "Creator name is required")
+    .max(100, "Creator name must not exceed 100 characters")
+    .transform(str => str.trim()),
+  isAutoCreated: z.boolean().optional().default(false),
+  settings: quizSettingsSchema.optional().default({}),
+  lifetimeDays: z.number().int().positive().optional(), // Checked against the admin-set bounds by the route
+  questions: z.array(secureQuestionContentSchema)
+    .min(1, "A quiz needs at least one question")
+    .max(100, "A quiz must not exceed 100 questions")
+});
+
+// Hands in a started attempt; the answers were given through /answer and scoring is always done on the server
+export const secureQuizSubmissionSchema = z.object({
   userAnswerId: z.number().int().positive(),
   userName: z.string()
     .min(1, "User name is required")
     .max(100, "User name must not exceed 100 characters")
     .transform(str => str.trim()),
-  score: z.number().int().min(0).max(1000),
-  totalQuestions: z.number().int().min(1).max(1000),
-  answers: z.array(z.object({
-    questionId: z.number().int().positive(),
-    userAnswer: z.union([z.string(), z.array(z.string())]),
-    isCorrect: z.boolean().optional()
-  })).min(1).max(1000)
+  sessionToken: z.string().min(1, "Start the quiz before submitting your answers").max(100), // From POST /api/quizzes/:quizId/start
+  playerToken: z.string().max(1000).optional() // From POST /api/users; must be the player who started the attempt
+});
+
+export const secureQuizStartSchema = z.object({
+  userAnswerId: z.number().int().positive(),
+  userName: z.string()
+    .min(1, "User name is required")
+    .max(100, "User name must not exceed 100 characters")
+    .transform(str => str.trim()), // An earlier attempt that ran out of time is handed in under this name
+  playerToken: z.string().max(1000).optional() // From POST /api/users, required to start
+});
+
+export const secureAnswerSchema = z.object({
+  questionId: z.number().int().positive(),
+  userAnswer: z.union([z.string().max(1000), z.array(z.string().max(1000)).max(50)]),
+  sessionToken: z.string().min(1).max(100) // Answers are recorded against a started attempt
+});
+
+export const secureHintRequestSchema = z.object({
+  questionId: z.number().int().positive(),
+  sessionToken: z.string().min(1).max(100) // Hints are recorded against a started attempt
+});
+
+export const secureLifelineRequestSchema = z.object({
+  lifeline: z.enum(LIFELINES),
+  questionId: z.number().int().positive(),
+  sessionToken: z.string().min(1).max(100) // Lifelines are recorded against a started attempt
+});
+
+export const secureLiveJoinSchema = z.object({
+  userAnswerId: z.number().int().positive(),
+  userName: z.string()
+    .min(1, "User name is required")
+    .max(100, "User name must not exceed 100 characters")
+    .transform(str => str.trim()),
+  playerToken: z.string().max(1000).optional() // From POST /api/users, required when attempts are limited
+});
+
+export const secureLiveAnswerSchema = z.object({
+  playerKey: z.string().min(1).max(100), // From joining the game
+  questionId: z.number().int().positive(),
+  userAnswer: z.union([z.string().max(1000), z.array(z.string().max(1000)).max(50)])
+});
+
+export const secureLiveAdvanceSchema = z.object({
+  hostKey: z.string().min(1).max(100) // From opening the game
+});
+
+// The outside of a QzonMe quiz file; its questions are validated one by one with secureQuestionContentSchema
+export const secureQuizFileSchema = z.object({
+  questions: z.array(z.unknown()),
+  format: z.string().optional(),
+  version: z.number().int().positive().optional(),
+  creatorName: z.string().optional()
+});
+
+// Legacy attempt payload - any client-sent score or correctness is discarded
+export const secureQuizAttemptSchema = secureQuizSubmissionSchema.extend({
+  quizId: z.number().int().positive()
 });
 
 // Sanitization functions
@@ -88,6 +190,7 @@ export const rateLimits = {
   createQuiz: { windowMs: 60 * 1000, maxRequests: 3 }, // 3 per minute
   uploadImage: { windowMs: 60 * 1000, maxRequests: 10 }, // 10 per minute
   submitQuizAttempt: { windowMs: 60 * 1000, maxRequests: 10 }, // 10 per minute
+  joinLiveRoom: { windowMs: 60 * 1000, maxRequests: 10 }, // 10 per minute
 };
 
 const requestCounts = new Map<string, { count: number; resetTime: number }>();
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, uniqueIndex, primaryKey, doublePrecision } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -12,6 +13,162 @@ export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
 });
 
+// Creator-controlled quiz behaviour, stored in quizzes.settings
+export const ANSWER_REVEAL_POLICIES = ["after-submit", "correctness-only", "never"] as const;
+export const MAX_TYPO_TOLERANCE = 3;
+export const MAX_QUIZ_TIME_LIMIT_MINUTES = 120;
+export const MAX_ATTEMPTS_PER_PLAYER = 10;
+// Which of a player's attempts the leaderboard shows
+export const LEADERBOARD_SCORE_POLICIES = ["best", "latest", "first"] as const;
+
+export const quizSettingsSchema = z.object({
+  // What players may see once they've submitted: the correct answers, only right/wrong, or nothing
+  answerReveal: z.enum(ANSWER_REVEAL_POLICIES).default("after-submit"),
+  // Multi-select questions earn a share of their point per correct choice instead of all or nothing
+  partialCredit: z.boolean().default(false),
+  // Typos forgiven in typed answers (edit distance); short answers are always matched more strictly
+  typoTolerance: z.number().int().min(0).max(MAX_TYPO_TOLERANCE).default(1),
+  // Accept "7" for "seven" and the other way round in typed answers
+  matchNumberWords: z.boolean().default(false),
+  // Quick right answers earn extra points on top of the question's points
+  speedBonus: z.boolean().default(false),
+  // Every player gets the questions, and the options within them, in an order of their own
+  shuffleQuestions: z.boolean().default(false),
+  shuffleOptions: z.boolean().default(false),
+  // Time allowed for the whole quiz, counted by the server from the moment the player starts; null for no limit
+  timeLimitMinutes: z.number().int().min(1).max(MAX_QUIZ_TIME_LIMIT_MINUTES).nullable().default(null),
+  // Share of a question's points, in percent, a player gives up by revealing its hint
+  hintPenaltyPercent: z.number().int().min(0).max(100).default(50),
+  // Lifelines a player may use once per attempt: remove two wrong options, or skip a question
+  fiftyFifty: z.boolean().default(false),
+  skipQuestion: z.boolean().default(false),
+  // Attempts each player (one device, see playerToken) may submit; null for unlimited
+  maxAttempts: z.number().int().min(1).max(MAX_ATTEMPTS_PER_PLAYER).nullable().default(null),
+  // The one attempt per player the leaderboard ranks
+  leaderboardScore: z.enum(LEADERBOARD_SCORE_POLICIES).default("best"),
+});
+
+export type QuizSettings = z.infer<typeof quizSettingsSchema>;
+export type AnswerRevealPolicy = QuizSettings["answerReveal"];
+export type LeaderboardScorePolicy = QuizSettings["leaderboardScore"];
+
+// Fill in defaults for settings stored before a field existed
+export function resolveQuizSettings(settings: unknown): QuizSettings {
+  const parsed = quizSettingsSchema.safeParse(settings ?? {});
+  return parsed.success ? parsed.data : quizSettingsSchema.parse({});
+}
+
+// Lifelines a player can use once per attempt, when the quiz enables them
+export const LIFELINES = ["fifty-fifty", "skip"] as const;
+export type Lifeline = typeof LIFELINES[number];
+
+// Lifelines a quiz offers its players
+export function quizLifelines(settings: QuizSettings): Lifeline[] {
+  return LIFELINES.filter(lifeline => lifeline === "skip" ? settings.skipQuestion : settings.fiftyFifty);
+}
+
+// A lifeline the server granted to a started attempt
+export interface LifelineUse {
+  lifeline: Lifeline;
+  questionId: number;
+  removedOptions?: string[]; // The wrong options a 50:50 took away
+}
+
+// Question types a creator can pick. True/false questions always have the options in TRUE_FALSE_OPTIONS;
+// multi-select questions can have several correct answers and players must pick all of them.
+// Open-ended questions have no options: players type an answer, matched against every accepted answer.
+// Ordering questions list the items in the order players first see them; correctAnswers holds the same
+// items in the right order. Matching questions list the prompts followed by as many choices, and
+// correctAnswers[i] is the choice that belongs to prompt i. Players answer both with an array of items.
+// Numeric questions have no options; their only correct answer is the target value and players guess a number.
+export const QUESTION_TYPES = ["multiple-choice", "true-false", "multi-select", "open-ended", "ordering", "matching", "numeric"] as const;
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+export const TRUE_FALSE_OPTIONS = ["True", "False"];
+
+// Most items to order, or pairs to match, in one question
+export const MAX_ARRANGE_ITEMS = 10;
+
+// Most points a creator can make a single question worth
+export const MAX_QUESTION_POINTS = 100;
+
+// Range of the countdown a creator can put on a single question
+export const MIN_QUESTION_TIME_LIMIT_SECONDS = 5;
+export const MAX_QUESTION_TIME_LIMIT_SECONDS = 600;
+
+/**
+ * Prompts and choices of a matching question, which are stored one after the other in its options
+ */
+export function splitMatchingOptions(options: string[]): { prompts: string[]; choices: string[] } {
+  const half = Math.floor(options.length / 2);
+  return { prompts: options.slice(0, half), choices: options.slice(half) };
+}
+
+/**
+ * Copy of the items in random order that differs from the given order whenever possible,
+ * so players never start out with a solved ordering or matching question
+ */
+export function shuffleForDisplay(items: string[]): string[] {
+  const solved = items.join("\n");
+  const canDiffer = new Set(items).size > 1;
+  let shuffled = [...items];
+  do {
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+  } while (canDiffer && shuffled.join("\n") === solved);
+  return shuffled;
+}
+
+// How a numeric question is asked and scored, stored in questions.numeric_settings
+export const numericSettingsSchema = z.object({
+  unit: z.string().trim().max(20).optional(), // Shown after the number, e.g. "km"
+  // Guesses at most this far from the target earn the full point; further off, the credit falls away
+  tolerance: z.number().min(0).default(0),
+  // Range of the answer slider; players can always type any number
+  min: z.number().optional(),
+  max: z.number().optional(),
+});
+
+export type NumericSettings = z.infer<typeof numericSettingsSchema>;
+
+// Defaults for a numeric question saved without settings
+export function resolveNumericSettings(settings: unknown): NumericSettings {
+  const parsed = numericSettingsSchema.safeParse(settings ?? {});
+  return parsed.success ? parsed.data : numericSettingsSchema.parse({});
+}
+
+/**
+ * Readable form of an answer (or of the correct answers) of a question, e.g. "A → B → C" for ordering questions
+ */
+export function formatAnswer(
+  question: { type: string; options: unknown; numericSettings?: unknown },
+  answer: string | string[] | null | undefined
+): string {
+  if (answer === null || answer === undefined || answer === "") return "";
+  if (question.type === "numeric") {
+    const { unit } = resolveNumericSettings(question.numericSettings);
+    const value = Array.isArray(answer) ? answer[0] : answer;
+    return unit ? `${value} ${unit}` : value;
+  }
+  if (!Array.isArray(answer)) return answer.toString();
+
+  if (question.type === "ordering") return answer.join(" → ");
+  if (question.type === "matching") {
+    const { prompts } = splitMatchingOptions(question.options as string[]);
+    return prompts.map((prompt, i) => `${prompt} → ${answer[i] ?? "?"}`).join(", ");
+  }
+  return answer.join(", ");
+}
+
+// Admin-set range for how many days a quiz stays available (served by GET /api/quiz-lifetime)
+export interface QuizLifetimeBounds {
+  minDays: number;
+  maxDays: number;
+  defaultDays: number;
+}
+
 // Quiz schema (enhanced for auto-create)
 export const quizzes = pgTable("quizzes", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -21,13 +178,21 @@ export const quizzes = pgTable("quizzes", {
   urlSlug: text("url_slug").notNull().unique(),
   dashboardToken: text("dashboard_token").notNull().unique(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(), // Chosen by the creator within the admin-set lifetime bounds
   // Auto-create specific fields
   isAutoGenerated: boolean("is_auto_generated").default(false),
   sourceType: text("source_type"), // 'document', 'link', 'youtube', 'topic', 'mixed'
   originalContent: text("original_content"), // Store original input for reference
   aiModel: text("ai_model"), // Track which AI model was used
   generationMetadata: jsonb("generation_metadata"), // Store generation settings
-});
+  settings: jsonb("settings").$type<Partial<QuizSettings>>().default({}).notNull(), // See quizSettingsSchema
+  revision: integer("revision").default(1).notNull(), // Bumped whenever the creator edits the questions after publishing
+  deletedAt: timestamp("deleted_at"), // Set when the creator deletes the quiz; purged once the undo window has passed
+}, (table) => [
+  // Slug lookups are case-insensitive
+  index("idx_quizzes_url_slug_lower").on(sql`lower(${table.urlSlug})`),
+  index("idx_quizzes_expires_at").on(table.expiresAt),
+]);
 
 export const insertQuizSchema = createInsertSchema(quizzes).omit({
   createdAt: true,
@@ -36,15 +201,21 @@ export const insertQuizSchema = createInsertSchema(quizzes).omit({
 // Question schema
 export const questions = pgTable("questions", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
-  quizId: integer("quiz_id").notNull(),
+  quizId: integer("quiz_id").notNull().references(() => quizzes.id, { onDelete: "cascade" }),
   text: text("text").notNull(),
-  type: text("type").notNull(), // Now only "multiple-choice"
-  options: jsonb("options").notNull(), // For multiple-choice: array of options
-  correctAnswers: jsonb("correct_answers").notNull(), // Array of correct answers
-  hint: text("hint"), // Keeping for backwards compatibility
+  type: text("type").notNull(), // One of QUESTION_TYPES
+  options: jsonb("options").notNull(), // Array of options to choose from; empty for open-ended questions, see QUESTION_TYPES
+  correctAnswers: jsonb("correct_answers").notNull(), // Array of correct answers (accepted answers for open-ended)
+  numericSettings: jsonb("numeric_settings"), // Unit, tolerance and slider range of numeric questions, null otherwise
+  points: integer("points").default(1).notNull(), // What a right answer is worth, before any speed bonus
+  timeLimitSeconds: integer("time_limit_seconds"), // Countdown for answering this question, null for no limit
+  hint: text("hint"), // Revealed on request while answering, at the quiz's hintPenaltyPercent
+  explanation: text("explanation"), // Why the answer is right, shown in the review after submitting
   order: integer("order").notNull(), // Question order in the quiz
   imageUrl: text("image_url"), // Added for storing image URLs for questions
-});
+}, (table) => [
+  index("idx_questions_quiz_id").on(table.quizId, table.order),
+]);
 
 export const insertQuestionSchema = createInsertSchema(questions).omit({
 });
@@ -52,24 +223,75 @@ export const insertQuestionSchema = createInsertSchema(questions).omit({
 // QuizAttempt schema
 export const quizAttempts = pgTable("quiz_attempts", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
-  quizId: integer("quiz_id").notNull(),
+  quizId: integer("quiz_id").notNull().references(() => quizzes.id, { onDelete: "cascade" }),
   userAnswerId: integer("user_answer_id").notNull(),
   userName: text("user_name").notNull(),
-  score: integer("score").notNull(),
+  playerId: text("player_id"), // From the player's signed token; null for attempts submitted without one
+  score: doublePrecision("score").notNull(), // Questions answered right; fractional with partial credit
   totalQuestions: integer("total_questions").notNull(),
+  points: doublePrecision("points").default(0).notNull(), // Points earned, weighted per question and with any speed bonus
+  maxPoints: integer("max_points").default(0).notNull(), // Points of all questions, without speed bonus
+  totalTimeMs: integer("total_time_ms"), // Time spent answering, breaks ties on the leaderboard; null if unknown
+  hintsUsed: integer("hints_used").default(0).notNull(), // Answers given after revealing the question's hint
+  lifelinesUsed: jsonb("lifelines_used").$type<Lifeline[]>().default([]).notNull(), // Which lifelines the player used, not where
+  startedAt: timestamp("started_at"), // When the server started the attempt, null for attempts submitted without starting
+  shuffle: jsonb("shuffle").$type<AttemptShuffle>(), // How this player's questions and options were shuffled, null if they weren't
   answers: jsonb("answers").notNull(), // Array of answers with question IDs
+  quizRevision: integer("quiz_revision").default(1).notNull(), // Quiz revision the attempt was taken against
+  hiddenAt: timestamp("hidden_at"), // Hidden from the public leaderboard by the creator
+  deletedAt: timestamp("deleted_at"), // Deleted by the creator; purged once the undo window has passed
   completedAt: timestamp("completed_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("idx_quiz_attempts_quiz_id").on(table.quizId),
+  index("idx_quiz_attempts_player").on(table.quizId, table.playerId),
+]);
 
 export const insertQuizAttemptSchema = createInsertSchema(quizAttempts).omit({
   completedAt: true,
 });
 
+// Issued when a player starts a quiz, so time limits are measured on the server clock
+export const attemptSessions = pgTable("attempt_sessions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  token: text("token").notNull().unique(), // Sent back with the submission
+  quizId: integer("quiz_id").notNull().references(() => quizzes.id, { onDelete: "cascade" }),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  deadlineAt: timestamp("deadline_at"), // End of the quiz-wide time limit as it was at the start, null for none
+  shuffle: jsonb("shuffle").$type<AttemptShuffle>(), // Copied onto the attempt when it is submitted
+  hintsUsed: jsonb("hints_used").$type<number[]>().default([]).notNull(), // Questions whose hint the player revealed
+  lifelines: jsonb("lifelines").$type<LifelineUse[]>().default([]).notNull(), // At most one use of each lifeline
+  playerId: text("player_id"), // From the signed token of the player who started it
+  closedAt: timestamp("closed_at"), // Submitted, or handed in after running out of time; null while open
+}, (table) => [
+  // One open attempt per player, so hints and lifelines can't be dodged by starting another
+  uniqueIndex("idx_attempt_sessions_open_player").on(table.quizId, table.playerId).where(sql`closed_at IS NULL`),
+]);
+
+export const insertAttemptSessionSchema = createInsertSchema(attemptSessions);
+
+// Questions handed to a player one at a time during a started attempt, timed on the server clock
+export const servedQuestions = pgTable("served_questions", {
+  sessionId: integer("session_id").notNull().references(() => attemptSessions.id, { onDelete: "cascade" }),
+  questionId: integer("question_id").notNull().references(() => questions.id, { onDelete: "cascade" }),
+  shownAt: timestamp("shown_at").defaultNow().notNull(),
+  answeredAt: timestamp("answered_at"), // Null while the question is still open
+  userAnswer: jsonb("user_answer").$type<{ value: string | string[] }>(), // Wrapped, so a bare "110" or "true" isn't read back as a number or boolean
+}, (table) => [
+  primaryKey({ columns: [table.sessionId, table.questionId] }),
+]);
+
 // Question Answer schema for validation
 export const questionAnswerSchema = z.object({
   questionId: z.number(),
   userAnswer: z.union([z.string(), z.array(z.string())]),
   isCorrect: z.boolean().optional(),
+  credit: z.number().optional(), // Share of the question's point earned, set by the server when grading
+  points: z.number().optional(), // Points earned, set by the server when grading
+  timeMs: z.number().optional(), // Time the player took to answer, measured by the server from showing the question
+  timedOut: z.boolean().optional(), // Set by the server when the answer came after the time limit and earned nothing
+  hintUsed: z.boolean().optional(), // Set by the server when the player revealed the question's hint first
+  fiftyFifty: z.boolean().optional(), // Set by the server when the player used the 50:50 on the question
+  skipped: z.boolean().optional(), // Set by the server when the player skipped the question; it doesn't count either way
 });
 
 // Type definitions
@@ -83,10 +305,232 @@ export type Question = typeof questions.$inferSelect;
 export type InsertQuestion = z.infer<typeof insertQuestionSchema>;
 
 export type QuizAttempt = typeof quizAttempts.$inferSelect;
+export type QuizAttemptSummary = Omit<QuizAttempt, "answers">; // Without the answers, for ranking many attempts
 export type InsertQuizAttempt = z.infer<typeof insertQuizAttemptSchema>;
 
+export type AttemptSession = typeof attemptSessions.$inferSelect;
+export type InsertAttemptSession = z.infer<typeof insertAttemptSessionSchema>;
+export type ServedQuestion = typeof servedQuestions.$inferSelect;
+
 export type QuestionAnswer = z.infer<typeof questionAnswerSchema>;
 
+// Leaderboard order: most points first, ties go to the quicker total answer time and untimed attempts come last
+export function compareLeaderboardAttempts(
+  a: Pick<QuizAttempt, "points" | "totalTimeMs">,
+  b: Pick<QuizAttempt, "points" | "totalTimeMs">
+): number {
+  if (a.points !== b.points) return b.points - a.points;
+  if (a.totalTimeMs === null || b.totalTimeMs === null) {
+    return Number(a.totalTimeMs === null) - Number(b.totalTimeMs === null);
+  }
+  return a.totalTimeMs - b.totalTimeMs;
+}
+
+// Shuffling applied to one attempt; the seed replays it, so results and the dashboard show what the player saw
+export interface AttemptShuffle {
+  seed: number;
+  questions: boolean;
+  options: boolean;
+}
+
+// Question types whose options can be shown in any order. Matching questions only shuffle their choices,
+// since answers are given per prompt. Ordering questions already start scrambled and true/false stays put.
+const SHUFFLED_OPTION_TYPES = ["multiple-choice", "multi-select"];
+
+// Random-looking but repeatable number for a value under a seed (FNV-1a, then the MurmurHash3 finalizer)
+function seededKey(seed: number, value: string): number {
+  let hash = (seed ^ 0x811c9dc5) >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+// Items sorted by their seeded key, so each keeps its place relative to the others when the list changes
+function seededOrder<T>(items: T[], seed: number, keyOf: (item: T) => string): T[] {
+  return items
+    .map(item => ({ item, key: seededKey(seed, keyOf(item)) }))
+    .sort((a, b) => a.key - b.key)
+    .map(({ item }) => item);
+}
+
+/**
+ * Questions in the order one player saw them, with their options in that player's order.
+ * Without a shuffle everything stays in stored order. Answers are options' values, never positions,
+ * so grading doesn't depend on any of this.
+ */
+export function arrangeQuestions<Q extends Pick<Question, "id" | "type" | "options">>(
+  questions: Q[],
+  shuffle: AttemptShuffle | null | undefined
+): Q[] {
+  if (!shuffle) return questions;
+  const { seed } = shuffle;
+
+  const ordered = shuffle.questions ? seededOrder(questions, seed, question => `question:${question.id}`) : questions;
+  if (!shuffle.options) return ordered;
+
+  return ordered.map(question => {
+    const options = question.options as string[];
+    const byValue = (option: string) => `option:${question.id}:${option}`;
+    if (SHUFFLED_OPTION_TYPES.includes(question.type)) {
+      return { ...question, options: seededOrder(options, seed, byValue) };
+    }
+    if (question.type === "matching") {
+      const { prompts, choices } = splitMatchingOptions(options);
+      return { ...question, options: [...prompts, ...seededOrder(choices, seed, byValue)] };
+    }
+    return question;
+  });
+}
+
+// What a quiz taker receives: no correct answers or explanations until the attempt is submitted, and only
+// whether there is a hint, which is fetched separately so revealing it can be recorded
+export type PlayerQuestion = Omit<Question, "correctAnswers" | "hint" | "explanation"> & { hasHint: boolean };
+export type PublicQuiz = Omit<Quiz, "dashboardToken">;
+
+// Where a player is in a started attempt: questions are handed out one at a time, in the player's order
+export interface AttemptProgress {
+  question: PlayerQuestion | null; // Null once every question has been answered
+  questionNumber: number; // Counting from 1
+  questionCount: number;
+  shownAt: string | null; // When the server first showed the question; its time limit counts from here
+}
+export type LeaderboardAttempt = Omit<QuizAttempt, "answers" | "playerId">;
+
+// Pushed to subscribers of a quiz's attempts whenever one is written: the whole list again, in the
+// same shape as the matching GET route - the public leaderboard, or every attempt on the dashboard.
+// "closed" is the last message once the quiz is deleted.
+export type LiveAttemptsMessage<A> =
+  | { type: "attempts"; data: A[]; serverTime: number }
+  | { type: "closed" };
+
+// Live hosted games: the host moves everyone from the lobby through each question and its reveal
+export const LIVE_ROOM_PHASES = ["lobby", "question", "reveal", "finished"] as const;
+export type LiveRoomPhase = typeof LIVE_ROOM_PHASES[number];
+
+export interface LiveStanding {
+  name: string;
+  points: number;
+}
+
+// How often an answer was given to a question; options of picked questions are counted one by one
+export interface AnswerCount {
+  answer: string | string[];
+  count: number;
+  correct: boolean;
+}
+
+interface LiveRoomStateBase {
+  pin: string;
+  quizId: number;
+  phase: LiveRoomPhase;
+  questionIndex: number; // -1 in the lobby
+  questionCount: number;
+  questionEndsAt: number | null; // On the server's clock, when the current question has a time limit
+  standings: LiveStanding[]; // Best first, counting the questions revealed so far
+  serverTime: number;
+}
+
+// Pushed to the host's screen whenever the room changes
+export interface LiveHostState extends LiveRoomStateBase {
+  question: Question | null;
+  players: { name: string; answered: boolean }[];
+  distribution: AnswerCount[] | null; // Once the question is revealed
+}
+
+// Pushed to each player's phone whenever the room changes
+export interface LivePlayerState extends LiveRoomStateBase {
+  question: PlayerQuestion | null;
+  answered: boolean; // This player handed in an answer to the current question
+  lastAnswerCorrect: boolean | null; // Once revealed, unless the quiz reveals nothing; null without an answer
+  correctAnswers: string[] | null; // Once revealed, when the quiz shows correct answers
+  points: number;
+  rank: number | null;
+  attemptId: number | null; // The player's quiz attempt, once the game is finished
+}
+
+export type LiveRoomMessage =
+  | { type: "host"; state: LiveHostState }
+  | { type: "player"; state: LivePlayerState }
+  | { type: "closed" };
+
+// Post-submission view of a question; correct answers and the explanation only present when the reveal policy allows it
+export type ReviewQuestion = PlayerQuestion & { correctAnswers?: string[]; explanation?: string | null };
+
+// A rejected typed answer close to an accepted one, shown to the creator so they can accept it
+export interface NearMissAnswer {
+  questionId: number;
+  questionText: string;
+  answer: string; // As the first player typed it
+  count: number; // Attempts that gave this answer, ignoring case, accents and punctuation
+  distance: number; // Typos away from the closest accepted answer
+}
+
+// File formats the creator can download the attempts in
+export const ATTEMPT_EXPORT_FORMATS = ["csv", "xlsx", "json"] as const;
+export type AttemptExportFormat = typeof ATTEMPT_EXPORT_FORMATS[number];
+
+// File formats a quiz's questions can be downloaded in and imported from, see server/services/quizTransfer
+export const QUIZ_FILE_FORMATS = ["qzonme", "gift", "moodle-xml", "csv"] as const;
+export type QuizFileFormat = typeof QUIZ_FILE_FORMATS[number];
+
+// A question read from a quiz file and validated like a published one, ready for the quiz editor
+export interface ImportedQuestion {
+  text: string;
+  type: QuestionType;
+  options: string[];
+  correctAnswers: string[];
+  points: number;
+  timeLimitSeconds: number | null;
+  numericSettings: NumericSettings | null;
+  hint: string | null;
+  explanation: string | null;
+  imageUrl: string | null;
+}
+
+// Part of a quiz file that couldn't be imported
+export interface QuizImportProblem {
+  location: string; // Where in the file, e.g. "Line 12", "Row 4" or "Question 3"
+  message: string;
+}
+
+export interface QuizImportResult {
+  questions: ImportedQuestion[];
+  problems: QuizImportProblem[];
+}
+
+// How one question went across every attempt, for the creator's analytics
+export interface QuestionAnalytics {
+  questionId: number;
+  answered: number; // Attempts that answered it, skips left out
+  correct: number;
+  skipped: number;
+  timedOut: number;
+  hintsUsed: number;
+  averageTimeMs: number | null; // Null when no answer has a recorded time
+  answers: AnswerCount[]; // Every option of picked questions; the most common answers otherwise
+}
+
+export interface ScoreBucket {
+  fromPercent: number;
+  toPercent: number; // Inclusive only for the last bucket
+  count: number;
+}
+
+// Aggregates over a quiz's attempts, hidden ones included, computed on the server
+export interface QuizAnalytics {
+  attemptCount: number;
+  averageScorePercent: number | null;
+  averageTimeMs: number | null; // Time spent answering a whole attempt
+  questions: QuestionAnalytics[]; // In quiz order
+  hardestQuestionIds: number[]; // Lowest share of correct answers first; unanswered questions left out
+  easiestQuestionIds: number[]; // Highest share first
+  scoreHistogram: ScoreBucket[];
+  attemptsPerDay: { date: string; count: number }[]; // UTC days, from the first attempt to the last
+}
+
 // Auto Create Usage Tracking schema
 export const autoCreateUsage = pgTable("auto_create_usage", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),